@@ -10,14 +10,45 @@ import { ManagerDashboard } from './components/dashboard/ManagerDashboard';
 import { Button } from './components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './components/ui/tabs';
-import { Shield, FileText, Users } from 'lucide-react';
+import { Shield, FileText, Users, Monitor } from 'lucide-react';
 import { Toaster } from './components/ui/sonner';
+import { toast } from 'sonner';
+import { MySessionsDialog } from './components/auth/MySessionsDialog';
+import { IdleTimeoutDialog } from './components/auth/IdleTimeoutDialog';
+import { ReauthDialog } from './components/auth/ReauthDialog';
+import {
+  readStoredSession,
+  clearStoredSession,
+  storeSessionTokens,
+  needsRefresh,
+  refreshStoredSession,
+  logoutSession,
+  recordActivity,
+  getIdlePolicy,
+  isIdleExpired,
+  getSessionEndReason,
+  DEFAULT_IDLE_POLICY,
+  REFRESH_MARGIN_MS,
+  SESSION_STORAGE_KEY,
+  IdlePolicy,
+  SessionEndReason
+} from './utils/session';
+import {
+  SettingsContext,
+  DEFAULT_SETTINGS,
+  fetchPublicSettings,
+  fetchSettings,
+  OrganisationSettings
+} from './utils/settings';
 
 interface User {
   id: string;
   email: string;
   name: string;
   role: 'auditor' | 'auditee' | 'manager';
+  requested_role?: string | null;
+  organisation_id?: string;
+  group_manager?: boolean;
 }
 
 export default function App() {
@@ -25,38 +56,96 @@ export default function App() {
   const [accessToken, setAccessToken] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [authMode, setAuthMode] = useState<'login' | 'signup'>('login');
+  const [sessionsOpen, setSessionsOpen] = useState(false);
+  // Set while the session is locked; the dashboard stays mounted behind the sign-in prompt
+  const [locked, setLocked] = useState<SessionEndReason | null>(null);
+  const [idlePolicy, setIdlePolicy] = useState<IdlePolicy>(DEFAULT_IDLE_POLICY);
+  const [settings, setSettings] = useState<OrganisationSettings>(DEFAULT_SETTINGS);
 
   useEffect(() => {
     checkUser();
+    fetchPublicSettings().then(loaded => loaded && setSettings(loaded));
   }, []);
 
+  // Signed-in users also need the department catalogue and confidential departments
+  useEffect(() => {
+    if (user && accessToken) {
+      fetchSettings(accessToken).then(loaded => loaded && setSettings(loaded));
+    }
+  }, [user?.id]);
+
+  // Refresh the OTP access token shortly before it expires. Timers are throttled in background tabs,
+  // so coming back to the tab checks again.
+  useEffect(() => {
+    const stored = readStoredSession();
+    if (!accessToken || stored?.token !== accessToken || !stored.expires_at) return;
+
+    const refresh = async () => {
+      const session = await refreshStoredSession(accessToken);
+      if (session) {
+        setAccessToken(session.token);
+      } else if (!readStoredSession()) {
+        lockSession('expired');
+      }
+    };
+    const onVisible = () => {
+      const current = readStoredSession();
+      if (document.visibilityState === 'visible' && current && needsRefresh(current)) refresh();
+    };
+    const timer = window.setTimeout(refresh, Math.max(0, stored.expires_at - REFRESH_MARGIN_MS - Date.now()));
+    document.addEventListener('visibilitychange', onVisible);
+    return () => {
+      window.clearTimeout(timer);
+      document.removeEventListener('visibilitychange', onVisible);
+    };
+  }, [accessToken]);
+
+  // Follow refreshes, locks, sign-ins and sign-outs made in other tabs
+  useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key !== SESSION_STORAGE_KEY || !user) return;
+      const stored = readStoredSession();
+      if (stored?.token) {
+        if (stored.user?.id !== user.id) {
+          window.location.reload();
+          return;
+        }
+        setAccessToken(stored.token);
+        setIdlePolicy(getIdlePolicy(stored));
+        setLocked(null);
+      } else if (!locked) {
+        const reason = getSessionEndReason();
+        if (reason === 'logout') {
+          endSession();
+        } else {
+          setSessionsOpen(false);
+          setLocked(reason);
+        }
+      }
+    };
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+  }, [user, locked]);
+
   const checkUser = async () => {
     try {
-      // Check for custom OTP session first
-      const storedSession = localStorage.getItem('aderm_session');
-      if (storedSession) {
-        try {
-          const sessionData = JSON.parse(storedSession);
-          const { token, user: storedUser, issued_at, expires_at } = sessionData;
-          
-          // Check if session is still valid
-          const now = Date.now();
-          const hasExpired = expires_at && now > expires_at;
-          
-          if (!hasExpired && token) {
-            // Try to fetch fresh profile with stored token
-            const success = await fetchUserProfile(token);
-            if (success) {
-              return; // Successfully loaded user from custom session
-            }
-          }
-          
-          // Session expired or invalid, remove it
-          localStorage.removeItem('aderm_session');
-        } catch (parseError) {
-          console.error('Error parsing stored session:', parseError);
-          localStorage.removeItem('aderm_session');
+      // Check for custom OTP session first, refreshing it if the access token has run out
+      const storedSession = readStoredSession();
+      if (storedSession?.token && isIdleExpired(getIdlePolicy(storedSession))) {
+        // Left idle past the timeout with the tab closed; there is no open page to restore
+        await logoutSession('idle');
+        await supabase.auth.signOut();
+        return;
+      }
+      if (storedSession?.token) {
+        const session = needsRefresh(storedSession) ? await refreshStoredSession(storedSession.token) : storedSession;
+        if (session && await fetchUserProfile(session.token)) {
+          setIdlePolicy(getIdlePolicy(session));
+          return; // Successfully loaded user from custom session
         }
+
+        // Session expired or invalid, remove it
+        clearStoredSession();
       }
 
       // Fallback to Supabase auth (for backward compatibility)
@@ -68,7 +157,7 @@ export default function App() {
       }
     } catch (error) {
       console.error('Error checking user session:', error);
-      localStorage.removeItem('aderm_session'); // Clean up on error
+      clearStoredSession(); // Clean up on error
     } finally {
       setLoading(false);
     }
@@ -97,30 +186,78 @@ export default function App() {
       console.error('Failed to fetch user profile:', response.status, response.statusText);
       setUser(null);
       setAccessToken(null);
-      localStorage.removeItem('aderm_session');
+      clearStoredSession();
       return false;
     } catch (error) {
       console.error('Error fetching user profile:', error);
       setUser(null);
       setAccessToken(null);
-      localStorage.removeItem('aderm_session');
+      clearStoredSession();
       return false;
     }
   };
 
+  // Drop back to the login screen when the session is gone, e.g. revoked from another device
+  const endSession = (message?: string) => {
+    clearStoredSession();
+    setSessionsOpen(false);
+    setLocked(null);
+    setUser(null);
+    setAccessToken(null);
+    setAuthMode('login');
+    if (message) toast.info(message);
+  };
+
+  // Lock instead of signing out so nothing on screen is lost: the server session is ended and the
+  // same user signs back in with a code from the prompt over the dashboard
+  const lockSession = async (reason: SessionEndReason) => {
+    setSessionsOpen(false);
+    setLocked(reason);
+    try {
+      await logoutSession(reason);
+      await supabase.auth.signOut();
+    } catch (error) {
+      console.error('Error ending locked session:', error);
+    }
+  };
+
+  // "Stay signed in" from the idle warning; OTP sessions also get a fresh access token
+  const extendSession = async (): Promise<boolean> => {
+    if (!accessToken?.startsWith('otp_session_')) return true;
+    const session = await refreshStoredSession(accessToken);
+    if (session) {
+      setAccessToken(session.token);
+      return true;
+    }
+    if (!readStoredSession()) {
+      lockSession('expired');
+    } else {
+      toast.error('Could not reach the server. Please try again.');
+    }
+    return false;
+  };
+
+  const handleReauthenticated = (data: any) => {
+    const session = storeSessionTokens(data, data.user);
+    recordActivity();
+    setIdlePolicy(getIdlePolicy(session));
+    setUser(data.user);
+    setAccessToken(session.token);
+    setLocked(null);
+    toast.success('Welcome back');
+  };
+
   const handleLogout = async () => {
     try {
-      // Clear custom session
-      localStorage.removeItem('aderm_session');
+      // End the custom session on the server as well as in this browser
+      await logoutSession();
       
       // Also clear Supabase auth (if any)
       await supabase.auth.signOut();
     } catch (error) {
       console.error('Error during logout:', error);
     } finally {
-      setUser(null);
-      setAccessToken(null);
-      setAuthMode('login');
+      endSession();
     }
   };
 
@@ -135,72 +272,79 @@ export default function App() {
     );
   }
 
+  // The organisation's logo when one is configured, otherwise the default shield
+  const brandMark = (className: string) => settings.logo_url
+    ? <img src={settings.logo_url} alt={settings.organisation_name} className={`${className} mr-2`} />
+    : <Shield className={`${className} text-blue-600 mr-2`} />;
+
   if (!user) {
     return (
-      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
-        <div className="w-full max-w-4xl mx-auto">
-          <div className="text-center mb-6">
-            <div className="flex items-center justify-center mb-4">
-              <Shield className="h-12 w-12 text-blue-600 mr-2" />
-              <h1 className="text-4xl font-bold text-gray-900">ADERM</h1>
+      <SettingsContext.Provider value={{ settings, setSettings }}>
+        <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
+          <div className="w-full max-w-4xl mx-auto">
+            <div className="text-center mb-6">
+              <div className="flex items-center justify-center mb-4">
+                {brandMark('h-12 w-12')}
+                <h1 className="text-4xl font-bold text-gray-900">{settings.product_name}</h1>
+              </div>
+              <p className="text-xl text-gray-600 mb-2">Audit Document Exchange & Request Management Platform</p>
+              <p className="text-gray-500">Secure, compliant, and efficient audit document management</p>
             </div>
-            <p className="text-xl text-gray-600 mb-2">Audit Document Exchange & Request Management Platform</p>
-            <p className="text-gray-500">Secure, compliant, and efficient audit document management</p>
-          </div>
 
-          <div className="grid md:grid-cols-2 gap-6 mb-6">
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center">
-                  <FileText className="h-5 w-5 mr-2 text-blue-600" />
-                  For Auditors
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <ul className="space-y-2 text-sm text-gray-600">
-                  <li>• Create and manage document requests</li>
-                  <li>• Track submission progress</li>
-                  <li>• Secure file storage and access</li>
-                  <li>• Complete audit trail</li>
-                </ul>
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center">
-                  <Users className="h-5 w-5 mr-2 text-green-600" />
-                  For Auditees
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <ul className="space-y-2 text-sm text-gray-600">
-                  <li>• View assigned requests</li>
-                  <li>• Upload documents securely</li>
-                  <li>• Add comments and context</li>
-                  <li>• Track submission status</li>
-                </ul>
-              </CardContent>
-            </Card>
-          </div>
+            <div className="grid md:grid-cols-2 gap-6 mb-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <FileText className="h-5 w-5 mr-2 text-blue-600" />
+                    For Auditors
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ul className="space-y-2 text-sm text-gray-600">
+                    <li>• Create and manage document requests</li>
+                    <li>• Track submission progress</li>
+                    <li>• Secure file storage and access</li>
+                    <li>• Complete audit trail</li>
+                  </ul>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <Users className="h-5 w-5 mr-2 text-green-600" />
+                    For Auditees
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ul className="space-y-2 text-sm text-gray-600">
+                    <li>• View assigned requests</li>
+                    <li>• Upload documents securely</li>
+                    <li>• Add comments and context</li>
+                    <li>• Track submission status</li>
+                  </ul>
+                </CardContent>
+              </Card>
+            </div>
 
-          <div className="max-w-md mx-auto">
-            <Tabs value={authMode} onValueChange={(value: string) => setAuthMode(value as 'login' | 'signup')}>
-              <TabsList className="grid w-full grid-cols-2">
-                <TabsTrigger value="login">Login</TabsTrigger>
-                <TabsTrigger value="signup">Sign Up</TabsTrigger>
-              </TabsList>
-              <TabsContent value="login">
-                <Login />
-              </TabsContent>
-              <TabsContent value="signup">
-                <Signup />
-              </TabsContent>
-            </Tabs>
+            <div className="max-w-md mx-auto">
+              <Tabs value={authMode} onValueChange={(value: string) => setAuthMode(value as 'login' | 'signup')}>
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="login">Login</TabsTrigger>
+                  <TabsTrigger value="signup">Sign Up</TabsTrigger>
+                </TabsList>
+                <TabsContent value="login">
+                  <Login />
+                </TabsContent>
+                <TabsContent value="signup">
+                  <Signup />
+                </TabsContent>
+              </Tabs>
+            </div>
           </div>
+          <Toaster />
         </div>
-        <Toaster />
-      </div>
+      </SettingsContext.Provider>
     );
   }
 
@@ -222,32 +366,62 @@ export default function App() {
   };
 
   return (
-    <div className="min-h-screen bg-gray-50">
-      <header className="bg-white shadow-sm border-b">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-          <div className="flex justify-between items-center h-16">
-            <div className="flex items-center">
-              <Shield className="h-8 w-8 text-blue-600 mr-2" />
-              <h1 className="text-2xl font-bold text-gray-900">ADERM</h1>
-            </div>
-            <div className="flex items-center space-x-4">
-              <div className="text-sm">
-                <span className="text-gray-500">Welcome,</span>
-                <span className="font-medium text-gray-900 ml-1">{user.name}</span>
-                <span className="text-gray-400 ml-1">({user.role})</span>
+    <SettingsContext.Provider value={{ settings, setSettings }}>
+      <div className="min-h-screen bg-gray-50">
+        <header className="bg-white shadow-sm border-b">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <div className="flex justify-between items-center h-16">
+              <div className="flex items-center">
+                {brandMark('h-8 w-8')}
+                <h1 className="text-2xl font-bold text-gray-900">{settings.product_name}</h1>
+              </div>
+              <div className="flex items-center space-x-4">
+                <div className="text-sm">
+                  <span className="text-gray-500">Welcome,</span>
+                  <span className="font-medium text-gray-900 ml-1">{user.name}</span>
+                  <span className="text-gray-400 ml-1">({user.role})</span>
+                </div>
+                {accessToken?.startsWith('otp_session_') && (
+                  <Button variant="ghost" onClick={() => setSessionsOpen(true)}>
+                    <Monitor className="h-4 w-4 mr-1" />
+                    Sessions
+                  </Button>
+                )}
+                <Button variant="outline" onClick={handleLogout}>
+                  Logout
+                </Button>
               </div>
-              <Button variant="outline" onClick={handleLogout}>
-                Logout
-              </Button>
             </div>
           </div>
-        </div>
-      </header>
+        </header>
 
-      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {renderDashboard()}
-      </main>
-      <Toaster />
-    </div>
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {renderDashboard()}
+        </main>
+        <IdleTimeoutDialog
+          policy={idlePolicy}
+          paused={!!locked}
+          onStaySignedIn={extendSession}
+          onSignOut={handleLogout}
+          onIdle={() => lockSession('idle')}
+        />
+        <ReauthDialog
+          open={!!locked}
+          email={user.email}
+          reason={locked || 'idle'}
+          onAuthenticated={handleReauthenticated}
+          onSignOut={handleLogout}
+        />
+        {accessToken && (
+          <MySessionsDialog
+            open={sessionsOpen}
+            onOpenChange={setSessionsOpen}
+            accessToken={accessToken}
+            onCurrentSessionRevoked={() => endSession('You have been signed out of this device.')}
+          />
+        )}
+        <Toaster />
+      </div>
+    </SettingsContext.Provider>
   );
 }
\ No newline at end of file
@@ -1,41 +1,183 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { Badge } from '../ui/badge';
 import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Button } from '../ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
-import { Filter, Search, Activity, User, FileText, Settings, Shield } from 'lucide-react';
+import { Filter, Search, Activity, User, FileText, Settings, Shield, ShieldCheck, ShieldAlert, RefreshCw, Download } from 'lucide-react';
+import { toast } from 'sonner';
 import { projectId } from '../../utils/supabase/info';
+import { useOrganisationSettings } from '../../utils/settings';
 
 interface AuditLog {
+  id: number;
   action: string;
   user_id: string;
   request_id?: string;
   document_id?: string;
+  department?: string | null;
   timestamp: string;
   details: any;
+  // Set when the details were withheld because the user cannot see the request's documents
+  details_redacted?: boolean;
+  hash?: string | null;
+}
+
+interface ChainVerification {
+  valid: boolean;
+  checked: number;
+  legacy_entries: number;
+  latest_id: number | null;
+  latest_hash: string | null;
+  broken_at: { id: number; reason: string } | null;
+  verified_at: string;
 }
 
 interface AuditLogsProps {
   accessToken: string;
 }
 
+const PAGE_SIZE = 50;
+
+// Every action the server records, for the action filter
+const AUDIT_ACTIONS = [
+  'audit_log_exported',
+  'auto_assigned_on_upload',
+  'auto_assigned_request',
+  'cc_updated',
+  'comment_added',
+  'comment_edited',
+  'document_uploaded',
+  'document_uploaded_sharepoint',
+  'engagement_created',
+  'engagement_deleted',
+  'engagement_updated',
+  'group_manager_granted',
+  'group_manager_revoked',
+  'item_status_updated',
+  'organisation_created',
+  'otp_lockout',
+  'overdue_escalated',
+  'reminder_sent',
+  'report_emailed',
+  'request_access_updated',
+  'request_created',
+  'request_submitted',
+  'role_request_approved',
+  'role_request_denied',
+  'session_revoked',
+  'settings_updated',
+  'sharepoint_upload_error',
+  'sharepoint_upload_summary',
+  'status_updated',
+  'user_created',
+  'user_deactivated',
+  'user_login_otp',
+  'user_logout',
+  'user_reactivated',
+  'user_role_changed',
+  'user_sessions_revoked'
+];
+
+const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
 export function AuditLogs({ accessToken }: AuditLogsProps) {
   const [logs, setLogs] = useState<AuditLog[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [actionFilter, setActionFilter] = useState<string>('all');
+  const { settings } = useOrganisationSettings();
+  const [departmentFilter, setDepartmentFilter] = useState<string>('all');
+  const [userInput, setUserInput] = useState('');
+  const [requestInput, setRequestInput] = useState('');
+  const [userFilter, setUserFilter] = useState('');
+  const [requestFilter, setRequestFilter] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [exporting, setExporting] = useState<string | null>(null);
+  const [verification, setVerification] = useState<ChainVerification | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  // Only the most recent fetch may update the list, so a slow response can't overwrite newer filters
+  const latestFetch = useRef(0);
 
   useEffect(() => {
-    fetchAuditLogs();
+    verifyChain();
   }, []);
 
-  const fetchAuditLogs = async () => {
+  // Wait for the user to stop typing before filtering by user or request
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      setUserFilter(userInput.trim());
+      setRequestFilter(requestInput.trim());
+    }, 400);
+    return () => clearTimeout(timeoutId);
+  }, [userInput, requestInput]);
+
+  useEffect(() => {
+    fetchAuditLogs(null);
+  }, [actionFilter, departmentFilter, userFilter, requestFilter, fromDate, toDate]);
+
+  const getFilterParams = () => {
+    const params = new URLSearchParams();
+    if (actionFilter !== 'all') params.set('action', actionFilter);
+    if (departmentFilter !== 'all') params.set('department', departmentFilter);
+    if (userFilter) params.set('user', userFilter);
+    if (requestFilter) params.set('request_id', requestFilter);
+    if (fromDate) params.set('from', fromDate);
+    if (toDate) params.set('to', toDate);
+    return params;
+  };
+
+  // Ask the server to recompute the hash chain over every entry
+  const verifyChain = async () => {
+    setVerifying(true);
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-fcebfd37/audit-logs/verify`, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        }
+      });
+
+      if (response.ok) {
+        setVerification(await response.json());
+      } else {
+        console.error('Failed to verify audit log chain');
+      }
+    } catch (error) {
+      console.error('Error verifying audit log chain:', error);
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  // Filtering and paging happen on the server; a cursor continues from the last page loaded
+  const fetchAuditLogs = async (cursor: number | null) => {
+    const fetchId = ++latestFetch.current;
+    const params = getFilterParams();
+    params.set('limit', String(PAGE_SIZE));
+    if (cursor) params.set('cursor', String(cursor));
+
+    if (cursor) {
+      setLoadingMore(true);
+    }
     try {
       // Add timeout to prevent hanging requests
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 15000); // 15 second timeout
 
-      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-fcebfd37/audit-logs`, {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-fcebfd37/audit-logs?${params}`, {
         headers: {
           'Authorization': `Bearer ${accessToken}`,
           'Content-Type': 'application/json'
@@ -44,12 +186,15 @@ export function AuditLogs({ accessToken }: AuditLogsProps) {
       });
 
       clearTimeout(timeoutId);
+      const data = await response.json();
+      if (fetchId !== latestFetch.current) return;
 
       if (response.ok) {
-        const data = await response.json();
-        setLogs(data.logs);
+        setLogs(prev => (cursor ? [...prev, ...data.logs] : data.logs));
+        setTotal(data.total);
+        setNextCursor(data.next_cursor);
       } else {
-        console.error('Failed to fetch audit logs');
+        console.error('Failed to fetch audit logs:', data.error);
       }
     } catch (error: any) {
       if (error.name === 'AbortError') {
@@ -58,7 +203,39 @@ export function AuditLogs({ accessToken }: AuditLogsProps) {
         console.error('Error fetching audit logs:', error);
       }
     } finally {
-      setLoading(false);
+      if (fetchId === latestFetch.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    }
+  };
+
+  // Download the whole filtered set along with its signed manifest
+  const exportAuditLogs = async (format: 'csv' | 'json') => {
+    setExporting(format);
+    try {
+      const params = getFilterParams();
+      params.set('format', format);
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-fcebfd37/audit-logs/export?${params}`, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        }
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        downloadFile(data.filename, data.content, format === 'csv' ? 'text/csv' : 'application/json');
+        downloadFile(data.filename.replace(/\.(csv|json)$/, '.manifest.json'), JSON.stringify(data.manifest, null, 2), 'application/json');
+        toast.success(`Exported ${data.manifest.entry_count} audit entries`);
+      } else {
+        toast.error(data.error || 'Failed to export audit logs');
+      }
+    } catch (error) {
+      console.error('Error exporting audit logs:', error);
+      toast.error('Failed to export audit logs');
+    } finally {
+      setExporting(null);
     }
   };
 
@@ -108,32 +285,81 @@ export function AuditLogs({ accessToken }: AuditLogsProps) {
   };
 
   const formatLogDetails = (log: AuditLog) => {
+    if (log.details_redacted) {
+      return "Details hidden: you do not have access to this request's documents";
+    }
     switch (log.action) {
       case 'user_created':
-        return `New ${log.details.role} account created for ${log.details.email}`;
+        return `New ${log.details.role} account created for ${log.details.email}${log.details.requested_role ? ` (requested ${log.details.requested_role} access)` : ''}`;
       case 'request_created':
-        return `Request "${log.details.title}" assigned to ${log.details.assigned_to_email}`;
+        return `Request "${log.details.title}" assigned to ${log.details.assigned_to_email}${log.details.confidentiality && log.details.confidentiality !== 'standard' ? ` (${log.details.confidentiality})` : ''}`;
       case 'document_uploaded':
         return `Document "${log.details.filename}" uploaded${log.details.comments ? ` with comments: "${log.details.comments}"` : ''}`;
       case 'status_updated':
-        return `Status changed from "${log.details.old_status}" to "${log.details.new_status}"`;
+        return `Status changed from "${log.details.old_status}" to "${log.details.new_status}"${log.details.rejection_reason ? ` — reason: "${log.details.rejection_reason}"` : ''}`;
+      case 'item_status_updated':
+        return `Checklist item "${log.details.item_description}" ${log.details.new_status}${log.details.note ? `: "${log.details.note}"` : ''}`;
+      case 'request_submitted':
+        return `Request submitted for review with ${log.details.document_count} document(s)`;
+      case 'reminder_sent':
+        return `${log.details.days_until_due < 0 ? `Overdue notice (${-log.details.days_until_due} day(s) late)` : log.details.days_until_due === 0 ? 'Due today reminder' : `Reminder: due in ${log.details.days_until_due} day(s)`} sent to ${log.details.recipients.join(', ')}`;
+      case 'comment_added':
+        return `${log.details.reply ? 'Reply' : 'Comment'} posted${log.details.mentions.length ? ` mentioning ${log.details.mentions.join(', ')}` : ''}`;
+      case 'comment_edited':
+        return `Comment edited (previously: "${log.details.previous_body}")`;
+      case 'request_access_updated':
+        return `Request access updated${log.details.old_confidentiality !== log.details.new_confidentiality ? ` — ${log.details.old_confidentiality} to ${log.details.new_confidentiality}` : ''}${Object.entries(log.details.changes || {}).map(([list, change]: [string, any]) => ` — ${list.replace('_', ' ')}${change.added.length ? ` added ${change.added.join(', ')}` : ''}${change.removed.length ? ` removed ${change.removed.join(', ')}` : ''}`).join('')}`;
+      case 'cc_updated':
+        return `CC recipients updated${log.details.added.length ? ` — added ${log.details.added.join(', ')}` : ''}${log.details.removed.length ? ` — removed ${log.details.removed.join(', ')}` : ''}`;
+      case 'engagement_created':
+        return `Engagement "${log.details.name}" (${log.details.period}) created, led by ${log.details.lead_auditor_email}`;
+      case 'engagement_updated':
+        return `Engagement "${log.details.name}" updated${log.details.old_status !== log.details.new_status ? ` — status "${log.details.old_status}" to "${log.details.new_status}"` : ''}`;
+      case 'engagement_deleted':
+        return `Engagement "${log.details.name}" (${log.details.period}) deleted`;
+      case 'overdue_escalated':
+        return `Escalated ${-log.details.days_until_due} day(s) overdue to ${log.details.recipients.join(', ')}`;
+      case 'user_role_changed':
+        return `Role of ${log.details.email} changed from ${log.details.old_role} to ${log.details.new_role}`;
+      case 'otp_lockout':
+        return `${log.details.purpose === 'signup' ? 'Signup' : 'Login'} codes for ${log.details.email} locked until ${new Date(log.details.locked_until).toLocaleString()} after repeated wrong guesses${log.details.scope === 'ip' ? ` from IP ${log.details.ip}` : ''} (lockout #${log.details.lockout_number})`;
+      case 'role_request_approved':
+        return `Approved ${log.details.requested_role} access for ${log.details.email}`;
+      case 'role_request_denied':
+        return `Denied ${log.details.requested_role} access for ${log.details.email}${log.details.reason ? ` — reason: "${log.details.reason}"` : ''}`;
+      case 'user_deactivated':
+        return `Account ${log.details.email} (${log.details.role}) deactivated`;
+      case 'user_reactivated':
+        return `Account ${log.details.email} (${log.details.role}) reactivated`;
+      case 'user_logout':
+        return 'Signed out';
+      case 'session_revoked':
+        return `Signed out ${log.details.device}${log.details.ip ? ` (IP ${log.details.ip})` : ''}${log.details.current ? ', the device in use' : ''}`;
+      case 'user_sessions_revoked':
+        return `Signed ${log.details.email} out of ${log.details.sessions_revoked} session${log.details.sessions_revoked === 1 ? '' : 's'}`;
+      case 'settings_updated':
+        return `Organisation settings changed: ${Object.keys(log.details.changes).join(', ')}`;
+      case 'organisation_created':
+        return `Organisation "${log.details.organisation_name}" added for ${log.details.allowed_email_domains.map((domain: string) => `@${domain}`).join(', ')}`;
+      case 'group_manager_granted':
+        return `Group manager access granted to ${log.details.email}`;
+      case 'group_manager_revoked':
+        return `Group manager access withdrawn from ${log.details.email}`;
+      case 'audit_log_exported':
+        return `Exported ${log.details.entry_count} audit entries as ${String(log.details.format).toUpperCase()} (SHA-256 ${String(log.details.content_sha256).slice(0, 12)}…)`;
       default:
         return JSON.stringify(log.details);
     }
   };
 
+  // The search box narrows the entries already loaded; the other filters run on the server
   const filteredLogs = logs.filter(log => {
-    const matchesAction = actionFilter === 'all' || log.action === actionFilter;
-    const matchesSearch = searchQuery === '' ||
+    return searchQuery === '' ||
       log.action.toLowerCase().includes(searchQuery.toLowerCase()) ||
       formatLogDetails(log).toLowerCase().includes(searchQuery.toLowerCase()) ||
       log.user_id.toLowerCase().includes(searchQuery.toLowerCase());
-    
-    return matchesAction && matchesSearch;
   });
 
-  const uniqueActions = [...new Set(logs.map(log => log.action))];
-
   if (loading) {
     return (
       <Card>
@@ -147,13 +373,36 @@ export function AuditLogs({ accessToken }: AuditLogsProps) {
   return (
     <Card>
       <CardHeader>
-        <CardTitle className="flex items-center gap-2">
+        <CardTitle className="flex items-center gap-2 flex-wrap">
           <Shield className="h-5 w-5" />
           Audit Trail
+          {verification && (verification.valid ? (
+            <Badge
+              className="bg-green-100 text-green-800 flex items-center gap-1"
+              title={`${verification.checked} chained entries verified at ${new Date(verification.verified_at).toLocaleString()}${verification.legacy_entries > 0 ? ` (${verification.legacy_entries} earlier entries predate chaining)` : ''}`}
+            >
+              <ShieldCheck className="h-3 w-3" />
+              Chain intact
+            </Badge>
+          ) : (
+            <Badge variant="destructive" className="flex items-center gap-1" title={verification.broken_at?.reason}>
+              <ShieldAlert className="h-3 w-3" />
+              Chain broken at entry #{verification.broken_at?.id}
+            </Badge>
+          ))}
+          <Button variant="ghost" size="sm" onClick={verifyChain} disabled={verifying} className="h-7 px-2 text-xs">
+            <RefreshCw className={`h-3 w-3 mr-1 ${verifying ? 'animate-spin' : ''}`} />
+            {verifying ? 'Verifying...' : 'Verify'}
+          </Button>
         </CardTitle>
         <p className="text-sm text-gray-600">
           Complete log of all system activities for compliance and security monitoring
         </p>
+        {verification && !verification.valid && verification.broken_at && (
+          <p className="text-sm text-red-700">
+            Entry #{verification.broken_at.id}: {verification.broken_at.reason}. Entries from this point on cannot be trusted.
+          </p>
+        )}
       </CardHeader>
       <CardContent className="space-y-4">
         {/* Filters */}
@@ -175,13 +424,54 @@ export function AuditLogs({ accessToken }: AuditLogsProps) {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Actions</SelectItem>
-                {uniqueActions.map(action => (
+                {AUDIT_ACTIONS.map(action => (
                   <SelectItem key={action} value={action}>
                     {getActionLabel(action)}
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
+            <Select value={departmentFilter} onValueChange={setDepartmentFilter}>
+              <SelectTrigger className="w-44">
+                <SelectValue placeholder="Filter by department" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Departments</SelectItem>
+                {settings.departments.map(dept => (
+                  <SelectItem key={dept} value={dept}>{dept}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="flex flex-col sm:flex-row sm:items-center gap-4 flex-wrap">
+          <Input
+            placeholder="User email or ID"
+            value={userInput}
+            onChange={(e) => setUserInput(e.target.value)}
+            className="sm:w-56"
+          />
+          <Input
+            placeholder="Request ID"
+            value={requestInput}
+            onChange={(e) => setRequestInput(e.target.value)}
+            className="sm:w-56"
+          />
+          <div className="flex items-center gap-2">
+            <Label htmlFor="auditFrom" className="text-sm text-gray-600 whitespace-nowrap">From</Label>
+            <Input id="auditFrom" type="date" value={fromDate} max={toDate || undefined} onChange={(e) => setFromDate(e.target.value)} className="w-40" />
+            <Label htmlFor="auditTo" className="text-sm text-gray-600">to</Label>
+            <Input id="auditTo" type="date" value={toDate} min={fromDate || undefined} onChange={(e) => setToDate(e.target.value)} className="w-40" />
+          </div>
+          <div className="flex items-center gap-2 sm:ml-auto">
+            <Button variant="outline" size="sm" onClick={() => exportAuditLogs('csv')} disabled={!!exporting}>
+              <Download className="h-4 w-4 mr-1" />
+              {exporting === 'csv' ? 'Exporting...' : 'Export CSV'}
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => exportAuditLogs('json')} disabled={!!exporting}>
+              <Download className="h-4 w-4 mr-1" />
+              {exporting === 'json' ? 'Exporting...' : 'Export JSON'}
+            </Button>
           </div>
         </div>
 
@@ -191,13 +481,13 @@ export function AuditLogs({ accessToken }: AuditLogsProps) {
             <div className="text-center py-8">
               <Activity className="h-12 w-12 text-gray-400 mx-auto mb-4" />
               <p className="text-gray-500">
-                {logs.length === 0 ? 'No audit logs available' : 'No logs match your current filters'}
+                {logs.length === 0 && getFilterParams().toString() === '' ? 'No audit logs available' : 'No logs match your current filters'}
               </p>
             </div>
           ) : (
-            filteredLogs.map((log, index) => (
+            filteredLogs.map((log) => (
               <div
-                key={index}
+                key={log.id}
                 className="flex items-start gap-3 p-4 border rounded-lg hover:bg-gray-50 transition-colors"
               >
                 <div className="flex-shrink-0 mt-1">
@@ -216,6 +506,7 @@ export function AuditLogs({ accessToken }: AuditLogsProps) {
                     {formatLogDetails(log)}
                   </p>
                   <div className="flex items-center gap-4 text-xs text-gray-500">
+                    <span>#{log.id}</span>
                     <span>User ID: {log.user_id.substring(0, 8)}...</span>
                     {log.request_id && (
                       <span>Request ID: {log.request_id}</span>
@@ -230,11 +521,19 @@ export function AuditLogs({ accessToken }: AuditLogsProps) {
           )}
         </div>
 
+        {nextCursor && (
+          <div className="flex justify-center">
+            <Button variant="outline" size="sm" onClick={() => fetchAuditLogs(nextCursor)} disabled={loadingMore}>
+              {loadingMore ? 'Loading...' : 'Load more'}
+            </Button>
+          </div>
+        )}
+
         {/* Summary */}
         <div className="border-t pt-4">
           <div className="flex justify-between items-center text-sm text-gray-600">
             <span>
-              Showing {filteredLogs.length} of {logs.length} audit entries
+              Showing {filteredLogs.length} of {total} audit entries
             </span>
             <span>
               Last updated: {logs.length > 0 ? new Date(logs[0].timestamp).toLocaleString() : 'N/A'}
@@ -0,0 +1,113 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Button } from '../ui/button';
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogDescription,
+  AlertDialogFooter
+} from '../ui/alert-dialog';
+import { Clock } from 'lucide-react';
+import { IdlePolicy, recordActivity, getLastActivity } from '../../utils/session';
+import { useOrganisationSettings } from '../../utils/settings';
+
+interface IdleTimeoutDialogProps {
+  policy: IdlePolicy;
+  paused: boolean;
+  onStaySignedIn: () => Promise<boolean>;
+  onSignOut: () => void;
+  onIdle: () => void;
+}
+
+const ACTIVITY_EVENTS = ['mousedown', 'mousemove', 'keydown', 'wheel', 'scroll', 'touchstart'];
+
+// Activity is written to localStorage at most this often
+const ACTIVITY_THROTTLE_MS = 5000;
+
+const formatCountdown = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+// Watches for keyboard and mouse activity in any tab, warns before the idle timeout runs out and
+// calls onIdle when it does. Once the warning is showing, only "Stay signed in" keeps the session.
+export function IdleTimeoutDialog({ policy, paused, onStaySignedIn, onSignOut, onIdle }: IdleTimeoutDialogProps) {
+  const [warning, setWarning] = useState(false);
+  const [secondsLeft, setSecondsLeft] = useState(policy.idle_warning_seconds);
+  const [extending, setExtending] = useState(false);
+  const { settings } = useOrganisationSettings();
+  const warningRef = useRef(false);
+  const lastRecorded = useRef(0);
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
+
+  useEffect(() => {
+    if (paused) return;
+
+    const onActivity = () => {
+      const now = Date.now();
+      if (warningRef.current || now - lastRecorded.current < ACTIVITY_THROTTLE_MS) return;
+      lastRecorded.current = now;
+      recordActivity(now);
+    };
+
+    const tick = () => {
+      const remaining = policy.idle_timeout_seconds * 1000 - (Date.now() - getLastActivity());
+      const showWarning = remaining > 0 && remaining <= policy.idle_warning_seconds * 1000;
+      warningRef.current = showWarning;
+      setWarning(showWarning);
+      if (showWarning) {
+        setSecondsLeft(Math.ceil(remaining / 1000));
+      } else if (remaining <= 0) {
+        onIdleRef.current();
+      }
+    };
+
+    recordActivity();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, onActivity, { passive: true }));
+    const timer = window.setInterval(tick, 1000);
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, onActivity));
+      window.clearInterval(timer);
+      warningRef.current = false;
+      setWarning(false);
+    };
+  }, [paused, policy.idle_timeout_seconds, policy.idle_warning_seconds]);
+
+  const handleStaySignedIn = async () => {
+    setExtending(true);
+    try {
+      if (await onStaySignedIn()) {
+        recordActivity();
+        warningRef.current = false;
+        setWarning(false);
+      }
+    } finally {
+      setExtending(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={warning && !paused}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5 text-orange-600" />
+            Are you still there?
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            For your security, {settings.product_name} locks after {Math.round(policy.idle_timeout_seconds / 60)} minutes without activity.
+            Your session will lock in <span className="font-medium text-gray-900">{formatCountdown(secondsLeft)}</span>.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <Button variant="outline" onClick={onSignOut} disabled={extending}>
+            Sign out
+          </Button>
+          <Button onClick={handleStaySignedIn} disabled={extending}>
+            {extending ? 'Extending…' : 'Stay signed in'}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
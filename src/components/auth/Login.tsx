@@ -6,6 +6,8 @@ import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { Alert, AlertDescription } from '../ui/alert';
 import { Mail, KeyRound, Shield } from 'lucide-react';
 import { projectId, publicAnonKey } from '@/utils/supabase/info';
+import { storeSessionTokens, recordActivity } from '@/utils/session';
+import { useOrganisationSettings, isEmailAddress, exampleEmail, fetchPublicSettings } from '@/utils/settings';
 
 type Step = 'email' | 'otp';
 
@@ -17,14 +19,13 @@ export default function Login() {
   const [err, setErr] = useState<string | null>(null);
   const [info, setInfo] = useState<string | null>(null);
   const [resendCountdown, setResendCountdown] = useState(0); // seconds
+  const { settings, setSettings } = useOrganisationSettings();
 
   const baseUrl = useMemo(
     () => `https://zuwibzghvggscfqhfhnz.supabase.co/functions/v1/make-server-fcebfd37`,
     []
   );
 
-  const ecobankRegex = /^[^\s@]+@ecobank\.com$/i;
-
   useEffect(() => {
     console.log('Login component mounted');
     if (resendCountdown <= 0) return;
@@ -38,7 +39,8 @@ export default function Login() {
 
     const emailTrim = email.trim();
     if (!emailTrim) return setErr('Enter your email address.');
-    if (!ecobankRegex.test(emailTrim)) return setErr('Use your @ecobank.com address.');
+    // The server checks the domain; the sign-in page does not know which domains are allowed
+    if (!isEmailAddress(emailTrim)) return setErr('Enter a valid email address.');
 
     try {
       setLoading(true);
@@ -60,12 +62,19 @@ export default function Login() {
         } else {
           setErr(data?.error || 'Failed to send login code.');
         }
+        // Rate limited: wait out the server's cooldown before offering to resend
+        if (resp.status === 429 && data?.retry_after) {
+          setResendCountdown(data.retry_after);
+        }
         return;
       }
 
       setStep('otp');
       setInfo(`We sent a 6-digit code to ${emailTrim}.`);
-      setResendCountdown(60); // throttle per minute
+      // The server lengthens the cooldown after each resend
+      setResendCountdown(data?.resend_after || 60);
+      // Show the user's own organisation's branding and code expiry
+      fetchPublicSettings(emailTrim).then(loaded => loaded && setSettings(loaded));
     } catch (e: any) {
       console.error('send-otp error:', e);
       setErr('Failed to send login code.');
@@ -100,25 +109,23 @@ export default function Login() {
 
       if (!resp.ok) {
         setErr(data?.error || 'Invalid or expired code.');
+        // Locked out: the code has been discarded, so a new one can be requested once the lockout ends
+        if (resp.status === 429) {
+          setOtp('');
+          setResendCountdown(data?.retry_after || 60);
+        }
         return;
       }
 
-      // Expecting: { success: true, user: { id, email, name, role }, session_token }
+      // Expecting: { success: true, user: { id, email, name, role }, session_token, refresh_token, expires_at, refresh_expires_at }
       const { user, session_token } = data || {};
       if (!user?.id || !session_token) {
         setErr('Unexpected server response.');
         return;
       }
 
-      // Store your custom session (KV-backed) – adjust as needed
-      localStorage.setItem(
-        'aderm_session',
-        JSON.stringify({
-          token: session_token,
-          user,
-          issued_at: Date.now(),
-        })
-      );
+      storeSessionTokens(data, user);
+      recordActivity();
 
       // Reload the page to trigger the App component's authentication check
       // This will properly render the appropriate dashboard based on user role
@@ -142,7 +149,7 @@ export default function Login() {
         <CardHeader className="text-center">
           <div className="flex items-center justify-center mb-2">
             <Shield className="h-10 w-10 text-blue-600 mr-2" />
-            <h1 className="text-3xl font-bold text-gray-900">ADERM</h1>
+            <h1 className="text-3xl font-bold text-gray-900">{settings.product_name}</h1>
           </div>
           <CardTitle className="text-lg text-gray-600">
             {step === 'email' ? 'Sign in with your work email' : 'Enter the 6-digit code'}
@@ -168,7 +175,7 @@ export default function Login() {
                 <Input
                   id="email"
                   type="email"
-                  placeholder="your.name@ecobank.com"
+                  placeholder={exampleEmail(settings, 'your.name')}
                   value={email}
                   onChange={(e) => setEmail(e.target.value)}
                   autoComplete="email"
@@ -179,7 +186,7 @@ export default function Login() {
                 {loading ? 'Sending…' : 'Send login code'}
               </Button>
               <p className="text-xs text-gray-500 text-center">
-                Only @ecobank.com emails are allowed.
+                Use your work email address.
               </p>
             </div>
           ) : (
@@ -213,12 +220,12 @@ export default function Login() {
                   Resend code
                 </button>
                 {resendCountdown > 0 && (
-                  <span>Resend available in {resendCountdown}s</span>
+                  <span>Resend available in {formatCountdown(resendCountdown)}</span>
                 )}
               </div>
 
               <p className="text-xs text-gray-500 text-center">
-                Code expires in 10 minutes. Don’t share it with anyone.
+                Code expires in {settings.otp_expiry_minutes} minutes. Don’t share it with anyone.
               </p>
             </div>
           )}
@@ -236,3 +243,8 @@ async function safeJson(resp: Response) {
     return null;
   }
 }
+
+// Cooldowns can run to several minutes after repeated resends or a lockout
+function formatCountdown(seconds: number) {
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+}
@@ -0,0 +1,149 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '../ui/dialog';
+import { Monitor, LogOut } from 'lucide-react';
+import { toast } from 'sonner';
+import { projectId } from '../../utils/supabase/info';
+
+interface SessionSummary {
+  id: string;
+  login_method: string;
+  device: string;
+  user_agent: string | null;
+  ip: string | null;
+  created_at: string;
+  last_seen_at: string;
+  expires_at: string;
+  current: boolean;
+}
+
+interface MySessionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accessToken: string;
+  onCurrentSessionRevoked: () => void;
+}
+
+// Every device the user is signed in on, with a way to sign any of them out
+export function MySessionsDialog({ open, onOpenChange, accessToken, onCurrentSessionRevoked }: MySessionsDialogProps) {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const baseUrl = `https://${projectId}.supabase.co/functions/v1/make-server-fcebfd37/sessions`;
+
+  useEffect(() => {
+    if (open) {
+      fetchSessions();
+    }
+  }, [open]);
+
+  const fetchSessions = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(baseUrl, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        }
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setSessions(data.sessions);
+      } else {
+        console.error('Failed to fetch sessions:', data.error);
+      }
+    } catch (error) {
+      console.error('Error fetching sessions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const revokeSession = async (session: SessionSummary) => {
+    if (session.current && !confirm('Sign out of this device?')) return;
+    setRevokingId(session.id);
+    try {
+      const response = await fetch(`${baseUrl}/${session.id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        }
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        if (session.current) {
+          onCurrentSessionRevoked();
+          return;
+        }
+        setSessions(prev => prev.filter(entry => entry.id !== session.id));
+        toast.success(`Signed out ${session.device}`);
+      } else {
+        toast.error(data.error || 'Failed to sign out the session');
+      }
+    } catch (error) {
+      console.error('Error revoking session:', error);
+      toast.error('Failed to sign out the session');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>My Sessions</DialogTitle>
+          <DialogDescription>
+            Devices currently signed in to your account. Sign out any you don't recognise.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : sessions.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-8">
+            No signed-in devices. Sessions from a Supabase sign-in are not listed here.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {sessions.map(session => (
+              <div key={session.id} className="flex justify-between items-center gap-4 p-3 border rounded-lg">
+                <div className="flex items-start gap-3">
+                  <Monitor className="h-5 w-5 text-gray-500 mt-1" />
+                  <div>
+                    <p className="font-medium flex items-center gap-2">
+                      {session.device}
+                      {session.current && <Badge className="bg-green-100 text-green-800">This device</Badge>}
+                    </p>
+                    <p className="text-xs text-gray-500" title={session.user_agent || undefined}>
+                      IP {session.ip || 'unknown'} · Signed in {new Date(session.created_at).toLocaleString()}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      Last active {new Date(session.last_seen_at).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => revokeSession(session)}
+                  disabled={revokingId === session.id}
+                >
+                  <LogOut className="h-4 w-4 mr-1" />
+                  Sign out
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,177 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Alert, AlertDescription } from '../ui/alert';
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogDescription,
+  AlertDialogFooter
+} from '../ui/alert-dialog';
+import { Lock, Mail, KeyRound } from 'lucide-react';
+import { projectId, publicAnonKey } from '../../utils/supabase/info';
+import { SessionEndReason } from '../../utils/session';
+
+interface ReauthDialogProps {
+  open: boolean;
+  email: string;
+  reason: SessionEndReason;
+  onAuthenticated: (data: any) => void;
+  onSignOut: () => void;
+}
+
+const formatCountdown = (seconds: number) =>
+  seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+
+// Covers the locked app and signs the same user back in with an emailed code. The dashboard stays
+// mounted underneath, so the open tab and any half-filled dialog are still there afterwards.
+export function ReauthDialog({ open, email, reason, onAuthenticated, onSignOut }: ReauthDialogProps) {
+  const [codeSent, setCodeSent] = useState(false);
+  const [otp, setOtp] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [resendCountdown, setResendCountdown] = useState(0);
+
+  const baseUrl = `https://${projectId}.supabase.co/functions/v1/make-server-fcebfd37`;
+
+  useEffect(() => {
+    if (!open) {
+      setCodeSent(false);
+      setOtp('');
+      setError(null);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (resendCountdown <= 0) return;
+    const timer = setInterval(() => setResendCountdown(seconds => seconds - 1), 1000);
+    return () => clearInterval(timer);
+  }, [resendCountdown]);
+
+  const postAuth = async (path: string, body: Record<string, string>) => {
+    const response = await fetch(`${baseUrl}/${path}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${publicAnonKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(body)
+    });
+    const data = await response.json().catch(() => null);
+    return { response, data };
+  };
+
+  const sendCode = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const { response, data } = await postAuth('send-otp', { email });
+      if (response.ok) {
+        setCodeSent(true);
+        setResendCountdown(data?.resend_after || 60);
+      } else {
+        setError(data?.error || 'Failed to send a sign-in code');
+        if (response.status === 429 && data?.retry_after) {
+          setResendCountdown(data.retry_after);
+        }
+      }
+    } catch (err) {
+      console.error('Error sending re-authentication code:', err);
+      setError('Failed to send a sign-in code');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const verifyCode = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const { response, data } = await postAuth('verify-login-otp', { email, otp });
+      if (response.ok && data?.session_token) {
+        onAuthenticated(data);
+      } else {
+        setError(data?.error || 'Invalid or expired code');
+        if (response.status === 429) {
+          setOtp('');
+          setResendCountdown(data?.retry_after || 60);
+        }
+      }
+    } catch (err) {
+      console.error('Error verifying re-authentication code:', err);
+      setError('Failed to verify the code');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={open}>
+      <AlertDialogContent overlayClassName="bg-gray-50">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <Lock className="h-5 w-5 text-blue-600" />
+            {reason === 'idle' ? 'Session locked' : 'Session expired'}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {reason === 'idle'
+              ? 'You were signed out after a period of inactivity.'
+              : 'Your session has ended.'}{' '}
+            Sign in again as <span className="font-medium text-gray-900">{email}</span> to continue where you left off.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {codeSent && (
+          <div className="space-y-2">
+            <Label htmlFor="reauth-otp">6-digit code</Label>
+            <Input
+              id="reauth-otp"
+              inputMode="numeric"
+              placeholder="123456"
+              value={otp}
+              onChange={(e) => setOtp(e.target.value.replace(/\D/g, '').slice(0, 6))}
+              autoFocus
+            />
+            <div className="flex items-center justify-between text-sm text-gray-600">
+              <button
+                type="button"
+                className="underline disabled:no-underline disabled:text-gray-400"
+                onClick={sendCode}
+                disabled={resendCountdown > 0 || loading}
+              >
+                Resend code
+              </button>
+              {resendCountdown > 0 && <span>Resend available in {formatCountdown(resendCountdown)}</span>}
+            </div>
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <Button variant="outline" onClick={onSignOut} disabled={loading}>
+            Sign in as someone else
+          </Button>
+          {codeSent ? (
+            <Button onClick={verifyCode} disabled={loading || otp.length !== 6}>
+              <KeyRound className="h-4 w-4 mr-2" />
+              {loading ? 'Verifying…' : 'Verify & Continue'}
+            </Button>
+          ) : (
+            <Button onClick={sendCode} disabled={loading || resendCountdown > 0}>
+              <Mail className="h-4 w-4 mr-2" />
+              {loading ? 'Sending…' : 'Email me a code'}
+            </Button>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -9,6 +9,7 @@ import { InputOTP, InputOTPGroup, InputOTPSlot } from '../ui/input-otp';
 import { UserPlus, Mail, Shield } from 'lucide-react';
 import { toast } from 'sonner'; // Fixed: Remove version number
 import { publicAnonKey } from '../../utils/supabase/info';
+import { useOrganisationSettings, isEmailAddress, exampleEmail, fetchPublicSettings } from '../../utils/settings';
 
 type Step = 'form' | 'otp';
 
@@ -28,12 +29,12 @@ export function Signup(_props: SignupProps) {
   const [info, setInfo] = useState<string | null>(null);
   const [otpSent, setOtpSent] = useState(false);
   const [resendCountdown, setResendCountdown] = useState(0);
+  const { settings, setSettings } = useOrganisationSettings();
 
   const baseUrl = useMemo(
     () => `https://zuwibzghvggscfqhfhnz.supabase.co/functions/v1/make-server-fcebfd37`,
     []
   );
-  const ecobankRegex = /^[^\s@]+@ecobank\.com$/i;
 
   useEffect(() => {
     console.log('Signup component mounted');
@@ -55,8 +56,9 @@ export function Signup(_props: SignupProps) {
       setErr('Please fill in email, full name, and role.');
       return;
     }
-    if (!ecobankRegex.test(emailTrim)) {
-      setErr('Please use your Ecobank email address (@ecobank.com).');
+    // The server checks the domain; the sign-up page does not know which domains are allowed
+    if (!isEmailAddress(emailTrim)) {
+      setErr('Please enter a valid work email address.');
       return;
     }
 
@@ -82,6 +84,10 @@ export function Signup(_props: SignupProps) {
         } else {
           setErr(data?.error || 'Failed to send verification code.');
         }
+        // Rate limited: wait out the server's cooldown before offering to resend
+        if (resp.status === 429 && data?.retry_after) {
+          setResendCountdown(data.retry_after);
+        }
         return;
       }
 
@@ -89,8 +95,11 @@ export function Signup(_props: SignupProps) {
       setOtpSent(true);
       setStep('otp');
       setInfo(`We sent a 6-digit code to ${emailTrim}.`);
-      setResendCountdown(60);
+      // The server lengthens the cooldown after each resend
+      setResendCountdown(data?.resend_after || 60);
       toast.success('OTP sent to your email.');
+      // Show the new account's organisation's branding and code expiry
+      fetchPublicSettings(emailTrim).then(loaded => loaded && setSettings(loaded));
     } catch (e: any) {
       console.error('send-signup-otp error:', e);
       setErr('Network error. Please check your connection and try again.');
@@ -112,8 +121,9 @@ export function Signup(_props: SignupProps) {
       setErr('Please fill in email, full name, and role.');
       return;
     }
-    if (!ecobankRegex.test(emailTrim)) {
-      setErr('Please use your Ecobank email address (@ecobank.com).');
+    // The server checks the domain; the sign-up page does not know which domains are allowed
+    if (!isEmailAddress(emailTrim)) {
+      setErr('Please enter a valid work email address.');
       return;
     }
     if (code.length !== 6 || !/^\d{6}$/.test(code)) {
@@ -141,8 +151,13 @@ export function Signup(_props: SignupProps) {
       const data = await safeJson(resp);
 
       if (!resp.ok) {
-        if (resp.status === 400) {
-          setErr('Invalid or expired code. Please try again.');
+        if (resp.status === 429) {
+          // Locked out: the code has been discarded, so a new one can be requested once the lockout ends
+          setErr(data?.error || 'Too many attempts. Please wait before trying again.');
+          setOtp('');
+          setResendCountdown(data?.retry_after || 60);
+        } else if (resp.status === 400) {
+          setErr(data?.error || 'Invalid or expired code. Please try again.');
         } else if (resp.status === 409) {
           setErr('Account already exists. Please try logging in.');
         } else {
@@ -151,7 +166,11 @@ export function Signup(_props: SignupProps) {
         return;
       }
 
-      toast.success('Account created successfully! You can log in now.');
+      if (data?.user?.requested_role) {
+        toast.success(`Account created! Your request for ${data.user.requested_role} access is awaiting manager approval. You can log in now with auditee access.`);
+      } else {
+        toast.success('Account created successfully! You can log in now.');
+      }
       
       // Add small delay before redirect
       setTimeout(() => {
@@ -183,7 +202,7 @@ export function Signup(_props: SignupProps) {
       <CardHeader>
         <CardTitle className="flex items-center">
           <UserPlus className="h-5 w-5 mr-2" />
-          Create ADERM Account
+          Create {settings.product_name} Account
         </CardTitle>
       </CardHeader>
       <CardContent>
@@ -208,7 +227,7 @@ export function Signup(_props: SignupProps) {
                 value={email}
                 onChange={(e) => setEmail(e.target.value)}
                 onKeyPress={(e) => handleKeyPress(e, () => sendSignupOtp())}
-                placeholder="your.email@ecobank.com"
+                placeholder={exampleEmail(settings, 'your.email')}
                 autoComplete="email"
                 disabled={loading || otpSent}
                 required
@@ -242,6 +261,12 @@ export function Signup(_props: SignupProps) {
                   <SelectItem value="manager">Manager/Head</SelectItem>
                 </SelectContent>
               </Select>
+              {(role === 'auditor' || role === 'manager') && (
+                <p className="text-xs text-amber-700">
+                  {role === 'auditor' ? 'Internal Auditor' : 'Manager'} access must be approved by an existing manager.
+                  Until then your account will have auditee access, and you will be emailed once your request has been reviewed.
+                </p>
+              )}
             </div>
 
             <Button 
@@ -285,7 +310,7 @@ export function Signup(_props: SignupProps) {
                     </InputOTPGroup>
                   </InputOTP>
                 </div>
-                <p className="text-xs text-gray-500 text-center">Code expires in 10 minutes.</p>
+                <p className="text-xs text-gray-500 text-center">Code expires in {settings.otp_expiry_minutes} minutes.</p>
               </div>
 
               <Button
@@ -307,7 +332,7 @@ export function Signup(_props: SignupProps) {
               >
                 Resend code
               </button>
-              {resendCountdown > 0 && <span>Resend available in {resendCountdown}s</span>}
+              {resendCountdown > 0 && <span>Resend available in {formatCountdown(resendCountdown)}</span>}
             </div>
 
             <Button
@@ -342,4 +367,9 @@ async function safeJson(resp: Response) {
     console.error('Failed to parse JSON:', error);
     return null;
   }
-}
\ No newline at end of file
+}
+
+// Cooldowns can run to several minutes after repeated resends or a lockout
+function formatCountdown(seconds: number) {
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+}
@@ -10,6 +10,7 @@ interface User {
   email: string;
   name: string;
   role: string;
+  requested_role?: string | null;
 }
 
 interface Request {
@@ -21,6 +22,7 @@ interface Request {
   created_by: string;
   assigned_to: string;
   assigned_to_email: string;
+  progress?: { total: number; open: number; provided: number; approved: number; rejected: number; percent_complete: number } | null;
   created_at: string;
   updated_at: string;
 }
@@ -99,7 +101,15 @@ export function AuditeeDashboard({ user, accessToken }: AuditeeDashboardProps) {
     });
   };
 
+  // Checklist items still needing a document from the auditee
+  const getOutstandingItems = () => {
+    return requests
+      .filter(r => r.status !== 'approved' && r.status !== 'cancelled')
+      .reduce((sum, r) => sum + (r.progress?.open || 0) + (r.progress?.rejected || 0), 0);
+  };
+
   const statusCounts = getStatusCounts();
+  const outstandingItems = getOutstandingItems();
   const upcomingDeadlines = getUpcomingDeadlines();
   const overdueRequests = getOverdueRequests();
 
@@ -118,6 +128,15 @@ export function AuditeeDashboard({ user, accessToken }: AuditeeDashboardProps) {
         <p className="text-gray-600 mt-1">Review and respond to document requests</p>
       </div>
 
+      {user.requested_role && (
+        <Card className="bg-amber-50 border-amber-200">
+          <CardContent className="flex items-center gap-2 py-4 text-sm text-amber-800">
+            <AlertCircle className="h-4 w-4" />
+            Your request for {user.requested_role} access is awaiting approval by a manager. Until then you have auditee access.
+          </CardContent>
+        </Card>
+      )}
+
       {/* Statistics Cards */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <Card>
@@ -128,6 +147,9 @@ export function AuditeeDashboard({ user, accessToken }: AuditeeDashboardProps) {
           <CardContent>
             <div className="text-2xl font-bold">{statusCounts.pending}</div>
             <p className="text-xs text-gray-600 mt-1">Requests awaiting your response</p>
+            {outstandingItems > 0 && (
+              <p className="text-xs text-gray-600">{outstandingItems} checklist items outstanding</p>
+            )}
           </CardContent>
         </Card>
 
@@ -217,10 +239,10 @@ export function AuditeeDashboard({ user, accessToken }: AuditeeDashboardProps) {
           <CardTitle>All Requests</CardTitle>
         </CardHeader>
         <CardContent>
-          <RequestList 
-            requests={requests} 
-            accessToken={accessToken} 
+          <RequestList
+            accessToken={accessToken}
             userRole="auditee"
+            refreshKey={refreshTrigger}
             onRequestUpdate={() => setRefreshTrigger(prev => prev + 1)}
           />
         </CardContent>
@@ -3,13 +3,17 @@ import { Button } from '../ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { Badge } from '../ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
-import { Plus, FileText, Clock, CheckCircle, AlertCircle, Shield } from 'lucide-react';
+import { Plus, FileText, Clock, CheckCircle, AlertCircle, Shield, FileSpreadsheet } from 'lucide-react';
 import { CreateRequestDialog } from '../requests/CreateRequestDialog';
+import { ImportRequestsDialog } from '../requests/ImportRequestsDialog';
 import { RequestList } from '../requests/RequestList';
 import { AuditLogs } from '../audit/AuditLogs';
 import { DepartmentalAnalysis } from '../reports/DepartmentalAnalysis';
+import { EngagementList } from '../engagements/EngagementList';
 // import { EmailTestPanel } from '../debug/EmailTestPanel';
 import { projectId } from '../../utils/supabase/info';
+import { Engagement } from '../../utils/engagements';
+import { Confidentiality } from '../../utils/requestAccess';
 
 interface User {
   id: string;
@@ -29,7 +33,9 @@ interface Request {
   assigned_to_email: string;
   department?: string;
   cc_emails?: string[];
-  hr_confidential?: boolean;
+  confidentiality: Confidentiality;
+  engagement_id?: string | null;
+  progress?: { total: number; open: number; provided: number; approved: number; rejected: number; percent_complete: number } | null;
   created_at: string;
   updated_at: string;
 }
@@ -41,12 +47,15 @@ interface AuditorDashboardProps {
 
 export function AuditorDashboard({ user, accessToken }: AuditorDashboardProps) {
   const [requests, setRequests] = useState<Request[]>([]);
+  const [engagements, setEngagements] = useState<Engagement[]>([]);
   const [loading, setLoading] = useState(true);
   const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
 
   useEffect(() => {
     fetchRequests();
+    fetchEngagements();
   }, [refreshTrigger]);
 
   const fetchRequests = async () => {
@@ -82,6 +91,26 @@ export function AuditorDashboard({ user, accessToken }: AuditorDashboardProps) {
     }
   };
 
+  const fetchEngagements = async () => {
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-fcebfd37/engagements`, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        }
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setEngagements(data.engagements);
+      } else {
+        console.error('Failed to fetch engagements');
+      }
+    } catch (error) {
+      console.error('Error fetching engagements:', error);
+    }
+  };
+
   const handleRequestCreated = () => {
     setRefreshTrigger(prev => prev + 1);
     setShowCreateDialog(false);
@@ -105,8 +134,20 @@ export function AuditorDashboard({ user, accessToken }: AuditorDashboardProps) {
     });
   };
 
+  // Checklist item progress across all requests that carry items
+  const getItemProgress = () => {
+    return requests.reduce(
+      (totals, r) => ({
+        total: totals.total + (r.progress?.total || 0),
+        approved: totals.approved + (r.progress?.approved || 0)
+      }),
+      { total: 0, approved: 0 }
+    );
+  };
+
   const statusCounts = getStatusCounts();
   const overdueRequests = getOverdueRequests();
+  const itemProgress = getItemProgress();
 
   if (loading) {
     return (
@@ -123,10 +164,16 @@ export function AuditorDashboard({ user, accessToken }: AuditorDashboardProps) {
           <h2 className="text-3xl font-bold text-gray-900">Auditor Dashboard</h2>
           <p className="text-gray-600 mt-1">Manage audit requests and track progress</p>
         </div>
-        <Button onClick={() => setShowCreateDialog(true)} className="flex items-center">
-          <Plus className="h-4 w-4 mr-2" />
-          Create Request
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setShowImportDialog(true)} className="flex items-center">
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Import Requests
+          </Button>
+          <Button onClick={() => setShowCreateDialog(true)} className="flex items-center">
+            <Plus className="h-4 w-4 mr-2" />
+            Create Request
+          </Button>
+        </div>
       </div>
 
       {/* Statistics Cards */}
@@ -158,6 +205,11 @@ export function AuditorDashboard({ user, accessToken }: AuditorDashboardProps) {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{statusCounts.approved}</div>
+            {itemProgress.total > 0 && (
+              <p className="text-xs text-gray-600 mt-1">
+                {itemProgress.approved} of {itemProgress.total} checklist items approved
+              </p>
+            )}
           </CardContent>
         </Card>
 
@@ -205,24 +257,36 @@ export function AuditorDashboard({ user, accessToken }: AuditorDashboardProps) {
       <Tabs defaultValue="requests" className="space-y-4">
         <TabsList>
           <TabsTrigger value="requests">All Requests</TabsTrigger>
+          <TabsTrigger value="engagements">Engagements</TabsTrigger>
           <TabsTrigger value="analysis">Departmental Analysis</TabsTrigger>
           <TabsTrigger value="audit-logs">Audit Logs</TabsTrigger>
         </TabsList>
 
         <TabsContent value="requests">
-          <RequestList 
-            requests={requests} 
-            accessToken={accessToken} 
+          <RequestList
+            accessToken={accessToken}
             userRole="auditor"
+            refreshKey={refreshTrigger}
             onRequestUpdate={() => setRefreshTrigger(prev => prev + 1)}
           />
         </TabsContent>
 
+        <TabsContent value="engagements">
+          <EngagementList
+            engagements={engagements}
+            accessToken={accessToken}
+            userRole="auditor"
+            currentUserId={user.id}
+            onEngagementsChange={() => setRefreshTrigger(prev => prev + 1)}
+          />
+        </TabsContent>
+
         <TabsContent value="analysis">
           <DepartmentalAnalysis 
             requests={requests} 
             accessToken={accessToken} 
             userRole="auditor"
+            engagements={engagements}
           />
         </TabsContent>
 
@@ -235,8 +299,17 @@ export function AuditorDashboard({ user, accessToken }: AuditorDashboardProps) {
         open={showCreateDialog}
         onOpenChange={setShowCreateDialog}
         accessToken={accessToken}
+        engagements={engagements}
         onRequestCreated={handleRequestCreated}
       />
+
+      <ImportRequestsDialog
+        open={showImportDialog}
+        onOpenChange={setShowImportDialog}
+        accessToken={accessToken}
+        engagements={engagements}
+        onImportComplete={() => setRefreshTrigger(prev => prev + 1)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -3,16 +3,25 @@ import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { Badge } from '../ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
 import { TrendingUp, AlertTriangle, Users, FileText, Clock, Shield } from 'lucide-react';
+import { Progress } from '../ui/progress';
 import { RequestList } from '../requests/RequestList';
 import { AuditLogs } from '../audit/AuditLogs';
 import { DepartmentalAnalysis } from '../reports/DepartmentalAnalysis';
+import { EngagementList } from '../engagements/EngagementList';
+import { UserManagement } from '../users/UserManagement';
+import { RoleRequestQueue } from '../users/RoleRequestQueue';
+import { OrganisationSettings } from '../settings/OrganisationSettings';
+import { GroupReport } from '../reports/GroupReport';
 import { projectId } from '../../utils/supabase/info';
+import { Engagement } from '../../utils/engagements';
+import { Confidentiality } from '../../utils/requestAccess';
 
 interface User {
   id: string;
   email: string;
   name: string;
   role: string;
+  group_manager?: boolean;
 }
 
 interface Request {
@@ -26,7 +35,9 @@ interface Request {
   assigned_to_email: string;
   department?: string;
   cc_emails?: string[];
-  hr_confidential?: boolean;
+  confidentiality: Confidentiality;
+  engagement_id?: string | null;
+  progress?: { total: number; open: number; provided: number; approved: number; rejected: number; percent_complete: number } | null;
   created_at: string;
   updated_at: string;
 }
@@ -38,11 +49,13 @@ interface ManagerDashboardProps {
 
 export function ManagerDashboard({ user, accessToken }: ManagerDashboardProps) {
   const [requests, setRequests] = useState<Request[]>([]);
+  const [engagements, setEngagements] = useState<Engagement[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
 
   useEffect(() => {
     fetchRequests();
+    fetchEngagements();
   }, [refreshTrigger]);
 
   const fetchRequests = async () => {
@@ -78,6 +91,26 @@ export function ManagerDashboard({ user, accessToken }: ManagerDashboardProps) {
     }
   };
 
+  const fetchEngagements = async () => {
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-fcebfd37/engagements`, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        }
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setEngagements(data.engagements);
+      } else {
+        console.error('Failed to fetch engagements');
+      }
+    } catch (error) {
+      console.error('Error fetching engagements:', error);
+    }
+  };
+
   const getAnalytics = () => {
     const now = new Date();
     const sevenDaysAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
@@ -90,7 +123,7 @@ export function ManagerDashboard({ user, accessToken }: ManagerDashboardProps) {
       return dueDate < now && r.status !== 'approved';
     });
     const recentRequests = requests.filter(r => new Date(r.created_at) >= sevenDaysAgo);
-    const hrRequests = requests.filter(r => r.department === 'Human Resources');
+    const confidentialRequests = requests.filter(r => r.confidentiality !== 'standard');
     
     // New overdue analytics
     const overdueButApproved = requests.filter(r => {
@@ -105,6 +138,10 @@ export function ManagerDashboard({ user, accessToken }: ManagerDashboardProps) {
     });
     
     const completionRate = totalRequests > 0 ? Math.round((completedRequests / totalRequests) * 100) : 0;
+
+    // Checklist item progress across all requests that carry items
+    const totalItems = requests.reduce((sum, r) => sum + (r.progress?.total || 0), 0);
+    const approvedItems = requests.reduce((sum, r) => sum + (r.progress?.approved || 0), 0);
     
     return {
       totalRequests,
@@ -113,9 +150,11 @@ export function ManagerDashboard({ user, accessToken }: ManagerDashboardProps) {
       recentRequests: recentRequests.length,
       completionRate,
       overdueCount: overdueRequests.length,
-      hrRequestsCount: hrRequests.length,
+      confidentialRequestsCount: confidentialRequests.length,
       overdueButApprovedCount: overdueButApproved.length,
-      recentlyOverdueCount: recentlyOverdue.length
+      recentlyOverdueCount: recentlyOverdue.length,
+      totalItems,
+      approvedItems
     };
   };
 
@@ -174,6 +213,11 @@ export function ManagerDashboard({ user, accessToken }: ManagerDashboardProps) {
             <p className="text-xs text-gray-600 mt-1">
               {analytics.completedRequests} of {analytics.totalRequests} completed
             </p>
+            {analytics.totalItems > 0 && (
+              <p className="text-xs text-gray-600">
+                {analytics.approvedItems} of {analytics.totalItems} checklist items approved
+              </p>
+            )}
           </CardContent>
         </Card>
 
@@ -213,16 +257,18 @@ export function ManagerDashboard({ user, accessToken }: ManagerDashboardProps) {
 
         <Card className="bg-amber-50 border-amber-200">
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-amber-800">HR Confidential</CardTitle>
+            <CardTitle className="text-sm font-medium text-amber-800">Confidential</CardTitle>
             <Shield className="h-4 w-4 text-amber-600" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-amber-900">{analytics.hrRequestsCount}</div>
+            <div className="text-2xl font-bold text-amber-900">{analytics.confidentialRequestsCount}</div>
             <p className="text-xs text-amber-700 mt-1">Requires manager oversight</p>
           </CardContent>
         </Card>
       </div>
 
+      <RoleRequestQueue accessToken={accessToken} onDecision={() => setRefreshTrigger(prev => prev + 1)} />
+
       {/* Critical Requests Alert */}
       {criticalRequests.length > 0 && (
         <Card className="border-red-200 bg-red-50">
@@ -270,8 +316,12 @@ export function ManagerDashboard({ user, accessToken }: ManagerDashboardProps) {
         <TabsList>
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="requests">All Requests</TabsTrigger>
+          <TabsTrigger value="engagements">Engagements</TabsTrigger>
           <TabsTrigger value="analysis">Departmental Analysis</TabsTrigger>
           <TabsTrigger value="audit-logs">Audit Logs</TabsTrigger>
+          <TabsTrigger value="users">Users</TabsTrigger>
+          <TabsTrigger value="settings">Settings</TabsTrigger>
+          {user.group_manager && <TabsTrigger value="group">Group</TabsTrigger>}
         </TabsList>
 
         <TabsContent value="overview">
@@ -331,29 +381,78 @@ export function ManagerDashboard({ user, accessToken }: ManagerDashboardProps) {
                 </div>
               </CardContent>
             </Card>
+
+            {engagements.some(e => e.status !== 'closed') && (
+              <Card className="lg:col-span-2">
+                <CardHeader>
+                  <CardTitle>Engagement Progress</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-4">
+                    {engagements.filter(e => e.status !== 'closed').map(engagement => (
+                      <div key={engagement.id} className="space-y-1">
+                        <div className="flex justify-between items-center">
+                          <span className="text-sm font-medium">{engagement.name} ({engagement.period})</span>
+                          <span className="text-xs text-gray-500">
+                            {engagement.progress.approved}/{engagement.progress.request_count} approved
+                            {engagement.progress.overdue > 0 && ` · ${engagement.progress.overdue} overdue`}
+                          </span>
+                        </div>
+                        <Progress value={engagement.progress.percent_complete} />
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
           </div>
         </TabsContent>
 
         <TabsContent value="requests">
-          <RequestList 
-            requests={requests} 
-            accessToken={accessToken} 
+          <RequestList
+            accessToken={accessToken}
             userRole="manager"
+            refreshKey={refreshTrigger}
             onRequestUpdate={() => setRefreshTrigger(prev => prev + 1)}
           />
         </TabsContent>
 
+        <TabsContent value="engagements">
+          <EngagementList
+            engagements={engagements}
+            accessToken={accessToken}
+            userRole="manager"
+            currentUserId={user.id}
+            onEngagementsChange={() => setRefreshTrigger(prev => prev + 1)}
+          />
+        </TabsContent>
+
         <TabsContent value="analysis">
           <DepartmentalAnalysis 
             requests={requests} 
             accessToken={accessToken} 
             userRole="manager"
+            engagements={engagements}
           />
         </TabsContent>
 
         <TabsContent value="audit-logs">
           <AuditLogs accessToken={accessToken} />
         </TabsContent>
+
+        <TabsContent value="users">
+          <UserManagement accessToken={accessToken} currentUserId={user.id} refreshKey={refreshTrigger} />
+        </TabsContent>
+
+        <TabsContent value="settings">
+          <OrganisationSettings accessToken={accessToken} />
+        </TabsContent>
+
+        {user.group_manager && (
+          <TabsContent value="group">
+            <GroupReport accessToken={accessToken} />
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
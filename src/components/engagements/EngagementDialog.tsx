@@ -0,0 +1,232 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Textarea } from '../ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '../ui/dialog';
+import { Alert, AlertDescription } from '../ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { toast } from 'sonner@2.0.3';
+import { projectId } from '../../utils/supabase/info';
+import { Engagement, ENGAGEMENT_STATUS_LABELS } from '../../utils/engagements';
+import { useOrganisationSettings, isAllowedEmail, allowedDomainsLabel } from '../../utils/settings';
+
+interface EngagementDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accessToken: string;
+  // When set the dialog edits this engagement, otherwise it creates a new one
+  engagement?: Engagement | null;
+  onSaved: () => void;
+}
+
+export function EngagementDialog({ open, onOpenChange, accessToken, engagement, onSaved }: EngagementDialogProps) {
+  const [name, setName] = useState('');
+  const [period, setPeriod] = useState('');
+  const [scope, setScope] = useState('');
+  const [leadAuditorEmail, setLeadAuditorEmail] = useState('');
+  const [teamEmails, setTeamEmails] = useState('');
+  const [status, setStatus] = useState('planning');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const { settings } = useOrganisationSettings();
+
+  useEffect(() => {
+    if (!open) return;
+    setName(engagement?.name || '');
+    setPeriod(engagement?.period || '');
+    setScope(engagement?.scope || '');
+    setLeadAuditorEmail(engagement?.lead_auditor_email || '');
+    setTeamEmails(engagement?.team_emails.join(', ') || '');
+    setStatus(engagement?.status || 'planning');
+    setStartDate(engagement?.start_date || '');
+    setEndDate(engagement?.end_date || '');
+    setError('');
+  }, [open, engagement]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!name || !period || !startDate || !endDate) {
+      setError('Please fill in all required fields');
+      return;
+    }
+
+    if (new Date(endDate) < new Date(startDate)) {
+      setError('End date cannot be before the start date');
+      return;
+    }
+
+    const teamList = teamEmails.split(/[;,]/).map(email => email.trim()).filter(email => email);
+    if ((leadAuditorEmail && !isAllowedEmail(settings, leadAuditorEmail)) || teamList.some(email => !isAllowedEmail(settings, email))) {
+      setError(`Lead auditor and team members must be ${settings.organisation_name} email addresses (${allowedDomainsLabel(settings)})`);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const url = engagement
+        ? `https://${projectId}.supabase.co/functions/v1/make-server-fcebfd37/engagements/${engagement.id}`
+        : `https://${projectId}.supabase.co/functions/v1/make-server-fcebfd37/engagements`;
+      const response = await fetch(url, {
+        method: engagement ? 'PUT' : 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          name,
+          period,
+          scope,
+          // Left blank on create, the server makes the creator the lead auditor
+          ...(leadAuditorEmail.trim() ? { lead_auditor_email: leadAuditorEmail.trim() } : {}),
+          team_emails: teamList,
+          status,
+          start_date: startDate,
+          end_date: endDate
+        })
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(engagement ? 'Engagement updated' : 'Engagement created');
+        onSaved();
+      } else {
+        setError(data.error || 'Failed to save engagement');
+      }
+    } catch (error: any) {
+      console.error('Error saving engagement:', error);
+      setError('Failed to save engagement. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{engagement ? 'Edit Engagement' : 'New Engagement'}</DialogTitle>
+          <DialogDescription>
+            An engagement groups the requests raised for one audit or review.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="engagementName">Name</Label>
+            <Input
+              id="engagementName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Annual Financial Audit"
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="engagementPeriod">Period</Label>
+              <Input
+                id="engagementPeriod"
+                value={period}
+                onChange={(e) => setPeriod(e.target.value)}
+                placeholder="e.g., FY2025"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select value={status} onValueChange={setStatus}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ENGAGEMENT_STATUS_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="engagementScope">Scope</Label>
+            <Textarea
+              id="engagementScope"
+              value={scope}
+              onChange={(e) => setScope(e.target.value)}
+              placeholder="Business units, processes and systems covered by this engagement..."
+              rows={3}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="engagementStart">Start Date</Label>
+              <Input
+                id="engagementStart"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="engagementEnd">End Date</Label>
+              <Input
+                id="engagementEnd"
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                min={startDate}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="leadAuditor">Lead Auditor (Email)</Label>
+            <Input
+              id="leadAuditor"
+              type="email"
+              value={leadAuditorEmail}
+              onChange={(e) => setLeadAuditorEmail(e.target.value)}
+              placeholder={engagement ? '' : 'Leave blank to lead it yourself'}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="teamEmails">Team (Optional)</Label>
+            <Textarea
+              id="teamEmails"
+              value={teamEmails}
+              onChange={(e) => setTeamEmails(e.target.value)}
+              placeholder="Team member emails separated by commas"
+              rows={2}
+            />
+          </div>
+
+          <DialogFooter className="flex gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? 'Saving...' : engagement ? 'Save Changes' : 'Create Engagement'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Progress } from '../ui/progress';
+import { Briefcase, Calendar, User, Users, Plus, Pencil, Trash2 } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import { projectId } from '../../utils/supabase/info';
+import { Engagement, ENGAGEMENT_STATUS_LABELS } from '../../utils/engagements';
+import { EngagementDialog } from './EngagementDialog';
+
+interface EngagementListProps {
+  engagements: Engagement[];
+  accessToken: string;
+  userRole: 'auditor' | 'manager';
+  currentUserId: string;
+  onEngagementsChange: () => void;
+}
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'planning':
+      return 'bg-blue-100 text-blue-800';
+    case 'fieldwork':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'reporting':
+      return 'bg-purple-100 text-purple-800';
+    case 'closed':
+      return 'bg-gray-100 text-gray-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
+
+export function EngagementList({ engagements, accessToken, userRole, currentUserId, onEngagementsChange }: EngagementListProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingEngagement, setEditingEngagement] = useState<Engagement | null>(null);
+
+  const canEdit = (engagement: Engagement) =>
+    userRole === 'manager' || engagement.created_by === currentUserId || engagement.lead_auditor_id === currentUserId;
+
+  const openDialog = (engagement: Engagement | null) => {
+    setEditingEngagement(engagement);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async (engagement: Engagement) => {
+    if (!confirm(`Delete the engagement "${engagement.name}"?`)) return;
+
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-fcebfd37/engagements/${engagement.id}`,
+        {
+          method: 'DELETE',
+          headers: {
+            'Authorization': `Bearer ${accessToken}`
+          }
+        }
+      );
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success('Engagement deleted');
+        onEngagementsChange();
+      } else {
+        toast.error(data.error || 'Failed to delete engagement');
+      }
+    } catch (error) {
+      console.error('Error deleting engagement:', error);
+      toast.error('Failed to delete engagement');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-600">
+          {engagements.length} engagement{engagements.length === 1 ? '' : 's'}
+        </p>
+        <Button onClick={() => openDialog(null)} className="flex items-center">
+          <Plus className="h-4 w-4 mr-2" />
+          New Engagement
+        </Button>
+      </div>
+
+      {engagements.length === 0 && (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <Briefcase className="h-12 w-12 text-gray-400 mb-4" />
+            <p className="text-gray-500 text-center">
+              No engagements yet. Create one to group the requests for an audit or review.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {engagements.map(engagement => (
+        <Card key={engagement.id}>
+          <CardHeader className="pb-3">
+            <div className="flex justify-between items-start">
+              <div className="flex-1">
+                <CardTitle className="text-lg flex items-center gap-2">
+                  {engagement.name}
+                  <Badge variant="outline">{engagement.period}</Badge>
+                  <Badge className={getStatusColor(engagement.status)}>
+                    {ENGAGEMENT_STATUS_LABELS[engagement.status] || engagement.status}
+                  </Badge>
+                </CardTitle>
+                <div className="flex items-center gap-4 text-sm text-gray-600 mt-2 flex-wrap">
+                  <div className="flex items-center gap-1">
+                    <Calendar className="h-4 w-4" />
+                    {new Date(engagement.start_date).toLocaleDateString()} - {new Date(engagement.end_date).toLocaleDateString()}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <User className="h-4 w-4" />
+                    Lead: {engagement.lead_auditor_email}
+                  </div>
+                  {engagement.team_emails.length > 0 && (
+                    <div className="flex items-center gap-1" title={engagement.team_emails.join(', ')}>
+                      <Users className="h-4 w-4" />
+                      Team of {engagement.team_emails.length}
+                    </div>
+                  )}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                {canEdit(engagement) && (
+                  <Button variant="outline" size="sm" onClick={() => openDialog(engagement)} className="flex items-center gap-1">
+                    <Pencil className="h-4 w-4" />
+                    Edit
+                  </Button>
+                )}
+                {userRole === 'manager' && engagement.progress.request_count === 0 && (
+                  <Button variant="outline" size="sm" onClick={() => handleDelete(engagement)}>
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="pt-0 space-y-2">
+            {engagement.scope && (
+              <p className="text-gray-600 text-sm line-clamp-2">{engagement.scope}</p>
+            )}
+            <div className="flex items-center gap-3">
+              <Progress value={engagement.progress.percent_complete} className="flex-1" />
+              <span className="text-xs text-gray-600 whitespace-nowrap">
+                {engagement.progress.approved}/{engagement.progress.request_count} requests approved
+                {engagement.progress.overdue > 0 && ` · ${engagement.progress.overdue} overdue`}
+              </span>
+            </div>
+            {engagement.progress.items_total > 0 && (
+              <p className="text-xs text-gray-600">
+                {engagement.progress.items_approved} of {engagement.progress.items_total} checklist items approved
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+
+      <EngagementDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        accessToken={accessToken}
+        engagement={editingEngagement}
+        onSaved={() => {
+          setDialogOpen(false);
+          onEngagementsChange();
+        }}
+      />
+    </div>
+  );
+}
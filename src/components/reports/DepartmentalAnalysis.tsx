@@ -23,14 +23,22 @@ interface Request {
   assigned_to: string;
   assigned_to_email: string;
   department?: string;
+  engagement_id?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+interface EngagementOption {
+  id: string;
+  name: string;
+  period: string;
+}
+
 interface DepartmentalAnalysisProps {
   requests: Request[];
   accessToken: string;
   userRole: 'auditor' | 'manager';
+  engagements?: EngagementOption[];
 }
 
 interface DepartmentStats {
@@ -45,7 +53,7 @@ interface DepartmentStats {
   avgResponseTime: number;
 }
 
-export function DepartmentalAnalysis({ requests, accessToken, userRole }: DepartmentalAnalysisProps) {
+export function DepartmentalAnalysis({ requests, accessToken, userRole, engagements = [] }: DepartmentalAnalysisProps) {
   const [emailDialog, setEmailDialog] = useState(false);
   const [emailTo, setEmailTo] = useState('');
   const [emailSubject, setEmailSubject] = useState('ADERM Departmental Analysis Report');
@@ -458,6 +466,7 @@ export function DepartmentalAnalysis({ requests, accessToken, userRole }: Depart
             requests={requests} 
             accessToken={accessToken} 
             userRole={userRole}
+            engagements={engagements}
           />
         </TabsContent>
       </Tabs>
@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { Button } from '../ui/button';
 import { Badge } from '../ui/badge';
@@ -20,7 +20,8 @@ import {
   FileBarChart, 
   CheckCircle, 
   AlertTriangle, 
-  XCircle 
+  XCircle,
+  Briefcase
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { projectId } from '../../utils/supabase/info';
@@ -35,14 +36,23 @@ interface Request {
   assigned_to: string;
   assigned_to_email: string;
   department?: string;
+  engagement_id?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+interface EngagementOption {
+  id: string;
+  name: string;
+  period: string;
+}
+
 interface FilteredReportingProps {
+  // Used for the department options; the report itself is fetched with the selected filters
   requests: Request[];
   accessToken: string;
   userRole: 'auditor' | 'manager';
+  engagements?: EngagementOption[];
 }
 
 interface DateRange {
@@ -57,12 +67,15 @@ interface RecipientFormData {
   message: string;
 }
 
-export function FilteredReporting({ requests, accessToken, userRole }: FilteredReportingProps) {
+export function FilteredReporting({ requests, accessToken, userRole, engagements = [] }: FilteredReportingProps) {
   const [selectedDepartment, setSelectedDepartment] = useState<string>('all');
+  const [selectedEngagement, setSelectedEngagement] = useState<string>('all');
   const [dateRange, setDateRange] = useState<DateRange>({ from: undefined, to: undefined });
   const [recipientDialog, setRecipientDialog] = useState(false);
   const [calendarOpen, setCalendarOpen] = useState(false);
   const [sending, setSending] = useState(false);
+  const [filteredRequests, setFilteredRequests] = useState<Request[]>([]);
+  const [loadingResults, setLoadingResults] = useState(false);
   const [recipientForm, setRecipientForm] = useState<RecipientFormData>({
     to: '',
     cc: '',
@@ -76,25 +89,57 @@ export function FilteredReporting({ requests, accessToken, userRole }: FilteredR
     return depts.sort();
   }, [requests]);
 
-  // Filter requests based on selected criteria
-  const filteredRequests = useMemo(() => {
-    let filtered = requests;
+  const getEngagementLabel = (engagementId?: string | null) => {
+    if (!engagementId) return 'No Engagement';
+    const engagement = engagements.find(e => e.id === engagementId);
+    return engagement ? `${engagement.name} (${engagement.period})` : 'Unknown Engagement';
+  };
 
-    // Filter by department
-    if (selectedDepartment && selectedDepartment !== 'all') {
-      filtered = filtered.filter(r => r.department === selectedDepartment);
-    }
+  // Dates are sent as the local calendar day the user picked
+  const toDateParam = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
 
-    // Filter by date range
-    if (dateRange.from && dateRange.to) {
-      filtered = filtered.filter(r => {
-        const requestDate = new Date(r.created_at);
-        return requestDate >= dateRange.from! && requestDate <= dateRange.to!;
-      });
-    }
+  // Filter requests on the server based on selected criteria
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchFilteredRequests = async () => {
+      const params = new URLSearchParams({ sort: '-created_at' });
+      if (selectedDepartment !== 'all') params.set('department', selectedDepartment);
+      if (selectedEngagement !== 'all') params.set('engagement_id', selectedEngagement);
+      if (dateRange.from && dateRange.to) {
+        params.set('created_from', toDateParam(dateRange.from));
+        params.set('created_to', toDateParam(dateRange.to));
+      }
+
+      setLoadingResults(true);
+      try {
+        const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-fcebfd37/requests?${params}`, {
+          headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'Content-Type': 'application/json'
+          }
+        });
+        const data = await response.json();
+        if (cancelled) return;
+
+        if (response.ok) {
+          setFilteredRequests(data.requests);
+        } else {
+          toast.error(data.error || 'Failed to load report data');
+        }
+      } catch (error) {
+        console.error('Error fetching filtered requests:', error);
+      } finally {
+        if (!cancelled) setLoadingResults(false);
+      }
+    };
 
-    return filtered;
-  }, [requests, selectedDepartment, dateRange]);
+    fetchFilteredRequests();
+    return () => {
+      cancelled = true;
+    };
+  }, [accessToken, selectedDepartment, selectedEngagement, dateRange]);
 
   // Calculate analytics for filtered data
   const analytics = useMemo(() => {
@@ -150,6 +195,9 @@ export function FilteredReporting({ requests, accessToken, userRole }: FilteredR
     } else {
       report += `Department: All Departments\n`;
     }
+    if (selectedEngagement !== 'all') {
+      report += `Engagement: ${getEngagementLabel(selectedEngagement === 'none' ? null : selectedEngagement)}\n`;
+    }
     
     if (dateRange.from && dateRange.to) {
       report += `Date Range: ${dateRange.from.toLocaleDateString()} - ${dateRange.to.toLocaleDateString()}\n`;
@@ -183,6 +231,9 @@ export function FilteredReporting({ requests, accessToken, userRole }: FilteredR
         report += `${index + 1}. ${request.title}\n`;
         report += `   ID: ${request.id}\n`;
         report += `   Department: ${request.department || 'Unassigned'}\n`;
+        if (engagements.length > 0) {
+          report += `   Engagement: ${getEngagementLabel(request.engagement_id)}\n`;
+        }
         report += `   Status: ${request.status.toUpperCase()}\n`;
         report += `   Created: ${new Date(request.created_at).toLocaleDateString()}\n`;
         report += `   Due Date: ${new Date(request.due_date).toLocaleDateString()}\n`;
@@ -240,6 +291,7 @@ export function FilteredReporting({ requests, accessToken, userRole }: FilteredR
           reportContent: reportContent,
           filterCriteria: {
             department: (selectedDepartment && selectedDepartment !== 'all') ? selectedDepartment : 'All Departments',
+            engagement: selectedEngagement !== 'all' ? getEngagementLabel(selectedEngagement === 'none' ? null : selectedEngagement) : 'All Engagements',
             dateRange: dateRange.from && dateRange.to ? {
               from: dateRange.from.toISOString().split('T')[0],
               to: dateRange.to.toISOString().split('T')[0]
@@ -285,6 +337,7 @@ export function FilteredReporting({ requests, accessToken, userRole }: FilteredR
 
   const clearFilters = () => {
     setSelectedDepartment('all');
+    setSelectedEngagement('all');
     setDateRange({ from: undefined, to: undefined });
   };
 
@@ -307,7 +360,7 @@ export function FilteredReporting({ requests, accessToken, userRole }: FilteredR
             Targeted Department Report
           </h3>
           <p className="text-sm text-gray-600 mt-1">
-            Generate focused reports by department and date range
+            Generate focused reports by department, engagement and date range
           </p>
         </div>
       </div>
@@ -318,7 +371,7 @@ export function FilteredReporting({ requests, accessToken, userRole }: FilteredR
           <CardTitle>Report Filters</CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             {/* Department Filter */}
             <div className="space-y-2">
               <Label htmlFor="department-select">Department</Label>
@@ -335,6 +388,25 @@ export function FilteredReporting({ requests, accessToken, userRole }: FilteredR
               </Select>
             </div>
 
+            {/* Engagement Filter */}
+            <div className="space-y-2">
+              <Label htmlFor="engagement-select">Engagement</Label>
+              <Select value={selectedEngagement} onValueChange={setSelectedEngagement}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select engagement" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Engagements</SelectItem>
+                  <SelectItem value="none">No Engagement</SelectItem>
+                  {engagements.map(engagement => (
+                    <SelectItem key={engagement.id} value={engagement.id}>
+                      {engagement.name} ({engagement.period})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             {/* Date Range Filter */}
             <div className="space-y-2">
               <Label>Date Range</Label>
@@ -384,7 +456,7 @@ export function FilteredReporting({ requests, accessToken, userRole }: FilteredR
           </div>
 
           {/* Active Filters Display */}
-          {((selectedDepartment && selectedDepartment !== 'all') || (dateRange.from && dateRange.to)) && (
+          {((selectedDepartment && selectedDepartment !== 'all') || selectedEngagement !== 'all' || (dateRange.from && dateRange.to)) && (
             <div className="flex flex-wrap gap-2 mt-4">
               <span className="text-sm font-medium">Active Filters:</span>
               {selectedDepartment && selectedDepartment !== 'all' && (
@@ -393,6 +465,12 @@ export function FilteredReporting({ requests, accessToken, userRole }: FilteredR
                   {selectedDepartment}
                 </Badge>
               )}
+              {selectedEngagement !== 'all' && (
+                <Badge variant="secondary" className="flex items-center gap-1">
+                  <Briefcase className="h-3 w-3" />
+                  {getEngagementLabel(selectedEngagement === 'none' ? null : selectedEngagement)}
+                </Badge>
+              )}
               {dateRange.from && dateRange.to && (
                 <Badge variant="secondary" className="flex items-center gap-1">
                   <CalendarIcon className="h-3 w-3" />
@@ -516,6 +594,9 @@ export function FilteredReporting({ requests, accessToken, userRole }: FilteredR
               <div className="text-xs text-gray-500 p-3 bg-gray-50 rounded">
                 <strong>Report Summary:</strong><br />
                 Department: {(selectedDepartment && selectedDepartment !== 'all') ? selectedDepartment : 'All Departments'}<br />
+                {selectedEngagement !== 'all' && (
+                  <>Engagement: {getEngagementLabel(selectedEngagement === 'none' ? null : selectedEngagement)}<br /></>
+                )}
                 Date Range: {dateRange.from && dateRange.to ? 
                   `${dateRange.from.toLocaleDateString()} - ${dateRange.to.toLocaleDateString()}` : 
                   'All Time'}<br />
@@ -538,7 +619,7 @@ export function FilteredReporting({ requests, accessToken, userRole }: FilteredR
       {analytics.total > 0 && (
         <Card>
           <CardHeader>
-            <CardTitle>Filtered Results ({analytics.total} requests)</CardTitle>
+            <CardTitle>Filtered Results ({loadingResults ? 'loading...' : `${analytics.total} requests`})</CardTitle>
           </CardHeader>
           <CardContent>
             <Table>
@@ -578,7 +659,7 @@ export function FilteredReporting({ requests, accessToken, userRole }: FilteredR
         </Card>
       )}
 
-      {analytics.total === 0 && ((selectedDepartment && selectedDepartment !== 'all') || (dateRange.from && dateRange.to)) && (
+      {analytics.total === 0 && ((selectedDepartment && selectedDepartment !== 'all') || selectedEngagement !== 'all' || (dateRange.from && dateRange.to)) && (
         <Card>
           <CardContent className="text-center py-8">
             <FileBarChart className="h-12 w-12 text-gray-400 mx-auto mb-4" />
@@ -0,0 +1,237 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Alert, AlertDescription } from '../ui/alert';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Progress } from '../ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Building, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+import { projectId } from '../../utils/supabase/info';
+
+interface OrganisationReport {
+  id: string;
+  organisation_name: string;
+  allowed_email_domains: string[];
+  users: number;
+  managers: number;
+  statuses: Record<string, number>;
+  progress: {
+    request_count: number;
+    approved: number;
+    open: number;
+    overdue: number;
+    percent_complete: number;
+  };
+}
+
+interface GroupReportProps {
+  accessToken: string;
+}
+
+const EMPTY_DRAFT = { id: '', organisation_name: '', allowed_email_domains: '', first_manager_email: '' };
+
+// Group managers' view across every organisation: request progress and headcount per
+// organisation, and a form to add a new one
+export function GroupReport({ accessToken }: GroupReportProps) {
+  const [organisations, setOrganisations] = useState<OrganisationReport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState('');
+
+  const baseUrl = `https://${projectId}.supabase.co/functions/v1/make-server-fcebfd37`;
+
+  useEffect(() => {
+    fetchReport();
+  }, []);
+
+  const fetchReport = async () => {
+    try {
+      const response = await fetch(`${baseUrl}/group/report`, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        }
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setOrganisations(data.organisations);
+      } else {
+        console.error('Failed to fetch group report:', data.error);
+      }
+    } catch (err) {
+      console.error('Error fetching group report:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    setError('');
+    setCreating(true);
+    try {
+      const response = await fetch(`${baseUrl}/organisations`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          id: draft.id.trim().toLowerCase(),
+          organisation_name: draft.organisation_name,
+          allowed_email_domains: draft.allowed_email_domains.split(/[\n,]/).map(domain => domain.trim()).filter(Boolean),
+          first_manager_email: draft.first_manager_email.trim()
+        })
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(`${data.organisation.organisation_name} added`);
+        setDraft(EMPTY_DRAFT);
+        fetchReport();
+      } else {
+        setError(data.error || 'Failed to add organisation');
+      }
+    } catch (err) {
+      console.error('Error adding organisation:', err);
+      setError('Failed to add organisation');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Building className="h-5 w-5" />
+            Group Overview
+          </CardTitle>
+          <p className="text-sm text-gray-600">
+            Request progress for every organisation in the group. Request details stay with each organisation.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Organisation</TableHead>
+                <TableHead>Users</TableHead>
+                <TableHead>Requests</TableHead>
+                <TableHead>Open</TableHead>
+                <TableHead>Overdue</TableHead>
+                <TableHead>Completion</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {organisations.map(organisation => (
+                <TableRow key={organisation.id}>
+                  <TableCell>
+                    <p className="font-medium">{organisation.organisation_name}</p>
+                    <p className="text-xs text-gray-500">
+                      {organisation.allowed_email_domains.map(domain => `@${domain}`).join(', ')}
+                    </p>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {organisation.users}
+                    <span className="text-xs text-gray-500"> ({organisation.managers} manager{organisation.managers === 1 ? '' : 's'})</span>
+                  </TableCell>
+                  <TableCell className="text-sm">{organisation.progress.request_count}</TableCell>
+                  <TableCell className="text-sm">{organisation.progress.open}</TableCell>
+                  <TableCell className={`text-sm ${organisation.progress.overdue > 0 ? 'text-red-600 font-medium' : ''}`}>
+                    {organisation.progress.overdue}
+                  </TableCell>
+                  <TableCell className="w-40">
+                    <div className="space-y-1">
+                      <span className="text-xs text-gray-500">{organisation.progress.percent_complete}% approved</span>
+                      <Progress value={organisation.progress.percent_complete} />
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Plus className="h-5 w-5" />
+            Add Organisation
+          </CardTitle>
+          <p className="text-sm text-gray-600">
+            People with these email domains join the new organisation when they sign up. Only the first manager named here can take the manager role without approval; they then approve everyone else.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          <div className="grid md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="organisation-id">Id</Label>
+              <Input
+                id="organisation-id"
+                placeholder="ecobank-ghana"
+                value={draft.id}
+                onChange={(e) => setDraft(prev => ({ ...prev, id: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-organisation-name">Name</Label>
+              <Input
+                id="new-organisation-name"
+                value={draft.organisation_name}
+                onChange={(e) => setDraft(prev => ({ ...prev, organisation_name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-organisation-domains">Email domains</Label>
+              <Input
+                id="new-organisation-domains"
+                placeholder="ecobank.com.gh"
+                value={draft.allowed_email_domains}
+                onChange={(e) => setDraft(prev => ({ ...prev, allowed_email_domains: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-organisation-first-manager">First manager</Label>
+              <Input
+                id="new-organisation-first-manager"
+                type="email"
+                placeholder="manager@ecobank.com.gh"
+                value={draft.first_manager_email}
+                onChange={(e) => setDraft(prev => ({ ...prev, first_manager_email: e.target.value }))}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button
+              onClick={handleCreate}
+              disabled={creating || !draft.id.trim() || !draft.organisation_name.trim() || !draft.allowed_email_domains.trim() || !draft.first_manager_email.trim()}
+            >
+              {creating ? 'Adding…' : 'Add organisation'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,332 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Textarea } from '../ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { MessageSquare, Reply, Pencil, FileText, Shield } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import { projectId } from '../../utils/supabase/info';
+
+interface Comment {
+  id: string;
+  request_id: string;
+  document_id: string | null;
+  parent_id: string | null;
+  author_id: string;
+  author_name: string;
+  author_role: string;
+  body: string;
+  mentions: string[];
+  created_at: string;
+  edited_at: string | null;
+  can_edit: boolean;
+}
+
+interface CommentThreadProps {
+  requestId: string;
+  accessToken: string;
+  // Current document versions that a comment can be attached to
+  documents: { id: string; filename: string }[];
+}
+
+const getRoleColor = (role: string) => {
+  switch (role) {
+    case 'auditor':
+      return 'bg-blue-100 text-blue-800';
+    case 'manager':
+      return 'bg-purple-100 text-purple-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
+
+// Highlight @mentions in a comment body
+const renderBody = (body: string) =>
+  body.split(/(@[a-z0-9._%+-]+(?:@[a-z0-9-]+(?:\.[a-z0-9-]+)+)?)/gi).map((part, index) =>
+    part.startsWith('@') ? <span key={index} className="text-blue-700 font-medium">{part}</span> : part
+  );
+
+export function CommentThread({ requestId, accessToken, documents }: CommentThreadProps) {
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [confidential, setConfidential] = useState(false);
+  const [newBody, setNewBody] = useState('');
+  const [documentId, setDocumentId] = useState('none');
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyBody, setReplyBody] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editBody, setEditBody] = useState('');
+  const [posting, setPosting] = useState(false);
+
+  const baseUrl = `https://${projectId}.supabase.co/functions/v1/make-server-fcebfd37/requests/${requestId}/comments`;
+
+  useEffect(() => {
+    fetchComments();
+  }, [requestId]);
+
+  const fetchComments = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(baseUrl, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        }
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setComments(data.comments);
+        setConfidential(false);
+      } else if (data.confidential) {
+        setConfidential(true);
+      } else {
+        console.error('Failed to fetch comments:', data.error);
+      }
+    } catch (error) {
+      console.error('Error fetching comments:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const postComment = async (body: string, options: { parent_id?: string; document_id?: string | null }) => {
+    setPosting(true);
+    try {
+      const response = await fetch(baseUrl, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ body, ...options })
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setComments(prev => [...prev, data.comment]);
+        if (data.notified.length > 0) {
+          toast.success(`Notified ${data.notified.join(', ')}`);
+        }
+        return true;
+      }
+      toast.error(data.error || 'Failed to post comment');
+    } catch (error) {
+      console.error('Error posting comment:', error);
+      toast.error('Failed to post comment');
+    } finally {
+      setPosting(false);
+    }
+    return false;
+  };
+
+  const handlePost = async () => {
+    if (!newBody.trim()) return;
+    const posted = await postComment(newBody, { document_id: documentId === 'none' ? null : documentId });
+    if (posted) {
+      setNewBody('');
+      setDocumentId('none');
+    }
+  };
+
+  const handleReply = async (parentId: string) => {
+    if (!replyBody.trim()) return;
+    const posted = await postComment(replyBody, { parent_id: parentId });
+    if (posted) {
+      setReplyingTo(null);
+      setReplyBody('');
+    }
+  };
+
+  const handleEdit = async (commentId: string) => {
+    if (!editBody.trim()) return;
+    setPosting(true);
+    try {
+      const response = await fetch(`${baseUrl}/${commentId}`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ body: editBody })
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setComments(prev => prev.map(comment => (comment.id === commentId ? data.comment : comment)));
+        setEditingId(null);
+      } else {
+        toast.error(data.error || 'Failed to edit comment');
+        if (response.status === 409) {
+          setComments(prev => prev.map(comment => (comment.id === commentId ? { ...comment, can_edit: false } : comment)));
+          setEditingId(null);
+        }
+      }
+    } catch (error) {
+      console.error('Error editing comment:', error);
+      toast.error('Failed to edit comment');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const getDocumentName = (id: string | null) => documents.find(doc => doc.id === id)?.filename || 'an earlier version';
+
+  const renderComment = (comment: Comment) => (
+    <div key={comment.id} className="space-y-1">
+      <div className="flex items-center gap-2 text-sm flex-wrap">
+        <span className="font-medium">{comment.author_name}</span>
+        <Badge className={`text-xs ${getRoleColor(comment.author_role)}`}>{comment.author_role}</Badge>
+        <span className="text-xs text-gray-500">
+          {new Date(comment.created_at).toLocaleString()}
+          {comment.edited_at && ' (edited)'}
+        </span>
+        {comment.document_id && !comment.parent_id && (
+          <Badge variant="outline" className="text-xs flex items-center gap-1">
+            <FileText className="h-3 w-3" />
+            {getDocumentName(comment.document_id)}
+          </Badge>
+        )}
+      </div>
+
+      {editingId === comment.id ? (
+        <div className="space-y-2">
+          <Textarea value={editBody} onChange={(e) => setEditBody(e.target.value)} rows={2} />
+          <div className="flex gap-2">
+            <Button size="sm" onClick={() => handleEdit(comment.id)} disabled={posting || !editBody.trim()}>
+              Save
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setEditingId(null)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-700 whitespace-pre-wrap">{renderBody(comment.body)}</p>
+      )}
+
+      {editingId !== comment.id && (
+        <div className="flex gap-1">
+          {!comment.parent_id && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => {
+                setReplyingTo(comment.id);
+                setReplyBody('');
+              }}
+            >
+              <Reply className="h-3 w-3 mr-1" />
+              Reply
+            </Button>
+          )}
+          {comment.can_edit && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => {
+                setEditingId(comment.id);
+                setEditBody(comment.body);
+              }}
+            >
+              <Pencil className="h-3 w-3 mr-1" />
+              Edit
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+  const topLevel = comments.filter(comment => !comment.parent_id);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5" />
+          Discussion ({comments.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {confidential ? (
+          <div className="flex items-center gap-2 text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded p-3">
+            <Shield className="h-4 w-4" />
+            The discussion on this request is restricted to managers, the assignee and its access list.
+          </div>
+        ) : (
+          <>
+            {loading && comments.length === 0 ? (
+              <div className="flex items-center justify-center py-4">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+              </div>
+            ) : topLevel.length === 0 ? (
+              <p className="text-sm text-gray-500">No comments yet. Start the discussion below.</p>
+            ) : (
+              <div className="space-y-4">
+                {topLevel.map(comment => (
+                  <div key={comment.id} className="border rounded-lg p-3 space-y-3">
+                    {renderComment(comment)}
+                    {comments.filter(reply => reply.parent_id === comment.id).length > 0 && (
+                      <div className="ml-4 pl-3 border-l-2 space-y-3">
+                        {comments.filter(reply => reply.parent_id === comment.id).map(renderComment)}
+                      </div>
+                    )}
+                    {replyingTo === comment.id && (
+                      <div className="ml-4 space-y-2">
+                        <Textarea
+                          value={replyBody}
+                          onChange={(e) => setReplyBody(e.target.value)}
+                          placeholder="Write a reply..."
+                          rows={2}
+                        />
+                        <div className="flex gap-2">
+                          <Button size="sm" onClick={() => handleReply(comment.id)} disabled={posting || !replyBody.trim()}>
+                            Reply
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => setReplyingTo(null)}>
+                            Cancel
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Textarea
+                value={newBody}
+                onChange={(e) => setNewBody(e.target.value)}
+                placeholder="Ask a question or leave a note. Use @firstname.lastname to notify someone."
+                rows={3}
+              />
+              <div className="flex items-center gap-2">
+                {documents.length > 0 && (
+                  <Select value={documentId} onValueChange={setDocumentId}>
+                    <SelectTrigger className="w-64">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Whole request</SelectItem>
+                      {documents.map(doc => (
+                        <SelectItem key={doc.id} value={doc.id}>{doc.filename}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Button onClick={handlePost} disabled={posting || !newBody.trim()} className="ml-auto">
+                  {posting ? 'Posting...' : 'Post Comment'}
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
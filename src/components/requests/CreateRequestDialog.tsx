@@ -6,18 +6,33 @@ import { Textarea } from '../ui/textarea';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '../ui/dialog';
 import { Alert, AlertDescription } from '../ui/alert';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
-import { CalendarIcon } from 'lucide-react';
+import { CalendarIcon, Plus, X } from 'lucide-react';
 import { toast } from 'sonner@2.0.3';
 import { projectId } from '../../utils/supabase/info';
+import { useOrganisationSettings, isAllowedEmail, allowedDomainsLabel, exampleEmail, departmentOptions, OTHER_DEPARTMENT, isConfidentialDepartment } from '../../utils/settings';
+import { Confidentiality, CONFIDENTIALITY_OPTIONS } from '../../utils/requestAccess';
+
+interface ChecklistItemInput {
+  description: string;
+  due_date: string;
+}
+
+interface EngagementOption {
+  id: string;
+  name: string;
+  period: string;
+  status: string;
+}
 
 interface CreateRequestDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   accessToken: string;
+  engagements?: EngagementOption[];
   onRequestCreated: () => void;
 }
 
-export function CreateRequestDialog({ open, onOpenChange, accessToken, onRequestCreated }: CreateRequestDialogProps) {
+export function CreateRequestDialog({ open, onOpenChange, accessToken, engagements = [], onRequestCreated }: CreateRequestDialogProps) {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [dueDate, setDueDate] = useState('');
@@ -25,38 +40,28 @@ export function CreateRequestDialog({ open, onOpenChange, accessToken, onRequest
   const [department, setDepartment] = useState('');
   const [customDepartment, setCustomDepartment] = useState('');
   const [ccEmails, setCcEmails] = useState('');
+  const [engagementId, setEngagementId] = useState('none');
+  const [confidentiality, setConfidentiality] = useState<Confidentiality>('standard');
+  const [items, setItems] = useState<ChecklistItemInput[]>([]);
+  const [pastedItems, setPastedItems] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
-
-  // Predefined department options
-  const departments = [
-    'Finance',
-    'Human Resources',
-    'IT',
-    'Legal',
-    'Operations',
-    'Marketing',
-    'Sales',
-    'Procurement',
-    'Compliance',
-    'Other'
-  ];
+  const { settings } = useOrganisationSettings();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
     setError('');
 
-    if (!title || !description || !dueDate || !assignedToEmail || !department || (department === 'Other' && !customDepartment)) {
+    if (!title || !description || !dueDate || !assignedToEmail || !department || (department === OTHER_DEPARTMENT && !customDepartment)) {
       setError('Please fill in all required fields');
       setLoading(false);
       return;
     }
 
-    // Validate assigned email is @ecobank.com
-    const ecobankEmailRegex = /^[^\s@]+@ecobank\.com$/;
-    if (!ecobankEmailRegex.test(assignedToEmail)) {
-      setError('Assigned email must be an Ecobank email address (@ecobank.com)');
+    // Validate assigned email is on one of the organisation's domains
+    if (!isAllowedEmail(settings, assignedToEmail)) {
+      setError(`Assigned email must be a ${settings.organisation_name} email address (${allowedDomainsLabel(settings)})`);
       setLoading(false);
       return;
     }
@@ -64,15 +69,21 @@ export function CreateRequestDialog({ open, onOpenChange, accessToken, onRequest
     // Validate CC emails format and domain if provided
     if (ccEmails.trim()) {
       const ccEmailList = ccEmails.split(',').map(email => email.trim());
-      const invalidEmails = ccEmailList.filter(email => email && !ecobankEmailRegex.test(email));
+      const invalidEmails = ccEmailList.filter(email => email && !isAllowedEmail(settings, email));
       
       if (invalidEmails.length > 0) {
-        setError('All CC email addresses must be Ecobank email addresses (@ecobank.com)');
+        setError(`All CC email addresses must be ${settings.organisation_name} email addresses (${allowedDomainsLabel(settings)})`);
         setLoading(false);
         return;
       }
     }
 
+    if (items.some(item => !item.description.trim())) {
+      setError('Every checklist item needs a description');
+      setLoading(false);
+      return;
+    }
+
     // Validate due date is in the future
     const selectedDate = new Date(dueDate);
     const today = new Date();
@@ -96,8 +107,14 @@ export function CreateRequestDialog({ open, onOpenChange, accessToken, onRequest
           description,
           due_date: dueDate,
           assigned_to_email: assignedToEmail,
-          department: department === 'Other' ? customDepartment : department,
-          cc_emails: ccEmails.trim() ? ccEmails.split(',').map(email => email.trim()).filter(email => email) : []
+          department: department === OTHER_DEPARTMENT ? customDepartment : department,
+          cc_emails: ccEmails.trim() ? ccEmails.split(',').map(email => email.trim()).filter(email => email) : [],
+          engagement_id: engagementId === 'none' ? null : engagementId,
+          confidentiality,
+          items: items.map(item => ({
+            description: item.description.trim(),
+            due_date: item.due_date || dueDate
+          }))
         })
       });
 
@@ -116,6 +133,10 @@ export function CreateRequestDialog({ open, onOpenChange, accessToken, onRequest
         setDepartment('');
         setCustomDepartment('');
         setCcEmails('');
+        setEngagementId('none');
+        setConfidentiality('standard');
+        setItems([]);
+        setPastedItems('');
         onRequestCreated();
       } else {
         setError(data.error || 'Failed to create request');
@@ -136,10 +157,25 @@ export function CreateRequestDialog({ open, onOpenChange, accessToken, onRequest
     setDepartment('');
     setCustomDepartment('');
     setCcEmails('');
+    setEngagementId('none');
+    setConfidentiality('standard');
+    setItems([]);
+    setPastedItems('');
     setError('');
     onOpenChange(false);
   };
 
+  const updateItem = (index: number, changes: Partial<ChecklistItemInput>) => {
+    setItems(prev => prev.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  // Each pasted line becomes a checklist item due with the request
+  const addPastedItems = () => {
+    const lines = pastedItems.split('\n').map(line => line.trim()).filter(line => line);
+    setItems(prev => [...prev, ...lines.map(description => ({ description, due_date: '' }))]);
+    setPastedItems('');
+  };
+
   // Get minimum date (tomorrow)
   const getMinDate = () => {
     const tomorrow = new Date();
@@ -149,7 +185,7 @@ export function CreateRequestDialog({ open, onOpenChange, accessToken, onRequest
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-lg">
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Create New Document Request</DialogTitle>
           <DialogDescription>
@@ -187,6 +223,25 @@ export function CreateRequestDialog({ open, onOpenChange, accessToken, onRequest
             />
           </div>
 
+          {engagements.length > 0 && (
+            <div className="space-y-2">
+              <Label>Engagement</Label>
+              <Select value={engagementId} onValueChange={setEngagementId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select engagement" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No engagement</SelectItem>
+                  {engagements.filter(engagement => engagement.status !== 'closed').map(engagement => (
+                    <SelectItem key={engagement.id} value={engagement.id}>
+                      {engagement.name} ({engagement.period})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="department">Department</Label>
             <Select value={department} onValueChange={setDepartment} required>
@@ -194,14 +249,14 @@ export function CreateRequestDialog({ open, onOpenChange, accessToken, onRequest
                 <SelectValue placeholder="Select department" />
               </SelectTrigger>
               <SelectContent>
-                {departments.map((dept) => (
+                {departmentOptions(settings).map((dept) => (
                   <SelectItem key={dept} value={dept}>
                     {dept}
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
-            {department === 'Other' && (
+            {department === OTHER_DEPARTMENT && (
               <Input
                 value={customDepartment}
                 onChange={(e) => setCustomDepartment(e.target.value)}
@@ -211,6 +266,28 @@ export function CreateRequestDialog({ open, onOpenChange, accessToken, onRequest
             )}
           </div>
 
+          <div className="space-y-2">
+            <Label>Confidentiality</Label>
+            <Select value={confidentiality} onValueChange={(value: string) => setConfidentiality(value as Confidentiality)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CONFIDENTIALITY_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-gray-500">
+              {CONFIDENTIALITY_OPTIONS.find(option => option.value === confidentiality)?.description}.
+              {confidentiality === 'standard' && isConfidentialDepartment(settings, department) &&
+                ` Requests for ${department} are always at least confidential.`}
+              {' '}Managers can name who else may access it once the request is created.
+            </p>
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="assignedTo">Assign to (Email)</Label>
             <Input
@@ -218,11 +295,11 @@ export function CreateRequestDialog({ open, onOpenChange, accessToken, onRequest
               type="email"
               value={assignedToEmail}
               onChange={(e) => setAssignedToEmail(e.target.value)}
-              placeholder="auditee@ecobank.com"
+              placeholder={exampleEmail(settings, 'auditee')}
               required
             />
             <p className="text-sm text-gray-500">
-              You can assign requests to any Ecobank email. If the user hasn't created an account yet, the request will be automatically assigned when they sign up.
+              You can assign requests to any {settings.organisation_name} email. If the user hasn't created an account yet, the request will be automatically assigned when they sign up.
             </p>
           </div>
 
@@ -232,7 +309,7 @@ export function CreateRequestDialog({ open, onOpenChange, accessToken, onRequest
               id="ccEmails"
               value={ccEmails}
               onChange={(e) => setCcEmails(e.target.value)}
-              placeholder="Enter additional email addresses separated by commas (e.g., manager@ecobank.com, supervisor@ecobank.com)"
+              placeholder={`Enter additional email addresses separated by commas (e.g., ${exampleEmail(settings, 'manager')}, ${exampleEmail(settings, 'supervisor')})`}
               rows={2}
             />
             <p className="text-sm text-gray-500">
@@ -255,6 +332,61 @@ export function CreateRequestDialog({ open, onOpenChange, accessToken, onRequest
             </div>
           </div>
 
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Checklist Items (Optional)</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setItems(prev => [...prev, { description: '', due_date: '' }])}
+                className="flex items-center gap-1"
+              >
+                <Plus className="h-4 w-4" />
+                Add Item
+              </Button>
+            </div>
+            {items.map((item, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <span className="text-sm text-gray-500 w-6">{index + 1}.</span>
+                <Input
+                  value={item.description}
+                  onChange={(e) => updateItem(index, { description: e.target.value })}
+                  placeholder="e.g., Bank reconciliations for September"
+                />
+                <Input
+                  type="date"
+                  value={item.due_date}
+                  onChange={(e) => updateItem(index, { due_date: e.target.value })}
+                  min={getMinDate()}
+                  className="w-40"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setItems(prev => prev.filter((_, i) => i !== index))}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Textarea
+              value={pastedItems}
+              onChange={(e) => setPastedItems(e.target.value)}
+              placeholder="Or paste a list, one item per line"
+              rows={2}
+            />
+            {pastedItems.trim() && (
+              <Button type="button" variant="outline" size="sm" onClick={addPastedItems}>
+                Add Pasted Items
+              </Button>
+            )}
+            <p className="text-sm text-gray-500">
+              Items without a due date use the request due date. The auditee uploads documents against each item.
+            </p>
+          </div>
+
           <DialogFooter className="flex gap-2">
             <Button type="button" variant="outline" onClick={handleCancel}>
               Cancel
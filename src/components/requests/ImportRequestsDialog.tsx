@@ -0,0 +1,349 @@
+import React, { useState } from 'react';
+import * as XLSX from 'xlsx';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { Label } from '../ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '../ui/dialog';
+import { Alert, AlertDescription } from '../ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Upload, Download, FileSpreadsheet } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import { projectId } from '../../utils/supabase/info';
+import { useOrganisationSettings, isAllowedEmail, allowedDomainsLabel, OrganisationSettings } from '../../utils/settings';
+
+interface EngagementOption {
+  id: string;
+  name: string;
+  period: string;
+  status: string;
+}
+
+interface ImportRequestsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accessToken: string;
+  engagements?: EngagementOption[];
+  onImportComplete: () => void;
+}
+
+interface ImportRow {
+  row_number: number;
+  title: string;
+  description: string;
+  due_date: string;
+  assigned_to_email: string;
+  department: string;
+  cc_emails: string;
+  errors: string[];
+  created?: boolean;
+}
+
+// Accepted spreadsheet headers for each request field
+const COLUMN_ALIASES: Record<string, string[]> = {
+  title: ['title'],
+  description: ['description', 'instructions'],
+  due_date: ['due_date', 'due', 'duedate'],
+  assigned_to_email: ['assigned_to_email', 'assignee_email', 'assignee', 'assigned_to', 'email'],
+  department: ['department', 'dept'],
+  cc_emails: ['cc', 'cc_emails', 'cc_email']
+};
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+const validateRow = (row: Omit<ImportRow, 'errors'>, settings: OrganisationSettings): string[] => {
+  const errors: string[] = [];
+  if (!row.title) errors.push('Title is required');
+  if (!row.description) errors.push('Description is required');
+
+  const dueDate = new Date(row.due_date);
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  if (!row.due_date || isNaN(dueDate.getTime())) {
+    errors.push(`Invalid due date "${row.due_date}"`);
+  } else if (dueDate <= today) {
+    errors.push('Due date must be in the future');
+  }
+
+  if (!isAllowedEmail(settings, row.assigned_to_email)) {
+    errors.push(`Assignee email "${row.assigned_to_email}" is not an ${allowedDomainsLabel(settings)} address`);
+  }
+
+  const knownDepartments = settings.departments.map(dept => dept.toLowerCase());
+  if (!knownDepartments.includes(row.department.toLowerCase())) {
+    errors.push(`Unknown department "${row.department}"`);
+  }
+
+  const invalidCc = row.cc_emails.split(/[;,]/).map(email => email.trim()).filter(email => email && !isAllowedEmail(settings, email));
+  if (invalidCc.length > 0) {
+    errors.push(`CC addresses must be ${allowedDomainsLabel(settings)}: ${invalidCc.join(', ')}`);
+  }
+
+  return errors;
+};
+
+const parseSpreadsheet = async (file: File, settings: OrganisationSettings): Promise<ImportRow[]> => {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  const records = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '', raw: false, dateNF: 'yyyy-mm-dd' });
+
+  return records.map((record, index) => {
+    const normalized: Record<string, string> = {};
+    Object.entries(record).forEach(([header, value]) => {
+      normalized[normalizeHeader(header)] = String(value ?? '').trim();
+    });
+    const pick = (field: string) => COLUMN_ALIASES[field].map(alias => normalized[alias]).find(value => value) || '';
+
+    const row = {
+      row_number: index + 2, // header is row 1
+      title: pick('title'),
+      description: pick('description'),
+      due_date: pick('due_date'),
+      assigned_to_email: pick('assigned_to_email'),
+      department: pick('department'),
+      cc_emails: pick('cc_emails')
+    };
+    return { ...row, errors: validateRow(row, settings) };
+  });
+};
+
+const toCsvValue = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+export function ImportRequestsDialog({ open, onOpenChange, accessToken, engagements = [], onImportComplete }: ImportRequestsDialogProps) {
+  const [fileName, setFileName] = useState('');
+  const [engagementId, setEngagementId] = useState('none');
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [imported, setImported] = useState(false);
+  const [error, setError] = useState('');
+  const { settings } = useOrganisationSettings();
+
+  const validRows = rows.filter(row => row.errors.length === 0 && !row.created);
+  const invalidRows = rows.filter(row => row.errors.length > 0);
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError('');
+    setImported(false);
+    try {
+      const parsedRows = await parseSpreadsheet(file, settings);
+      if (parsedRows.length === 0) {
+        setError('The file does not contain any rows');
+        setRows([]);
+        return;
+      }
+      setFileName(file.name);
+      setRows(parsedRows);
+    } catch (parseError) {
+      console.error('Error parsing import file:', parseError);
+      setError('Could not read the file. Please upload a CSV or XLSX file.');
+      setRows([]);
+    }
+  };
+
+  const handleImport = async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-fcebfd37/requests/batch`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          source_filename: fileName,
+          engagement_id: engagementId === 'none' ? null : engagementId,
+          requests: validRows.map(row => ({
+            row_number: row.row_number,
+            title: row.title,
+            description: row.description,
+            due_date: row.due_date,
+            assigned_to_email: row.assigned_to_email,
+            department: row.department,
+            cc_emails: row.cc_emails
+          }))
+        })
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        const createdRows = new Set(data.created.map((c: { row_number: number }) => c.row_number));
+        const serverErrors = new Map<number, string[]>(
+          data.errors.map((e: { row_number: number; errors: string[] }) => [e.row_number, e.errors])
+        );
+        setRows(prev => prev.map(row => ({
+          ...row,
+          created: createdRows.has(row.row_number),
+          errors: serverErrors.get(row.row_number) || row.errors
+        })));
+        setImported(true);
+        toast.success(`Created ${data.created.length} request(s)`);
+        if (data.errors.length > 0) {
+          toast.error(`${data.errors.length} row(s) were rejected by the server`);
+        }
+        onImportComplete();
+      } else {
+        setError(data.error || 'Failed to import requests');
+      }
+    } catch (importError: any) {
+      console.error('Error importing requests:', importError);
+      setError('Failed to import requests. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const downloadErrorReport = () => {
+    const header = ['Row', 'Title', 'Description', 'Due Date', 'Assignee Email', 'Department', 'CC', 'Errors'];
+    const lines = invalidRows.map(row => [
+      String(row.row_number),
+      row.title,
+      row.description,
+      row.due_date,
+      row.assigned_to_email,
+      row.department,
+      row.cc_emails,
+      row.errors.join('; ')
+    ].map(toCsvValue).join(','));
+    const blob = new Blob([[header.join(','), ...lines].join('\n')], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `ADERM-Import-Errors-${new Date().toISOString().split('T')[0]}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleClose = () => {
+    setFileName('');
+    setEngagementId('none');
+    setRows([]);
+    setImported(false);
+    setError('');
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen: boolean) => (isOpen ? onOpenChange(true) : handleClose())}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Requests</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or XLSX file with the columns Title, Description, Due Date, Assignee Email,
+            Department and CC (separate multiple CC addresses with semicolons).
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label>Import File</Label>
+            <label className="flex items-center gap-2 border-2 border-dashed rounded-lg p-4 cursor-pointer hover:border-gray-400">
+              <FileSpreadsheet className="h-6 w-6 text-green-600" />
+              <span className="text-gray-600">{fileName || 'Choose a .csv or .xlsx file'}</span>
+              <input
+                type="file"
+                className="hidden"
+                accept=".csv,.xlsx,.xls"
+                onChange={handleFileSelect}
+              />
+            </label>
+          </div>
+
+          {engagements.length > 0 && (
+            <div className="space-y-2">
+              <Label>Engagement</Label>
+              <Select value={engagementId} onValueChange={setEngagementId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select engagement" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No engagement</SelectItem>
+                  {engagements.filter(engagement => engagement.status !== 'closed').map(engagement => (
+                    <SelectItem key={engagement.id} value={engagement.id}>
+                      {engagement.name} ({engagement.period})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-gray-500">All imported requests are added to this engagement.</p>
+            </div>
+          )}
+
+          {rows.length > 0 && (
+            <>
+              <div className="flex gap-2 text-sm">
+                <Badge className="bg-green-100 text-green-800">{rows.filter(row => row.errors.length === 0).length} valid</Badge>
+                <Badge className="bg-red-100 text-red-800">{invalidRows.length} with errors</Badge>
+                {imported && (
+                  <Badge className="bg-blue-100 text-blue-800">{rows.filter(row => row.created).length} created</Badge>
+                )}
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Title</TableHead>
+                    <TableHead>Assignee</TableHead>
+                    <TableHead>Department</TableHead>
+                    <TableHead>Due Date</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(row => (
+                    <TableRow key={row.row_number} className={row.errors.length > 0 ? 'bg-red-50' : ''}>
+                      <TableCell>{row.row_number}</TableCell>
+                      <TableCell className="max-w-xs truncate">{row.title}</TableCell>
+                      <TableCell>{row.assigned_to_email}</TableCell>
+                      <TableCell>{row.department}</TableCell>
+                      <TableCell>{row.due_date}</TableCell>
+                      <TableCell>
+                        {row.created ? (
+                          <Badge className="bg-green-100 text-green-800">Created</Badge>
+                        ) : row.errors.length > 0 ? (
+                          <span className="text-xs text-red-700">{row.errors.join('; ')}</span>
+                        ) : (
+                          <Badge variant="outline">Ready</Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="flex gap-2">
+          {invalidRows.length > 0 && (
+            <Button variant="outline" onClick={downloadErrorReport} className="flex items-center gap-1">
+              <Download className="h-4 w-4" />
+              Download Error Report
+            </Button>
+          )}
+          <Button variant="outline" onClick={handleClose}>
+            {imported ? 'Close' : 'Cancel'}
+          </Button>
+          <Button onClick={handleImport} disabled={loading || validRows.length === 0} className="flex items-center gap-1">
+            <Upload className="h-4 w-4" />
+            {loading ? 'Importing...' : `Import ${validRows.length} Request(s)`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Button } from '../ui/button';
+import { Label } from '../ui/label';
+import { Textarea } from '../ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '../ui/dialog';
+import { Alert, AlertDescription } from '../ui/alert';
+import { FileText } from 'lucide-react';
+
+interface Document {
+  id: string;
+  filename: string;
+}
+
+export interface RejectionPayload {
+  reason: string;
+  documents: { document_id: string; note: string }[];
+}
+
+interface RejectRequestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  documents: Document[];
+  loading: boolean;
+  onReject: (rejection: RejectionPayload) => void;
+}
+
+export function RejectRequestDialog({ open, onOpenChange, documents, loading, onReject }: RejectRequestDialogProps) {
+  const [reason, setReason] = useState('');
+  const [documentNotes, setDocumentNotes] = useState<Record<string, string>>({});
+  const [error, setError] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!reason.trim()) {
+      setError('Please explain why the request is being rejected');
+      return;
+    }
+
+    setError('');
+    onReject({
+      reason: reason.trim(),
+      documents: Object.entries(documentNotes)
+        .filter(([, note]) => note.trim())
+        .map(([documentId, note]) => ({ document_id: documentId, note: note.trim() }))
+    });
+  };
+
+  const handleCancel = () => {
+    setReason('');
+    setDocumentNotes({});
+    setError('');
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reject Request</DialogTitle>
+          <DialogDescription>
+            The auditee will see this feedback in the request and in the notification email.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="rejectionReason">Reason for Rejection</Label>
+            <Textarea
+              id="rejectionReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Explain what is missing or incorrect in this submission..."
+              rows={3}
+            />
+          </div>
+
+          {documents.length > 0 && (
+            <div className="space-y-3">
+              <Label>Document Feedback (Optional)</Label>
+              {documents.map((document) => (
+                <div key={document.id} className="space-y-1">
+                  <div className="flex items-center gap-2 text-sm text-gray-700">
+                    <FileText className="h-4 w-4 text-blue-600" />
+                    {document.filename}
+                  </div>
+                  <Textarea
+                    value={documentNotes[document.id] || ''}
+                    onChange={(e) => setDocumentNotes(prev => ({ ...prev, [document.id]: e.target.value }))}
+                    placeholder="What is wrong with this file?"
+                    rows={2}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <DialogFooter className="flex gap-2">
+            <Button type="button" variant="outline" onClick={handleCancel}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="destructive" disabled={loading || !reason.trim()}>
+              {loading ? 'Rejecting...' : 'Reject Request'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
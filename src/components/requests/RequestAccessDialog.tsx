@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '../ui/button';
+import { Label } from '../ui/label';
+import { Textarea } from '../ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '../ui/dialog';
+import { Alert, AlertDescription } from '../ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { toast } from 'sonner';
+import { projectId } from '../../utils/supabase/info';
+import { useOrganisationSettings, isAllowedEmail, allowedDomainsLabel, exampleEmail, isConfidentialDepartment } from '../../utils/settings';
+import { Confidentiality, RequestAccessLists, CONFIDENTIALITY_OPTIONS, ACCESS_LIST_OPTIONS } from '../../utils/requestAccess';
+
+// Roles that can be named on an access list, as well as email addresses
+const GRANTABLE_ROLES = ['auditor', 'auditee'];
+
+interface RequestAccessDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  requestId: string;
+  department?: string;
+  confidentiality: Confidentiality;
+  lists: RequestAccessLists;
+  accessToken: string;
+  onSaved: (request: any) => void;
+}
+
+const toEntries = (value: string) =>
+  value.split(/[\n,;]/).map(entry => entry.trim().toLowerCase()).filter(entry => entry);
+
+// Managers choose how confidential a request is and who may see or review it beyond that
+export function RequestAccessDialog({
+  open,
+  onOpenChange,
+  requestId,
+  department,
+  confidentiality,
+  lists,
+  accessToken,
+  onSaved
+}: RequestAccessDialogProps) {
+  const [level, setLevel] = useState<Confidentiality>(confidentiality);
+  const [drafts, setDrafts] = useState<Record<keyof RequestAccessLists, string>>({ view_access: '', document_access: '', status_access: '' });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const { settings } = useOrganisationSettings();
+
+  useEffect(() => {
+    if (open) {
+      setLevel(confidentiality);
+      setDrafts({
+        view_access: (lists.view_access || []).join(', '),
+        document_access: (lists.document_access || []).join(', '),
+        status_access: (lists.status_access || []).join(', ')
+      });
+      setError('');
+    }
+  }, [open]);
+
+  const departmentIsConfidential = isConfidentialDepartment(settings, department);
+
+  const handleSave = async () => {
+    const invalid = ACCESS_LIST_OPTIONS.flatMap(option => toEntries(drafts[option.field]))
+      .filter(entry => !GRANTABLE_ROLES.includes(entry) && !isAllowedEmail(settings, entry));
+    if (invalid.length > 0) {
+      setError(`Access lists take ${allowedDomainsLabel(settings)} addresses or the roles auditor and auditee: ${invalid.join(', ')}`);
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-fcebfd37/requests/${requestId}/access`,
+        {
+          method: 'PUT',
+          headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({
+            confidentiality: level,
+            view_access: toEntries(drafts.view_access),
+            document_access: toEntries(drafts.document_access),
+            status_access: toEntries(drafts.status_access)
+          })
+        }
+      );
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success('Request access updated');
+        onSaved(data.request);
+      } else {
+        setError(data.error || 'Failed to update request access');
+      }
+    } catch (error: any) {
+      console.error('Error updating request access:', error);
+      setError('Failed to update request access. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Request Access</DialogTitle>
+          <DialogDescription>
+            Managers and the assignee always have access. The lists below give named people, or everyone with a role,
+            more access than the confidentiality level allows.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label>Confidentiality</Label>
+            <Select value={level} onValueChange={(value: string) => setLevel(value as Confidentiality)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CONFIDENTIALITY_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-gray-500">
+              {CONFIDENTIALITY_OPTIONS.find(option => option.value === level)?.description}.
+              {level === 'standard' && departmentIsConfidential &&
+                ` Requests for ${department} are always at least confidential.`}
+            </p>
+          </div>
+
+          {ACCESS_LIST_OPTIONS.map(option => (
+            <div key={option.field} className="space-y-2">
+              <Label htmlFor={option.field}>{option.label}</Label>
+              <Textarea
+                id={option.field}
+                value={drafts[option.field]}
+                onChange={(e) => setDrafts(prev => ({ ...prev, [option.field]: e.target.value }))}
+                placeholder={`e.g., ${exampleEmail(settings, 'auditor')}, auditee`}
+                rows={2}
+              />
+              <p className="text-xs text-gray-500">{option.hint}.</p>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter className="flex gap-2">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={loading}>
+            {loading ? 'Saving...' : 'Save Access'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
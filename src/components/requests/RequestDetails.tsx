@@ -3,14 +3,23 @@ import { Button } from '../ui/button';
 import { Badge } from '../ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '../ui/dialog';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
 import { Separator } from '../ui/separator';
-import { Calendar, User, FileText, Download, Clock, Upload, Building } from 'lucide-react';
+import { Progress } from '../ui/progress';
+import { Textarea } from '../ui/textarea';
+import { Input } from '../ui/input';
+import { Calendar, User, FileText, Download, Clock, Upload, Building, Send, History, ListChecks, CheckCircle, XCircle, Pencil, Shield } from 'lucide-react';
 import { UploadDialog } from './UploadDialog';
+import { SubmitForReviewDialog } from './SubmitForReviewDialog';
+import { RejectRequestDialog, RejectionPayload } from './RejectRequestDialog';
+import { CommentThread } from './CommentThread';
+import { RequestTimeline } from './RequestTimeline';
+import { RequestAccessDialog } from './RequestAccessDialog';
 import { toast } from 'sonner@2.0.3';
 import { projectId } from '../../utils/supabase/info';
+import { useOrganisationSettings, isAllowedEmail, allowedDomainsLabel, exampleEmail } from '../../utils/settings';
+import { RequestAccess, RequestAccessLists, ACCESS_LIST_OPTIONS, confidentialityLabel } from '../../utils/requestAccess';
 
-interface Request {
+interface Request extends RequestAccessLists {
   id: string;
   title: string;
   description: string;
@@ -21,11 +30,34 @@ interface Request {
   assigned_to_email: string;
   department?: string;
   cc_emails?: string[];
+  confidentiality: RequestAccess['confidentiality'];
+  access: RequestAccess;
   pending_assignment?: boolean;
+  allowed_transitions?: string[];
+  submitted_at?: string;
+  submission_attestation?: string;
+  rejection?: Rejection;
+  items?: ChecklistItem[];
   created_at: string;
   updated_at: string;
 }
 
+interface ChecklistItem {
+  id: string;
+  description: string;
+  due_date: string;
+  required: boolean;
+  status: string;
+  review_note?: string | null;
+}
+
+interface Rejection {
+  reason: string;
+  rejected_by_name?: string;
+  rejected_at: string;
+  documents: { document_id: string; filename: string; note: string }[];
+}
+
 interface Document {
   id: string;
   request_id: string;
@@ -35,6 +67,13 @@ interface Document {
   uploaded_by: string;
   uploaded_at: string;
   comments: string;
+  review_status?: string;
+  review_note?: string;
+  evidence_id?: string;
+  item_id?: string | null;
+  version?: number;
+  is_current?: boolean;
+  uploaded_by_name?: string | null;
 }
 
 interface RequestDetailsProps {
@@ -58,12 +97,81 @@ export function RequestDetails({
   const [loading, setLoading] = useState(false);
   const [statusLoading, setStatusLoading] = useState(false);
   const [showUploadDialog, setShowUploadDialog] = useState(false);
+  const [showSubmitDialog, setShowSubmitDialog] = useState(false);
+  const [showRejectDialog, setShowRejectDialog] = useState(false);
+  const [replacingDocument, setReplacingDocument] = useState<Document | null>(null);
+  const [uploadItemId, setUploadItemId] = useState<string | null>(null);
+  const [items, setItems] = useState<ChecklistItem[]>(request.items || []);
+  const [rejectingItemId, setRejectingItemId] = useState<string | null>(null);
+  const [itemNote, setItemNote] = useState('');
+  const [itemLoading, setItemLoading] = useState(false);
+  const [expandedHistory, setExpandedHistory] = useState<Record<string, boolean>>({});
+  const [rejection, setRejection] = useState<Rejection | undefined>(request.rejection);
+  const [status, setStatus] = useState(request.status);
+  const [allowedTransitions, setAllowedTransitions] = useState<string[]>(request.allowed_transitions || []);
+  const [ccEmails, setCcEmails] = useState<string[]>(request.cc_emails || []);
+  const [editingCc, setEditingCc] = useState(false);
+  const [ccDraft, setCcDraft] = useState('');
+  const [ccLoading, setCcLoading] = useState(false);
+  const [access, setAccess] = useState<RequestAccess>(request.access);
+  const [accessLists, setAccessLists] = useState<RequestAccessLists>(request);
+  const [showAccessDialog, setShowAccessDialog] = useState(false);
+  const { settings } = useOrganisationSettings();
 
   useEffect(() => {
-    if (open) {
+    if (open && access.documents) {
       fetchDocuments();
     }
-  }, [open, request.id]);
+  }, [open, request.id, access.documents]);
+
+  useEffect(() => {
+    setStatus(request.status);
+    setAllowedTransitions(request.allowed_transitions || []);
+    setRejection(request.rejection);
+    setItems(request.items || []);
+    setCcEmails(request.cc_emails || []);
+    setEditingCc(false);
+    setAccess(request.access);
+    setAccessLists(request);
+  }, [request.id, request.status, request.allowed_transitions, request.rejection, request.items, request.cc_emails, request.access]);
+
+  const handleSaveCc = async () => {
+    const emails = ccDraft.split(/[;,]/).map(email => email.trim()).filter(email => email);
+    if (emails.some(email => !isAllowedEmail(settings, email))) {
+      toast.error(`All CC email addresses must be ${settings.organisation_name} email addresses (${allowedDomainsLabel(settings)})`);
+      return;
+    }
+
+    setCcLoading(true);
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-fcebfd37/requests/${request.id}/cc`,
+        {
+          method: 'PUT',
+          headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ cc_emails: emails })
+        }
+      );
+      const data = await response.json();
+
+      if (response.ok) {
+        setCcEmails(data.request.cc_emails);
+        setEditingCc(false);
+        toast.success('CC recipients updated');
+        onRequestUpdate();
+      } else {
+        toast.error(data.error || 'Failed to update CC recipients');
+      }
+    } catch (error) {
+      console.error('Error updating CC recipients:', error);
+      toast.error('Failed to update CC recipients');
+    } finally {
+      setCcLoading(false);
+    }
+  };
 
   const fetchDocuments = async () => {
     setLoading(true);
@@ -91,7 +199,7 @@ export function RequestDetails({
       } else if (response.status === 403) {
         const data = await response.json();
         if (data.confidential) {
-          // Handle HR confidential access restriction
+          // Access was narrowed since the request was loaded
           setDocuments([]);
         } else {
           console.error('Failed to fetch documents');
@@ -114,7 +222,15 @@ export function RequestDetails({
     }
   };
 
-  const updateStatus = async (newStatus: string) => {
+  const handleStatusAction = (newStatus: string) => {
+    if (newStatus === 'rejected') {
+      setShowRejectDialog(true);
+      return;
+    }
+    updateStatus(newStatus);
+  };
+
+  const updateStatus = async (newStatus: string, rejectionPayload?: RejectionPayload) => {
     setStatusLoading(true);
     try {
       // Add timeout to prevent hanging requests
@@ -129,18 +245,31 @@ export function RequestDetails({
             'Authorization': `Bearer ${accessToken}`,
             'Content-Type': 'application/json'
           },
-          body: JSON.stringify({ status: newStatus }),
+          body: JSON.stringify({ status: newStatus, rejection: rejectionPayload }),
           signal: controller.signal
         }
       );
 
       clearTimeout(timeoutId);
 
+      const data = await response.json();
+
       if (response.ok) {
+        setStatus(data.request.status);
+        setAllowedTransitions(data.allowed_transitions || []);
+        setRejection(data.request.rejection);
+        if (rejectionPayload) {
+          setShowRejectDialog(false);
+          fetchDocuments();
+        }
         toast.success('Status updated successfully');
         onRequestUpdate();
       } else {
-        const data = await response.json();
+        if (response.status === 409 && data.allowed_transitions) {
+          // The request moved on since it was loaded; sync to the server's view
+          setStatus(data.current_status);
+          setAllowedTransitions(data.allowed_transitions);
+        }
         toast.error(data.error || 'Failed to update status');
       }
     } catch (error: any) {
@@ -160,7 +289,10 @@ export function RequestDetails({
     switch (status) {
       case 'submitted':
         return 'bg-blue-100 text-blue-800';
+      case 'under_review':
+        return 'bg-indigo-100 text-indigo-800';
       case 'in_progress':
+      case 'reopened':
         return 'bg-yellow-100 text-yellow-800';
       case 'rejected':
         return 'bg-red-100 text-red-800';
@@ -171,26 +303,131 @@ export function RequestDetails({
     }
   };
 
+  const getTransitionLabel = (nextStatus: string) => {
+    switch (nextStatus) {
+      case 'in_progress':
+        return status === 'draft' ? 'Issue Request' : 'Return to In Progress';
+      case 'submitted':
+        return 'Submit';
+      case 'under_review':
+        return 'Start Review';
+      case 'approved':
+        return 'Approve';
+      case 'rejected':
+        return 'Reject';
+      case 'reopened':
+        return 'Reopen';
+      case 'cancelled':
+        return 'Cancel Request';
+      default:
+        return nextStatus.replace('_', ' ');
+    }
+  };
+
   const isOverdue = () => {
-    if (request.status === 'approved') return false;
+    if (status === 'approved' || status === 'cancelled') return false;
     return new Date(request.due_date) < new Date();
   };
 
   const canUpdateStatus = () => {
-    if (request.department === 'Human Resources' && userRole === 'auditor') {
-      return false; // Auditors cannot update HR request status
-    }
-    return userRole === 'auditor' || userRole === 'manager';
+    return access.status && getStatusActions().length > 0;
+  };
+
+  // Submission goes through its own dialog, so it is not offered as a plain status change
+  const getStatusActions = () => {
+    return allowedTransitions.filter((nextStatus) => nextStatus !== 'submitted');
+  };
+
+  const canSubmitForReview = () => {
+    return userRole === 'auditee' && allowedTransitions.includes('submitted');
   };
 
   const canUpload = () => {
-    return userRole === 'auditee' && (request.status === 'submitted' || request.status === 'in_progress' || request.status === 'rejected');
+    return userRole === 'auditee' && access.upload && ['submitted', 'in_progress', 'rejected', 'reopened'].includes(status);
   };
 
-  const isHRConfidential = () => {
-    return request.department === 'Human Resources' && userRole === 'auditor';
+  // Group uploads into evidence items, newest version first
+  const getEvidenceItems = () => {
+    const groups = new Map<string, Document[]>();
+    documents.forEach((document) => {
+      const evidenceId = document.evidence_id || document.id;
+      groups.set(evidenceId, [...(groups.get(evidenceId) || []), document]);
+    });
+    return Array.from(groups.values()).map((versions) =>
+      versions.sort((a, b) => (b.version || 1) - (a.version || 1))
+    );
   };
 
+  const currentDocuments = documents.filter((document) => document.is_current !== false);
+
+  const openUploadDialog = (document: Document | null, itemId: string | null = null) => {
+    setReplacingDocument(document);
+    setUploadItemId(itemId);
+    setShowUploadDialog(true);
+  };
+
+  const canReviewItems = () => {
+    return (userRole === 'auditor' || userRole === 'manager') && access.status;
+  };
+
+  const getItemStatusColor = (itemStatus: string) => {
+    switch (itemStatus) {
+      case 'provided':
+        return 'bg-blue-100 text-blue-800';
+      case 'approved':
+        return 'bg-green-100 text-green-800';
+      case 'rejected':
+        return 'bg-red-100 text-red-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const updateItemStatus = async (itemId: string, itemStatus: 'approved' | 'rejected', note?: string) => {
+    setItemLoading(true);
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-fcebfd37/requests/${request.id}/items/${itemId}/status`,
+        {
+          method: 'PUT',
+          headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ status: itemStatus, note })
+        }
+      );
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setItems(prev => prev.map(item => (item.id === itemId ? data.item : item)));
+        setRejectingItemId(null);
+        setItemNote('');
+        toast.success(itemStatus === 'approved' ? 'Item approved' : 'Item rejected');
+        onRequestUpdate();
+      } else {
+        toast.error(data.error || 'Failed to update checklist item');
+      }
+    } catch (error: any) {
+      console.error('Error updating checklist item:', error);
+      toast.error('Failed to update checklist item');
+    } finally {
+      setItemLoading(false);
+    }
+  };
+
+  const handleAccessSaved = (updatedRequest: Request) => {
+    setAccess(updatedRequest.access);
+    setAccessLists(updatedRequest);
+    setShowAccessDialog(false);
+    onRequestUpdate();
+  };
+
+  const accessListCount = ACCESS_LIST_OPTIONS.reduce((count, option) => count + (accessLists[option.field] || []).length, 0);
+
+  const approvedItemCount = items.filter(item => item.status === 'approved').length;
+
   const handleDownload = (document: Document) => {
     if (document.file_url) {
       window.open(document.file_url, '_blank');
@@ -220,8 +457,8 @@ export function RequestDetails({
               <CardContent className="space-y-4">
                 <div className="flex flex-wrap gap-4 text-sm">
                   <div className="flex items-center gap-2">
-                    <Badge className={getStatusColor(request.status)}>
-                      {request.status.replace('_', ' ').toUpperCase()}
+                    <Badge className={getStatusColor(status)}>
+                      {status.replace('_', ' ').toUpperCase()}
                     </Badge>
                     {isOverdue() && (
                       <Badge variant="destructive">OVERDUE</Badge>
@@ -250,18 +487,69 @@ export function RequestDetails({
                     <Clock className="h-4 w-4" />
                     Created: {new Date(request.created_at).toLocaleDateString()}
                   </div>
+                  <div className="flex items-center gap-1 text-gray-600">
+                    <Shield className="h-4 w-4" />
+                    {confidentialityLabel(access.confidentiality)}
+                    {access.manage_access && (
+                      <>
+                        {accessListCount > 0 && ` · ${accessListCount} access list ${accessListCount === 1 ? 'entry' : 'entries'}`}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setShowAccessDialog(true)}
+                          className="h-6 px-2"
+                        >
+                          <Pencil className="h-3 w-3" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
                 </div>
 
-                {request.cc_emails && request.cc_emails.length > 0 && (
+                {(ccEmails.length > 0 || (userRole !== 'auditee' && access.status)) && (
                   <div className="mt-3">
-                    <div className="text-sm font-medium text-gray-700 mb-1">CC Recipients:</div>
-                    <div className="flex flex-wrap gap-2">
-                      {request.cc_emails.map((email, index) => (
-                        <Badge key={index} variant="outline" className="text-xs">
-                          {email}
-                        </Badge>
-                      ))}
+                    <div className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-1">
+                      CC Recipients:
+                      {userRole !== 'auditee' && access.status && !editingCc && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setCcDraft(ccEmails.join(', '));
+                            setEditingCc(true);
+                          }}
+                          className="h-6 px-2"
+                        >
+                          <Pencil className="h-3 w-3" />
+                        </Button>
+                      )}
                     </div>
+                    {editingCc ? (
+                      <div className="flex items-center gap-2">
+                        <Input
+                          value={ccDraft}
+                          onChange={(e) => setCcDraft(e.target.value)}
+                          placeholder={`${exampleEmail(settings, 'manager')}, ${exampleEmail(settings, 'supervisor')}`}
+                        />
+                        <Button size="sm" onClick={handleSaveCc} disabled={ccLoading}>
+                          {ccLoading ? 'Saving...' : 'Save'}
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => setEditingCc(false)}>
+                          Cancel
+                        </Button>
+                      </div>
+                    ) : ccEmails.length > 0 ? (
+                      <div className="flex flex-wrap gap-2">
+                        {ccEmails.map((email, index) => (
+                          <Badge key={index} variant="outline" className="text-xs">
+                            {email}
+                          </Badge>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-xs text-gray-500">Nobody is copied on notifications for this request.</p>
+                    )}
+                    <p className="text-xs text-gray-500 mt-1">CC recipients receive the new request and status change emails.</p>
                   </div>
                 )}
 
@@ -272,47 +560,206 @@ export function RequestDetails({
                   <p className="text-gray-600 whitespace-pre-wrap">{request.description}</p>
                 </div>
 
+                {rejection && ['rejected', 'in_progress', 'reopened'].includes(status) && (
+                  <div className="text-sm p-3 bg-red-50 border border-red-200 rounded">
+                    <div className="font-medium text-red-900 mb-1">
+                      {status === 'rejected' ? 'Reason for Rejection' : 'Previous Rejection Feedback'}
+                      <span className="font-normal text-red-700 ml-2">
+                        ({rejection.rejected_by_name ? `${rejection.rejected_by_name}, ` : ''}{new Date(rejection.rejected_at).toLocaleString()})
+                      </span>
+                    </div>
+                    <p className="text-red-800 whitespace-pre-wrap">{rejection.reason}</p>
+                    {access.documents && rejection.documents.length > 0 && (
+                      <ul className="mt-2 space-y-1 text-red-800">
+                        {rejection.documents.map((feedback) => (
+                          <li key={feedback.document_id}>
+                            <strong>{feedback.filename}:</strong> {feedback.note}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+
+                {request.submission_attestation && (
+                  <div className="text-sm p-3 bg-blue-50 border border-blue-100 rounded">
+                    <div className="font-medium text-blue-900 mb-1">
+                      Submission Attestation
+                      {request.submitted_at && (
+                        <span className="font-normal text-blue-700 ml-2">
+                          ({new Date(request.submitted_at).toLocaleString()})
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-blue-800 whitespace-pre-wrap">{request.submission_attestation}</p>
+                  </div>
+                )}
+
                 {canUpdateStatus() && (
-                  <div className="flex items-center gap-2">
+                  <div className="flex flex-wrap items-center gap-2">
                     <label className="text-sm font-medium">Update Status:</label>
-                    <Select 
-                      value={request.status} 
-                      onValueChange={updateStatus}
-                      disabled={statusLoading}
-                    >
-                      <SelectTrigger className="w-40">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="submitted">Submitted</SelectItem>
-                        <SelectItem value="in_progress">In Progress</SelectItem>
-                        <SelectItem value="rejected">Rejected</SelectItem>
-                        <SelectItem value="approved">Approved</SelectItem>
-                      </SelectContent>
-                    </Select>
+                    {getStatusActions().map((nextStatus) => (
+                      <Button
+                        key={nextStatus}
+                        size="sm"
+                        variant={nextStatus === 'rejected' || nextStatus === 'cancelled' ? 'destructive' : 'outline'}
+                        onClick={() => handleStatusAction(nextStatus)}
+                        disabled={statusLoading}
+                      >
+                        {getTransitionLabel(nextStatus)}
+                      </Button>
+                    ))}
                   </div>
                 )}
               </CardContent>
             </Card>
 
+            {/* Checklist Section */}
+            {items.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <div className="flex justify-between items-center">
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      <ListChecks className="h-5 w-5" />
+                      Checklist
+                    </CardTitle>
+                    <span className="text-sm text-gray-600">
+                      {approvedItemCount} of {items.length} approved
+                    </span>
+                  </div>
+                  <Progress value={Math.round((approvedItemCount / items.length) * 100)} />
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {items.map((item, index) => {
+                    const itemDocuments = currentDocuments.filter(document => document.item_id === item.id);
+                    return (
+                      <div key={item.id} className="p-3 border rounded-lg">
+                        <div className="flex justify-between items-start gap-4">
+                          <div className="flex-1">
+                            <div className="flex items-center gap-2 flex-wrap">
+                              <span className="font-medium">{index + 1}. {item.description}</span>
+                              <Badge className={getItemStatusColor(item.status)}>
+                                {item.status.toUpperCase()}
+                              </Badge>
+                              {!item.required && (
+                                <Badge variant="outline" className="text-xs">Optional</Badge>
+                              )}
+                            </div>
+                            <div className="text-sm text-gray-600 mt-1">
+                              Due {new Date(item.due_date).toLocaleDateString()} · {itemDocuments.length} document(s)
+                            </div>
+                            {item.review_note && (
+                              <div className={`text-sm mt-2 p-2 rounded ${item.status === 'rejected' ? 'bg-red-50 text-red-800' : 'bg-gray-100 text-gray-700'}`}>
+                                <strong>Reviewer note:</strong> {item.review_note}
+                              </div>
+                            )}
+                          </div>
+                          <div className="flex gap-2">
+                            {canUpload() && item.status !== 'approved' && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => openUploadDialog(null, item.id)}
+                                className="flex items-center gap-1"
+                              >
+                                <Upload className="h-4 w-4" />
+                                Upload
+                              </Button>
+                            )}
+                            {canReviewItems() && item.status === 'provided' && (
+                              <>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => updateItemStatus(item.id, 'approved')}
+                                  disabled={itemLoading}
+                                  className="flex items-center gap-1"
+                                >
+                                  <CheckCircle className="h-4 w-4" />
+                                  Approve
+                                </Button>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => setRejectingItemId(item.id)}
+                                  disabled={itemLoading}
+                                  className="flex items-center gap-1"
+                                >
+                                  <XCircle className="h-4 w-4" />
+                                  Reject
+                                </Button>
+                              </>
+                            )}
+                          </div>
+                        </div>
+                        {rejectingItemId === item.id && (
+                          <div className="mt-3 space-y-2">
+                            <Textarea
+                              value={itemNote}
+                              onChange={(e) => setItemNote(e.target.value)}
+                              placeholder="Explain what is missing or wrong for this item..."
+                              rows={2}
+                            />
+                            <div className="flex gap-2 justify-end">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => {
+                                  setRejectingItemId(null);
+                                  setItemNote('');
+                                }}
+                              >
+                                Cancel
+                              </Button>
+                              <Button
+                                variant="destructive"
+                                size="sm"
+                                onClick={() => updateItemStatus(item.id, 'rejected', itemNote)}
+                                disabled={itemLoading || !itemNote.trim()}
+                              >
+                                Reject Item
+                              </Button>
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Documents Section */}
             <Card>
               <CardHeader>
                 <div className="flex justify-between items-center">
                   <CardTitle className="text-lg">Submitted Documents</CardTitle>
-                  {canUpload() && (
-                    <Button
-                      onClick={() => setShowUploadDialog(true)}
-                      className="flex items-center gap-2"
-                    >
-                      <Upload className="h-4 w-4" />
-                      Upload Document
-                    </Button>
-                  )}
+                  <div className="flex gap-2">
+                    {canUpload() && (
+                      <Button
+                        variant={canSubmitForReview() ? 'outline' : 'default'}
+                        onClick={() => openUploadDialog(null)}
+                        className="flex items-center gap-2"
+                      >
+                        <Upload className="h-4 w-4" />
+                        Upload Document
+                      </Button>
+                    )}
+                    {canSubmitForReview() && (
+                      <Button
+                        onClick={() => setShowSubmitDialog(true)}
+                        disabled={currentDocuments.length === 0}
+                        className="flex items-center gap-2"
+                      >
+                        <Send className="h-4 w-4" />
+                        Submit for Review
+                      </Button>
+                    )}
+                  </div>
                 </div>
               </CardHeader>
               <CardContent>
-                {isHRConfidential() ? (
+                {!access.documents ? (
                   <div className="text-center py-8">
                     <div className="bg-amber-50 border border-amber-200 rounded-lg p-6">
                       <div className="flex items-center justify-center mb-4">
@@ -321,14 +768,14 @@ export function RequestDetails({
                         </div>
                       </div>
                       <h3 className="text-lg font-medium text-amber-900 mb-2">
-                        Confidential HR Request
+                        {confidentialityLabel(access.confidentiality)} Request
                       </h3>
                       <p className="text-amber-700 mb-4">
-                        This is a Human Resources department request. Document submissions and responses 
-                        are confidential and can only be viewed by managers.
+                        Documents, the discussion and the history of this request are only visible to managers,
+                        the assignee and the people on its access list.
                       </p>
                       <p className="text-sm text-amber-600">
-                        Contact your manager if you need access to the submitted documents for this request.
+                        Ask a manager to add you to the request's access list if you need them.
                       </p>
                     </div>
                   </div>
@@ -343,7 +790,7 @@ export function RequestDetails({
                     {canUpload() && (
                       <Button
                         variant="outline"
-                        onClick={() => setShowUploadDialog(true)}
+                        onClick={() => openUploadDialog(null)}
                         className="mt-2"
                       >
                         Upload First Document
@@ -352,40 +799,118 @@ export function RequestDetails({
                   </div>
                 ) : (
                   <div className="space-y-4">
-                    {documents.map((document) => (
-                      <div
-                        key={document.id}
-                        className="flex items-center justify-between p-4 border rounded-lg hover:bg-gray-50"
-                      >
-                        <div className="flex-1">
-                          <div className="flex items-center gap-2">
-                            <FileText className="h-5 w-5 text-blue-600" />
-                            <span className="font-medium">{document.filename}</span>
+                    {getEvidenceItems().map(([document, ...previousVersions]) => (
+                      <div key={document.id} className="p-4 border rounded-lg hover:bg-gray-50">
+                        <div className="flex items-center justify-between">
+                          <div className="flex-1">
+                            <div className="flex items-center gap-2">
+                              <FileText className="h-5 w-5 text-blue-600" />
+                              <span className="font-medium">{document.filename}</span>
+                              <Badge variant="outline" className="text-xs">v{document.version || 1}</Badge>
+                            </div>
+                            <div className="text-sm text-gray-600 mt-1">
+                              Uploaded {new Date(document.uploaded_at).toLocaleString()}
+                              {document.uploaded_by_name && ` by ${document.uploaded_by_name}`}
+                            </div>
+                            {document.item_id && items.some(item => item.id === document.item_id) && (
+                              <div className="text-sm text-gray-600">
+                                For: {items.find(item => item.id === document.item_id)?.description}
+                              </div>
+                            )}
+                            {document.comments && (
+                              <div className="text-sm text-gray-700 mt-2 p-2 bg-gray-100 rounded">
+                                <strong>Comments:</strong> {document.comments}
+                              </div>
+                            )}
+                            {document.review_status === 'rejected' && document.review_note && (
+                              <div className="text-sm text-red-800 mt-2 p-2 bg-red-50 border border-red-200 rounded">
+                                <strong>Auditor feedback:</strong> {document.review_note}
+                              </div>
+                            )}
                           </div>
-                          <div className="text-sm text-gray-600 mt-1">
-                            Uploaded {new Date(document.uploaded_at).toLocaleString()}
+                          <div className="flex gap-2">
+                            {canUpload() && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => openUploadDialog(document)}
+                                className="flex items-center gap-1"
+                              >
+                                <Upload className="h-4 w-4" />
+                                New Version
+                              </Button>
+                            )}
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleDownload(document)}
+                              className="flex items-center gap-1"
+                            >
+                              <Download className="h-4 w-4" />
+                              Download
+                            </Button>
                           </div>
-                          {document.comments && (
-                            <div className="text-sm text-gray-700 mt-2 p-2 bg-gray-100 rounded">
-                              <strong>Comments:</strong> {document.comments}
-                            </div>
-                          )}
                         </div>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => handleDownload(document)}
-                          className="flex items-center gap-1"
-                        >
-                          <Download className="h-4 w-4" />
-                          Download
-                        </Button>
+
+                        {previousVersions.length > 0 && (
+                          <div className="mt-3">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setExpandedHistory(prev => ({ ...prev, [document.id]: !prev[document.id] }))}
+                              className="flex items-center gap-1 text-gray-600"
+                            >
+                              <History className="h-4 w-4" />
+                              {expandedHistory[document.id] ? 'Hide' : 'Show'} version history ({previousVersions.length})
+                            </Button>
+                            {expandedHistory[document.id] && (
+                              <div className="mt-2 space-y-2 border-l-2 border-gray-200 pl-4">
+                                {previousVersions.map((version) => (
+                                  <div key={version.id} className="flex items-center justify-between text-sm text-gray-600">
+                                    <div>
+                                      <Badge variant="outline" className="text-xs mr-2">v{version.version || 1}</Badge>
+                                      {version.filename} — {new Date(version.uploaded_at).toLocaleString()}
+                                      {version.uploaded_by_name && ` by ${version.uploaded_by_name}`}
+                                      {version.review_note && (
+                                        <div className="text-red-700 mt-1">Feedback: {version.review_note}</div>
+                                      )}
+                                    </div>
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => handleDownload(version)}
+                                      className="flex items-center gap-1"
+                                    >
+                                      <Download className="h-4 w-4" />
+                                    </Button>
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        )}
                       </div>
                     ))}
                   </div>
                 )}
               </CardContent>
             </Card>
+
+            {access.documents && (
+              <>
+                <CommentThread
+                  requestId={request.id}
+                  accessToken={accessToken}
+                  documents={currentDocuments}
+                />
+
+                <RequestTimeline
+                  requestId={request.id}
+                  accessToken={accessToken}
+                  refreshKey={`${status}|${documents.length}|${items.map(item => item.status).join(',')}|${ccEmails.join(',')}|${access.confidentiality}|${accessListCount}`}
+                />
+              </>
+            )}
           </div>
         </DialogContent>
       </Dialog>
@@ -394,13 +919,62 @@ export function RequestDetails({
         open={showUploadDialog}
         onOpenChange={setShowUploadDialog}
         requestId={request.id}
-        requestStatus={request.status}
+        requestStatus={status}
+        replacesDocument={replacingDocument}
+        items={items}
+        defaultItemId={uploadItemId}
         accessToken={accessToken}
-        onUploadComplete={() => {
+        onUploadComplete={(uploadedDocument) => {
+          const uploadedItemId = uploadedDocument?.item_id;
+          if (uploadedItemId) {
+            setItems(prev => prev.map(item =>
+              item.id === uploadedItemId && item.status !== 'approved' ? { ...item, status: 'provided' } : item
+            ));
+          }
           setShowUploadDialog(false);
+          setReplacingDocument(null);
           fetchDocuments();
           onRequestUpdate();
         }}
+        onSubmitted={(submittedRequest, transitions) => {
+          setStatus(submittedRequest.status);
+          setAllowedTransitions(transitions);
+        }}
+      />
+
+      <RejectRequestDialog
+        open={showRejectDialog}
+        onOpenChange={setShowRejectDialog}
+        documents={currentDocuments}
+        loading={statusLoading}
+        onReject={(rejectionPayload) => updateStatus('rejected', rejectionPayload)}
+      />
+
+      {access.manage_access && (
+        <RequestAccessDialog
+          open={showAccessDialog}
+          onOpenChange={setShowAccessDialog}
+          requestId={request.id}
+          department={request.department}
+          confidentiality={access.confidentiality}
+          lists={accessLists}
+          accessToken={accessToken}
+          onSaved={handleAccessSaved}
+        />
+      )}
+
+      <SubmitForReviewDialog
+        open={showSubmitDialog}
+        onOpenChange={setShowSubmitDialog}
+        requestId={request.id}
+        documentCount={currentDocuments.length}
+        accessToken={accessToken}
+        onSubmitted={() => {
+          setShowSubmitDialog(false);
+          setStatus('submitted');
+          setAllowedTransitions([]);
+          onRequestUpdate();
+        }}
       />
     </>
   );
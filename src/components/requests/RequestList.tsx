@@ -1,14 +1,29 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Button } from '../ui/button';
 import { Badge } from '../ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
 import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Switch } from '../ui/switch';
+import { Progress } from '../ui/progress';
 import { Calendar, FileText, Clock, User, Filter, Upload, Building, Shield } from 'lucide-react';
 import { RequestDetails } from './RequestDetails';
 import { UploadDialog } from './UploadDialog';
+import { projectId } from '../../utils/supabase/info';
+import { useOrganisationSettings } from '../../utils/settings';
+import { RequestAccess, RequestAccessLists, confidentialityLabel } from '../../utils/requestAccess';
 
-interface Request {
+interface ChecklistProgress {
+  total: number;
+  open: number;
+  provided: number;
+  approved: number;
+  rejected: number;
+  percent_complete: number;
+}
+
+interface Request extends RequestAccessLists {
   id: string;
   title: string;
   description: string;
@@ -19,32 +34,66 @@ interface Request {
   assigned_to_email: string;
   department?: string;
   cc_emails?: string[];
-  hr_confidential?: boolean;
+  confidentiality: RequestAccess['confidentiality'];
+  access: RequestAccess;
   pending_assignment?: boolean;
+  allowed_transitions?: string[];
+  items?: { id: string; description: string; due_date: string; required: boolean; status: string }[];
+  progress?: ChecklistProgress | null;
   created_at: string;
   updated_at: string;
 }
 
 interface RequestListProps {
-  requests: Request[];
   accessToken: string;
   userRole: 'auditor' | 'auditee' | 'manager';
   onRequestUpdate: () => void;
+  // Changing this reloads the list, e.g. after the dashboard creates or updates a request
+  refreshKey?: number;
 }
 
-export function RequestList({ requests, accessToken, userRole, onRequestUpdate }: RequestListProps) {
+const PAGE_SIZE = 25;
+
+const SORT_OPTIONS: { value: string; label: string }[] = [
+  { value: 'due_date', label: 'Due date (soonest)' },
+  { value: '-due_date', label: 'Due date (latest)' },
+  { value: '-created_at', label: 'Newest first' },
+  { value: 'created_at', label: 'Oldest first' },
+  { value: '-updated_at', label: 'Recently updated' },
+  { value: 'title', label: 'Title (A-Z)' }
+];
+
+export function RequestList({ accessToken, userRole, onRequestUpdate, refreshKey = 0 }: RequestListProps) {
+  const [requests, setRequests] = useState<Request[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [departmentFilter, setDepartmentFilter] = useState<string>('all');
+  const { settings } = useOrganisationSettings();
+  const [overdueOnly, setOverdueOnly] = useState(false);
+  const [dueFrom, setDueFrom] = useState('');
+  const [dueTo, setDueTo] = useState('');
+  const [sort, setSort] = useState('due_date');
   const [searchQuery, setSearchQuery] = useState('');
+  const [search, setSearch] = useState('');
+  // Only the most recent fetch may update the list, so a slow response can't overwrite newer filters
+  const latestFetch = useRef(0);
   const [selectedRequest, setSelectedRequest] = useState<Request | null>(null);
   const [showUploadDialog, setShowUploadDialog] = useState(false);
   const [uploadRequestId, setUploadRequestId] = useState<string>('');
   const [uploadRequestStatus, setUploadRequestStatus] = useState<string>('');
+  const [uploadRequestItems, setUploadRequestItems] = useState<Request['items']>([]);
 
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'submitted':
         return 'bg-blue-100 text-blue-800';
+      case 'under_review':
+        return 'bg-indigo-100 text-indigo-800';
       case 'in_progress':
+      case 'reopened':
         return 'bg-yellow-100 text-yellow-800';
       case 'rejected':
         return 'bg-red-100 text-red-800';
@@ -65,13 +114,21 @@ export function RequestList({ requests, accessToken, userRole, onRequestUpdate }
         return 'Rejected';
       case 'approved':
         return 'Approved';
+      case 'draft':
+        return 'Draft';
+      case 'under_review':
+        return 'Under Review';
+      case 'reopened':
+        return 'Reopened';
+      case 'cancelled':
+        return 'Cancelled';
       default:
         return status;
     }
   };
 
   const isOverdue = (dueDate: string, status: string) => {
-    if (status === 'approved') return false;
+    if (status === 'approved' || status === 'cancelled') return false;
     return new Date(dueDate) < new Date();
   };
 
@@ -80,42 +137,84 @@ export function RequestList({ requests, accessToken, userRole, onRequestUpdate }
     return new Date(dueDate) < new Date();
   };
 
-  const filteredRequests = requests.filter(request => {
-    const matchesStatus = statusFilter === 'all' || request.status === statusFilter;
-    const matchesSearch = request.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         request.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         request.assigned_to_email.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         (request.department && request.department.toLowerCase().includes(searchQuery.toLowerCase()));
-    return matchesStatus && matchesSearch;
-  });
+  // Wait for the user to stop typing before searching
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timeoutId);
+  }, [searchQuery]);
+
+  useEffect(() => {
+    fetchRequests(null);
+  }, [statusFilter, departmentFilter, overdueOnly, dueFrom, dueTo, sort, search, refreshKey]);
+
+  // Filtering, sorting and paging happen on the server; a cursor continues from the last page loaded
+  const fetchRequests = async (cursor: string | null) => {
+    const fetchId = ++latestFetch.current;
+    const params = new URLSearchParams({ limit: String(PAGE_SIZE), sort });
+    if (statusFilter !== 'all') params.set('status', statusFilter);
+    if (departmentFilter !== 'all') params.set('department', departmentFilter);
+    if (overdueOnly) params.set('overdue', 'true');
+    if (dueFrom) params.set('due_from', dueFrom);
+    if (dueTo) params.set('due_to', dueTo);
+    if (search) params.set('q', search);
+    if (cursor) params.set('cursor', cursor);
+
+    if (cursor) {
+      setLoadingMore(true);
+    } else {
+      setLoading(true);
+    }
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-fcebfd37/requests?${params}`, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        }
+      });
+      const data = await response.json();
+      if (fetchId !== latestFetch.current) return;
+
+      if (response.ok) {
+        setRequests(prev => (cursor ? [...prev, ...data.requests] : data.requests));
+        setTotal(data.total);
+        setNextCursor(data.next_cursor);
+      } else {
+        console.error('Failed to fetch requests:', data.error);
+      }
+    } catch (error) {
+      console.error('Error fetching requests:', error);
+    } finally {
+      if (fetchId === latestFetch.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    }
+  };
+
+  const hasFilters = statusFilter !== 'all' || departmentFilter !== 'all' || overdueOnly || !!dueFrom || !!dueTo || !!search;
 
-  const sortedRequests = filteredRequests.sort((a, b) => {
-    // Sort by: overdue first (excluding approved), then by due date (ascending), then by created date (descending)
-    const aOverdue = isOverdue(a.due_date, a.status);
-    const bOverdue = isOverdue(b.due_date, b.status);
-    
-    if (aOverdue && !bOverdue) return -1;
-    if (!aOverdue && bOverdue) return 1;
-    
-    const aDueDate = new Date(a.due_date).getTime();
-    const bDueDate = new Date(b.due_date).getTime();
-    
-    if (aDueDate !== bDueDate) return aDueDate - bDueDate;
-    
-    return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
-  });
+  const clearFilters = () => {
+    setStatusFilter('all');
+    setDepartmentFilter('all');
+    setOverdueOnly(false);
+    setDueFrom('');
+    setDueTo('');
+    setSearchQuery('');
+    setSearch('');
+  };
 
-  const handleUpload = (requestId: string, requestStatus: string) => {
-    setUploadRequestId(requestId);
-    setUploadRequestStatus(requestStatus);
+  const handleUpload = (request: Request) => {
+    setUploadRequestId(request.id);
+    setUploadRequestStatus(request.status);
+    setUploadRequestItems(request.items || []);
     setShowUploadDialog(true);
   };
 
   const canUpload = (request: Request) => {
-    return userRole === 'auditee' && (request.status === 'submitted' || request.status === 'in_progress' || request.status === 'rejected');
+    return userRole === 'auditee' && request.access.upload && ['submitted', 'in_progress', 'rejected', 'reopened'].includes(request.status);
   };
 
-  if (requests.length === 0) {
+  if (!loading && total === 0 && !hasFilters) {
     return (
       <Card>
         <CardContent className="flex flex-col items-center justify-center py-12">
@@ -153,108 +252,183 @@ export function RequestList({ requests, accessToken, userRole, onRequestUpdate }
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Status</SelectItem>
-                <SelectItem value="submitted">Submitted</SelectItem>
+                <SelectItem value="draft">Draft</SelectItem>
                 <SelectItem value="in_progress">In Progress</SelectItem>
+                <SelectItem value="submitted">Submitted</SelectItem>
+                <SelectItem value="under_review">Under Review</SelectItem>
                 <SelectItem value="rejected">Rejected</SelectItem>
                 <SelectItem value="approved">Approved</SelectItem>
+                <SelectItem value="reopened">Reopened</SelectItem>
+                <SelectItem value="cancelled">Cancelled</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={departmentFilter} onValueChange={setDepartmentFilter}>
+              <SelectTrigger className="w-44">
+                <SelectValue placeholder="Filter by department" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Departments</SelectItem>
+                {settings.departments.map(dept => (
+                  <SelectItem key={dept} value={dept}>{dept}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="flex flex-col sm:flex-row sm:items-center gap-4 flex-wrap">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="dueFrom" className="text-sm text-gray-600 whitespace-nowrap">Due between</Label>
+            <Input id="dueFrom" type="date" value={dueFrom} onChange={(e) => setDueFrom(e.target.value)} className="w-40" />
+            <span className="text-sm text-gray-500">and</span>
+            <Input id="dueTo" type="date" value={dueTo} min={dueFrom} onChange={(e) => setDueTo(e.target.value)} className="w-40" />
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="overdueOnly" checked={overdueOnly} onCheckedChange={setOverdueOnly} />
+            <Label htmlFor="overdueOnly" className="text-sm">Overdue only</Label>
+          </div>
+          <div className="flex items-center gap-2 sm:ml-auto">
+            <Select value={sort} onValueChange={setSort}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SORT_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
         </div>
+        <div className="flex items-center justify-between text-sm text-gray-600">
+          <span>
+            Showing {requests.length} of {total} request{total === 1 ? '' : 's'}
+          </span>
+          {hasFilters && (
+            <Button variant="ghost" size="sm" onClick={clearFilters}>
+              Clear filters
+            </Button>
+          )}
+        </div>
 
         {/* Request List */}
-        <div className="space-y-4">
-          {sortedRequests.map((request) => (
-            <Card key={request.id} className={`transition-colors hover:bg-gray-50 ${isOverdue(request.due_date, request.status) ? 'border-red-200 bg-red-50' : ''} ${wasOverdueWhenApproved(request.due_date, request.status) ? 'border-amber-200 bg-amber-50' : ''}`}>
-              <CardHeader className="pb-3">
-                <div className="flex justify-between items-start">
-                  <div className="flex-1">
-                    <CardTitle className="text-lg flex items-center gap-2">
-                      {request.title}
-                      <Badge className={getStatusColor(request.status)}>
-                        {getStatusLabel(request.status)}
-                      </Badge>
-                      {isOverdue(request.due_date, request.status) && (
-                        <Badge variant="destructive">Overdue</Badge>
-                      )}
-                      {wasOverdueWhenApproved(request.due_date, request.status) && (
-                        <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-300">
-                          <Clock className="h-3 w-3 mr-1" />
-                          Overdue but Approved
-                        </Badge>
-                      )}
-                      {request.department === 'Human Resources' && userRole === 'auditor' && (
-                        <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">
-                          <Shield className="h-3 w-3 mr-1" />
-                          HR Confidential
+        {loading && requests.length === 0 ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <div className={`space-y-4 ${loading ? 'opacity-60' : ''}`}>
+            {requests.map((request) => (
+              <Card key={request.id} className={`transition-colors hover:bg-gray-50 ${isOverdue(request.due_date, request.status) ? 'border-red-200 bg-red-50' : ''} ${wasOverdueWhenApproved(request.due_date, request.status) ? 'border-amber-200 bg-amber-50' : ''}`}>
+                <CardHeader className="pb-3">
+                  <div className="flex justify-between items-start">
+                    <div className="flex-1">
+                      <CardTitle className="text-lg flex items-center gap-2">
+                        {request.title}
+                        <Badge className={getStatusColor(request.status)}>
+                          {getStatusLabel(request.status)}
                         </Badge>
-                      )}
-                    </CardTitle>
-                    <div className="flex items-center gap-4 text-sm text-gray-600 mt-2 flex-wrap">
-                      <div className="flex items-center gap-1">
-                        <Calendar className="h-4 w-4" />
-                        Due: {new Date(request.due_date).toLocaleDateString()}
-                      </div>
-                      <div className="flex items-center gap-1">
-                        <User className="h-4 w-4" />
-                        {request.assigned_to_email}
-                        {request.pending_assignment && (
-                          <Badge variant="outline" className="ml-1 text-xs">
-                            Pending Account
+                        {isOverdue(request.due_date, request.status) && (
+                          <Badge variant="destructive">Overdue</Badge>
+                        )}
+                        {wasOverdueWhenApproved(request.due_date, request.status) && (
+                          <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-300">
+                            <Clock className="h-3 w-3 mr-1" />
+                            Overdue but Approved
                           </Badge>
                         )}
-                      </div>
-                      {request.department && (
+                        {request.confidentiality !== 'standard' && (
+                          <Badge
+                            variant="outline"
+                            className={request.confidentiality === 'restricted' ? 'bg-red-50 text-red-800 border-red-200' : 'bg-amber-50 text-amber-700 border-amber-200'}
+                          >
+                            <Shield className="h-3 w-3 mr-1" />
+                            {confidentialityLabel(request.confidentiality)}
+                          </Badge>
+                        )}
+                      </CardTitle>
+                      <div className="flex items-center gap-4 text-sm text-gray-600 mt-2 flex-wrap">
                         <div className="flex items-center gap-1">
-                          <Building className="h-4 w-4" />
-                          {request.department}
+                          <Calendar className="h-4 w-4" />
+                          Due: {new Date(request.due_date).toLocaleDateString()}
                         </div>
-                      )}
-                      {request.cc_emails && request.cc_emails.length > 0 && (
                         <div className="flex items-center gap-1">
                           <User className="h-4 w-4" />
-                          CC: {request.cc_emails.slice(0, 2).join(', ')}
-                          {request.cc_emails.length > 2 && ` +${request.cc_emails.length - 2} more`}
+                          {request.assigned_to_email}
+                          {request.pending_assignment && (
+                            <Badge variant="outline" className="ml-1 text-xs">
+                              Pending Account
+                            </Badge>
+                          )}
+                        </div>
+                        {request.department && (
+                          <div className="flex items-center gap-1">
+                            <Building className="h-4 w-4" />
+                            {request.department}
+                          </div>
+                        )}
+                        {request.cc_emails && request.cc_emails.length > 0 && (
+                          <div className="flex items-center gap-1">
+                            <User className="h-4 w-4" />
+                            CC: {request.cc_emails.slice(0, 2).join(', ')}
+                            {request.cc_emails.length > 2 && ` +${request.cc_emails.length - 2} more`}
+                          </div>
+                        )}
+                        <div className="flex items-center gap-1">
+                          <Clock className="h-4 w-4" />
+                          Created: {new Date(request.created_at).toLocaleDateString()}
                         </div>
-                      )}
-                      <div className="flex items-center gap-1">
-                        <Clock className="h-4 w-4" />
-                        Created: {new Date(request.created_at).toLocaleDateString()}
                       </div>
                     </div>
-                  </div>
-                  <div className="flex gap-2">
-                    {canUpload(request) && (
+                    <div className="flex gap-2">
+                      {canUpload(request) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleUpload(request)}
+                          className="flex items-center gap-1"
+                        >
+                          <Upload className="h-4 w-4" />
+                          Upload
+                        </Button>
+                      )}
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={() => handleUpload(request.id, request.status)}
-                        className="flex items-center gap-1"
+                        onClick={() => setSelectedRequest(request)}
                       >
-                        <Upload className="h-4 w-4" />
-                        Upload
+                        View Details
                       </Button>
-                    )}
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => setSelectedRequest(request)}
-                    >
-                      View Details
-                    </Button>
+                    </div>
                   </div>
-                </div>
-              </CardHeader>
-              <CardContent className="pt-0">
-                <p className="text-gray-600 text-sm line-clamp-2">
-                  {request.description}
-                </p>
-              </CardContent>
-            </Card>
-          ))}
-        </div>
+                </CardHeader>
+                <CardContent className="pt-0">
+                  <p className="text-gray-600 text-sm line-clamp-2">
+                    {request.description}
+                  </p>
+                  {request.progress && (
+                    <div className="mt-3 flex items-center gap-3">
+                      <Progress value={request.progress.percent_complete} className="flex-1" />
+                      <span className="text-xs text-gray-600 whitespace-nowrap">
+                        {request.progress.approved}/{request.progress.total} items approved
+                        {request.progress.rejected > 0 && ` · ${request.progress.rejected} rejected`}
+                      </span>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {nextCursor && (
+          <div className="flex justify-center">
+            <Button variant="outline" onClick={() => fetchRequests(nextCursor)} disabled={loadingMore}>
+              {loadingMore ? 'Loading...' : `Load more (${total - requests.length} remaining)`}
+            </Button>
+          </div>
+        )}
 
-        {filteredRequests.length === 0 && requests.length > 0 && (
+        {!loading && total === 0 && hasFilters && (
           <Card>
             <CardContent className="flex flex-col items-center justify-center py-8">
               <FileText className="h-8 w-8 text-gray-400 mb-2" />
@@ -280,6 +454,7 @@ export function RequestList({ requests, accessToken, userRole, onRequestUpdate }
         onOpenChange={setShowUploadDialog}
         requestId={uploadRequestId}
         requestStatus={uploadRequestStatus}
+        items={uploadRequestItems}
         accessToken={accessToken}
         onUploadComplete={() => {
           setShowUploadDialog(false);
@@ -0,0 +1,202 @@
+import React, { useState, useEffect } from 'react';
+import { Badge } from '../ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { History, PlusCircle, UserCheck, Upload, ListChecks, Send, RefreshCw, Cloud, Mail, Bell, MessageSquare, Users, Activity, Shield } from 'lucide-react';
+import { projectId } from '../../utils/supabase/info';
+
+interface TimelineEvent {
+  id: string;
+  kind: string;
+  action: string;
+  timestamp: string;
+  actor: { id: string; name: string; email: string; role: string } | null;
+  details: Record<string, any>;
+}
+
+interface RequestTimelineProps {
+  requestId: string;
+  accessToken: string;
+  // Changes whenever the dialog changes the request, so the timeline picks up the new events
+  refreshKey?: string;
+}
+
+const getKindIcon = (kind: string) => {
+  switch (kind) {
+    case 'created':
+      return <PlusCircle className="h-4 w-4" />;
+    case 'assigned':
+      return <UserCheck className="h-4 w-4" />;
+    case 'upload':
+      return <Upload className="h-4 w-4" />;
+    case 'checklist':
+      return <ListChecks className="h-4 w-4" />;
+    case 'submission':
+      return <Send className="h-4 w-4" />;
+    case 'status':
+      return <RefreshCw className="h-4 w-4" />;
+    case 'sharepoint':
+      return <Cloud className="h-4 w-4" />;
+    case 'email':
+      return <Mail className="h-4 w-4" />;
+    case 'reminder':
+      return <Bell className="h-4 w-4" />;
+    case 'comment':
+      return <MessageSquare className="h-4 w-4" />;
+    case 'cc':
+      return <Users className="h-4 w-4" />;
+    default:
+      return <Activity className="h-4 w-4" />;
+  }
+};
+
+const getKindColor = (event: TimelineEvent) => {
+  if (event.action === 'sharepoint_upload_error' || event.action === 'overdue_escalated') {
+    return 'bg-red-100 text-red-700';
+  }
+  if (event.kind === 'status') {
+    switch (event.details.new_status) {
+      case 'approved':
+        return 'bg-green-100 text-green-700';
+      case 'rejected':
+        return 'bg-red-100 text-red-700';
+      default:
+        return 'bg-indigo-100 text-indigo-700';
+    }
+  }
+  switch (event.kind) {
+    case 'created':
+    case 'assigned':
+      return 'bg-blue-100 text-blue-700';
+    case 'upload':
+    case 'submission':
+      return 'bg-green-100 text-green-700';
+    case 'reminder':
+      return 'bg-orange-100 text-orange-700';
+    case 'comment':
+      return 'bg-purple-100 text-purple-700';
+    default:
+      return 'bg-gray-100 text-gray-700';
+  }
+};
+
+const statusLabel = (status: string) => `"${String(status).replace(/_/g, ' ')}"`;
+
+const excerpt = (text: string, length = 160) => (text.length > length ? `${text.slice(0, length)}…` : text);
+
+const describeEvent = (event: TimelineEvent) => {
+  const details = event.details;
+  switch (event.action) {
+    case 'request_created':
+      return `Request created and assigned to ${details.assigned_to_email}${details.item_count ? ` with ${details.item_count} checklist item(s)` : ''}`;
+    case 'auto_assigned_request':
+      return `Assigned to ${details.email} when their account was created`;
+    case 'auto_assigned_on_upload':
+      return `Assigned to ${details.email} on their first upload`;
+    case 'document_uploaded':
+      return `Uploaded "${details.filename}"${details.version > 1 ? ` (version ${details.version})` : ''}${details.comments ? ` with comments: "${details.comments}"` : ''}`;
+    case 'item_status_updated':
+      return `Checklist item "${details.item_description}" changed from ${statusLabel(details.old_status)} to ${statusLabel(details.new_status)}${details.note ? `: "${details.note}"` : ''}`;
+    case 'request_submitted':
+      return `Submitted for review with ${details.document_count} document(s)`;
+    case 'status_updated':
+      return `Status changed from ${statusLabel(details.old_status)} to ${statusLabel(details.new_status)}${details.rejection_reason ? ` — reason: "${details.rejection_reason}"` : ''}`;
+    case 'document_uploaded_sharepoint':
+      return `"${details.filename}" copied to SharePoint`;
+    case 'sharepoint_upload_summary':
+      return `SharePoint sync: ${details.successful_uploads} of ${details.total_documents} document(s) uploaded${details.failed_uploads ? `, ${details.failed_uploads} failed` : ''}`;
+    case 'sharepoint_upload_error':
+      return `SharePoint sync failed: ${details.error}`;
+    case 'email_sent':
+      return `Email "${details.subject}" sent to ${details.to.join(', ')}${details.cc?.length ? ` (cc ${details.cc.join(', ')})` : ''}`;
+    case 'reminder_sent':
+      return `${details.days_until_due < 0 ? `Overdue notice (${-details.days_until_due} day(s) late)` : details.days_until_due === 0 ? 'Due today reminder' : `Reminder: due in ${details.days_until_due} day(s)`} sent to ${details.recipients.join(', ')}`;
+    case 'overdue_escalated':
+      return `Escalated ${-details.days_until_due} day(s) overdue to ${details.recipients.join(', ')}`;
+    case 'comment_added':
+      return `${details.reply ? 'Replied' : 'Commented'}${details.body ? `: "${excerpt(details.body)}"` : ''}`;
+    case 'comment_edited':
+      return 'Edited a comment';
+    case 'cc_updated':
+      return `CC recipients updated${details.added.length ? ` — added ${details.added.join(', ')}` : ''}${details.removed.length ? ` — removed ${details.removed.join(', ')}` : ''}`;
+    default:
+      return event.action.replace(/_/g, ' ');
+  }
+};
+
+export function RequestTimeline({ requestId, accessToken, refreshKey }: RequestTimelineProps) {
+  const [events, setEvents] = useState<TimelineEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [confidential, setConfidential] = useState(false);
+
+  useEffect(() => {
+    fetchTimeline();
+  }, [requestId, refreshKey]);
+
+  const fetchTimeline = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-fcebfd37/requests/${requestId}/timeline`, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        }
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setEvents(data.events);
+        setConfidential(false);
+      } else if (data.confidential) {
+        setConfidential(true);
+      } else {
+        console.error('Failed to fetch timeline:', data.error);
+      }
+    } catch (error) {
+      console.error('Error fetching timeline:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Timeline
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {confidential ? (
+          <div className="flex items-center gap-2 text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded p-3">
+            <Shield className="h-4 w-4" />
+            The history of this request is restricted to managers, the assignee and its access list.
+          </div>
+        ) : loading && events.length === 0 ? (
+          <div className="flex items-center justify-center py-4">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-gray-500">No activity recorded for this request yet.</p>
+        ) : (
+          <ol className="relative border-l border-gray-200 ml-4 space-y-5">
+            {events.map(event => (
+              <li key={event.id} className="ml-6">
+                <span className={`absolute -left-4 flex h-8 w-8 items-center justify-center rounded-full ring-4 ring-white ${getKindColor(event)}`}>
+                  {getKindIcon(event.kind)}
+                </span>
+                <div className="flex items-center gap-2 text-xs text-gray-500 flex-wrap">
+                  <span>{new Date(event.timestamp).toLocaleString()}</span>
+                  <span>·</span>
+                  <span>{event.actor ? event.actor.name : 'System'}</span>
+                  {event.actor && <Badge variant="outline" className="text-xs">{event.actor.role}</Badge>}
+                </div>
+                <p className="text-sm text-gray-700 mt-1 whitespace-pre-wrap">{describeEvent(event)}</p>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { Button } from '../ui/button';
+import { Label } from '../ui/label';
+import { Textarea } from '../ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '../ui/dialog';
+import { Alert, AlertDescription } from '../ui/alert';
+import { toast } from 'sonner@2.0.3';
+import { projectId } from '../../utils/supabase/info';
+
+interface SubmitForReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  requestId: string;
+  documentCount: number;
+  accessToken: string;
+  onSubmitted: () => void;
+}
+
+export const submitRequestForReview = async (requestId: string, attestation: string, accessToken: string) => {
+  const response = await fetch(
+    `https://${projectId}.supabase.co/functions/v1/make-server-fcebfd37/requests/${requestId}/submit`,
+    {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ attestation })
+    }
+  );
+  const data = await response.json();
+  return { ok: response.ok, data };
+};
+
+export function SubmitForReviewDialog({
+  open,
+  onOpenChange,
+  requestId,
+  documentCount,
+  accessToken,
+  onSubmitted
+}: SubmitForReviewDialogProps) {
+  const [attestation, setAttestation] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!attestation.trim()) {
+      setError('Please confirm the submission is complete');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const { ok, data } = await submitRequestForReview(requestId, attestation, accessToken);
+
+      if (ok) {
+        toast.success('Request submitted for review');
+        setAttestation('');
+        onSubmitted();
+      } else {
+        setError(data.error || 'Failed to submit request');
+      }
+    } catch (error: any) {
+      console.error('Submit for review error:', error);
+      setError('Failed to submit request. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancel = () => {
+    setAttestation('');
+    setError('');
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Submit for Review</DialogTitle>
+          <DialogDescription>
+            Once submitted, the auditor will be notified and you will not be able to change the submission
+            unless it is returned to you.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {documentCount === 0 && (
+            <Alert variant="destructive">
+              <AlertDescription>Upload at least one document before submitting for review.</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="attestation">Attestation</Label>
+            <Textarea
+              id="attestation"
+              value={attestation}
+              onChange={(e) => setAttestation(e.target.value)}
+              placeholder="e.g., I confirm the attached documents are complete and accurate as of today."
+              rows={3}
+            />
+          </div>
+
+          <DialogFooter className="flex gap-2">
+            <Button type="button" variant="outline" onClick={handleCancel}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || documentCount === 0 || !attestation.trim()}>
+              {loading ? 'Submitting...' : 'Submit for Review'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
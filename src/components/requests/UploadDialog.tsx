@@ -1,20 +1,27 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Button } from '../ui/button';
 import { Label } from '../ui/label';
 import { Textarea } from '../ui/textarea';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '../ui/dialog';
 import { Alert, AlertDescription } from '../ui/alert';
+import { Checkbox } from '../ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
 import { Upload, FileText, X } from 'lucide-react';
 import { toast } from 'sonner@2.0.3';
 import { projectId } from '../../utils/supabase/info';
+import { submitRequestForReview } from './SubmitForReviewDialog';
 
 interface UploadDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   requestId: string;
   requestStatus: string;
+  replacesDocument?: { id: string; filename: string; version?: number } | null;
+  items?: { id: string; description: string; status: string }[];
+  defaultItemId?: string | null;
   accessToken: string;
-  onUploadComplete: () => void;
+  onUploadComplete: (document?: { id: string; item_id?: string | null }) => void;
+  onSubmitted?: (request: any, allowedTransitions: string[]) => void;
 }
 
 export function UploadDialog({ 
@@ -22,11 +29,30 @@ export function UploadDialog({
   onOpenChange, 
   requestId, 
   requestStatus,
+  replacesDocument,
+  items = [],
+  defaultItemId,
   accessToken, 
-  onUploadComplete 
+  onUploadComplete,
+  onSubmitted
 }: UploadDialogProps) {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [comments, setComments] = useState('');
+  const [submitAfterUpload, setSubmitAfterUpload] = useState(false);
+  const [attestation, setAttestation] = useState('');
+  const [itemId, setItemId] = useState<string>('');
+
+  useEffect(() => {
+    if (open) {
+      setItemId(defaultItemId || '');
+    }
+  }, [open, defaultItemId]);
+
+  // Approved items are closed; new versions stay on the item of the file they replace
+  const selectableItems = items.filter(item => item.status !== 'approved');
+
+  // An upload leaves the request in progress, from where it can be submitted straight away
+  const canSubmitAfterUpload = requestStatus !== 'submitted';
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
 
@@ -70,6 +96,16 @@ export function UploadDialog({
       return;
     }
 
+    if (!replacesDocument && selectableItems.length > 0 && !itemId) {
+      setError('Please choose the checklist item this document is for');
+      return;
+    }
+
+    if (submitAfterUpload && !attestation.trim()) {
+      setError('Please add an attestation to submit for review');
+      return;
+    }
+
     setLoading(true);
     setError('');
 
@@ -79,6 +115,11 @@ export function UploadDialog({
       formData.append('request_id', requestId);
       formData.append('comments', comments);
       formData.append('is_replacement', requestStatus === 'rejected' ? 'true' : 'false');
+      if (replacesDocument) {
+        formData.append('replaces_document_id', replacesDocument.id);
+      } else if (itemId) {
+        formData.append('item_id', itemId);
+      }
 
       const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-fcebfd37/upload`, {
         method: 'POST',
@@ -92,9 +133,22 @@ export function UploadDialog({
 
       if (response.ok) {
         toast.success('Document uploaded successfully!');
+
+        if (submitAfterUpload) {
+          const submission = await submitRequestForReview(requestId, attestation, accessToken);
+          if (submission.ok) {
+            toast.success('Request submitted for review');
+            onSubmitted?.(submission.data.request, submission.data.allowed_transitions || []);
+          } else {
+            toast.error(submission.data.error || 'Document uploaded, but the request could not be submitted');
+          }
+        }
+
         setSelectedFile(null);
         setComments('');
-        onUploadComplete();
+        setSubmitAfterUpload(false);
+        setAttestation('');
+        onUploadComplete(data.document);
       } else {
         setError(data.error || 'Failed to upload document');
       }
@@ -109,6 +163,8 @@ export function UploadDialog({
   const handleCancel = () => {
     setSelectedFile(null);
     setComments('');
+    setSubmitAfterUpload(false);
+    setAttestation('');
     setError('');
     onOpenChange(false);
   };
@@ -126,12 +182,16 @@ export function UploadDialog({
       <DialogContent className="sm:max-w-lg">
         <DialogHeader>
           <DialogTitle>
-            {requestStatus === 'rejected' ? 'Replace Rejected Document' : 'Upload Document'}
+            {replacesDocument
+              ? `Upload New Version of ${replacesDocument.filename}`
+              : requestStatus === 'rejected' ? 'Replace Rejected Document' : 'Upload Document'}
           </DialogTitle>
           <DialogDescription>
-            {requestStatus === 'rejected' 
-              ? 'The previously submitted document was rejected. Please upload a revised document that addresses the feedback.'
-              : 'Select a document file to upload for this audit request. You can also add comments to provide additional context.'
+            {replacesDocument
+              ? `This upload becomes version ${(replacesDocument.version || 1) + 1}. Earlier versions are kept read-only in the version history.`
+              : requestStatus === 'rejected' 
+                ? 'The previously submitted document was rejected. Please upload a revised document that addresses the feedback.'
+                : 'Select a document file to upload for this audit request. You can also add comments to provide additional context.'
             }
           </DialogDescription>
         </DialogHeader>
@@ -143,6 +203,24 @@ export function UploadDialog({
             </Alert>
           )}
 
+          {!replacesDocument && selectableItems.length > 0 && (
+            <div className="space-y-2">
+              <Label>Checklist Item</Label>
+              <Select value={itemId} onValueChange={setItemId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select the item this document answers" />
+                </SelectTrigger>
+                <SelectContent>
+                  {selectableItems.map((item) => (
+                    <SelectItem key={item.id} value={item.id}>
+                      {item.description}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           {/* File Upload Area */}
           <div className="space-y-2">
             <Label>Select Document</Label>
@@ -212,12 +290,34 @@ export function UploadDialog({
             />
           </div>
 
+          {canSubmitAfterUpload && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="submitAfterUpload"
+                  checked={submitAfterUpload}
+                  onCheckedChange={(checked: boolean | 'indeterminate') => setSubmitAfterUpload(checked === true)}
+                />
+                <Label htmlFor="submitAfterUpload">Submit the request for review after uploading</Label>
+              </div>
+              {submitAfterUpload && (
+                <Textarea
+                  id="attestation"
+                  value={attestation}
+                  onChange={(e) => setAttestation(e.target.value)}
+                  placeholder="e.g., I confirm the attached documents are complete and accurate as of today."
+                  rows={2}
+                />
+              )}
+            </div>
+          )}
+
           <DialogFooter className="flex gap-2">
             <Button type="button" variant="outline" onClick={handleCancel}>
               Cancel
             </Button>
             <Button type="submit" disabled={loading || !selectedFile}>
-              {loading ? 'Uploading...' : 'Upload Document'}
+              {loading ? 'Uploading...' : submitAfterUpload ? 'Upload & Submit' : 'Upload Document'}
             </Button>
           </DialogFooter>
         </form>
@@ -0,0 +1,242 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Textarea } from '../ui/textarea';
+import { Checkbox } from '../ui/checkbox';
+import { Alert, AlertDescription } from '../ui/alert';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Settings, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { projectId } from '../../utils/supabase/info';
+import { useOrganisationSettings, OTHER_DEPARTMENT } from '../../utils/settings';
+
+interface OrganisationSettingsProps {
+  accessToken: string;
+}
+
+interface SettingsDraft {
+  organisation_name: string;
+  product_name: string;
+  logo_url: string;
+  allowed_email_domains: string;
+  departments: string;
+  confidential_departments: string[];
+  otp_expiry_minutes: string;
+  access_token_minutes: string;
+  refresh_idle_days: string;
+  session_absolute_days: string;
+  idle_timeout_minutes: string;
+}
+
+// Same ranges the server enforces
+const LIFETIME_FIELDS: { field: keyof SettingsDraft; label: string; min: number; max: number; hint: string }[] = [
+  { field: 'otp_expiry_minutes', label: 'Sign-in code expiry (minutes)', min: 1, max: 60, hint: 'How long an emailed code can be used' },
+  { field: 'access_token_minutes', label: 'Access token lifetime (minutes)', min: 5, max: 60, hint: 'Refreshed automatically while the app is open' },
+  { field: 'refresh_idle_days', label: 'Sign out after unused for (days)', min: 1, max: 30, hint: 'A device that is not used for this long must sign in again' },
+  { field: 'session_absolute_days', label: 'Maximum session length (days)', min: 1, max: 90, hint: 'Every device signs in again after this, however often it is used' },
+  { field: 'idle_timeout_minutes', label: 'Lock after inactivity (minutes)', min: 2, max: 480, hint: 'The app locks when there is no keyboard or mouse activity' }
+];
+
+const splitLines = (value: string) => value.split(/[\n,]/).map(line => line.trim()).filter(Boolean);
+
+// Managers' page for branding, who may sign in, the department catalogue and session lengths.
+// Saved changes apply to every user within a minute and are recorded in the audit trail.
+export function OrganisationSettings({ accessToken }: OrganisationSettingsProps) {
+  const { settings, setSettings } = useOrganisationSettings();
+  const [draft, setDraft] = useState<SettingsDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setDraft({
+      organisation_name: settings.organisation_name,
+      product_name: settings.product_name,
+      logo_url: settings.logo_url || '',
+      allowed_email_domains: settings.allowed_email_domains.join('\n'),
+      departments: settings.departments.join('\n'),
+      confidential_departments: settings.confidential_departments,
+      otp_expiry_minutes: String(settings.otp_expiry_minutes),
+      access_token_minutes: String(settings.access_token_minutes),
+      refresh_idle_days: String(settings.refresh_idle_days),
+      session_absolute_days: String(settings.session_absolute_days),
+      idle_timeout_minutes: String(settings.idle_timeout_minutes)
+    });
+  }, [settings]);
+
+  if (!draft) return null;
+
+  const update = (fields: Partial<SettingsDraft>) => setDraft(prev => prev && { ...prev, ...fields });
+
+  const departmentList = splitLines(draft.departments);
+
+  const toggleConfidential = (department: string, checked: boolean) => {
+    update({
+      confidential_departments: checked
+        ? [...draft.confidential_departments, department]
+        : draft.confidential_departments.filter(entry => entry !== department)
+    });
+  };
+
+  const handleSave = async () => {
+    setError('');
+    if (departmentList.some(department => department.toLowerCase() === OTHER_DEPARTMENT.toLowerCase())) {
+      setError(`"${OTHER_DEPARTMENT}" is always offered for custom departments and cannot be added to the list`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-fcebfd37/settings`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          organisation_name: draft.organisation_name,
+          product_name: draft.product_name,
+          logo_url: draft.logo_url,
+          allowed_email_domains: splitLines(draft.allowed_email_domains),
+          departments: departmentList,
+          // Departments removed from the catalogue stop being confidential
+          confidential_departments: draft.confidential_departments.filter(department => departmentList.includes(department)),
+          ...Object.fromEntries(LIFETIME_FIELDS.map(({ field }) => [field, Number(draft[field])]))
+        })
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setSettings(data.settings);
+        toast.success('Settings saved');
+      } else {
+        setError(data.error || 'Failed to save settings');
+      }
+    } catch (err) {
+      console.error('Error saving settings:', err);
+      setError('Failed to save settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Settings className="h-5 w-5" />
+          Organisation Settings
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Changes apply to every user within a minute and are recorded in the audit trail.
+          {settings.updated_at && ` Last changed ${new Date(settings.updated_at).toLocaleString()}.`}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="organisation-name">Organisation name</Label>
+            <Input
+              id="organisation-name"
+              value={draft.organisation_name}
+              onChange={(e) => update({ organisation_name: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="product-name">Product name</Label>
+            <Input
+              id="product-name"
+              value={draft.product_name}
+              onChange={(e) => update({ product_name: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="logo-url">Logo URL (optional)</Label>
+            <Input
+              id="logo-url"
+              placeholder="https://"
+              value={draft.logo_url}
+              onChange={(e) => update({ logo_url: e.target.value })}
+            />
+          </div>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="email-domains">Allowed email domains</Label>
+            <Textarea
+              id="email-domains"
+              rows={6}
+              value={draft.allowed_email_domains}
+              onChange={(e) => update({ allowed_email_domains: e.target.value })}
+            />
+            <p className="text-xs text-gray-500">
+              One per line. Only addresses on these domains can sign up, sign in or be assigned requests.
+              The first is used for @mentions without a domain.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="departments">Departments</Label>
+            <Textarea
+              id="departments"
+              rows={6}
+              value={draft.departments}
+              onChange={(e) => update({ departments: e.target.value })}
+            />
+            <p className="text-xs text-gray-500">
+              One per line. "{OTHER_DEPARTMENT}" is always offered for a custom department.
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Confidential departments</Label>
+          <p className="text-xs text-gray-500">
+            Requests for these departments are always at least confidential: auditors see them but not their documents or discussion, and cannot review them.
+          </p>
+          <div className="flex flex-wrap gap-4">
+            {departmentList.map(department => (
+              <label key={department} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={draft.confidential_departments.includes(department)}
+                  onCheckedChange={(checked: boolean | 'indeterminate') => toggleConfidential(department, checked === true)}
+                />
+                {department}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid md:grid-cols-3 gap-4">
+          {LIFETIME_FIELDS.map(({ field, label, min, max, hint }) => (
+            <div key={field} className="space-y-2">
+              <Label htmlFor={field}>{label}</Label>
+              <Input
+                id={field}
+                type="number"
+                min={min}
+                max={max}
+                value={draft[field] as string}
+                onChange={(e) => update({ [field]: e.target.value })}
+              />
+              <p className="text-xs text-gray-500">{hint} ({min}–{max})</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={saving}>
+            <Save className="h-4 w-4 mr-2" />
+            {saving ? 'Saving…' : 'Save settings'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,160 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { Input } from '../ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { UserPlus, CheckCircle, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { projectId } from '../../utils/supabase/info';
+
+interface RoleRequest {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  requested_role: string;
+  role_requested_at: string;
+}
+
+interface RoleRequestQueueProps {
+  accessToken: string;
+  onDecision: () => void;
+}
+
+// Signups waiting for a manager to grant auditor or manager access; hidden while the queue is empty
+export function RoleRequestQueue({ accessToken, onDecision }: RoleRequestQueueProps) {
+  const [requests, setRequests] = useState<RoleRequest[]>([]);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [denyingId, setDenyingId] = useState<string | null>(null);
+  const [denyReason, setDenyReason] = useState('');
+
+  const baseUrl = `https://${projectId}.supabase.co/functions/v1/make-server-fcebfd37/admin/role-requests`;
+
+  useEffect(() => {
+    fetchRequests();
+  }, []);
+
+  const fetchRequests = async () => {
+    try {
+      const response = await fetch(baseUrl, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        }
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setRequests(data.requests);
+      } else {
+        console.error('Failed to fetch role requests:', data.error);
+      }
+    } catch (error) {
+      console.error('Error fetching role requests:', error);
+    }
+  };
+
+  const decide = async (request: RoleRequest, decision: 'approve' | 'deny', reason?: string) => {
+    setSavingId(request.id);
+    try {
+      const response = await fetch(`${baseUrl}/${request.id}/${decision}`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ reason })
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setRequests(prev => prev.filter(entry => entry.id !== request.id));
+        setDenyingId(null);
+        setDenyReason('');
+        toast.success(decision === 'approve'
+          ? `${request.name} now has ${request.requested_role} access`
+          : `${request.name}'s request for ${request.requested_role} access was denied`);
+        onDecision();
+      } else {
+        toast.error(data.error || 'Failed to update the role request');
+      }
+    } catch (error) {
+      console.error('Error deciding role request:', error);
+      toast.error('Failed to update the role request');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  if (requests.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="border-blue-200 bg-blue-50">
+      <CardHeader>
+        <CardTitle className="text-blue-900 flex items-center">
+          <UserPlus className="h-5 w-5 mr-2" />
+          Access Requests Awaiting Approval ({requests.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {requests.map(request => (
+            <div key={request.id} className="p-3 bg-white rounded-lg border space-y-2">
+              <div className="flex justify-between items-center gap-4 flex-wrap">
+                <div>
+                  <p className="font-medium">{request.name}</p>
+                  <p className="text-sm text-gray-600">{request.email}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Requested {new Date(request.role_requested_at).toLocaleString()}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge className="bg-blue-100 text-blue-800 capitalize">{request.requested_role}</Badge>
+                  <Button
+                    size="sm"
+                    onClick={() => decide(request, 'approve')}
+                    disabled={savingId === request.id}
+                  >
+                    <CheckCircle className="h-4 w-4 mr-1" />
+                    Approve
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => {
+                      setDenyingId(denyingId === request.id ? null : request.id);
+                      setDenyReason('');
+                    }}
+                    disabled={savingId === request.id}
+                  >
+                    <XCircle className="h-4 w-4 mr-1" />
+                    Deny
+                  </Button>
+                </div>
+              </div>
+              {denyingId === request.id && (
+                <div className="flex gap-2">
+                  <Input
+                    value={denyReason}
+                    onChange={(e) => setDenyReason(e.target.value)}
+                    placeholder="Reason (optional, included in the email to the user)"
+                  />
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={() => decide(request, 'deny', denyReason)}
+                    disabled={savingId === request.id}
+                  >
+                    Confirm Deny
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
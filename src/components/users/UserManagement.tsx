@@ -0,0 +1,313 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { Input } from '../ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Users, Search, UserX, UserCheck, LogOut } from 'lucide-react';
+import { toast } from 'sonner';
+import { projectId } from '../../utils/supabase/info';
+
+interface AdminUser {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  active: boolean;
+  group_manager: boolean;
+  deactivated_at: string | null;
+  requested_role: string | null;
+  last_login_at: string | null;
+  created_at: string;
+}
+
+interface UserManagementProps {
+  accessToken: string;
+  currentUserId: string;
+  refreshKey?: number;
+}
+
+const ROLES = [
+  { value: 'auditee', label: 'Auditee' },
+  { value: 'auditor', label: 'Auditor' },
+  { value: 'manager', label: 'Manager' }
+];
+
+export function UserManagement({ accessToken, currentUserId, refreshKey }: UserManagementProps) {
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [roleFilter, setRoleFilter] = useState('all');
+  const [statusFilter, setStatusFilter] = useState('all');
+
+  const baseUrl = `https://${projectId}.supabase.co/functions/v1/make-server-fcebfd37/admin/users`;
+
+  useEffect(() => {
+    fetchUsers();
+  }, [refreshKey]);
+
+  const fetchUsers = async () => {
+    try {
+      const response = await fetch(baseUrl, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        }
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setUsers(data.users);
+      } else {
+        console.error('Failed to fetch users:', data.error);
+      }
+    } catch (error) {
+      console.error('Error fetching users:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateUser = async (user: AdminUser, path: 'role' | 'status', body: Record<string, any>, successMessage: string) => {
+    setSavingId(user.id);
+    try {
+      const response = await fetch(`${baseUrl}/${user.id}/${path}`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(body)
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setUsers(prev => prev.map(entry => (entry.id === user.id ? data.user : entry)));
+        toast.success(successMessage);
+      } else {
+        toast.error(data.error || 'Failed to update user');
+      }
+    } catch (error) {
+      console.error('Error updating user:', error);
+      toast.error('Failed to update user');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleRoleChange = (user: AdminUser, role: string) => {
+    if (role === user.role) return;
+    if (!confirm(`Change ${user.name}'s role from ${user.role} to ${role}?`)) return;
+    updateUser(user, 'role', { role }, `${user.name} is now ${role === 'auditee' ? 'an' : 'a'} ${role}`);
+  };
+
+  const handleStatusChange = (user: AdminUser) => {
+    if (user.active && !confirm(`Deactivate ${user.name}? They will be signed out and can no longer sign in.`)) return;
+    updateUser(user, 'status', { active: !user.active }, `${user.name} ${user.active ? 'deactivated' : 'reactivated'}`);
+  };
+
+  const handleRevokeSessions = async (user: AdminUser) => {
+    if (!confirm(`Sign ${user.name} out of every device? Their account stays active.`)) return;
+    setSavingId(user.id);
+    try {
+      const response = await fetch(`${baseUrl}/${user.id}/sessions`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        }
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(`${user.name} was signed out of ${data.sessions_revoked} session${data.sessions_revoked === 1 ? '' : 's'}`);
+      } else {
+        toast.error(data.error || 'Failed to sign the user out');
+      }
+    } catch (error) {
+      console.error('Error revoking sessions:', error);
+      toast.error('Failed to sign the user out');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const filteredUsers = users.filter(user => {
+    const query = searchQuery.toLowerCase();
+    const matchesSearch = query === '' || user.name.toLowerCase().includes(query) || user.email.toLowerCase().includes(query);
+    const matchesRole = roleFilter === 'all' || user.role === roleFilter;
+    const matchesStatus = statusFilter === 'all' || (statusFilter === 'active') === user.active;
+    return matchesSearch && matchesRole && matchesStatus;
+  });
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Users
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Manage roles and account access. Every change is recorded in the audit trail.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-4">
+          <div className="flex-1 relative">
+            <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+            <Input
+              placeholder="Search by name or email..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+          <Select value={roleFilter} onValueChange={setRoleFilter}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Roles</SelectItem>
+              {ROLES.map(role => (
+                <SelectItem key={role.value} value={role.value}>{role.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Accounts</SelectItem>
+              <SelectItem value="active">Active</SelectItem>
+              <SelectItem value="deactivated">Deactivated</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>User</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Last Login</TableHead>
+              <TableHead>Joined</TableHead>
+              <TableHead className="text-right">Access</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filteredUsers.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-gray-500 py-8">
+                  No users match your current filters
+                </TableCell>
+              </TableRow>
+            ) : (
+              filteredUsers.map(user => {
+                const isSelf = user.id === currentUserId;
+                return (
+                  <TableRow key={user.id} className={user.active ? '' : 'opacity-60'}>
+                    <TableCell>
+                      <p className="font-medium">{user.name}{isSelf && <span className="text-xs text-gray-500"> (you)</span>}</p>
+                      <p className="text-xs text-gray-500">{user.email}</p>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={user.role}
+                        onValueChange={(role: string) => handleRoleChange(user, role)}
+                        disabled={isSelf || savingId === user.id}
+                      >
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ROLES.map(role => (
+                            <SelectItem key={role.value} value={role.value}>{role.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {user.requested_role && (
+                        <p className="text-xs text-blue-700 mt-1">Requested {user.requested_role} access</p>
+                      )}
+                      {user.group_manager && user.role === 'manager' && (
+                        <p className="text-xs text-gray-500 mt-1">Group manager</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {user.active ? (
+                        <Badge className="bg-green-100 text-green-800">Active</Badge>
+                      ) : (
+                        <Badge variant="secondary" title={user.deactivated_at ? `Deactivated ${new Date(user.deactivated_at).toLocaleString()}` : undefined}>
+                          Deactivated
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">
+                      {user.last_login_at ? new Date(user.last_login_at).toLocaleString() : 'Never'}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">
+                      {new Date(user.created_at).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {!isSelf && (
+                        <div className="flex justify-end gap-2">
+                          {user.active && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleRevokeSessions(user)}
+                              disabled={savingId === user.id}
+                              title="Sign out of every device"
+                            >
+                              <LogOut className="h-4 w-4 mr-1" />
+                              Sign out
+                            </Button>
+                          )}
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleStatusChange(user)}
+                            disabled={savingId === user.id}
+                          >
+                            {user.active ? (
+                              <>
+                                <UserX className="h-4 w-4 mr-1" />
+                                Deactivate
+                              </>
+                            ) : (
+                              <>
+                                <UserCheck className="h-4 w-4 mr-1" />
+                                Reactivate
+                              </>
+                            )}
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+
+        <p className="text-sm text-gray-600">
+          Showing {filteredUsers.length} of {users.length} users · {users.filter(user => !user.active).length} deactivated
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,34 @@
+// Engagements group the requests raised for one audit or review
+export interface EngagementProgress {
+  request_count: number;
+  approved: number;
+  open: number;
+  overdue: number;
+  percent_complete: number;
+  items_total: number;
+  items_approved: number;
+}
+
+export interface Engagement {
+  id: string;
+  name: string;
+  period: string;
+  scope: string;
+  lead_auditor_id: string;
+  lead_auditor_email: string;
+  team_emails: string[];
+  status: string;
+  start_date: string;
+  end_date: string;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  progress: EngagementProgress;
+}
+
+export const ENGAGEMENT_STATUS_LABELS: Record<string, string> = {
+  planning: 'Planning',
+  fieldwork: 'Fieldwork',
+  reporting: 'Reporting',
+  closed: 'Closed'
+};
@@ -0,0 +1,34 @@
+// What the signed-in user may do with a request; the server sends it with every request and
+// enforces the same rules, so the UI only uses it to hide what would be refused
+export type Confidentiality = 'standard' | 'confidential' | 'restricted';
+
+export interface RequestAccess {
+  confidentiality: Confidentiality;
+  view: boolean;
+  documents: boolean;
+  upload: boolean;
+  status: boolean;
+  manage_access: boolean;
+}
+
+// Only managers receive the lists
+export interface RequestAccessLists {
+  view_access?: string[];
+  document_access?: string[];
+  status_access?: string[];
+}
+
+export const CONFIDENTIALITY_OPTIONS: { value: Confidentiality; label: string; description: string }[] = [
+  { value: 'standard', label: 'Standard', description: 'Auditors and managers see everything' },
+  { value: 'confidential', label: 'Confidential', description: 'Auditors see the request but not its documents or discussion, and cannot review it' },
+  { value: 'restricted', label: 'Restricted', description: 'Hidden from auditors other than its creator' }
+];
+
+export const ACCESS_LIST_OPTIONS: { field: keyof RequestAccessLists; label: string; hint: string }[] = [
+  { field: 'view_access', label: 'Can view the request', hint: 'Sees the request and its details' },
+  { field: 'document_access', label: 'Can view documents', hint: 'Also sees documents, the discussion and the history' },
+  { field: 'status_access', label: 'Can review', hint: 'Auditors listed here can also review items and change the status' }
+];
+
+export const confidentialityLabel = (confidentiality?: Confidentiality | null) =>
+  CONFIDENTIALITY_OPTIONS.find(option => option.value === confidentiality)?.label || 'Standard';
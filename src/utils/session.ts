@@ -0,0 +1,156 @@
+import { projectId, publicAnonKey } from './supabase/info';
+
+// The OTP sign-in kept in localStorage. The access token lasts a few minutes; the refresh token is
+// traded for a new pair before it runs out.
+export interface StoredSession {
+  token: string;
+  refresh_token?: string;
+  user: any;
+  issued_at: number;
+  expires_at?: number;
+  refresh_expires_at?: number;
+  idle_timeout_seconds?: number;
+  idle_warning_seconds?: number;
+}
+
+export interface SessionTokenResponse {
+  session_token: string;
+  refresh_token: string;
+  expires_at: string;
+  refresh_expires_at: string;
+  idle_timeout_seconds?: number;
+  idle_warning_seconds?: number;
+}
+
+export const SESSION_STORAGE_KEY = 'aderm_session';
+
+// Shared by every open tab, so working in one keeps the others from locking
+const LAST_ACTIVITY_KEY = 'aderm_last_activity';
+
+// Why the stored session was last removed, so other tabs know whether to lock or sign out too
+const SESSION_END_KEY = 'aderm_session_end';
+
+export type SessionEndReason = 'logout' | 'idle' | 'expired';
+
+export interface IdlePolicy {
+  idle_timeout_seconds: number;
+  idle_warning_seconds: number;
+}
+
+// Used until the server has sent its own idle policy with a sign-in
+export const DEFAULT_IDLE_POLICY: IdlePolicy = {
+  idle_timeout_seconds: 30 * 60,
+  idle_warning_seconds: 2 * 60
+};
+
+// Refresh this long before the access token expires
+export const REFRESH_MARGIN_MS = 60 * 1000;
+
+const serverUrl = `https://${projectId}.supabase.co/functions/v1/make-server-fcebfd37`;
+
+export const readStoredSession = (): StoredSession | null => {
+  try {
+    const stored = localStorage.getItem(SESSION_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Error parsing stored session:', error);
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+    return null;
+  }
+};
+
+export const clearStoredSession = (reason: SessionEndReason = 'logout') => {
+  localStorage.setItem(SESSION_END_KEY, reason);
+  localStorage.removeItem(SESSION_STORAGE_KEY);
+};
+
+export const getSessionEndReason = (): SessionEndReason =>
+  (localStorage.getItem(SESSION_END_KEY) as SessionEndReason) || 'logout';
+
+// Store the tokens from a sign-in or a refresh
+export const storeSessionTokens = (tokens: SessionTokenResponse, user: any) => {
+  const session: StoredSession = {
+    token: tokens.session_token,
+    refresh_token: tokens.refresh_token,
+    user,
+    issued_at: Date.now(),
+    expires_at: new Date(tokens.expires_at).getTime(),
+    refresh_expires_at: new Date(tokens.refresh_expires_at).getTime(),
+    idle_timeout_seconds: tokens.idle_timeout_seconds ?? DEFAULT_IDLE_POLICY.idle_timeout_seconds,
+    idle_warning_seconds: tokens.idle_warning_seconds ?? DEFAULT_IDLE_POLICY.idle_warning_seconds
+  };
+  localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+  return session;
+};
+
+export const recordActivity = (at = Date.now()) => localStorage.setItem(LAST_ACTIVITY_KEY, String(at));
+
+export const getLastActivity = () => Number(localStorage.getItem(LAST_ACTIVITY_KEY)) || Date.now();
+
+export const getIdlePolicy = (session: StoredSession | null): IdlePolicy => ({
+  idle_timeout_seconds: session?.idle_timeout_seconds ?? DEFAULT_IDLE_POLICY.idle_timeout_seconds,
+  idle_warning_seconds: session?.idle_warning_seconds ?? DEFAULT_IDLE_POLICY.idle_warning_seconds
+});
+
+// True once nobody has used any tab for the whole idle timeout
+export const isIdleExpired = (policy: IdlePolicy, now = Date.now()) =>
+  now - getLastActivity() >= policy.idle_timeout_seconds * 1000;
+
+export const needsRefresh = (session: StoredSession, now = Date.now()) =>
+  !!session.expires_at && session.expires_at - REFRESH_MARGIN_MS <= now;
+
+// Trade the stored refresh token for a new pair. Another tab may already have refreshed, in which
+// case its tokens are picked up instead of spending the (now rotated) refresh token again.
+export const refreshStoredSession = async (usedToken?: string): Promise<StoredSession | null> => {
+  const session = readStoredSession();
+  if (!session?.refresh_token) return null;
+  if (usedToken && session.token !== usedToken && !needsRefresh(session)) return session;
+  if (session.refresh_expires_at && session.refresh_expires_at <= Date.now()) {
+    clearStoredSession('expired');
+    return null;
+  }
+
+  try {
+    const response = await fetch(`${serverUrl}/sessions/refresh`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${publicAnonKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ refresh_token: session.refresh_token })
+    });
+    const data = await response.json();
+
+    if (response.ok) {
+      return storeSessionTokens(data, session.user);
+    }
+    console.error('Session refresh failed:', data.error);
+    if (response.status === 401) {
+      clearStoredSession('expired');
+    }
+    return null;
+  } catch (error) {
+    console.error('Error refreshing session:', error);
+    return null;
+  }
+};
+
+// End the session on the server; the refresh token is sent too so this works after the access token expired
+export const logoutSession = async (reason: SessionEndReason = 'logout') => {
+  const session = readStoredSession();
+  clearStoredSession(reason);
+  if (!session) return;
+
+  try {
+    await fetch(`${serverUrl}/logout`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.token}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ refresh_token: session.refresh_token })
+    });
+  } catch (error) {
+    console.error('Error ending session on the server:', error);
+  }
+};
@@ -0,0 +1,104 @@
+import { createContext, useContext } from 'react';
+import { projectId, publicAnonKey } from './supabase/info';
+
+// The organisation settings managers edit from the Settings tab: branding, who may sign in, the
+// department catalogue and which departments are confidential, and session and code lifetimes
+export interface OrganisationSettings {
+  organisation_name: string;
+  product_name: string;
+  logo_url: string | null;
+  allowed_email_domains: string[];
+  departments: string[];
+  confidential_departments: string[];
+  otp_expiry_minutes: number;
+  access_token_minutes: number;
+  refresh_idle_days: number;
+  session_absolute_days: number;
+  idle_timeout_minutes: number;
+  updated_at?: string;
+  updated_by?: string | null;
+}
+
+// Shown until the server answers; matches the server defaults
+export const DEFAULT_SETTINGS: OrganisationSettings = {
+  organisation_name: 'Ecobank',
+  product_name: 'ADERM',
+  logo_url: null,
+  allowed_email_domains: ['ecobank.com'],
+  departments: ['Finance', 'Human Resources', 'IT', 'Legal', 'Operations', 'Marketing', 'Sales', 'Procurement', 'Compliance'],
+  confidential_departments: ['Human Resources'],
+  otp_expiry_minutes: 10,
+  access_token_minutes: 15,
+  refresh_idle_days: 7,
+  session_absolute_days: 30,
+  idle_timeout_minutes: 30
+};
+
+// Always offered after the catalogue; lets the auditor enter a custom department name
+export const OTHER_DEPARTMENT = 'Other';
+
+const settingsUrl = `https://${projectId}.supabase.co/functions/v1/make-server-fcebfd37/settings`;
+
+// Branding and code expiry for the sign-in pages; the organisation of the given address if the
+// server knows it, otherwise the default one. The email domains are only sent after sign-in.
+export const fetchPublicSettings = async (email?: string): Promise<OrganisationSettings | null> => {
+  try {
+    const response = await fetch(`${settingsUrl}/public${email ? `?email=${encodeURIComponent(email)}` : ''}`, {
+      headers: { 'Authorization': `Bearer ${publicAnonKey}` }
+    });
+    const data = await response.json();
+    return response.ok ? { ...DEFAULT_SETTINGS, ...data.settings } : null;
+  } catch (error) {
+    console.error('Error fetching public settings:', error);
+    return null;
+  }
+};
+
+export const fetchSettings = async (accessToken: string): Promise<OrganisationSettings | null> => {
+  try {
+    const response = await fetch(settingsUrl, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json'
+      }
+    });
+    const data = await response.json();
+    return response.ok ? { ...DEFAULT_SETTINGS, ...data.settings } : null;
+  } catch (error) {
+    console.error('Error fetching settings:', error);
+    return null;
+  }
+};
+
+interface SettingsContextValue {
+  settings: OrganisationSettings;
+  setSettings: (settings: OrganisationSettings) => void;
+}
+
+export const SettingsContext = createContext<SettingsContextValue>({
+  settings: DEFAULT_SETTINGS,
+  setSettings: () => {}
+});
+
+export const useOrganisationSettings = () => useContext(SettingsContext);
+
+const emailDomain = (email: string) => email.trim().toLowerCase().split('@').pop() || '';
+
+export const isEmailAddress = (email: string) => /^[^\s@]+@[^\s@]+$/.test(email.trim());
+
+export const isAllowedEmail = (settings: OrganisationSettings, email: string) =>
+  isEmailAddress(email) && settings.allowed_email_domains.includes(emailDomain(email));
+
+// "@ecobank.com", or "@a.com or @b.com" when several domains are allowed
+export const allowedDomainsLabel = (settings: OrganisationSettings) =>
+  settings.allowed_email_domains.map(domain => `@${domain}`).join(' or ');
+
+// An example address on the first allowed domain, for input placeholders
+export const exampleEmail = (settings: OrganisationSettings, name: string) =>
+  `${name}@${settings.allowed_email_domains[0] || 'example.com'}`;
+
+export const isConfidentialDepartment = (settings: OrganisationSettings, department?: string | null) =>
+  settings.confidential_departments.some(confidential => confidential.toLowerCase() === (department || '').toLowerCase());
+
+// The department picker: the catalogue followed by "Other"
+export const departmentOptions = (settings: OrganisationSettings) => [...settings.departments, OTHER_DEPARTMENT];
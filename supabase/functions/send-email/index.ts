@@ -85,6 +85,7 @@ serve(async (req: Request) => {
     console.log('Sending email via Resend API:', {
       from: emailPayload.from,
       to: emailPayload.to,
+      cc_count: emailPayload.cc?.length ?? 0,
       subject: emailPayload.subject
     })
 
@@ -0,0 +1,115 @@
+// audit-chain.tsx - Hash chaining for the append-only audit log.
+// Each organisation has its own chain. Every entry stores the SHA-256 hash of its own contents and a
+// hash linking that to its position and the entry before it, so editing, removing or reordering any
+// entry breaks every hash after it.
+
+export const GENESIS_HASH = "0".repeat(64);
+
+export interface ChainedAuditEntry {
+  id: number;
+  action: string;
+  user_id: string;
+  request_id: string | null;
+  document_id: string | null;
+  engagement_id: string | null;
+  // Null on entries written before organisations existed; those belong to the default organisation
+  organisation_id?: string | null;
+  timestamp: string;
+  details: any;
+  // Position in the organisation's chain; null on entries from before the chains started
+  sequence?: number | null;
+  content_hash?: string | null;
+  prev_hash: string | null;
+  hash: string | null;
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  checked: number;
+  // Entries written before the organisation's chain started; they precede it and are not covered by it
+  legacy_entries: number;
+  latest_id: number | null;
+  latest_hash: string | null;
+  broken_at: { id: number; reason: string } | null;
+}
+
+// JSON with object keys sorted, so the hash does not depend on the key order the database returns
+export const canonicalJson = (value: any): string => {
+  if (Array.isArray(value)) return `[${value.map((item)=>canonicalJson(item ?? null)).join(",")}]`;
+  if (value && typeof value === "object") {
+    const keys = Object.keys(value).filter((key)=>value[key] !== undefined).sort();
+    return `{${keys.map((key)=>`${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+export const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map((byte)=>byte.toString(16).padStart(2, "0")).join("");
+};
+
+// The entry's own contents; computed here when it is written and again when the chain is verified
+export const hashAuditContent = async (entry: ChainedAuditEntry): Promise<string> => {
+  const payload = canonicalJson({
+    action: entry.action,
+    user_id: entry.user_id,
+    request_id: entry.request_id,
+    document_id: entry.document_id,
+    engagement_id: entry.engagement_id,
+    organisation_id: entry.organisation_id,
+    // Timestamps come back from Postgres as "+00:00" offsets; hash the same instant in one format
+    timestamp: new Date(entry.timestamp).toISOString(),
+    details: entry.details
+  });
+  return await sha256Hex(payload);
+};
+
+// The link append_audit_log stores as the entry's hash (see the audit_log_organisation_chains migration)
+export const hashAuditLink = async (organisationId: string, sequence: number, prevHash: string, contentHash: string): Promise<string> =>
+  await sha256Hex(`${organisationId}:${sequence}:${prevHash}:${contentHash}`);
+
+// Walk one organisation's chain and recompute every link. Entries must be passed in id order.
+export const verifyAuditChain = async (organisationId: string, entries: ChainedAuditEntry[]): Promise<ChainVerification> => {
+  let legacy = 0;
+  let checked = 0;
+  let previous: ChainedAuditEntry | null = null;
+  const result = (broken_at: ChainVerification["broken_at"]): ChainVerification => ({
+    valid: !broken_at,
+    checked,
+    legacy_entries: legacy,
+    latest_id: previous?.id ?? null,
+    latest_hash: previous?.hash ?? null,
+    broken_at
+  });
+
+  for (const entry of entries) {
+    if (entry.sequence === null || entry.sequence === undefined) {
+      if (!previous) {
+        legacy++;
+        continue;
+      }
+      return result({ id: entry.id, reason: "Entry is not part of the chain" });
+    }
+    const expectedSequence = (previous?.sequence ?? 0) + 1;
+    if (entry.sequence !== expectedSequence) {
+      return result({
+        id: entry.id,
+        reason: entry.sequence > expectedSequence
+          ? `Entries ${expectedSequence} to ${entry.sequence - 1} of the chain are missing`
+          : "Entry is out of order in the chain"
+      });
+    }
+    if (entry.prev_hash !== (previous?.hash ?? GENESIS_HASH)) {
+      return result({ id: entry.id, reason: "Entry does not link to the entry before it" });
+    }
+    if (await hashAuditContent(entry) !== entry.content_hash) {
+      return result({ id: entry.id, reason: "Entry contents do not match its hash" });
+    }
+    if (await hashAuditLink(organisationId, entry.sequence, entry.prev_hash as string, entry.content_hash as string) !== entry.hash) {
+      return result({ id: entry.id, reason: "Entry hash does not match its position in the chain" });
+    }
+    checked++;
+    previous = entry;
+  }
+  return result(null);
+};
@@ -0,0 +1,95 @@
+// audit-export.tsx - CSV/JSON export of audit log entries with a signed manifest.
+// The manifest records the filters, entry range and SHA-256 of the exported file and is signed
+// with ECDSA P-256, so a recipient holding only the published public key can check that neither
+// the file nor the manifest was altered after export.
+import { canonicalJson, sha256Hex } from "./audit-chain.tsx";
+
+export type AuditExportFormat = "csv" | "json";
+
+export const AUDIT_EXPORT_FORMATS: AuditExportFormat[] = ["csv", "json"];
+
+const CSV_COLUMNS = [
+  "id", "timestamp", "action", "user_id", "request_id", "document_id", "engagement_id", "department",
+  "details", "sequence", "content_hash", "prev_hash", "hash"
+];
+
+const csvCell = (value: any): string => {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const renderAuditExport = (entries: any[], format: AuditExportFormat): string => {
+  if (format === "json") {
+    return JSON.stringify(entries.map((entry)=>Object.fromEntries(CSV_COLUMNS.map((column)=>[column, entry[column] ?? null]))), null, 2);
+  }
+  return [
+    CSV_COLUMNS.join(","),
+    ...entries.map((entry)=>CSV_COLUMNS.map((column)=>csvCell(entry[column])).join(","))
+  ].join("\r\n");
+};
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+// AUDIT_EXPORT_SIGNING_KEY holds the private key as an ECDSA P-256 JWK. Publish the matching
+// public key (the JWK without "d") to the people who will receive exports.
+const loadSigningKey = async () => {
+  const raw = Deno.env.get("AUDIT_EXPORT_SIGNING_KEY");
+  if (!raw) return null;
+  const jwk = JSON.parse(raw);
+  const privateKey = await crypto.subtle.importKey("jwk", jwk, { name: "ECDSA", namedCurve: "P-256" }, false, ["sign"]);
+  const publicKey = { kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y };
+  // RFC 7638 thumbprint, so recipients can tell which published key an export was signed with:
+  // the base64url SHA-256 of the required EC members in lexicographic order, without whitespace
+  const members = JSON.stringify({ crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y });
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(members));
+  const keyId = toBase64Url(new Uint8Array(digest));
+  return { privateKey, publicKey, keyId };
+};
+
+export const isAuditExportSigningConfigured = () => !!Deno.env.get("AUDIT_EXPORT_SIGNING_KEY");
+
+export const buildSignedManifest = async (fields: {
+  export_id: string;
+  generated_at: string;
+  generated_by: { id: string; email: string };
+  format: AuditExportFormat;
+  filename: string;
+  filters: Record<string, any>;
+  entries: any[];
+  content: string;
+  chain: { valid: boolean; latest_id: number | null; latest_hash: string | null };
+}) => {
+  const key = await loadSigningKey();
+  if (!key) throw new Error("AUDIT_EXPORT_SIGNING_KEY is not configured");
+  const ids = fields.entries.map((entry)=>entry.id);
+  const manifest = {
+    manifest_version: 1,
+    export_id: fields.export_id,
+    generated_at: fields.generated_at,
+    generated_by: fields.generated_by,
+    format: fields.format,
+    filename: fields.filename,
+    filters: fields.filters,
+    entry_count: ids.length,
+    first_entry_id: ids.length > 0 ? ids.reduce((min, id)=>Math.min(min, id)) : null,
+    last_entry_id: ids.length > 0 ? ids.reduce((max, id)=>Math.max(max, id)) : null,
+    // Entries whose details were blanked for lack of document access no longer match their hash
+    redacted_entry_ids: fields.entries.filter((entry)=>entry.details_redacted).map((entry)=>entry.id),
+    content_sha256: await sha256Hex(fields.content),
+    chain: fields.chain
+  };
+  // The signature covers the canonical JSON of every manifest field above
+  const signature = await crypto.subtle.sign({ name: "ECDSA", hash: "SHA-256" }, key.privateKey, new TextEncoder().encode(canonicalJson(manifest)));
+  return {
+    ...manifest,
+    signature: {
+      algorithm: "ES256",
+      key_id: key.keyId,
+      public_key: key.publicKey,
+      signed_content: "canonical JSON of the manifest without this signature field",
+      value: btoa(String.fromCharCode(...new Uint8Array(signature)))
+    }
+  };
+};
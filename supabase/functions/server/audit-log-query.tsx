@@ -0,0 +1,70 @@
+// audit-log-query.tsx - Filters and cursor pagination for GET /audit-logs and its export
+
+export const DEFAULT_AUDIT_PAGE_SIZE = 50;
+export const MAX_AUDIT_PAGE_SIZE = 200;
+
+export interface AuditLogQuery {
+  // A user id or email address; emails are resolved to an id by the handler
+  user: string | null;
+  request_id: string | null;
+  department: string | null;
+  actions: string[];
+  from: string | null;
+  to: string | null;
+  // Without a limit every matching entry is returned, newest first
+  limit: number | null;
+  // Entries older than this id (the last id on the previous page)
+  cursor: number | null;
+}
+
+const isoDateRegex = /^\d{4}-\d{2}-\d{2}$/;
+
+const text = (value: string | undefined): string | null => value?.trim() || null;
+
+export const parseAuditLogQuery = (params: Record<string, string | undefined>): { query?: AuditLogQuery; error?: string } => {
+  const from = text(params.from);
+  const to = text(params.to);
+  for (const [name, value] of [["from", from], ["to", to]]) {
+    if (value && (!isoDateRegex.test(value) || isNaN(new Date(value).getTime()))) {
+      return { error: `${name} must be a date in YYYY-MM-DD format` };
+    }
+  }
+  if (from && to && to < from) return { error: "to cannot be before from" };
+
+  let limit: number | null = null;
+  if (params.limit !== undefined || params.cursor !== undefined) {
+    limit = params.limit === undefined ? DEFAULT_AUDIT_PAGE_SIZE : Number(params.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_AUDIT_PAGE_SIZE) {
+      return { error: `limit must be a whole number between 1 and ${MAX_AUDIT_PAGE_SIZE}` };
+    }
+  }
+
+  let cursor: number | null = null;
+  if (params.cursor) {
+    cursor = Number(params.cursor);
+    if (!Number.isInteger(cursor) || cursor < 1) return { error: "Invalid cursor" };
+  }
+
+  return {
+    query: {
+      user: text(params.user),
+      request_id: text(params.request_id),
+      department: text(params.department),
+      actions: (params.action || "").split(",").map((action)=>action.trim()).filter((action)=>action),
+      from,
+      to,
+      limit,
+      cursor
+    }
+  };
+};
+
+// The filters as they are echoed back in an export manifest
+export const describeAuditLogQuery = (query: AuditLogQuery) => ({
+  user: query.user,
+  request_id: query.request_id,
+  department: query.department,
+  actions: query.actions,
+  from: query.from,
+  to: query.to
+});
@@ -0,0 +1,77 @@
+// checklist.tsx - PBC ("prepared by client") checklist items carried by a request
+
+export type ItemStatus = "open" | "provided" | "approved" | "rejected";
+
+export interface ChecklistItem {
+  id: string;
+  description: string;
+  due_date: string;
+  required: boolean;
+  status: ItemStatus;
+  review_note?: string | null;
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+}
+
+export interface ChecklistProgress {
+  total: number;
+  open: number;
+  provided: number;
+  approved: number;
+  rejected: number;
+  percent_complete: number;
+}
+
+export const MAX_CHECKLIST_ITEMS = 200;
+
+// Build checklist items from the create-request payload, returning an error message for invalid input
+export const buildChecklistItems = (
+  input: unknown,
+  defaultDueDate: string
+): { items: ChecklistItem[]; error?: string } => {
+  if (input === undefined || input === null) return { items: [] };
+  if (!Array.isArray(input)) return { items: [], error: "Checklist items must be a list" };
+  if (input.length > MAX_CHECKLIST_ITEMS) {
+    return { items: [], error: `A request can have at most ${MAX_CHECKLIST_ITEMS} checklist items` };
+  }
+  const items: ChecklistItem[] = [];
+  for (const [index, raw] of input.entries()) {
+    const description = typeof raw?.description === "string" ? raw.description.trim() : "";
+    if (!description) return { items: [], error: `Checklist item ${index + 1} needs a description` };
+    const dueDate = raw.due_date || defaultDueDate;
+    if (isNaN(new Date(dueDate).getTime())) {
+      return { items: [], error: `Checklist item ${index + 1} has an invalid due date` };
+    }
+    items.push({
+      id: `item_${index + 1}_${Math.random().toString(36).substr(2, 6)}`,
+      description,
+      due_date: dueDate,
+      required: raw.required !== false,
+      status: "open"
+    });
+  }
+  return { items };
+};
+
+export const getChecklistProgress = (request: { items?: ChecklistItem[] }): ChecklistProgress | null => {
+  const items = request.items || [];
+  if (items.length === 0) return null;
+  const count = (status: ItemStatus)=>items.filter((item)=>item.status === status).length;
+  const approved = count("approved");
+  return {
+    total: items.length,
+    open: count("open"),
+    provided: count("provided"),
+    approved,
+    rejected: count("rejected"),
+    percent_complete: Math.round(approved / items.length * 100)
+  };
+};
+
+// Required items that have no current document attached
+export const getMissingRequiredItems = (
+  request: { items?: ChecklistItem[] },
+  currentDocuments: { item_id?: string | null }[]
+): ChecklistItem[] => {
+  return (request.items || []).filter((item)=>item.required && !currentDocuments.some((doc)=>doc.item_id === item.id));
+};
@@ -0,0 +1,47 @@
+// comments.tsx - Discussion threads on requests (and optionally a single document)
+
+export interface Comment {
+  id: string;
+  request_id: string;
+  document_id: string | null;
+  parent_id: string | null;
+  author_id: string;
+  author_name: string;
+  author_role: string;
+  body: string;
+  mentions: string[];
+  created_at: string;
+  edited_at: string | null;
+}
+
+export const MAX_COMMENT_LENGTH = 5000;
+
+// Authors can fix a comment shortly after posting it; after that the thread is part of the record
+export const COMMENT_EDIT_WINDOW_MS = 5 * 60 * 1000;
+
+const mentionRegex = /(^|\s)@([a-z0-9._%+-]+(?:@[a-z0-9-]+(?:\.[a-z0-9-]+)+)?)/gi;
+
+// With ecobank.com as the first allowed domain, "@jane.doe" and "@jane.doe@ecobank.com" both
+// mention jane.doe@ecobank.com. Full addresses are kept whatever their domain; the caller decides
+// whether they are allowed.
+export const extractMentions = (body: string, defaultDomain: string): string[] => {
+  const emails = new Set<string>();
+  for (const match of body.matchAll(mentionRegex)) {
+    const handle = match[2].toLowerCase().replace(/[.]+$/, "");
+    emails.add(handle.includes("@") ? handle : `${handle}@${defaultDomain}`);
+  }
+  return [...emails];
+};
+
+export const validateCommentBody = (body: unknown): { body?: string; error?: string } => {
+  const text = typeof body === "string" ? body.trim() : "";
+  if (!text) return { error: "Comment cannot be empty" };
+  if (text.length > MAX_COMMENT_LENGTH) {
+    return { error: `Comments are limited to ${MAX_COMMENT_LENGTH} characters` };
+  }
+  return { body: text };
+};
+
+export const canEditComment = (comment: Comment, userId: string, now: Date = new Date()): boolean => {
+  return comment.author_id === userId && now.getTime() - new Date(comment.created_at).getTime() <= COMMENT_EDIT_WINDOW_MS;
+};
@@ -1,4 +1,5 @@
 // email-helpers.tsx - Email helper functions using Supabase send-email function
+import { loadSettings, DEFAULT_ORGANISATION_ID } from "./org-settings.tsx";
 
 // Deno global declaration
 declare const Deno: {
@@ -7,12 +8,24 @@ declare const Deno: {
   };
 };
 
+// Escape user-supplied text before placing it in an email body
+const escapeHtml = (text: string | null | undefined): string =>
+  String(text ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Templates name the product "ADERM"; sent emails carry the product name from the settings of the
+// organisation they are sent for
+const applyBranding = async (text: string, organisationId: string): Promise<string> => {
+  const { product_name } = await loadSettings(organisationId);
+  return product_name === 'ADERM' ? text : text.replace(/\bADERM\b/g, escapeHtml(product_name));
+};
+
 // Type definitions
 interface User {
   id: string;
   email: string;
   name: string;
   role?: string;
+  organisation_id?: string;
 }
 
 interface AuditRequest {
@@ -22,13 +35,22 @@ interface AuditRequest {
   due_date: string;
   department: string;
   status: string;
+  organisation_id?: string;
   previousStatus?: string;
+  rejection?: {
+    reason: string;
+    documents: { document_id: string; filename: string; note: string }[];
+  };
 }
 
 interface EmailResponse {
   success: boolean;
   data?: any;
   error?: string;
+  // Addresses actually sent to, so callers can record them in the email log
+  to?: string[];
+  cc?: string[];
+  subject?: string;
 }
 
 export const triggerNewRequestEmail = async (
@@ -37,7 +59,7 @@ export const triggerNewRequestEmail = async (
   creator: User,
   ccRecipients: string[]
 ): Promise<EmailResponse> => {
-  console.log('triggerNewRequestEmail called', { request: request.id, auditee: auditee.email });
+  console.log('triggerNewRequestEmail called', { request: request.id, auditee: auditee.email, cc_count: ccRecipients.length });
   
   const subject = `New Audit Request: ${request.title}`;
   const html = `
@@ -57,10 +79,10 @@ export const triggerNewRequestEmail = async (
         <div style="background-color: #f3f4f6; padding: 20px; border-radius: 8px; margin: 20px 0;">
             <h3 style="color: #1f2937; margin: 0 0 15px 0;">Request Details</h3>
             <ul style="color: #374151; font-size: 15px; line-height: 1.6; list-style-type: none; padding: 0; margin: 0;">
-                <li><strong>Title:</strong> ${request.title}</li>
-                <li><strong>Description:</strong> ${request.description}</li>
-                <li><strong>Due Date:</strong> ${request.due_date}</li>
-                <li><strong>Department:</strong> ${request.department}</li>
+                <li><strong>Title:</strong> ${escapeHtml(request.title)}</li>
+                <li><strong>Description:</strong> ${escapeHtml(request.description)}</li>
+                <li><strong>Due Date:</strong> ${escapeHtml(request.due_date)}</li>
+                <li><strong>Department:</strong> ${escapeHtml(request.department)}</li>
             </ul>
         </div>
 
@@ -77,7 +99,7 @@ export const triggerNewRequestEmail = async (
 
   `;
   
-  return await sendEmailViaSupabase([auditee.email], subject, html);
+  return await sendEmailViaSupabase([auditee.email], subject, html, ccRecipients, request.organisation_id);
 };
 
 export const triggerStatusChangeEmail = async (
@@ -86,9 +108,19 @@ export const triggerStatusChangeEmail = async (
   updater: User,
   ccRecipients: string[]
 ): Promise<EmailResponse> => {
-  console.log('triggerStatusChangeEmail called', { request: request.id, auditee: auditee.email });
+  console.log('triggerStatusChangeEmail called', { request: request.id, auditee: auditee.email, cc_count: ccRecipients.length });
   
   const subject = `Request Status Updated: ${request.title}`;
+  const rejectionHtml = request.status === 'rejected' && request.rejection ? `
+        <div style="background-color: #fef2f2; border-left: 4px solid #dc2626; padding: 15px; margin: 20px 0;">
+            <h4 style="color: #991b1b; margin: 0 0 10px 0;">Reason for Rejection</h4>
+            <p style="color: #991b1b; margin: 0; white-space: pre-wrap;">${escapeHtml(request.rejection.reason)}</p>
+            ${request.rejection.documents.length > 0 ? `
+            <ul style="color: #991b1b; margin: 10px 0 0 0; padding-left: 20px;">
+                ${request.rejection.documents.map((d) => `<li><strong>${escapeHtml(d.filename)}:</strong> ${escapeHtml(d.note)}</li>`).join('')}
+            </ul>` : ''}
+        </div>
+` : '';
   const html = `
     <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; background-color: #ffffff;">
     <div style="background-color: #1e40af; color: white; padding: 20px; text-align: center;">
@@ -106,13 +138,13 @@ export const triggerStatusChangeEmail = async (
         <div style="background-color: #f3f4f6; padding: 20px; border-radius: 8px; margin: 20px 0;">
             <h3 style="color: #1f2937; margin: 0 0 15px 0;">Request Details</h3>
             <ul style="color: #374151; font-size: 15px; line-height: 1.6; list-style-type: none; padding: 0; margin: 0;">
-                <li><strong>Title:</strong> ${request.title}</li>
-                <li><strong>Previous Status:</strong> ${request.previousStatus}</li>
-                <li><strong>New Status:</strong> ${request.status}</li>
-                <li><strong>Updated by:</strong> ${updater.name}</li>
+                <li><strong>Title:</strong> ${escapeHtml(request.title)}</li>
+                <li><strong>Previous Status:</strong> ${escapeHtml(request.previousStatus)}</li>
+                <li><strong>New Status:</strong> ${escapeHtml(request.status)}</li>
+                <li><strong>Updated by:</strong> ${escapeHtml(updater.name)}</li>
             </ul>
         </div>
-
+${rejectionHtml}
         <p style="color: #374151; font-size: 16px; line-height: 1.6;">
             Please log in to the ADERM system to view more details and take any necessary actions.
         </p>
@@ -126,11 +158,210 @@ export const triggerStatusChangeEmail = async (
 
   `;
   
-  return await sendEmailViaSupabase([auditee.email], subject, html);
+  return await sendEmailViaSupabase([auditee.email], subject, html, ccRecipients, request.organisation_id);
+};
+
+export const triggerSubmissionEmail = async (
+  request: AuditRequest,
+  auditor: User,
+  auditee: User,
+  attestation: string,
+  documentCount: number
+): Promise<EmailResponse> => {
+  console.log('triggerSubmissionEmail called', { request: request.id, auditor: auditor.email });
+  
+  const subject = `Request Submitted for Review: ${request.title}`;
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; background-color: #ffffff;">
+    <div style="background-color: #1e40af; color: white; padding: 20px; text-align: center;">
+        <h1 style="margin: 0; font-size: 24px;">🛡️ ADERM Platform</h1>
+        <p style="margin: 5px 0 0 0;">Request Submitted for Review</p>
+    </div>
+
+    <div style="padding: 30px 20px;">
+        <p style="color: #374151; font-size: 16px; line-height: 1.6;">Hello ${escapeHtml(auditor.name)},</p>
+
+        <p style="color: #374151; font-size: 16px; line-height: 1.6;">
+            ${escapeHtml(auditee.name)} has submitted the following audit request for your review:
+        </p>
+
+        <div style="background-color: #f3f4f6; padding: 20px; border-radius: 8px; margin: 20px 0;">
+            <h3 style="color: #1f2937; margin: 0 0 15px 0;">Submission Details</h3>
+            <ul style="color: #374151; font-size: 15px; line-height: 1.6; list-style-type: none; padding: 0; margin: 0;">
+                <li><strong>Title:</strong> ${escapeHtml(request.title)}</li>
+                <li><strong>Department:</strong> ${escapeHtml(request.department)}</li>
+                <li><strong>Documents:</strong> ${documentCount}</li>
+                <li><strong>Submitted by:</strong> ${escapeHtml(auditee.name)} (${escapeHtml(auditee.email)})</li>
+            </ul>
+        </div>
+
+        <div style="background-color: #eff6ff; border-left: 4px solid #1e40af; padding: 15px; margin: 20px 0;">
+            <h4 style="color: #1e3a8a; margin: 0 0 10px 0;">Auditee Attestation</h4>
+            <p style="color: #1e3a8a; margin: 0; white-space: pre-wrap;">${escapeHtml(attestation)}</p>
+        </div>
+
+        <p style="color: #374151; font-size: 16px; line-height: 1.6;">
+            Please log in to the ADERM system to review the submitted documents.
+        </p>
+    </div>
+
+    <div style="background-color: #f9fafb; padding: 20px; text-align: center; border-top: 1px solid #e5e7eb;">
+        <p style="color: #6b7280; font-size: 12px; margin: 0;">This notification was sent by the ADERM platform</p>
+        <p style="color: #6b7280; font-size: 12px; margin: 5px 0 0 0;">Submitted: ${new Date().toLocaleString()}</p>
+    </div>
+</div>
+
+  `;
+  
+  return await sendEmailViaSupabase([auditor.email], subject, html, [], request.organisation_id);
+};
+
+export const triggerDueDateReminderEmail = async (
+  request: AuditRequest,
+  auditee: User,
+  daysUntilDue: number
+): Promise<EmailResponse> => {
+  console.log('triggerDueDateReminderEmail called', { request: request.id, auditee: auditee.email, daysUntilDue });
+  
+  const overdue = daysUntilDue < 0;
+  const timing = overdue
+    ? `is overdue by ${Math.abs(daysUntilDue)} day(s)`
+    : daysUntilDue === 0 ? 'is due today' : `is due in ${daysUntilDue} day(s)`;
+  const subject = overdue ? `Overdue Audit Request: ${request.title}` : `Reminder: ${request.title} ${timing}`;
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; background-color: #ffffff;">
+    <div style="background-color: ${overdue ? '#b91c1c' : '#1e40af'}; color: white; padding: 20px; text-align: center;">
+        <h1 style="margin: 0; font-size: 24px;">🛡️ ADERM Platform</h1>
+        <p style="margin: 5px 0 0 0;">${overdue ? 'Overdue Audit Request' : 'Due Date Reminder'}</p>
+    </div>
+
+    <div style="padding: 30px 20px;">
+        <p style="color: #374151; font-size: 16px; line-height: 1.6;">Hello,</p>
+
+        <p style="color: #374151; font-size: 16px; line-height: 1.6;">
+            The following audit request assigned to you ${timing}:
+        </p>
+
+        <div style="background-color: #f3f4f6; padding: 20px; border-radius: 8px; margin: 20px 0;">
+            <h3 style="color: #1f2937; margin: 0 0 15px 0;">Request Details</h3>
+            <ul style="color: #374151; font-size: 15px; line-height: 1.6; list-style-type: none; padding: 0; margin: 0;">
+                <li><strong>Title:</strong> ${escapeHtml(request.title)}</li>
+                <li><strong>Due Date:</strong> ${escapeHtml(request.due_date)}</li>
+                <li><strong>Department:</strong> ${escapeHtml(request.department)}</li>
+                <li><strong>Status:</strong> ${escapeHtml(request.status)}</li>
+            </ul>
+        </div>
+
+        <p style="color: #374151; font-size: 16px; line-height: 1.6;">
+            Please log in to the ADERM system to upload the requested documents.
+        </p>
+    </div>
+
+    <div style="background-color: #f9fafb; padding: 20px; text-align: center; border-top: 1px solid #e5e7eb;">
+        <p style="color: #6b7280; font-size: 12px; margin: 0;">This reminder was sent by the ADERM platform</p>
+        <p style="color: #6b7280; font-size: 12px; margin: 5px 0 0 0;">Sent: ${new Date().toLocaleString()}</p>
+    </div>
+</div>
+
+  `;
+  
+  return await sendEmailViaSupabase([auditee.email], subject, html, [], request.organisation_id);
+};
+
+export const triggerEscalationEmail = async (
+  request: AuditRequest & { assigned_to_email: string },
+  recipients: string[],
+  daysOverdue: number
+): Promise<EmailResponse> => {
+  console.log('triggerEscalationEmail called', { request: request.id, recipients, daysOverdue });
+  
+  const subject = `Escalation: ${request.title} is ${daysOverdue} day(s) overdue`;
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; background-color: #ffffff;">
+    <div style="background-color: #b91c1c; color: white; padding: 20px; text-align: center;">
+        <h1 style="margin: 0; font-size: 24px;">🛡️ ADERM Platform</h1>
+        <p style="margin: 5px 0 0 0;">Overdue Request Escalation</p>
+    </div>
+
+    <div style="padding: 30px 20px;">
+        <p style="color: #374151; font-size: 16px; line-height: 1.6;">Hello,</p>
+
+        <p style="color: #374151; font-size: 16px; line-height: 1.6;">
+            The following audit request has been overdue for ${daysOverdue} day(s) and has been escalated for follow-up:
+        </p>
+
+        <div style="background-color: #f3f4f6; padding: 20px; border-radius: 8px; margin: 20px 0;">
+            <h3 style="color: #1f2937; margin: 0 0 15px 0;">Request Details</h3>
+            <ul style="color: #374151; font-size: 15px; line-height: 1.6; list-style-type: none; padding: 0; margin: 0;">
+                <li><strong>Title:</strong> ${escapeHtml(request.title)}</li>
+                <li><strong>Assigned to:</strong> ${escapeHtml(request.assigned_to_email)}</li>
+                <li><strong>Due Date:</strong> ${escapeHtml(request.due_date)}</li>
+                <li><strong>Department:</strong> ${escapeHtml(request.department)}</li>
+                <li><strong>Status:</strong> ${escapeHtml(request.status)}</li>
+            </ul>
+        </div>
+
+        <p style="color: #374151; font-size: 16px; line-height: 1.6;">
+            Please follow up with the auditee or log in to the ADERM system to review the request.
+        </p>
+    </div>
+
+    <div style="background-color: #f9fafb; padding: 20px; text-align: center; border-top: 1px solid #e5e7eb;">
+        <p style="color: #6b7280; font-size: 12px; margin: 0;">This escalation was sent by the ADERM platform</p>
+        <p style="color: #6b7280; font-size: 12px; margin: 5px 0 0 0;">Sent: ${new Date().toLocaleString()}</p>
+    </div>
+</div>
+
+  `;
+  
+  return await sendEmailViaSupabase(recipients, subject, html, [], request.organisation_id);
+};
+
+export const triggerMentionEmail = async (
+  request: AuditRequest,
+  mentioned: User,
+  author: User,
+  commentBody: string
+): Promise<EmailResponse> => {
+  console.log('triggerMentionEmail called', { request: request.id, mentioned: mentioned.email, author: author.email });
+  
+  const subject = `${author.name} mentioned you on ${request.title}`;
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; background-color: #ffffff;">
+    <div style="background-color: #1e40af; color: white; padding: 20px; text-align: center;">
+        <h1 style="margin: 0; font-size: 24px;">🛡️ ADERM Platform</h1>
+        <p style="margin: 5px 0 0 0;">You Were Mentioned</p>
+    </div>
+
+    <div style="padding: 30px 20px;">
+        <p style="color: #374151; font-size: 16px; line-height: 1.6;">Hello ${escapeHtml(mentioned.name)},</p>
+
+        <p style="color: #374151; font-size: 16px; line-height: 1.6;">
+            ${escapeHtml(author.name)} mentioned you in the discussion on <strong>${escapeHtml(request.title)}</strong>:
+        </p>
+
+        <div style="background-color: #f3f4f6; border-left: 4px solid #1e40af; padding: 15px; margin: 20px 0;">
+            <p style="color: #374151; margin: 0; white-space: pre-wrap;">${escapeHtml(commentBody)}</p>
+        </div>
+
+        <p style="color: #374151; font-size: 16px; line-height: 1.6;">
+            Please log in to the ADERM system to reply.
+        </p>
+    </div>
+
+    <div style="background-color: #f9fafb; padding: 20px; text-align: center; border-top: 1px solid #e5e7eb;">
+        <p style="color: #6b7280; font-size: 12px; margin: 0;">This notification was sent by the ADERM platform</p>
+        <p style="color: #6b7280; font-size: 12px; margin: 5px 0 0 0;">Sent: ${new Date().toLocaleString()}</p>
+    </div>
+</div>
+
+  `;
+  
+  return await sendEmailViaSupabase([mentioned.email], subject, html, [], request.organisation_id);
 };
 
-export const triggerWelcomeEmail = async (user: User): Promise<EmailResponse> => {
-  console.log('triggerWelcomeEmail called', { user: user.email });
+export const triggerWelcomeEmail = async (user: User, requestedRole?: string | null): Promise<EmailResponse> => {
+  console.log('triggerWelcomeEmail called', { user: user.email, requestedRole });
   
   const subject = 'Welcome to ADERM - Audit Document Exchange & Request Management';
   const html = `
@@ -141,7 +372,7 @@ export const triggerWelcomeEmail = async (user: User): Promise<EmailResponse> =>
     </div>
 
     <div style="padding: 30px 20px;">
-        <p style="color: #374151; font-size: 16px; line-height: 1.6;">Hello ${user.name},</p>
+        <p style="color: #374151; font-size: 16px; line-height: 1.6;">Hello ${escapeHtml(user.name)},</p>
 
         <p style="color: #374151; font-size: 16px; line-height: 1.6;">
             Your account has been successfully created in the <strong>Audit Document Exchange & Request Management (ADERM)</strong> system.
@@ -150,11 +381,18 @@ export const triggerWelcomeEmail = async (user: User): Promise<EmailResponse> =>
         <div style="background-color: #f3f4f6; padding: 20px; border-radius: 8px; margin: 20px 0;">
             <h3 style="color: #1f2937; margin: 0 0 15px 0;">Your Account Details</h3>
             <ul style="color: #374151; font-size: 15px; line-height: 1.6; list-style-type: none; padding: 0; margin: 0;">
-                <li><strong>Email:</strong> ${user.email}</li>
-                <li><strong>Role:</strong> ${user.role}</li>
+                <li><strong>Email:</strong> ${escapeHtml(user.email)}</li>
+                <li><strong>Role:</strong> ${escapeHtml(user.role)}</li>
             </ul>
         </div>
 
+        ${requestedRole ? `
+        <div style="background-color: #fef3c7; border-left: 4px solid #f59e0b; padding: 15px; margin: 20px 0;">
+            <p style="color: #92400e; margin: 0;">
+                You asked for <strong>${requestedRole}</strong> access. A manager needs to approve this; until then your account has auditee access, and we will email you once the request has been reviewed.
+            </p>
+        </div>` : ''}
+
         <p style="color: #374151; font-size: 16px; line-height: 1.6;">
             You can now log in to the system using your email address and the OTP verification process.
         </p>
@@ -168,11 +406,106 @@ export const triggerWelcomeEmail = async (user: User): Promise<EmailResponse> =>
 
   `;
   
-  return await sendEmailViaSupabase([user.email], subject, html);
+  return await sendEmailViaSupabase([user.email], subject, html, [], user.organisation_id);
+};
+
+export const triggerRoleRequestEmail = async (
+  requester: User,
+  requestedRole: string,
+  managerEmails: string[]
+): Promise<EmailResponse> => {
+  console.log('triggerRoleRequestEmail called', { requester: requester.email, requestedRole, managers: managerEmails });
+  
+  const subject = `Access request: ${requester.name} is asking for ${requestedRole} access`;
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; background-color: #ffffff;">
+    <div style="background-color: #1e40af; color: white; padding: 20px; text-align: center;">
+        <h1 style="margin: 0; font-size: 24px;">🛡️ ADERM Platform</h1>
+        <p style="margin: 5px 0 0 0;">Role Approval Required</p>
+    </div>
+
+    <div style="padding: 30px 20px;">
+        <p style="color: #374151; font-size: 16px; line-height: 1.6;">Hello,</p>
+
+        <p style="color: #374151; font-size: 16px; line-height: 1.6;">
+            A new user has signed up and asked for elevated access. Until a manager approves the request, the account has auditee access only.
+        </p>
+
+        <div style="background-color: #f3f4f6; padding: 20px; border-radius: 8px; margin: 20px 0;">
+            <h3 style="color: #1f2937; margin: 0 0 15px 0;">Request Details</h3>
+            <ul style="color: #374151; font-size: 15px; line-height: 1.6; list-style-type: none; padding: 0; margin: 0;">
+                <li><strong>Name:</strong> ${escapeHtml(requester.name)}</li>
+                <li><strong>Email:</strong> ${escapeHtml(requester.email)}</li>
+                <li><strong>Requested role:</strong> ${requestedRole}</li>
+            </ul>
+        </div>
+
+        <p style="color: #374151; font-size: 16px; line-height: 1.6;">
+            Please log in to the ADERM system to approve or deny the request from the Manager Dashboard.
+        </p>
+    </div>
+
+    <div style="background-color: #f9fafb; padding: 20px; text-align: center; border-top: 1px solid #e5e7eb;">
+        <p style="color: #6b7280; font-size: 12px; margin: 0;">This notification was sent by the ADERM platform</p>
+        <p style="color: #6b7280; font-size: 12px; margin: 5px 0 0 0;">Sent: ${new Date().toLocaleString()}</p>
+    </div>
+</div>
+
+  `;
+  
+  return await sendEmailViaSupabase(managerEmails, subject, html, [], requester.organisation_id);
+};
+
+export const triggerRoleDecisionEmail = async (
+  user: User,
+  requestedRole: string,
+  approved: boolean,
+  manager: User,
+  reason?: string
+): Promise<EmailResponse> => {
+  console.log('triggerRoleDecisionEmail called', { user: user.email, requestedRole, approved });
+  
+  const subject = approved
+    ? `Your ${requestedRole} access has been approved`
+    : `Your ${requestedRole} access request was not approved`;
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; background-color: #ffffff;">
+    <div style="background-color: ${approved ? '#15803d' : '#b91c1c'}; color: white; padding: 20px; text-align: center;">
+        <h1 style="margin: 0; font-size: 24px;">🛡️ ADERM Platform</h1>
+        <p style="margin: 5px 0 0 0;">${approved ? 'Access Approved' : 'Access Request Declined'}</p>
+    </div>
+
+    <div style="padding: 30px 20px;">
+        <p style="color: #374151; font-size: 16px; line-height: 1.6;">Hello ${escapeHtml(user.name)},</p>
+
+        <p style="color: #374151; font-size: 16px; line-height: 1.6;">
+            ${approved
+              ? `${escapeHtml(manager.name)} has approved your request. Your account now has <strong>${requestedRole}</strong> access; it applies the next time you load the ADERM system.`
+              : `${escapeHtml(manager.name)} has declined your request for <strong>${requestedRole}</strong> access. Your account keeps auditee access.`}
+        </p>
+        ${!approved && reason ? `
+        <div style="background-color: #fef2f2; border-left: 4px solid #dc2626; padding: 15px; margin: 20px 0;">
+            <p style="color: #991b1b; margin: 0;"><strong>Reason:</strong> ${escapeHtml(reason)}</p>
+        </div>` : ''}
+
+        <p style="color: #374151; font-size: 16px; line-height: 1.6;">
+            If you have questions, please contact ${escapeHtml(manager.email)}.
+        </p>
+    </div>
+
+    <div style="background-color: #f9fafb; padding: 20px; text-align: center; border-top: 1px solid #e5e7eb;">
+        <p style="color: #6b7280; font-size: 12px; margin: 0;">This notification was sent by the ADERM platform</p>
+        <p style="color: #6b7280; font-size: 12px; margin: 5px 0 0 0;">Sent: ${new Date().toLocaleString()}</p>
+    </div>
+</div>
+
+  `;
+  
+  return await sendEmailViaSupabase([user.email], subject, html, [], user.organisation_id);
 };
 
-export const triggerOTPEmail = async (user: User, otp: string, type?: string): Promise<EmailResponse> => {
-  console.log('triggerOTPEmail called', { user: user.email, otp, type });
+export const triggerOTPEmail = async (user: User, otp: string, type?: string, expiresInMinutes = 10): Promise<EmailResponse> => {
+  console.log('triggerOTPEmail called', { user: user.email, type });
   
   const isSignup = type === 'signup';
   const subject = isSignup ? 'ADERM - Email Verification Code' : 'ADERM - Login Verification Code';
@@ -195,7 +528,7 @@ export const triggerOTPEmail = async (user: User, otp: string, type?: string): P
             <div style="font-size: 32px; font-weight: bold; color: #1e40af; letter-spacing: 8px; font-family: monospace;">
                 ${otp}
             </div>
-            <p style="color: #6b7280; font-size: 14px; margin: 15px 0 0 0;">This code expires in 10 minutes</p>
+            <p style="color: #6b7280; font-size: 14px; margin: 15px 0 0 0;">This code expires in ${expiresInMinutes} minute${expiresInMinutes === 1 ? '' : 's'}</p>
         </div>
 
         <div style="background-color: #fef3c7; border-left: 4px solid #f59e0b; padding: 15px; margin: 20px 0; text-align: left;">
@@ -216,16 +549,19 @@ export const triggerOTPEmail = async (user: User, otp: string, type?: string): P
 
   `;
   
-  return await sendEmailViaSupabase([user.email], subject, html);
+  return await sendEmailViaSupabase([user.email], subject, html, [], user.organisation_id);
 };
 
 export const sendEmailViaSupabase = async (
   recipients: string[],
   subject: string,
-  body: string
+  body: string,
+  ccRecipients: string[] = [],
+  organisationId = DEFAULT_ORGANISATION_ID
 ): Promise<EmailResponse> => {
   console.log('=== sendEmailViaSupabase DEBUG START ===');
   console.log('Recipients:', recipients);
+  console.log('CC count:', ccRecipients.length);
   console.log('Subject:', subject);
   console.log('Body length:', body?.length);
   
@@ -253,6 +589,11 @@ export const sendEmailViaSupabase = async (
     return { success: false, error: `Invalid email addresses: ${invalidEmails.join(', ')}` };
   }
 
+  // Drop malformed CC addresses and anyone already in "to" rather than failing the whole email
+  const toLower = recipients.map(email => email.toLowerCase());
+  const cc = [...new Set((ccRecipients || []).map(email => email.trim().toLowerCase()))]
+    .filter(email => emailRegex.test(email) && !toLower.includes(email));
+
   try {
     const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
     const supabaseUrl = Deno.env.get('SUPABASE_URL');
@@ -274,12 +615,14 @@ export const sendEmailViaSupabase = async (
 
     const emailPayload = {
       to: recipients,
-      subject: subject.trim(),
-      html: body,
+      ...(cc.length > 0 ? { cc } : {}),
+      subject: (await applyBranding(subject, organisationId)).trim(),
+      html: await applyBranding(body, organisationId),
     };
 
     console.log('Making request to Edge Function with payload:', {
       to: emailPayload.to,
+      cc,
       subject: emailPayload.subject,
       htmlLength: emailPayload.html?.length
     });
@@ -302,7 +645,7 @@ export const sendEmailViaSupabase = async (
     if (response.ok) {
       const result = await response.json();
       console.log('Email sent successfully:', result);
-      return { success: true, data: result };
+      return { success: true, data: result, to: recipients, cc, subject: emailPayload.subject };
     } else {
       const errorText = await response.text();
       console.error('Edge Function error response:', errorText);
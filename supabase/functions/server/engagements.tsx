@@ -0,0 +1,102 @@
+// engagements.tsx - Audit engagements (an annual audit or review) that group related requests
+import { OrganisationSettings, isAllowedEmail, allowedDomainsLabel } from "./org-settings.tsx";
+
+export type EngagementStatus = "planning" | "fieldwork" | "reporting" | "closed";
+
+export const ENGAGEMENT_STATUSES: EngagementStatus[] = ["planning", "fieldwork", "reporting", "closed"];
+
+export interface EngagementFields {
+  name: string;
+  period: string;
+  scope: string;
+  lead_auditor_email: string;
+  team_emails: string[];
+  status: EngagementStatus;
+  start_date: string;
+  end_date: string;
+}
+
+export interface EngagementProgress {
+  request_count: number;
+  approved: number;
+  open: number;
+  overdue: number;
+  percent_complete: number;
+  items_total: number;
+  items_approved: number;
+}
+
+const splitEmails = (value: unknown): string[] => {
+  if (!value) return [];
+  const list = Array.isArray(value) ? value : String(value).split(/[;,]/);
+  return [...new Set(list.map((email)=>String(email).trim().toLowerCase()).filter((email)=>email))];
+};
+
+// Validate a create payload, or an update payload merged over the existing engagement
+export const validateEngagementFields = (
+  input: Record<string, unknown>,
+  settings: OrganisationSettings,
+  existing?: EngagementFields
+): { fields?: EngagementFields; error?: string } => {
+  const pick = (key: keyof EngagementFields)=>input[key] !== undefined ? input[key] : existing?.[key];
+  const name = String(pick("name") ?? "").trim();
+  const period = String(pick("period") ?? "").trim();
+  const scope = String(pick("scope") ?? "").trim();
+  const leadAuditorEmail = String(pick("lead_auditor_email") ?? "").trim().toLowerCase();
+  const teamEmails = splitEmails(pick("team_emails"));
+  const status = String(pick("status") ?? "planning") as EngagementStatus;
+  const startDate = String(pick("start_date") ?? "").trim();
+  const endDate = String(pick("end_date") ?? "").trim();
+
+  if (!name || !period || !startDate || !endDate || !leadAuditorEmail) {
+    return { error: "Name, period, lead auditor, start date and end date are required" };
+  }
+  if (!ENGAGEMENT_STATUSES.includes(status)) {
+    return { error: `Status must be one of: ${ENGAGEMENT_STATUSES.join(", ")}` };
+  }
+  const start = new Date(startDate);
+  const end = new Date(endDate);
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    return { error: "Invalid start or end date" };
+  }
+  if (end < start) {
+    return { error: "End date cannot be before the start date" };
+  }
+  if (!isAllowedEmail(settings, leadAuditorEmail)) {
+    return { error: `Lead auditor must have an ${allowedDomainsLabel(settings)} email address` };
+  }
+  const invalidTeam = teamEmails.filter((email)=>!isAllowedEmail(settings, email));
+  if (invalidTeam.length > 0) {
+    return { error: `Team members must be ${allowedDomainsLabel(settings)}: ${invalidTeam.join(", ")}` };
+  }
+  return {
+    fields: {
+      name,
+      period,
+      scope,
+      lead_auditor_email: leadAuditorEmail,
+      team_emails: teamEmails,
+      status,
+      start_date: startDate,
+      end_date: endDate
+    }
+  };
+};
+
+// Roll request status and checklist progress up to the engagement
+export const getEngagementProgress = (
+  requests: { status: string; due_date: string; progress?: { total: number; approved: number } | null }[],
+  now: Date = new Date()
+): EngagementProgress => {
+  const approved = requests.filter((r)=>r.status === "approved").length;
+  const open = requests.filter((r)=>r.status !== "approved" && r.status !== "cancelled");
+  return {
+    request_count: requests.length,
+    approved,
+    open: open.length,
+    overdue: open.filter((r)=>new Date(r.due_date) < now).length,
+    percent_complete: requests.length > 0 ? Math.round(approved / requests.length * 100) : 0,
+    items_total: requests.reduce((sum, r)=>sum + (r.progress?.total || 0), 0),
+    items_approved: requests.reduce((sum, r)=>sum + (r.progress?.approved || 0), 0)
+  };
+};
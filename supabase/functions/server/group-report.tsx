@@ -0,0 +1,52 @@
+// group-report.tsx - The group-level view across organisations, for group managers: each
+// organisation's request progress and headcount, without any request content
+import { OrganisationSettings } from "./org-settings.tsx";
+import { EngagementProgress, getEngagementProgress } from "./engagements.tsx";
+import { getChecklistProgress } from "./checklist.tsx";
+import { isActiveUser, configuredGroupManagerEmails } from "./user-admin.tsx";
+
+export interface OrganisationReport {
+  id: string;
+  organisation_name: string;
+  allowed_email_domains: string[];
+  users: number;
+  managers: number;
+  // Request counts by status
+  statuses: Record<string, number>;
+  progress: EngagementProgress;
+}
+
+// Only a manager flagged as a group manager may report across organisations or add new ones
+export const isGroupManager = (user: any) => !!user && user.role === "manager" && user.group_manager === true && isActiveUser(user);
+
+// Managers whose addresses are in the GROUP_MANAGER_EMAILS secret become group managers when they
+// sign in. This is how the first group manager is made; after that they grant the access themselves.
+export const isConfiguredGroupManager = (user: any) =>
+  !!user && user.role === "manager" && isActiveUser(user) &&
+  configuredGroupManagerEmails().includes(String(user.email || "").toLowerCase());
+
+export const buildGroupReport = (
+  organisations: OrganisationSettings[],
+  requests: any[],
+  users: any[],
+  now: Date = new Date()
+): OrganisationReport[] =>
+  organisations.map((organisation)=>{
+    const orgRequests = requests.filter((request)=>request.organisation_id === organisation.id);
+    const orgUsers = users.filter((user)=>user.organisation_id === organisation.id && isActiveUser(user));
+    return {
+      id: organisation.id!,
+      organisation_name: organisation.organisation_name,
+      allowed_email_domains: organisation.allowed_email_domains,
+      users: orgUsers.length,
+      managers: orgUsers.filter((user)=>user.role === "manager").length,
+      statuses: orgRequests.reduce((counts, request)=>({
+        ...counts,
+        [request.status]: (counts[request.status] || 0) + 1
+      }), {} as Record<string, number>),
+      progress: getEngagementProgress(orgRequests.map((request)=>({
+        ...request,
+        progress: getChecklistProgress(request)
+      })), now)
+    };
+  });
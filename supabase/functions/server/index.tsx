@@ -4,8 +4,31 @@ import { cors } from "npm:hono/cors";
 import { logger } from "npm:hono/logger";
 import { createClient } from "npm:@supabase/supabase-js";
 import * as kv from "./kv_store.tsx";
+import * as repo from "./repository.tsx";
 // Fix: Use relative imports based on your file structure
-import { triggerNewRequestEmail, triggerStatusChangeEmail, triggerWelcomeEmail, triggerOTPEmail, sendEmailViaSupabase } from "./email-helpers.tsx";
+import { triggerNewRequestEmail, triggerStatusChangeEmail, triggerWelcomeEmail, triggerOTPEmail, triggerSubmissionEmail, triggerDueDateReminderEmail, triggerEscalationEmail, triggerMentionEmail, triggerRoleRequestEmail, triggerRoleDecisionEmail, sendEmailViaSupabase } from "./email-helpers.tsx";
+import { normalizeStatus, getAllowedTransitions, canTransition, UPLOADABLE_STATUSES } from "./request-lifecycle.tsx";
+import { buildChecklistItems, getChecklistProgress, getMissingRequiredItems } from "./checklist.tsx";
+import { validateImportRow, MAX_IMPORT_ROWS } from "./request-import.tsx";
+import { getReminderConfig, planReminders } from "./reminders.tsx";
+import { validateEngagementFields, getEngagementProgress } from "./engagements.tsx";
+import { extractMentions, validateCommentBody, canEditComment } from "./comments.tsx";
+import { parseRequestQuery } from "./request-query.tsx";
+import { verifyAuditChain } from "./audit-chain.tsx";
+import { parseAuditLogQuery, describeAuditLogQuery } from "./audit-log-query.tsx";
+import { buildRequestTimeline, timelineUserIds } from "./request-timeline.tsx";
+import { isActiveUser, toAdminUser, validateUserChange, resolveSignupRole, isFirstManagerEmail } from "./user-admin.tsx";
+import { timingSafeEqual, getClientIp, getVerifyBlock, recordVerifyFailure, clearVerifyFailures, getSendBlock, recordSend } from "./otp-guard.tsx";
+import { AUDIT_EXPORT_FORMATS, renderAuditExport, buildSignedManifest, isAuditExportSigningConfigured } from "./audit-export.tsx";
+import { getServerMode, isDevelopmentMode } from "./server-mode.tsx";
+import { issueSessionTokens, getIdlePolicy, hashRefreshToken, isSessionExpired, isAccessTokenExpired, shouldTouchSession, toSessionSummary } from "./session-tokens.tsx";
+import { installLogRedaction } from "./log-redaction.tsx";
+import { isGroupManager, isConfiguredGroupManager, buildGroupReport } from "./group-report.tsx";
+import { getRequestAccess, authorizeRequest, validateAccessFields, redactAuditEntry, redactEmailRecord, ACCESS_LISTS } from "./request-access.tsx";
+import { DEFAULT_SETTINGS, loadSettings, loadSignInSettings, listOrganisations, saveSettings, createOrganisation, validateSettings, diffSettings, isValidOrganisationId, findOrganisationForEmail, isAllowedEmail, allowedDomainsLabel, emailDomainError, toPublicSettings } from "./org-settings.tsx";
+// Mask tokens, OTP codes and emails in everything logged below (a no-op in development mode)
+installLogRedaction();
+console.log(`Server mode: ${getServerMode()}`);
 // Initialize Supabase client
 const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
 // Initialize Hono app
@@ -48,43 +71,54 @@ const initializeStorage = async ()=>{
   }
 };
 initializeStorage();
+// Document versions: every upload belongs to an evidence item; only the latest version is current
+const getEvidenceId = (doc)=>doc.evidence_id || doc.id;
+const isCurrentVersion = (doc)=>!doc.superseded_by;
 // Helper function to get user from session token or auth token
 const getUserFromToken = async (authHeader)=>{
-  console.log("=== getUserFromToken DEBUG START ===");
   if (!authHeader) {
     console.log("ERROR: No auth header provided");
     return null;
   }
   const token = authHeader.split(" ")[1];
-  console.log("Token received:", token);
-  console.log("Token starts with otp_session_:", token.startsWith("otp_session_"));
   // Check if it's an OTP session token
   if (token.startsWith("otp_session_")) {
     console.log("Processing OTP session token");
     try {
-      const sessionData = await kv.get(token);
-      console.log("Raw session data from KV:", JSON.stringify(sessionData, null, 2));
+      const sessionData = await repo.getSession(token);
       if (sessionData) {
         // Check if session is expired
-        const expiresAt = new Date(sessionData.expires_at);
-        const now = new Date();
-        console.log("Session expires:", expiresAt);
-        console.log("Current time:", now);
-        console.log("Is expired:", now > expiresAt);
-        if (now > expiresAt) {
+        if (isSessionExpired(sessionData)) {
           console.log("Session expired, deleting");
-          await kv.del(token);
+          await repo.deleteSession(token);
           return null;
         }
+        // The sign-in is still alive but this access token is not; the client must refresh
+        if (isAccessTokenExpired(sessionData)) {
+          console.log("Access token expired");
+          return null;
+        }
+        const sessionUser = await repo.getUser(sessionData.user_id);
+        if (sessionUser && !isActiveUser(sessionUser)) {
+          console.log("User is deactivated, rejecting session");
+          return null;
+        }
+        if (shouldTouchSession(sessionData)) {
+          await repo.updateSession(sessionData.id, {
+            last_seen_at: now.toISOString()
+          });
+        }
         console.log("Session valid, returning user ID:", sessionData.user_id);
         return {
-          id: sessionData.user_id
+          id: sessionData.user_id,
+          session_id: sessionData.id,
+          organisation_id: sessionUser?.organisation_id
         };
       }
-      console.log("No session data found in KV store");
+      console.log("No session data found");
       return null;
     } catch (error) {
-      console.error("KV store error:", error);
+      console.error("Session lookup error:", error);
       return null;
     }
   }
@@ -97,13 +131,52 @@ const getUserFromToken = async (authHeader)=>{
     if (error) {
       console.error("getUserFromToken - Supabase auth error:", error);
     }
-    return user;
+    const authUser = user ? await repo.getUser(user.id) : null;
+    if (authUser && !isActiveUser(authUser)) {
+      console.log("getUserFromToken - User is deactivated");
+      return null;
+    }
+    return user && {
+      ...user,
+      organisation_id: authUser?.organisation_id
+    };
   } catch (error) {
     console.error("Error getting user from auth token:", error);
     return null;
   }
 };
 // OTP generation and sending for login (existing users)
+// Reject a request the OTP guard has blocked, telling the client how long to wait
+const otpBlockedResponse = (c, block, action)=>c.json({
+    error: `Too many attempts. Please wait ${Math.ceil(block.retry_after / 60)} minute(s) before ${action}.`,
+    retry_after: block.retry_after,
+    locked_until: block.locked_until
+  }, 429);
+// Count a wrong code. A lockout also discards the pending code and is recorded in the audit log.
+const rejectOtpGuess = async (c, fields)=>{
+  const { block, lockouts, attempts_remaining } = await recordVerifyFailure(fields.email, fields.ip);
+  if (!block) {
+    return c.json({
+      error: `${fields.message}. ${attempts_remaining} attempt(s) left before the code is locked.`,
+      attempts_remaining
+    }, 400);
+  }
+  await kv.del(fields.otpKey);
+  await repo.addAuditLog({
+    action: "otp_lockout",
+    user_id: fields.userId || "system",
+    timestamp: new Date().toISOString(),
+    details: {
+      email: fields.email.toLowerCase(),
+      ip: fields.ip,
+      purpose: fields.purpose,
+      scope: block.scope,
+      lockout_number: lockouts,
+      locked_until: block.locked_until
+    }
+  });
+  return otpBlockedResponse(c, block, "requesting a new code");
+};
 // OTP generation and sending for login (existing users)
 app.post("/make-server-fcebfd37/send-otp", async (c)=>{
   try {
@@ -116,36 +189,46 @@ app.post("/make-server-fcebfd37/send-otp", async (c)=>{
         error: "Email is required"
       }, 400);
     }
-    const okDomain = /^[^\s@]+@ecobank\.com$/i;
-    if (!okDomain.test(email)) {
+    if (!await findOrganisationForEmail(email)) {
       console.log("ERROR: Invalid domain");
       return c.json({
-        error: "Please use your Ecobank email address (@ecobank.com)"
+        error: emailDomainError(await loadSettings())
       }, 400);
     }
+    const ip = getClientIp(c);
+    const sendBlock = await getSendBlock(email, ip);
+    if (sendBlock) {
+      return otpBlockedResponse(c, sendBlock, "requesting another code");
+    }
     // Check if user exists (login is for existing accounts)
     console.log("Checking existing users...");
-    const allUsers = await kv.getByPrefix("user:");
-    const existingUser = allUsers.find((u)=>u.email.toLowerCase() === email.toLowerCase());
+    const existingUser = await repo.findUserByEmail(email);
     if (!existingUser) {
       console.log("ERROR: User not found");
       return c.json({
         error: "Account not found. Please sign up first."
       }, 404);
     }
+    if (!isActiveUser(existingUser)) {
+      console.log("ERROR: User is deactivated");
+      return c.json({
+        error: "This account has been deactivated. Contact your manager to restore access."
+      }, 403);
+    }
     console.log("Found user:", existingUser.id);
-    // Generate & store login OTP (10 mins)
+    const settings = await loadSettings(existingUser.organisation_id);
+    // Generate & store login OTP
     const otp = Math.floor(100000 + Math.random() * 900000).toString();
     const otpKey = `login_otp:${email.toLowerCase()}`;
-    console.log(`Generated OTP: ${otp} for key: ${otpKey}`);
     await kv.set(otpKey, {
       code: otp,
       email,
       user_id: existingUser.id,
       created_at: new Date().toISOString(),
-      expires_at: new Date(Date.now() + 10 * 60 * 1000).toISOString(),
+      expires_at: new Date(Date.now() + settings.otp_expiry_minutes * 60 * 1000).toISOString(),
       verified: false
     });
+    const resendAfter = await recordSend(email, ip);
     console.log("OTP stored successfully");
     // Try to send email, but don't fail if it doesn't work
     let emailSent = false;
@@ -155,8 +238,9 @@ app.post("/make-server-fcebfd37/send-otp", async (c)=>{
         id: existingUser.id,
         email,
         name: existingUser.name,
-        role: existingUser.role
-      }, otp);
+        role: existingUser.role,
+        organisation_id: existingUser.organisation_id
+      }, otp, "login", settings.otp_expiry_minutes);
       if (result && result.success) {
         console.log("Email sent successfully");
         emailSent = true;
@@ -172,14 +256,19 @@ app.post("/make-server-fcebfd37/send-otp", async (c)=>{
       success: true,
       message: "Login OTP generated successfully",
       email_sent: emailSent,
-      debug_otp: otp
+      resend_after: resendAfter,
+      ...await debugFields(c, {
+        debug_otp: otp
+      })
     });
   } catch (e) {
     console.error("LOGIN OTP ERROR:", e);
     console.error("Error stack:", e.stack);
     return c.json({
       error: "Internal server error",
-      details: e.message
+      ...await debugFields(c, {
+        details: e.message
+      })
     }, 500);
   }
 });
@@ -198,31 +287,26 @@ app.post("/make-server-fcebfd37/verify-login-otp", async (c)=>{
     // DETAILED DEBUG LOGGING
     console.log(`=== OTP VERIFICATION DEBUG ===`);
     console.log(`Input email: "${email}"`);
-    console.log(`Input OTP: "${otp}" (type: ${typeof otp})`);
     if (!email || !otp) {
       console.log(`ERROR: Missing email or OTP`);
       return c.json({
         error: "Email and OTP are required"
       }, 400);
     }
+    const ip = getClientIp(c);
+    const verifyBlock = await getVerifyBlock(email, ip);
+    if (verifyBlock) {
+      return otpBlockedResponse(c, verifyBlock, "trying again");
+    }
     const otpKey = `login_otp:${email.toLowerCase()}`;
     console.log(`Looking for key: "${otpKey}"`);
     const rec = await kv.get(otpKey);
-    console.log(`Found record:`, JSON.stringify(rec, null, 2));
     if (!rec) {
       console.log(`ERROR: No OTP record found for key: ${otpKey}`);
       return c.json({
         error: "Invalid or expired login code"
       }, 400);
     }
-    console.log(`Stored OTP: "${rec.code}" (type: ${typeof rec.code})`);
-    console.log(`Input OTP: "${otp}" (type: ${typeof otp})`);
-    console.log(`Direct comparison: ${rec.code} === ${otp} = ${rec.code === otp}`);
-    console.log(`String comparison: "${rec.code}" === "${otp}" = ${String(rec.code) === String(otp)}`);
-    console.log(`Expires at: ${rec.expires_at}`);
-    console.log(`Current time: ${new Date().toISOString()}`);
-    console.log(`Is expired: ${new Date() > new Date(rec.expires_at)}`);
-    console.log(`Already verified: ${rec.verified}`);
     if (new Date() > new Date(rec.expires_at)) {
       await kv.del(otpKey);
       console.log(`ERROR: OTP expired, deleted key`);
@@ -236,33 +320,72 @@ app.post("/make-server-fcebfd37/verify-login-otp", async (c)=>{
         error: "Login code has already been used"
       }, 400);
     }
-    if (rec.code !== otp) {
-      console.log(`ERROR: OTP mismatch - stored: "${rec.code}", input: "${otp}"`);
-      return c.json({
-        error: "Invalid login code"
-      }, 400);
+    if (!timingSafeEqual(rec.code, String(otp))) {
+      console.log(`ERROR: OTP mismatch`);
+      return await rejectOtpGuess(c, {
+        email,
+        ip,
+        otpKey,
+        purpose: "login",
+        userId: rec.user_id,
+        message: "Invalid login code"
+      });
     }
+    await clearVerifyFailures(email);
     console.log(`SUCCESS: OTP verification passed`);
     let userProfile = null;
-    if (rec.user_id) userProfile = await kv.get(`user:${rec.user_id}`);
+    if (rec.user_id) userProfile = await repo.getUser(rec.user_id);
     if (!userProfile) {
-      const allUsers = await kv.getByPrefix("user:");
-      userProfile = allUsers.find((u)=>u.email.toLowerCase() === email.toLowerCase()) || null;
+      userProfile = await repo.findUserByEmail(email);
     }
     if (!userProfile) return c.json({
       error: "User profile not found"
     }, 404);
-    // Create OTP session (1 hour)
-    const sessionToken = `otp_session_${Date.now()}_${Math.random().toString(36).slice(2, 16)}`;
-    await kv.set(sessionToken, {
+    if (!isActiveUser(userProfile)) {
+      await kv.del(otpKey);
+      return c.json({
+        error: "This account has been deactivated. Contact your manager to restore access."
+      }, 403);
+    }
+    // Create OTP session: a short-lived access token plus a refresh token
+    const settings = await loadSettings(userProfile.organisation_id);
+    const createdAt = new Date().toISOString();
+    const { tokens, refresh_token_hash } = await issueSessionTokens(createdAt, settings);
+    await repo.createSession({
+      token: tokens.session_token,
       user_id: userProfile.id,
       email,
-      created_at: new Date().toISOString(),
-      expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      created_at: createdAt,
+      expires_at: tokens.expires_at,
+      refresh_token_hash,
+      refresh_expires_at: tokens.refresh_expires_at,
+      last_seen_at: createdAt,
+      ip: getClientIp(c),
+      user_agent: c.req.header("User-Agent") || null,
       login_method: "otp"
     });
     await kv.del(otpKey); // one-time use
-    await kv.set(`audit_log:${Date.now()}:${userProfile.id}`, {
+    userProfile = await repo.saveUser({
+      ...userProfile,
+      last_login_at: new Date().toISOString()
+    });
+    if (!userProfile.group_manager && isConfiguredGroupManager(userProfile)) {
+      userProfile = await repo.saveUser({
+        ...userProfile,
+        group_manager: true
+      });
+      await repo.addAuditLog({
+        action: "group_manager_granted",
+        user_id: userProfile.id,
+        timestamp: new Date().toISOString(),
+        details: {
+          target_user_id: userProfile.id,
+          email: userProfile.email,
+          granted_by: "GROUP_MANAGER_EMAILS"
+        }
+      });
+    }
+    await repo.addAuditLog({
       action: "user_login_otp",
       user_id: userProfile.id,
       timestamp: new Date().toISOString(),
@@ -274,7 +397,8 @@ app.post("/make-server-fcebfd37/verify-login-otp", async (c)=>{
     return c.json({
       success: true,
       user: userProfile,
-      session_token: sessionToken
+      ...tokens,
+      ...getIdlePolicy(settings)
     });
   } catch (e) {
     console.error("Error verifying login OTP:", e);
@@ -288,25 +412,21 @@ app.get("/make-server-fcebfd37/profile", async (c)=>{
   try {
     const authHeader = c.req.header("Authorization");
     console.log("=== PROFILE REQUEST DEBUG ===");
-    console.log("Profile request - Auth header:", authHeader);
     if (!authHeader) {
       console.log("ERROR: No Authorization header");
       return c.json({
         error: "No Authorization header"
       }, 401);
     }
-    const token = authHeader.split(" ")[1];
-    console.log("Profile request - Token:", token.substring(0, 20) + "...");
     const user = await getUserFromToken(authHeader);
-    console.log("Profile request - User from token:", user);
+    console.log("Profile request - User from token:", user?.id);
     if (!user?.id) {
       console.log("Profile request - No user ID found");
       return c.json({
         error: "Unauthorized"
       }, 401);
     }
-    const userProfile = await kv.get(`user:${user.id}`);
-    console.log("Profile request - User profile:", userProfile);
+    const userProfile = await repo.getUser(user.id);
     if (!userProfile) {
       console.log("Profile request - No user profile found for ID:", user.id);
       return c.json({
@@ -323,191 +443,905 @@ app.get("/make-server-fcebfd37/profile", async (c)=>{
     }, 500);
   }
 });
-app.get("/make-server-fcebfd37/debug-user/:userId", async (c)=>{
-  const userId = c.req.param("userId");
-  const userKey = `user:${userId}`;
-  console.log(`Debug - Looking for user: ${userKey}`);
-  const userData = await kv.get(userKey);
-  console.log(`Debug - Found user:`, userData);
-  return c.json({
-    userKey,
-    userData
-  });
-});
-// OTP generation and sending for signup
-app.post("/make-server-fcebfd37/send-signup-otp", async (c)=>{
+// Trade a refresh token for a new access and refresh token pair. The old refresh token stops
+// working, so a copy taken from the browser is only good until the next refresh.
+app.post("/make-server-fcebfd37/sessions/refresh", async (c:any)=>{
   try {
-    console.log("=== SIGNUP OTP DEBUG START ===");
-    const { email } = await c.req.json();
-    console.log("Received email:", email);
-    if (!email) {
-      console.log("ERROR: No email provided");
+    const { refresh_token } = await c.req.json().catch(()=>({}));
+    if (!refresh_token || typeof refresh_token !== "string") {
       return c.json({
-        error: "Email is required"
+        error: "refresh_token is required"
       }, 400);
     }
-    const okDomain = /^[^\s@]+@ecobank\.com$/i;
-    if (!okDomain.test(email)) {
-      console.log("ERROR: Invalid domain");
+    const session = await repo.getSessionByRefreshHash(await hashRefreshToken(refresh_token));
+    if (!session) {
       return c.json({
-        error: "Please use your Ecobank email address (@ecobank.com)"
-      }, 400);
+        error: "Session has ended. Please sign in again."
+      }, 401);
     }
-    // Check if user already exists (signup is for new accounts)
-    console.log("Checking existing users...");
-    const allUsers = await kv.getByPrefix("user:");
-    const existingUser = allUsers.find((u)=>u.email.toLowerCase() === email.toLowerCase());
-    if (existingUser) {
-      console.log("ERROR: User already exists");
+    const sessionUser = await repo.getUser(session.user_id);
+    if (isSessionExpired(session) || !isActiveUser(sessionUser)) {
+      await repo.deleteSessionById(session.id);
       return c.json({
-        error: "An account with this email already exists. Please log in instead."
-      }, 400);
+        error: "Session has ended. Please sign in again."
+      }, 401);
     }
-    // Generate & store signup OTP (10 mins)
-    const otp = Math.floor(100000 + Math.random() * 900000).toString();
-    const otpKey = `signup_otp:${email.toLowerCase()}`;
-    console.log(`Generated OTP: ${otp} for key: ${otpKey}`);
-    await kv.set(otpKey, {
-      code: otp,
-      email,
-      created_at: new Date().toISOString(),
-      expires_at: new Date(Date.now() + 10 * 60 * 1000).toISOString(),
-      verified: false
+    const settings = await loadSettings(sessionUser.organisation_id);
+    const { tokens, refresh_token_hash } = await issueSessionTokens(session.created_at, settings);
+    await repo.updateSession(session.id, {
+      token: tokens.session_token,
+      expires_at: tokens.expires_at,
+      refresh_token_hash,
+      refresh_expires_at: tokens.refresh_expires_at,
+      last_seen_at: new Date().toISOString(),
+      ip: getClientIp(c),
+      user_agent: c.req.header("User-Agent") || session.user_agent
     });
-    console.log("OTP stored successfully");
-    // Try to send email, but don't fail if it doesn't work
-    let emailSent = false;
-    try {
-      console.log("Attempting to send email...");
-      const result = await triggerOTPEmail({
-        id: `temp_${Date.now()}`,
-        email,
-        name: "New User",
-        role: "auditee"
-      }, otp, "signup");
-      if (result && result.success) {
-        console.log("Email sent successfully");
-        emailSent = true;
-      } else {
-        console.error("Email send failed:", result?.error || "Unknown error");
-      }
-    } catch (emailError) {
-      console.error("Email error caught:", emailError);
-    }
-    // Always return success if OTP was stored, regardless of email
-    console.log("=== SIGNUP OTP DEBUG END - SUCCESS ===");
     return c.json({
       success: true,
-      message: "SignUp OTP generated successfully",
-      email_sent: emailSent,
-      debug_otp: otp
+      ...tokens,
+      ...getIdlePolicy(settings)
     });
-  } catch (e) {
-    console.error("SIGNUP OTP ERROR:", e);
-    console.error("Error stack:", e.stack);
+  } catch (error) {
+    console.error("Session refresh error:", error);
     return c.json({
-      error: "Internal server error",
-      details: e.message
+      error: "Internal server error while refreshing session"
     }, 500);
   }
 });
-// Verify OTP and complete signup
-app.post("/make-server-fcebfd37/verify-otp-signup", async (c)=>{
+// End the caller's session on the server. Works with an expired access token as long as the
+// refresh token is sent, so signing out never leaves a live session behind.
+app.post("/make-server-fcebfd37/logout", async (c:any)=>{
   try {
-    const { email, otp, name, role } = await c.req.json();
-    if (!email || !otp || !name) {
+    const { refresh_token } = await c.req.json().catch(()=>({}));
+    const token = c.req.header("Authorization")?.split(" ")[1];
+    const session = refresh_token
+      ? await repo.getSessionByRefreshHash(await hashRefreshToken(refresh_token))
+      : token?.startsWith("otp_session_") ? await repo.getSession(token) : null;
+    if (session) {
+      await repo.deleteSessionById(session.id);
+      await repo.addAuditLog({
+        action: "user_logout",
+        user_id: session.user_id,
+        timestamp: new Date().toISOString(),
+        details: {
+          session_id: session.id,
+          login_method: session.login_method
+        }
+      });
+    }
+    return c.json({
+      success: true
+    });
+  } catch (error) {
+    console.error("Logout error:", error);
+    return c.json({
+      error: "Internal server error while signing out"
+    }, 500);
+  }
+});
+// The caller's signed-in devices, most recently used first
+app.get("/make-server-fcebfd37/sessions", async (c:any)=>{
+  try {
+    const authHeader = c.req.header("Authorization");
+    const { user, error } = await authenticateUser(authHeader);
+    if (!user?.id || error) {
       return c.json({
-        error: "Email, OTP, and name are required"
-      }, 400);
+        error: "Unauthorized"
+      }, 401);
     }
-    const userRole = role || "auditee";
-    // Validate role
-    if (![
-      "auditor",
-      "auditee",
-      "manager"
-    ].includes(userRole)) {
+    const sessions = await repo.listSessionsForUser(user.id);
+    const expired = sessions.filter((session)=>isSessionExpired(session));
+    for (const session of expired){
+      await repo.deleteSessionById(session.id);
+    }
+    return c.json({
+      sessions: sessions.filter((session)=>!isSessionExpired(session)).map((session)=>toSessionSummary(session, authHeader.split(" ")[1]))
+    });
+  } catch (error) {
+    console.error("Session list error:", error);
+    return c.json({
+      error: "Internal server error while fetching sessions"
+    }, 500);
+  }
+});
+// Sign out one of the caller's own devices
+app.delete("/make-server-fcebfd37/sessions/:sessionId", async (c:any)=>{
+  try {
+    const authHeader = c.req.header("Authorization");
+    const { user, error } = await authenticateUser(authHeader);
+    if (!user?.id || error) {
       return c.json({
-        error: "Invalid role"
-      }, 400);
+        error: "Unauthorized"
+      }, 401);
     }
-    // Validate @ecobank.com email domain
-    const ecobankEmailRegex = /^[^\s@]+@ecobank\.com$/;
-    if (!ecobankEmailRegex.test(email)) {
+    const session = (await repo.listSessionsForUser(user.id)).find((entry)=>entry.id === c.req.param("sessionId"));
+    if (!session) {
       return c.json({
-        error: "Please use your Ecobank email address (@ecobank.com)"
-      }, 400);
+        error: "Session not found"
+      }, 404);
     }
-    // Check if user already exists
-    const users = await kv.getByPrefix("user:");
-    const existingUser = users.find((user)=>user.email.toLowerCase() === email.toLowerCase());
-    if (existingUser) {
+    await repo.deleteSessionById(session.id);
+    await repo.addAuditLog({
+      action: "session_revoked",
+      user_id: user.id,
+      timestamp: new Date().toISOString(),
+      details: toSessionSummary(session, authHeader.split(" ")[1])
+    });
+    return c.json({
+      success: true
+    });
+  } catch (error) {
+    console.error("Session revoke error:", error);
+    return c.json({
+      error: "Internal server error while revoking session"
+    }, 500);
+  }
+});
+// Branding and code expiry for the sign-in pages, for the organisation of ?email= if it names one;
+// no session needed
+app.get("/make-server-fcebfd37/settings/public", async (c:any)=>{
+  try {
+    return c.json({
+      settings: toPublicSettings(await loadSignInSettings(c.req.query("email")))
+    });
+  } catch (error) {
+    console.error("Public settings error:", error);
+    return c.json({
+      error: "Internal server error while fetching settings"
+    }, 500);
+  }
+});
+// The full settings of the user's organisation; every signed-in user needs the department
+// catalogue and confidential departments
+app.get("/make-server-fcebfd37/settings", async (c:any)=>{
+  try {
+    const { user, error } = await authenticateUser(c.req.header("Authorization"));
+    if (!user?.id || error) {
       return c.json({
-        error: "An account with this email already exists. Please log in instead."
-      }, 400);
+        error: "Unauthorized"
+      }, 401);
     }
-    // Retrieve stored OTP
-    const otpKey = `signup_otp:${email.toLowerCase()}`;
-    const storedOtpData = await kv.get(otpKey);
-    console.log(`Looking for OTP with key: ${otpKey}`);
-    console.log(`Found OTP record:`, JSON.stringify(storedOtpData, null, 2));
-    if (!storedOtpData) {
+    return c.json({
+      settings: await loadSettings(user.organisation_id)
+    });
+  } catch (error) {
+    console.error("Settings error:", error);
+    return c.json({
+      error: "Internal server error while fetching settings"
+    }, 500);
+  }
+});
+// Update the settings of the manager's organisation. Fields left out of the body keep their value.
+app.put("/make-server-fcebfd37/settings", async (c:any)=>{
+  try {
+    const { user, error } = await authenticateUser(c.req.header("Authorization"));
+    if (!user?.id || error) {
       return c.json({
-        error: "Invalid or expired OTP"
+        error: "Unauthorized"
+      }, 401);
+    }
+    const userProfile = await repo.getUser(user.id);
+    if (userProfile?.role !== "manager") {
+      return c.json({
+        error: "Only managers can change organisation settings"
+      }, 403);
+    }
+    const body = await c.req.json().catch(()=>({}));
+    const current = await loadSettings(userProfile.organisation_id);
+    const { settings, error: validationError } = validateSettings(current, body || {}, await listOrganisations());
+    if (!settings) {
+      return c.json({
+        error: validationError
       }, 400);
     }
-    // Check if OTP is expired
-    const expiresAt = new Date(storedOtpData.expires_at);
-    if (new Date() > expiresAt) {
-      await kv.del(otpKey);
+    const changes = diffSettings(current, settings);
+    if (Object.keys(changes).length === 0) {
       return c.json({
-        error: "OTP has expired. Please request a new one."
+        settings: current,
+        success: true
+      });
+    }
+    const saved = await saveSettings(userProfile.organisation_id, settings, userProfile.id);
+    await repo.addAuditLog({
+      action: "settings_updated",
+      user_id: userProfile.id,
+      timestamp: saved.updated_at,
+      details: {
+        changes
+      }
+    });
+    return c.json({
+      settings: saved,
+      success: true
+    });
+  } catch (error) {
+    console.error("Settings update error:", error);
+    return c.json({
+      error: "Internal server error while saving settings"
+    }, 500);
+  }
+});
+// Group-level administration across organisations (group managers only)
+const loadGroupManager = async (c)=>{
+  const { user, error } = await authenticateUser(c.req.header("Authorization"));
+  if (!user?.id || error) return {
+    response: c.json({
+      error: "Unauthorized"
+    }, 401)
+  };
+  const userProfile = await repo.getUser(user.id);
+  if (!isGroupManager(userProfile)) return {
+    response: c.json({
+      error: "Only group managers can work across organisations"
+    }, 403)
+  };
+  return {
+    userProfile
+  };
+};
+// Every organisation with its name and email domains
+app.get("/make-server-fcebfd37/organisations", async (c:any)=>{
+  try {
+    const { response } = await loadGroupManager(c);
+    if (response) return response;
+    const organisations = await listOrganisations();
+    return c.json({
+      organisations: organisations.map((organisation)=>({
+          id: organisation.id,
+          ...toPublicSettings(organisation),
+          allowed_email_domains: organisation.allowed_email_domains
+        }))
+    });
+  } catch (error) {
+    console.error("Organisation list error:", error);
+    return c.json({
+      error: "Internal server error while fetching organisations"
+    }, 500);
+  }
+});
+// Add an organisation. It starts from the default settings; the first manager named here may take
+// the manager role at signup, and everyone else's auditor or manager request waits for them.
+app.post("/make-server-fcebfd37/organisations", async (c:any)=>{
+  try {
+    const { userProfile, response } = await loadGroupManager(c);
+    if (response) return response;
+    const body = await c.req.json().catch(()=>({}));
+    const organisationId = String(body?.id || "").trim();
+    if (!isValidOrganisationId(organisationId)) {
+      return c.json({
+        error: "Organisation id must be up to 40 lower-case letters, digits and dashes"
       }, 400);
     }
-    // Verify OTP
-    if (storedOtpData.code !== otp) {
+    if (!body.organisation_name || !body.allowed_email_domains || !body.first_manager_email) {
       return c.json({
-        error: "Invalid OTP"
+        error: "Organisation name, allowed email domains and first manager email are required"
       }, 400);
     }
-    // Check if OTP was already used
-    if (storedOtpData.verified) {
+    const organisations = await listOrganisations();
+    if (organisations.some((organisation)=>organisation.id === organisationId)) {
       return c.json({
-        error: "OTP has already been used"
+        error: "An organisation with this id already exists"
+      }, 409);
+    }
+    const { settings, error: validationError } = validateSettings({
+      ...DEFAULT_SETTINGS,
+      id: organisationId
+    }, body, organisations);
+    if (!settings) {
+      return c.json({
+        error: validationError
       }, 400);
     }
-    // Create user account
-    const { data: authUser, error: authError } = await supabase.auth.admin.createUser({
-      email: email,
-      email_confirm: true,
-      user_metadata: {
-        name: name.trim(),
-        role: userRole
-      }
-    });
-    if (authError) {
-      console.error("Error creating user in Supabase Auth:", authError);
+    const firstManagerEmail = String(body.first_manager_email).trim().toLowerCase();
+    if (!isAllowedEmail(settings, firstManagerEmail)) {
       return c.json({
-        error: "Failed to create user account"
-      }, 500);
+        error: `The first manager needs an ${allowedDomainsLabel(settings)} address`
+      }, 400);
     }
-    // Store user profile in KV store
-    const userId = authUser.user.id;
-    await kv.set(`user:${userId}`, {
-      id: userId,
-      email: email,
-      name: name.trim(),
-      role: userRole,
-      created_at: new Date().toISOString(),
-      email_verified: true
+    const created = await createOrganisation(organisationId, {
+      ...settings,
+      first_manager_email: firstManagerEmail
+    }, userProfile.id);
+    await repo.addAuditLog({
+      action: "organisation_created",
+      user_id: userProfile.id,
+      organisation_id: organisationId,
+      timestamp: created.updated_at,
+      details: {
+        organisation_name: created.organisation_name,
+        allowed_email_domains: created.allowed_email_domains,
+        first_manager_email: created.first_manager_email
+      }
     });
-    // Mark OTP as verified and delete it
+    return c.json({
+      organisation: {
+        id: organisationId,
+        ...toPublicSettings(created),
+        allowed_email_domains: created.allowed_email_domains,
+        first_manager_email: created.first_manager_email
+      },
+      success: true
+    });
+  } catch (error) {
+    console.error("Organisation creation error:", error);
+    return c.json({
+      error: "Internal server error while creating organisation"
+    }, 500);
+  }
+});
+// Request progress and headcount for every organisation
+app.get("/make-server-fcebfd37/group/report", async (c:any)=>{
+  try {
+    const { response } = await loadGroupManager(c);
+    if (response) return response;
+    const [organisations, requests, users] = await Promise.all([
+      listOrganisations(),
+      repo.listAllRequests(),
+      repo.listAllUsers()
+    ]);
+    return c.json({
+      organisations: buildGroupReport(organisations, requests, users),
+      generated_at: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error("Group report error:", error);
+    return c.json({
+      error: "Internal server error while building the group report"
+    }, 500);
+  }
+});
+// Grant or withdraw group manager access; only managers can hold it
+app.put("/make-server-fcebfd37/group/managers/:userId", async (c:any)=>{
+  try {
+    const { userProfile, response } = await loadGroupManager(c);
+    if (response) return response;
+    const { group_manager } = await c.req.json().catch(()=>({}));
+    if (typeof group_manager !== "boolean") {
+      return c.json({
+        error: "group_manager must be true or false"
+      }, 400);
+    }
+    const target = await repo.getUser(c.req.param("userId"));
+    if (!target || target.role !== "manager" || !isActiveUser(target)) {
+      return c.json({
+        error: "Active manager not found"
+      }, 404);
+    }
+    if (target.id === userProfile.id) {
+      return c.json({
+        error: "You cannot change your own group manager access"
+      }, 400);
+    }
+    if ((target.group_manager === true) === group_manager) {
+      return c.json({
+        user: toAdminUser(target),
+        success: true
+      });
+    }
+    const updatedUser = await repo.saveUser({
+      ...target,
+      group_manager
+    });
+    await repo.addAuditLog({
+      action: group_manager ? "group_manager_granted" : "group_manager_revoked",
+      user_id: userProfile.id,
+      organisation_id: target.organisation_id,
+      timestamp: new Date().toISOString(),
+      details: {
+        target_user_id: target.id,
+        email: target.email
+      }
+    });
+    return c.json({
+      user: toAdminUser(updatedUser),
+      success: true
+    });
+  } catch (error) {
+    console.error("Group manager change error:", error);
+    return c.json({
+      error: "Internal server error while changing group manager access"
+    }, 500);
+  }
+});
+// User administration (managers only)
+const loadUserAdmin = async (c)=>{
+  const { user, error } = await authenticateUser(c.req.header("Authorization"));
+  if (!user?.id || error) return {
+    response: c.json({
+      error: "Unauthorized"
+    }, 401)
+  };
+  const userProfile = await repo.getUser(user.id);
+  if (userProfile?.role !== "manager") return {
+    response: c.json({
+      error: "Only managers can administer users"
+    }, 403)
+  };
+  return {
+    userProfile
+  };
+};
+// Managers only see and change accounts in their own organisation
+const findUserInOrganisation = async (userId, organisationId)=>{
+  const target = await repo.getUser(userId);
+  return target?.organisation_id === organisationId ? target : null;
+};
+// Apply a role or status change after checking it against the administration rules
+const applyUserChange = async (c, change)=>{
+  const { userProfile, response } = await loadUserAdmin(c);
+  if (response) return {
+    response
+  };
+  const target = await findUserInOrganisation(c.req.param("userId"), userProfile.organisation_id);
+  if (!target) return {
+    response: c.json({
+      error: "User not found"
+    }, 404)
+  };
+  const users = await repo.listUsers(userProfile.organisation_id);
+  const changeError = validateUserChange({
+    actorId: userProfile.id,
+    target,
+    change,
+    activeManagerCount: users.filter((entry)=>entry.role === "manager" && isActiveUser(entry)).length
+  });
+  if (changeError) return {
+    response: c.json({
+      error: changeError
+    }, 400)
+  };
+  return {
+    userProfile,
+    target
+  };
+};
+// List every account with its role, status and last sign-in
+app.get("/make-server-fcebfd37/admin/users", async (c:any)=>{
+  try {
+    const { userProfile, response } = await loadUserAdmin(c);
+    if (response) return response;
+    const users = await repo.listUsers(userProfile.organisation_id);
+    return c.json({
+      users: users.map(toAdminUser)
+    });
+  } catch (error) {
+    console.error("User list error:", error);
+    return c.json({
+      error: "Internal server error while fetching users"
+    }, 500);
+  }
+});
+// Change a user's role
+app.put("/make-server-fcebfd37/admin/users/:userId/role", async (c:any)=>{
+  try {
+    const { role } = await c.req.json();
+    const { userProfile, target, response } = await applyUserChange(c, {
+      role
+    });
+    if (response) return response;
+    if (target.role === role) {
+      return c.json({
+        user: toAdminUser(target),
+        success: true
+      });
+    }
+    // Setting the role directly settles any role request still waiting for approval
+    const updatedUser = await repo.saveUser({
+      ...target,
+      role,
+      requested_role: null,
+      role_requested_at: null
+    });
+    await repo.addAuditLog({
+      action: "user_role_changed",
+      user_id: userProfile.id,
+      timestamp: new Date().toISOString(),
+      details: {
+        target_user_id: target.id,
+        email: target.email,
+        old_role: target.role,
+        new_role: role
+      }
+    });
+    return c.json({
+      user: toAdminUser(updatedUser),
+      success: true
+    });
+  } catch (error) {
+    console.error("Role change error:", error);
+    return c.json({
+      error: "Internal server error while changing role"
+    }, 500);
+  }
+});
+// Deactivate or reactivate an account; deactivation also ends the user's sessions
+app.put("/make-server-fcebfd37/admin/users/:userId/status", async (c:any)=>{
+  try {
+    const { active } = await c.req.json();
+    const { userProfile, target, response } = await applyUserChange(c, {
+      active
+    });
+    if (response) return response;
+    if (isActiveUser(target) === active) {
+      return c.json({
+        user: toAdminUser(target),
+        success: true
+      });
+    }
+    const now = new Date().toISOString();
+    const updatedUser = await repo.saveUser({
+      ...target,
+      active,
+      deactivated_at: active ? null : now,
+      deactivated_by: active ? null : userProfile.id
+    });
+    if (!active) {
+      await repo.deleteSessionsForUser(target.id);
+    }
+    await repo.addAuditLog({
+      action: active ? "user_reactivated" : "user_deactivated",
+      user_id: userProfile.id,
+      timestamp: now,
+      details: {
+        target_user_id: target.id,
+        email: target.email,
+        role: target.role
+      }
+    });
+    return c.json({
+      user: toAdminUser(updatedUser),
+      success: true
+    });
+  } catch (error) {
+    console.error("Account status change error:", error);
+    return c.json({
+      error: "Internal server error while changing account status"
+    }, 500);
+  }
+});
+// Sign a user out of every device without deactivating the account
+app.delete("/make-server-fcebfd37/admin/users/:userId/sessions", async (c:any)=>{
+  try {
+    const { userProfile, response } = await loadUserAdmin(c);
+    if (response) return response;
+    const target = await findUserInOrganisation(c.req.param("userId"), userProfile.organisation_id);
+    if (!target) {
+      return c.json({
+        error: "User not found"
+      }, 404);
+    }
+    const sessions = await repo.listSessionsForUser(target.id);
+    await repo.deleteSessionsForUser(target.id);
+    await repo.addAuditLog({
+      action: "user_sessions_revoked",
+      user_id: userProfile.id,
+      timestamp: new Date().toISOString(),
+      details: {
+        target_user_id: target.id,
+        email: target.email,
+        sessions_revoked: sessions.length
+      }
+    });
+    return c.json({
+      success: true,
+      sessions_revoked: sessions.length
+    });
+  } catch (error) {
+    console.error("Session revoke-all error:", error);
+    return c.json({
+      error: "Internal server error while revoking sessions"
+    }, 500);
+  }
+});
+// Signups waiting for a manager to grant the auditor or manager role they asked for
+app.get("/make-server-fcebfd37/admin/role-requests", async (c:any)=>{
+  try {
+    const { userProfile, response } = await loadUserAdmin(c);
+    if (response) return response;
+    const users = await repo.listRoleRequests(userProfile.organisation_id);
+    return c.json({
+      requests: users.filter(isActiveUser).map(toAdminUser)
+    });
+  } catch (error) {
+    console.error("Role request list error:", error);
+    return c.json({
+      error: "Internal server error while fetching role requests"
+    }, 500);
+  }
+});
+// Approve or deny a requested role and email the user the outcome
+app.post("/make-server-fcebfd37/admin/role-requests/:userId/:decision", async (c:any)=>{
+  try {
+    const decision = c.req.param("decision");
+    if (decision !== "approve" && decision !== "deny") {
+      return c.json({
+        error: "Decision must be approve or deny"
+      }, 400);
+    }
+    const { reason } = await c.req.json().catch(()=>({}));
+    const approved = decision === "approve";
+    const { userProfile, response } = await loadUserAdmin(c);
+    if (response) return response;
+    const target = await findUserInOrganisation(c.req.param("userId"), userProfile.organisation_id);
+    if (!target?.requested_role || !isActiveUser(target)) {
+      return c.json({
+        error: "No pending role request for this user"
+      }, 404);
+    }
+    if (target.id === userProfile.id) {
+      return c.json({
+        error: "You cannot decide your own role request"
+      }, 400);
+    }
+    const requestedRole = target.requested_role;
+    const updatedUser = await repo.saveUser({
+      ...target,
+      role: approved ? requestedRole : target.role,
+      requested_role: null,
+      role_requested_at: null
+    });
+    await repo.addAuditLog({
+      action: approved ? "role_request_approved" : "role_request_denied",
+      user_id: userProfile.id,
+      timestamp: new Date().toISOString(),
+      details: {
+        target_user_id: target.id,
+        email: target.email,
+        requested_role: requestedRole,
+        old_role: target.role,
+        new_role: updatedUser.role,
+        reason: reason?.trim() || null
+      }
+    });
+    try {
+      const result = await triggerRoleDecisionEmail(target, requestedRole, approved, userProfile, reason?.trim());
+      if (!result.success) {
+        console.error("Failed to send role decision email:", result.error);
+      }
+    } catch (emailError) {
+      console.error("Error sending role decision email:", emailError);
+    }
+    return c.json({
+      user: toAdminUser(updatedUser),
+      success: true
+    });
+  } catch (error) {
+    console.error("Role request decision error:", error);
+    return c.json({
+      error: "Internal server error while deciding role request"
+    }, 500);
+  }
+});
+// Debug routes only exist in development mode, and even then only for managers
+const requireDebugAccess = async (c)=>{
+  if (!isDevelopmentMode()) return c.json({
+    error: "Not found"
+  }, 404);
+  const { user, error } = await authenticateUser(c.req.header("Authorization"));
+  if (!user?.id || error) return c.json({
+    error: "Unauthorized"
+  }, 401);
+  const userProfile = await repo.getUser(user.id);
+  if (userProfile?.role !== "manager") return c.json({
+    error: "Debug routes are restricted to managers"
+  }, 403);
+  return null;
+};
+// Fields only debug responses carry, such as OTP codes and error details. They need the same
+// access as the debug routes: development mode and a manager's session.
+const debugFields = async (c, fields)=>await requireDebugAccess(c) ? {} : fields;
+app.get("/make-server-fcebfd37/debug-user/:userId", async (c)=>{
+  const denied = await requireDebugAccess(c);
+  if (denied) return denied;
+  const userId = c.req.param("userId");
+  const userKey = `user:${userId}`;
+  const userData = await repo.getUser(userId);
+  return c.json({
+    userKey,
+    userData
+  });
+});
+// OTP generation and sending for signup
+app.post("/make-server-fcebfd37/send-signup-otp", async (c)=>{
+  try {
+    console.log("=== SIGNUP OTP DEBUG START ===");
+    const { email } = await c.req.json();
+    console.log("Received email:", email);
+    if (!email) {
+      console.log("ERROR: No email provided");
+      return c.json({
+        error: "Email is required"
+      }, 400);
+    }
+    // The email domain decides which organisation the new account joins
+    const organisation = await findOrganisationForEmail(email);
+    if (!organisation) {
+      console.log("ERROR: Invalid domain");
+      return c.json({
+        error: emailDomainError(await loadSettings())
+      }, 400);
+    }
+    const settings = await loadSettings(organisation.id);
+    const ip = getClientIp(c);
+    const sendBlock = await getSendBlock(email, ip);
+    if (sendBlock) {
+      return otpBlockedResponse(c, sendBlock, "requesting another code");
+    }
+    // Check if user already exists (signup is for new accounts)
+    console.log("Checking existing users...");
+    const existingUser = await repo.findUserByEmail(email);
+    if (existingUser) {
+      console.log("ERROR: User already exists");
+      return c.json({
+        error: "An account with this email already exists. Please log in instead."
+      }, 400);
+    }
+    // Generate & store signup OTP
+    const otp = Math.floor(100000 + Math.random() * 900000).toString();
+    const otpKey = `signup_otp:${email.toLowerCase()}`;
+    await kv.set(otpKey, {
+      code: otp,
+      email,
+      created_at: new Date().toISOString(),
+      expires_at: new Date(Date.now() + settings.otp_expiry_minutes * 60 * 1000).toISOString(),
+      verified: false
+    });
+    const resendAfter = await recordSend(email, ip);
+    console.log("OTP stored successfully");
+    // Try to send email, but don't fail if it doesn't work
+    let emailSent = false;
+    try {
+      console.log("Attempting to send email...");
+      const result = await triggerOTPEmail({
+        id: `temp_${Date.now()}`,
+        email,
+        name: "New User",
+        role: "auditee",
+        organisation_id: organisation.id
+      }, otp, "signup", settings.otp_expiry_minutes);
+      if (result && result.success) {
+        console.log("Email sent successfully");
+        emailSent = true;
+      } else {
+        console.error("Email send failed:", result?.error || "Unknown error");
+      }
+    } catch (emailError) {
+      console.error("Email error caught:", emailError);
+    }
+    // Always return success if OTP was stored, regardless of email
+    console.log("=== SIGNUP OTP DEBUG END - SUCCESS ===");
+    return c.json({
+      success: true,
+      message: "SignUp OTP generated successfully",
+      email_sent: emailSent,
+      resend_after: resendAfter,
+      ...await debugFields(c, {
+        debug_otp: otp
+      })
+    });
+  } catch (e) {
+    console.error("SIGNUP OTP ERROR:", e);
+    console.error("Error stack:", e.stack);
+    return c.json({
+      error: "Internal server error",
+      ...await debugFields(c, {
+        details: e.message
+      })
+    }, 500);
+  }
+});
+// Verify OTP and complete signup
+app.post("/make-server-fcebfd37/verify-otp-signup", async (c)=>{
+  try {
+    const { email, otp, name, role } = await c.req.json();
+    if (!email || !otp || !name) {
+      return c.json({
+        error: "Email, OTP, and name are required"
+      }, 400);
+    }
+    const requestedRole = role || "auditee";
+    // Validate role
+    if (![
+      "auditor",
+      "auditee",
+      "manager"
+    ].includes(requestedRole)) {
+      return c.json({
+        error: "Invalid role"
+      }, 400);
+    }
+    // Validate the email against the organisations' allowed domains
+    const organisation = await findOrganisationForEmail(email);
+    if (!organisation) {
+      return c.json({
+        error: emailDomainError(await loadSettings())
+      }, 400);
+    }
+    const organisationId = organisation.id;
+    // Check if user already exists
+    const existingUser = await repo.findUserByEmail(email);
+    if (existingUser) {
+      return c.json({
+        error: "An account with this email already exists. Please log in instead."
+      }, 400);
+    }
+    const ip = getClientIp(c);
+    const verifyBlock = await getVerifyBlock(email, ip);
+    if (verifyBlock) {
+      return otpBlockedResponse(c, verifyBlock, "trying again");
+    }
+    // Retrieve stored OTP
+    const otpKey = `signup_otp:${email.toLowerCase()}`;
+    const storedOtpData = await kv.get(otpKey);
+    if (!storedOtpData) {
+      return c.json({
+        error: "Invalid or expired OTP"
+      }, 400);
+    }
+    // Check if OTP is expired
+    const expiresAt = new Date(storedOtpData.expires_at);
+    if (new Date() > expiresAt) {
+      await kv.del(otpKey);
+      return c.json({
+        error: "OTP has expired. Please request a new one."
+      }, 400);
+    }
+    // Verify OTP
+    if (!timingSafeEqual(storedOtpData.code, String(otp))) {
+      return await rejectOtpGuess(c, {
+        email,
+        ip,
+        otpKey,
+        purpose: "signup",
+        userId: null,
+        message: "Invalid OTP"
+      });
+    }
+    await clearVerifyFailures(email);
+    // Check if OTP was already used
+    if (storedOtpData.verified) {
+      return c.json({
+        error: "OTP has already been used"
+      }, 400);
+    }
+    // Auditor and manager access needs a manager's approval; the account starts as an auditee
+    const activeManagers = await repo.listActiveManagers(organisationId);
+    const { role: userRole, requested_role: pendingRole } = resolveSignupRole(requestedRole, activeManagers.length > 0, isFirstManagerEmail(email, organisation));
+    // Create user account
+    const { data: authUser, error: authError } = await supabase.auth.admin.createUser({
+      email: email,
+      email_confirm: true,
+      user_metadata: {
+        name: name.trim(),
+        role: userRole
+      }
+    });
+    if (authError) {
+      console.error("Error creating user in Supabase Auth:", authError);
+      return c.json({
+        error: "Failed to create user account"
+      }, 500);
+    }
+    // Store user profile
+    const userId = authUser.user.id;
+    await repo.saveUser({
+      id: userId,
+      email: email,
+      name: name.trim(),
+      role: userRole,
+      organisation_id: organisationId,
+      requested_role: pendingRole,
+      role_requested_at: pendingRole ? new Date().toISOString() : null,
+      created_at: new Date().toISOString(),
+      email_verified: true
+    });
+    // Mark OTP as verified and delete it
     await kv.del(otpKey);
     // Check for pending requests assigned to this email (only for auditees)
     let pendingRequestsCount = 0;
     if (userRole === "auditee") {
-      const allRequests = await kv.getByPrefix("request:");
-      const pendingRequests = allRequests.filter((req)=>req.assigned_to_email === email && req.pending_assignment === true);
+      const pendingRequests = (await repo.listPendingRequestsForEmail(email)).filter((request)=>request.organisation_id === organisationId);
       // Update pending requests to assign them to the new user
       for (const request of pendingRequests){
         const updatedRequest = {
@@ -516,9 +1350,9 @@ app.post("/make-server-fcebfd37/verify-otp-signup", async (c)=>{
           pending_assignment: false,
           updated_at: new Date().toISOString()
         };
-        await kv.set(`request:${request.id}`, updatedRequest);
+        await repo.saveRequest(updatedRequest);
         // Log automatic assignment
-        await kv.set(`audit_log:${Date.now()}:${userId}`, {
+        await repo.addAuditLog({
           action: "auto_assigned_request",
           user_id: userId,
           request_id: request.id,
@@ -530,53 +1364,755 @@ app.post("/make-server-fcebfd37/verify-otp-signup", async (c)=>{
           }
         });
       }
-      pendingRequestsCount = pendingRequests.length;
+      pendingRequestsCount = pendingRequests.length;
+    }
+    // Log user creation
+    await repo.addAuditLog({
+      action: "user_created",
+      user_id: userId,
+      timestamp: new Date().toISOString(),
+      details: {
+        email,
+        name: name.trim(),
+        role: userRole,
+        requested_role: pendingRole
+      }
+    });
+    if (pendingRole) {
+      try {
+        const result = await triggerRoleRequestEmail({
+          id: userId,
+          email,
+          name: name.trim(),
+          organisation_id: organisationId
+        }, pendingRole, activeManagers.map((manager)=>manager.email));
+        if (!result.success) {
+          console.error("Failed to send role request email:", result.error);
+        }
+      } catch (emailError) {
+        console.error("Error sending role request email:", emailError);
+      }
+    }
+    // Send welcome email
+    try {
+      const result = await triggerWelcomeEmail({
+        id: userId,
+        email,
+        name: name.trim(),
+        role: userRole,
+        organisation_id: organisationId
+      }, pendingRole);
+      if (!result.success) {
+        console.error("Failed to send welcome email:", result.error);
+      }
+    } catch (emailError) {
+      console.error("Error sending welcome email:", emailError);
+    }
+    console.log(`✅ User created successfully: ${email} (${userRole}) (${userId}), ${pendingRequestsCount} requests assigned`);
+    return c.json({
+      success: true,
+      user: {
+        id: userId,
+        email: email,
+        name: name.trim(),
+        role: userRole,
+        organisation_id: organisationId,
+        requested_role: pendingRole
+      },
+      pending_requests_assigned: pendingRequestsCount
+    });
+  } catch (error) {
+    console.error("Error verifying OTP and creating user:", error);
+    return c.json({
+      error: "Internal server error"
+    }, 500);
+  }
+});
+// Record a delivered request notification, including who was CC'd, in the email log
+const recordRequestEmail = async (request, emailType, result, sentBy)=>{
+  if (!result?.success) return;
+  const emailId = `email_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  await repo.recordEmail({
+    id: emailId,
+    to: result.to,
+    cc: result.cc || [],
+    subject: result.subject,
+    request_id: request.id,
+    organisation_id: request.organisation_id,
+    sent_by: sentBy,
+    sent_at: new Date().toISOString(),
+    status: "sent",
+    email_type: emailType
+  });
+};
+// Load a request of the user's organisation and check that they may take the action on it
+const loadAuthorizedRequest = async (c, user, requestId, action)=>{
+  const request = await repo.getRequest(requestId, user.organisation_id);
+  if (!request) return {
+    response: c.json({
+      error: "Request not found"
+    }, 404)
+  };
+  const userProfile = await repo.getUser(user.id);
+  const settings = await loadSettings(request.organisation_id);
+  const { access, error, status, confidential } = authorizeRequest(userProfile, request, settings, action);
+  if (error) return {
+    response: c.json({
+      error,
+      confidential
+    }, status)
+  };
+  return {
+    request,
+    userProfile,
+    settings,
+    access
+  };
+};
+// A request as the user may see it, with what they may do so the client can hide the rest. Only
+// those who can change the access lists see them.
+const toRequestForUser = (request, userProfile, settings)=>{
+  const access = getRequestAccess(userProfile, request, settings);
+  const visible = access.manage_access ? request : Object.fromEntries(Object.entries(request).filter(([key])=>!ACCESS_LISTS.includes(key)));
+  return {
+    ...visible,
+    confidentiality: access.confidentiality,
+    access,
+    allowed_transitions: access.status ? getAllowedTransitions(request.status, userProfile.role) : [],
+    progress: getChecklistProgress(request)
+  };
+};
+// Normalise a CC list from the client: trimmed, lower-cased, de-duplicated addresses in the
+// organisation's allowed domains
+const parseCcEmails = (input, settings)=>{
+  const list = Array.isArray(input) ? input : String(input || "").split(/[;,]/);
+  const emails = [
+    ...new Set(list.map((email)=>String(email).trim().toLowerCase()).filter((email)=>email))
+  ];
+  const invalid = emails.filter((email)=>!isAllowedEmail(settings, email));
+  return invalid.length > 0 ? {
+    error: `CC addresses must be ${allowedDomainsLabel(settings)}: ${invalid.join(", ")}`
+  } : {
+    emails
+  };
+};
+// Persist a new request, log its creation and notify the auditee
+const createAuditRequest = async (userProfile, fields, extraLogDetails = {})=>{
+  const { title, description, due_date, assigned_to_email, department, cc_emails, access, items, engagement_id } = fields;
+  // Find assigned user by email; the allowed domains keep them in the creator's organisation
+  const assignedUser = await repo.findUserByEmail(assigned_to_email);
+  // Allow creating requests for users who haven't signed up yet
+  let assignedUserId = null;
+  if (assignedUser?.organisation_id === userProfile.organisation_id) {
+    assignedUserId = assignedUser.id;
+  }
+  // An auditor who raises a confidential or restricted request keeps reviewing it through the access list
+  const accessFields = access || {
+    confidentiality: "standard",
+    view_access: [],
+    document_access: [],
+    status_access: []
+  };
+  const creatorEmail = userProfile.email.toLowerCase();
+  const keepsReview = accessFields.confidentiality !== "standard" && userProfile.role === "auditor" && !accessFields.status_access.includes(creatorEmail);
+  const requestId = `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const request = {
+    id: requestId,
+    title,
+    description,
+    due_date,
+    status: "in_progress",
+    created_by: userProfile.id,
+    organisation_id: userProfile.organisation_id,
+    assigned_to: assignedUserId,
+    assigned_to_email,
+    department,
+    cc_emails: cc_emails || [],
+    ...accessFields,
+    status_access: keepsReview ? [
+      ...accessFields.status_access,
+      creatorEmail
+    ] : accessFields.status_access,
+    items: items || [],
+    engagement_id: engagement_id || null,
+    pending_assignment: !assignedUserId,
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString()
+  };
+  await repo.saveRequest(request);
+  // Log request creation
+  await repo.addAuditLog({
+    action: "request_created",
+    user_id: userProfile.id,
+    request_id: requestId,
+    timestamp: new Date().toISOString(),
+    details: {
+      title,
+      assigned_to_email,
+      department,
+      cc_emails,
+      confidentiality: request.confidentiality,
+      item_count: request.items.length,
+      engagement_id: request.engagement_id,
+      ...extraLogDetails
+    }
+  });
+  // Send email notification to auditee and CC recipients
+  try {
+    const result = await triggerNewRequestEmail(request, {
+      id: request.assigned_to,
+      email: request.assigned_to_email,
+      name: request.assigned_to_email,
+      role: "auditee"
+    }, userProfile, request.cc_emails);
+    if (!result.success) {
+      console.error("Failed to send new request email:", result.error);
+    }
+    await recordRequestEmail(request, "request_created", result, userProfile.id);
+  } catch (emailError) {
+    console.error("Error sending new request email:", emailError);
+  }
+  return request;
+};
+// Requests can only be added to an engagement of the same organisation that is not closed
+const getEngagementForNewRequest = async (engagementId, organisationId)=>{
+  if (!engagementId) return {
+    engagement: null
+  };
+  const engagement = await repo.getEngagement(engagementId, organisationId);
+  if (!engagement) return {
+    error: "Engagement not found"
+  };
+  if (engagement.status === "closed") return {
+    error: "Cannot add requests to a closed engagement"
+  };
+  return {
+    engagement
+  };
+};
+// Create document request
+app.post("/make-server-fcebfd37/requests", async (c)=>{
+  try {
+    const { user, error } = await authenticateUser(c.req.header("Authorization"));
+    if (!user?.id || error) {
+      return c.json({
+        error: "Unauthorized"
+      }, 401);
+    }
+    const userProfile = await repo.getUser(user.id);
+    if (!userProfile || userProfile.role !== "auditor" && userProfile.role !== "manager") {
+      return c.json({
+        error: "Insufficient permissions"
+      }, 403);
+    }
+    const body = await c.req.json();
+    const { title, description, due_date, assigned_to_email, department, cc_emails, items, engagement_id } = body;
+    if (!title || !description || !due_date || !assigned_to_email || !department) {
+      return c.json({
+        error: "Missing required fields"
+      }, 400);
+    }
+    const settings = await loadSettings(userProfile.organisation_id);
+    if (!isAllowedEmail(settings, assigned_to_email)) {
+      return c.json({
+        error: `Assigned email must be an ${allowedDomainsLabel(settings)} address`
+      }, 400);
+    }
+    const { emails: ccList, error: ccError } = parseCcEmails(cc_emails, settings);
+    if (ccError) {
+      return c.json({
+        error: ccError
+      }, 400);
+    }
+    const { fields: access, error: accessError } = validateAccessFields(body, settings);
+    if (accessError) {
+      return c.json({
+        error: accessError
+      }, 400);
+    }
+    const { error: engagementError } = await getEngagementForNewRequest(engagement_id, userProfile.organisation_id);
+    if (engagementError) {
+      return c.json({
+        error: engagementError
+      }, 400);
+    }
+    const { items: checklistItems, error: checklistError } = buildChecklistItems(items, due_date);
+    if (checklistError) {
+      return c.json({
+        error: checklistError
+      }, 400);
+    }
+    const request = await createAuditRequest(userProfile, {
+      title,
+      description,
+      due_date,
+      assigned_to_email,
+      department,
+      cc_emails: ccList,
+      access,
+      items: checklistItems,
+      engagement_id
+    });
+    return c.json({
+      request: toRequestForUser(request, userProfile, settings),
+      success: true
+    });
+  } catch (error) {
+    console.error("Request creation error:", error);
+    return c.json({
+      error: "Internal server error while creating request"
+    }, 500);
+  }
+});
+// Create many requests at once from an imported CSV/XLSX file
+app.post("/make-server-fcebfd37/requests/batch", async (c:any)=>{
+  try {
+    const { user, error } = await authenticateUser(c.req.header("Authorization"));
+    if (!user?.id || error) {
+      return c.json({
+        error: "Unauthorized"
+      }, 401);
+    }
+    const userProfile = await repo.getUser(user.id);
+    if (!userProfile || userProfile.role !== "auditor" && userProfile.role !== "manager") {
+      return c.json({
+        error: "Insufficient permissions"
+      }, 403);
+    }
+    const { requests: rows, source_filename, engagement_id } = await c.req.json();
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return c.json({
+        error: "No rows to import"
+      }, 400);
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      return c.json({
+        error: `A single import can create at most ${MAX_IMPORT_ROWS} requests`
+      }, 400);
+    }
+    const { error: engagementError } = await getEngagementForNewRequest(engagement_id, userProfile.organisation_id);
+    if (engagementError) {
+      return c.json({
+        error: engagementError
+      }, 400);
+    }
+    const settings = await loadSettings(userProfile.organisation_id);
+    const batchId = `import_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const created = [];
+    const errors = [];
+    for (const [index, row] of rows.entries()){
+      // Rows are numbered as in the spreadsheet, below the header row
+      const rowNumber = row.row_number || index + 2;
+      const { fields, errors: rowErrors } = validateImportRow(row, settings);
+      if (!fields) {
+        errors.push({
+          row_number: rowNumber,
+          errors: rowErrors
+        });
+        continue;
+      }
+      try {
+        const request = await createAuditRequest(userProfile, {
+          ...fields,
+          engagement_id
+        }, {
+          import_batch_id: batchId,
+          import_row: rowNumber,
+          source_filename: source_filename || null
+        });
+        created.push({
+          row_number: rowNumber,
+          request: toRequestForUser(request, userProfile, settings)
+        });
+      } catch (rowError) {
+        console.error(`Import row ${rowNumber} failed:`, rowError);
+        errors.push({
+          row_number: rowNumber,
+          errors: [
+            "Failed to save request"
+          ]
+        });
+      }
+    }
+    return c.json({
+      batch_id: batchId,
+      created,
+      errors,
+      success: errors.length === 0
+    });
+  } catch (error) {
+    console.error("Batch request import error:", error);
+    return c.json({
+      error: "Internal server error while importing requests"
+    }, 500);
+  }
+});
+// Get requests (filtered by user role and the query string, optionally one page at a time)
+app.get("/make-server-fcebfd37/requests", async (c)=>{
+  try {
+    const { user, error } = await authenticateUser(c.req.header("Authorization"));
+    if (!user?.id || error) {
+      return c.json({
+        error: "Unauthorized"
+      }, 401);
+    }
+    const userProfile = await repo.getUser(user.id);
+    if (!userProfile) {
+      return c.json({
+        error: "User profile not found"
+      }, 404);
+    }
+    // Filters, sort and pagination come from the query string (see request-query.tsx);
+    // without a limit every matching request is returned
+    const { query, error: queryError } = parseRequestQuery(c.req.query());
+    if (queryError) {
+      return c.json({
+        error: queryError
+      }, 400);
+    }
+    // The repository leaves out requests the user may not see (see request-access.tsx)
+    const { requests, total, next_cursor } = await repo.queryRequests(userProfile, query);
+    const settings = await loadSettings(userProfile.organisation_id);
+    return c.json({
+      requests: requests.map((req)=>toRequestForUser(req, userProfile, settings)),
+      total,
+      next_cursor
+    });
+  } catch (error) {
+    console.error("Requests fetch error:", error);
+    return c.json({
+      error: "Internal server error while fetching requests"
+    }, 500);
+  }
+});
+// Upload document for a request
+app.post("/make-server-fcebfd37/upload", async (c)=>{
+  try {
+    const { user, error } = await authenticateUser(c.req.header("Authorization"));
+    if (!user?.id || error) {
+      return c.json({
+        error: "Unauthorized"
+      }, 401);
+    }
+    const formData = await c.req.formData();
+    const file = formData.get("file");
+    const requestId = formData.get("request_id");
+    const comments = formData.get("comments") || "";
+    const replacesDocumentId = formData.get("replaces_document_id");
+    const requestedItemId = formData.get("item_id");
+    if (!file || !requestId) {
+      return c.json({
+        error: "Missing file or request ID"
+      }, 400);
+    }
+    const { request, userProfile, response } = await loadAuthorizedRequest(c, user, requestId, "upload");
+    if (response) return response;
+    if (!UPLOADABLE_STATUSES.includes(normalizeStatus(request.status))) {
+      return c.json({
+        error: `Documents cannot be uploaded while the request is ${request.status}`
+      }, 409);
+    }
+    // If this is a pending assignment, resolve it now
+    if (request.pending_assignment && request.assigned_to_email === userProfile?.email) {
+      const updatedRequest = {
+        ...request,
+        assigned_to: user.id,
+        pending_assignment: false,
+        updated_at: new Date().toISOString()
+      };
+      await repo.saveRequest(updatedRequest);
+      await repo.addAuditLog({
+        action: "auto_assigned_on_upload",
+        user_id: user.id,
+        request_id: requestId,
+        timestamp: new Date().toISOString(),
+        details: {
+          email: userProfile.email,
+          request_title: request.title
+        }
+      });
+    }
+    // A new version must replace the current version of an evidence item on the same request
+    let previousVersion = null;
+    if (replacesDocumentId) {
+      previousVersion = await repo.getDocument(replacesDocumentId);
+      if (!previousVersion || previousVersion.request_id !== requestId) {
+        return c.json({
+          error: "Document to replace not found on this request"
+        }, 404);
+      }
+      if (!isCurrentVersion(previousVersion)) {
+        return c.json({
+          error: "This version has been superseded and is read-only. Upload against the latest version instead."
+        }, 409);
+      }
+    }
+    // New versions stay on the checklist item of the version they replace
+    const itemId = previousVersion ? previousVersion.item_id || null : requestedItemId || null;
+    if (itemId && !(request.items || []).some((item)=>item.id === itemId)) {
+      return c.json({
+        error: "Checklist item not found on this request"
+      }, 404);
+    }
+    if ((request.items || []).find((item)=>item.id === itemId)?.status === "approved") {
+      return c.json({
+        error: "This checklist item has already been approved"
+      }, 409);
+    }
+    // Upload file to Supabase Storage, under a folder per organisation
+    const fileName = `${request.organisation_id}/${requestId}/${Date.now()}_${file.name}`;
+    const { error: uploadError } = await supabase.storage.from(bucketName).upload(fileName, file);
+    if (uploadError) {
+      console.error("File upload error:", uploadError);
+      return c.json({
+        error: "Failed to upload file"
+      }, 500);
+    }
+    // Create signed URL for the file
+    const { data: signedUrlData } = await supabase.storage.from(bucketName).createSignedUrl(fileName, 3600); // 1 hour expiry
+    // Store document metadata
+    const documentId = `doc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const document = {
+      id: documentId,
+      request_id: requestId,
+      organisation_id: request.organisation_id,
+      evidence_id: previousVersion ? getEvidenceId(previousVersion) : documentId,
+      item_id: itemId,
+      version: previousVersion ? (previousVersion.version || 1) + 1 : 1,
+      filename: file.name,
+      file_path: fileName,
+      file_url: signedUrlData?.signedUrl,
+      uploaded_by: user.id,
+      uploaded_at: new Date().toISOString(),
+      comments
+    };
+    if (!await repo.insertDocumentVersion(document)) {
+      await supabase.storage.from(bucketName).remove([
+        fileName
+      ]);
+      return c.json({
+        error: "Someone else uploaded a new version of this document at the same time. Refresh to see it, then upload against the latest version."
+      }, 409);
+    }
+    if (previousVersion) {
+      await repo.saveDocument({
+        ...previousVersion,
+        evidence_id: getEvidenceId(previousVersion),
+        version: previousVersion.version || 1,
+        superseded_by: documentId,
+        superseded_at: document.uploaded_at
+      });
+    }
+    // Uploading against a rejected or reopened request puts it back in progress
+    const latestRequest = await repo.getRequest(requestId, user.organisation_id);
+    const reworking = [
+      "rejected",
+      "reopened"
+    ].includes(normalizeStatus(latestRequest.status));
+    const nextStatus = reworking ? "in_progress" : latestRequest.status;
+    // Mark the targeted checklist item as provided
+    const updatedItems = (latestRequest.items || []).map((item)=>item.id === itemId && item.status !== "approved" ? {
+        ...item,
+        status: "provided"
+      } : item);
+    const updatedRequest = {
+      ...latestRequest,
+      status: nextStatus,
+      items: updatedItems,
+      updated_at: new Date().toISOString()
+    };
+    await repo.saveRequest(updatedRequest);
+    // Log document upload
+    await repo.addAuditLog({
+      action: "document_uploaded",
+      user_id: user.id,
+      request_id: requestId,
+      document_id: documentId,
+      timestamp: new Date().toISOString(),
+      details: {
+        filename: file.name,
+        comments,
+        evidence_id: document.evidence_id,
+        item_id: itemId,
+        version: document.version,
+        replaces_document_id: previousVersion?.id || null
+      }
+    });
+    return c.json({
+      document,
+      success: true
+    });
+  } catch (error) {
+    console.error("Upload error:", error);
+    return c.json({
+      error: "Internal server error during upload"
+    }, 500);
+  }
+});
+// Get documents for a request
+app.get("/make-server-fcebfd37/requests/:requestId/documents", async (c)=>{
+  try {
+    const { user, error } = await authenticateUser(c.req.header("Authorization"));
+    if (!user?.id || error) {
+      return c.json({
+        error: "Unauthorized"
+      }, 401);
+    }
+    const requestId = c.req.param("requestId");
+    const { response } = await loadAuthorizedRequest(c, user, requestId, "documents");
+    if (response) return response;
+    const requestDocuments = await repo.listDocumentsByRequest(requestId);
+    const uploaderIds = [
+      ...new Set(requestDocuments.map((doc)=>doc.uploaded_by))
+    ];
+    const uploaders = uploaderIds.length > 0 ? await repo.getUsersByIds(uploaderIds) : [];
+    // Refresh signed URLs for each document
+    for (const doc of requestDocuments){
+      const { data: signedUrlData } = await supabase.storage.from(bucketName).createSignedUrl(doc.file_path, 3600);
+      doc.file_url = signedUrlData?.signedUrl;
+      doc.evidence_id = getEvidenceId(doc);
+      doc.version = doc.version || 1;
+      doc.is_current = isCurrentVersion(doc);
+      doc.uploaded_by_name = uploaders.find((u)=>u?.id === doc.uploaded_by)?.name || null;
+    }
+    return c.json({
+      documents: requestDocuments
+    });
+  } catch (error) {
+    console.error("Documents fetch error:", error);
+    return c.json({
+      error: "Internal server error while fetching documents"
+    }, 500);
+  }
+});
+// Mentions by handle resolve to the first allowed domain; addresses outside the allowed domains are ignored
+const mentionedEmails = (body, settings)=>extractMentions(body, settings.allowed_email_domains[0]).filter((email)=>isAllowedEmail(settings, email));
+// Comment threads and the timeline follow the same visibility as the request's documents
+const loadThreadRequest = (c, user)=>loadAuthorizedRequest(c, user, c.req.param("requestId"), "documents");
+const withCommentPermissions = (comment, userId)=>({
+    ...comment,
+    can_edit: canEditComment(comment, userId)
+  });
+// Get the discussion thread for a request, optionally for one document
+app.get("/make-server-fcebfd37/requests/:requestId/comments", async (c:any)=>{
+  try {
+    const { user, error } = await authenticateUser(c.req.header("Authorization"));
+    if (!user?.id || error) {
+      return c.json({
+        error: "Unauthorized"
+      }, 401);
+    }
+    const { request, response } = await loadThreadRequest(c, user);
+    if (response) return response;
+    const comments = await repo.listCommentsByRequest(request.id, c.req.query("document_id"));
+    return c.json({
+      comments: comments.map((comment)=>withCommentPermissions(comment, user.id))
+    });
+  } catch (error) {
+    console.error("Comments fetch error:", error);
+    return c.json({
+      error: "Internal server error while fetching comments"
+    }, 500);
+  }
+});
+// Post a comment or a reply; @mentions email the mentioned users who can see the request
+app.post("/make-server-fcebfd37/requests/:requestId/comments", async (c:any)=>{
+  try {
+    const { user, error } = await authenticateUser(c.req.header("Authorization"));
+    if (!user?.id || error) {
+      return c.json({
+        error: "Unauthorized"
+      }, 401);
+    }
+    const { request, userProfile, response } = await loadThreadRequest(c, user);
+    if (response) return response;
+    const { body: rawBody, document_id, parent_id } = await c.req.json();
+    const { body, error: bodyError } = validateCommentBody(rawBody);
+    if (bodyError) {
+      return c.json({
+        error: bodyError
+      }, 400);
+    }
+    let documentId = document_id || null;
+    let parent = null;
+    if (parent_id) {
+      parent = await repo.getComment(request.id, parent_id);
+      if (!parent) {
+        return c.json({
+          error: "The comment you are replying to no longer exists"
+        }, 404);
+      }
+      // Replies attach to the top of the thread and stay on the same document
+      documentId = parent.document_id;
     }
-    // Log user creation
-    await kv.set(`audit_log:${Date.now()}:${userId}`, {
-      action: "user_created",
-      user_id: userId,
-      timestamp: new Date().toISOString(),
+    if (documentId) {
+      const doc = await repo.getDocument(documentId);
+      if (!doc || doc.request_id !== request.id) {
+        return c.json({
+          error: "Document not found on this request"
+        }, 404);
+      }
+    }
+    const settings = await loadSettings(request.organisation_id);
+    const mentions = mentionedEmails(body, settings);
+    const commentId = `cmt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const comment = {
+      id: commentId,
+      request_id: request.id,
+      document_id: documentId,
+      parent_id: parent ? parent.parent_id || parent.id : null,
+      author_id: user.id,
+      author_name: userProfile.name,
+      author_role: userProfile.role,
+      body,
+      mentions,
+      created_at: new Date().toISOString(),
+      edited_at: null
+    };
+    await repo.saveComment(comment);
+    await repo.addAuditLog({
+      action: "comment_added",
+      user_id: user.id,
+      request_id: request.id,
+      timestamp: comment.created_at,
       details: {
-        email,
-        name: name.trim(),
-        role: userRole
+        comment_id: commentId,
+        document_id: documentId,
+        reply: !!comment.parent_id,
+        mentions
       }
     });
-    // Send welcome email
-    try {
-      const result = await triggerWelcomeEmail({
-        id: userId,
-        email,
-        name: name.trim(),
-        role: userRole
-      });
-      if (!result.success) {
-        console.error("Failed to send welcome email:", result.error);
+    const notified = [];
+    if (mentions.length > 0) {
+        for (const email of mentions){
+        const mentioned = await repo.findUserByEmail(email);
+        if (!mentioned || mentioned.id === user.id || !getRequestAccess(mentioned, request, settings).documents) continue;
+        try {
+          const result = await triggerMentionEmail(request, mentioned, userProfile, body);
+          if (result.success) {
+            notified.push(mentioned.email);
+          } else {
+            console.error("Failed to send mention email:", result.error);
+          }
+        } catch (emailError) {
+          console.error("Error sending mention email:", emailError);
+        }
       }
-    } catch (emailError) {
-      console.error("Error sending welcome email:", emailError);
     }
-    console.log(`✅ User created successfully: ${email} (${userRole}) (${userId}), ${pendingRequestsCount} requests assigned`);
     return c.json({
-      success: true,
-      user: {
-        id: userId,
-        email: email,
-        name: name.trim(),
-        role: userRole
-      },
-      pending_requests_assigned: pendingRequestsCount
+      comment: withCommentPermissions(comment, user.id),
+      notified,
+      success: true
     });
   } catch (error) {
-    console.error("Error verifying OTP and creating user:", error);
+    console.error("Comment creation error:", error);
     return c.json({
-      error: "Internal server error"
+      error: "Internal server error while posting comment"
     }, 500);
   }
 });
-// Create document request
-app.post("/make-server-fcebfd37/requests", async (c)=>{
+// Edit a comment - only its author, and only within the edit window
+app.put("/make-server-fcebfd37/requests/:requestId/comments/:commentId", async (c:any)=>{
   try {
     const { user, error } = await authenticateUser(c.req.header("Authorization"));
     if (!user?.id || error) {
@@ -584,84 +2120,61 @@ app.post("/make-server-fcebfd37/requests", async (c)=>{
         error: "Unauthorized"
       }, 401);
     }
-    const userProfile = await kv.get(`user:${user.id}`);
-    if (!userProfile || userProfile.role !== "auditor" && userProfile.role !== "manager") {
+    const { request, response } = await loadThreadRequest(c, user);
+    if (response) return response;
+    const comment = await repo.getComment(request.id, c.req.param("commentId"));
+    if (!comment) {
       return c.json({
-        error: "Insufficient permissions"
+        error: "Comment not found"
+      }, 404);
+    }
+    if (comment.author_id !== user.id) {
+      return c.json({
+        error: "You can only edit your own comments"
       }, 403);
     }
-    const { title, description, due_date, assigned_to_email, department, cc_emails, hr_confidential } = await c.req.json();
-    if (!title || !description || !due_date || !assigned_to_email || !department) {
+    if (!canEditComment(comment, user.id)) {
       return c.json({
-        error: "Missing required fields"
+        error: "Comments can only be edited within 5 minutes of posting"
+      }, 409);
+    }
+    const { body: rawBody } = await c.req.json();
+    const { body, error: bodyError } = validateCommentBody(rawBody);
+    if (bodyError) {
+      return c.json({
+        error: bodyError
       }, 400);
     }
-    // Find assigned user by email
-    const users = await kv.getByPrefix("user:");
-    const assignedUser = users.find((u)=>u.email === assigned_to_email);
-    // Allow creating requests for users who haven't signed up yet
-    let assignedUserId = null;
-    if (assignedUser) {
-      assignedUserId = assignedUser.id;
-    }
-    const requestId = `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const request = {
-      id: requestId,
-      title,
-      description,
-      due_date,
-      status: "in_progress",
-      created_by: user.id,
-      assigned_to: assignedUserId,
-      assigned_to_email,
-      department,
-      cc_emails: cc_emails || [],
-      hr_confidential: hr_confidential || false,
-      pending_assignment: !assignedUserId,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
+    const updatedComment = {
+      ...comment,
+      body,
+      mentions: mentionedEmails(body, await loadSettings(request.organisation_id)),
+      edited_at: new Date().toISOString()
     };
-    await kv.set(`request:${requestId}`, request);
-    // Log request creation
-    await kv.set(`audit_log:${Date.now()}:${user.id}`, {
-      action: "request_created",
+    await repo.saveComment(updatedComment);
+    await repo.addAuditLog({
+      action: "comment_edited",
       user_id: user.id,
-      request_id: requestId,
-      timestamp: new Date().toISOString(),
+      request_id: request.id,
+      timestamp: updatedComment.edited_at,
       details: {
-        title,
-        assigned_to_email,
-        department,
-        cc_emails
+        comment_id: comment.id,
+        previous_body: comment.body
       }
     });
-    // Send email notification to auditee and CC recipients
-    try {
-      const result = await triggerNewRequestEmail(request, {
-        id: request.assigned_to,
-        email: request.assigned_to_email,
-        name: request.assigned_to_email,
-        role: "auditee"
-      }, userProfile, []);
-      if (!result.success) {
-        console.error("Failed to send new request email:", result.error);
-      }
-    } catch (emailError) {
-      console.error("Error sending new request email:", emailError);
-    }
     return c.json({
-      request,
+      comment: withCommentPermissions(updatedComment, user.id),
       success: true
     });
   } catch (error) {
-    console.error("Request creation error:", error);
+    console.error("Comment update error:", error);
     return c.json({
-      error: "Internal server error while creating request"
+      error: "Internal server error while updating comment"
     }, 500);
   }
 });
-// Get requests (filtered by user role)
-app.get("/make-server-fcebfd37/requests", async (c)=>{
+// Get everything that has happened to a request, oldest first
+app.get("/make-server-fcebfd37/requests/:requestId/timeline", async (c:any)=>{
   try {
     const { user, error } = await authenticateUser(c.req.header("Authorization"));
     if (!user?.id || error) {
@@ -669,44 +2182,130 @@ app.get("/make-server-fcebfd37/requests", async (c)=>{
         error: "Unauthorized"
       }, 401);
     }
-    const userProfile = await kv.get(`user:${user.id}`);
-    if (!userProfile) {
+    const { request, userProfile, access, response } = await loadThreadRequest(c, user);
+    if (response) return response;
+    const [auditLogs, sentEmails, comments] = await Promise.all([
+      repo.listAuditLogsByRequest(request.id),
+      repo.listEmailsByRequest(request.id),
+      repo.listCommentsByRequest(request.id)
+    ]);
+    // The same rules as the audit and email logs, so access list changes stay with managers
+    const logs = auditLogs.map((log)=>redactAuditEntry(log, access)).filter(Boolean);
+    const emails = sentEmails.map((email)=>redactEmailRecord(email, access)).filter(Boolean);
+    const users = await repo.getUsersByIds(timelineUserIds(logs, emails));
+    return c.json({
+      events: buildRequestTimeline({
+        logs,
+        emails,
+        users: new Map(users.map((entry)=>[entry.id, entry])),
+        comments: new Map(comments.map((comment)=>[comment.id, comment])),
+        viewerRole: userProfile.role
+      })
+    });
+  } catch (error) {
+    console.error("Timeline fetch error:", error);
+    return c.json({
+      error: "Internal server error while fetching the request timeline"
+    }, 500);
+  }
+});
+// Submit a request for review (auditee)
+app.post("/make-server-fcebfd37/requests/:requestId/submit", async (c:any)=>{
+  try {
+    const { user, error } = await authenticateUser(c.req.header("Authorization"));
+    if (!user?.id || error) {
       return c.json({
-        error: "User profile not found"
-      }, 404);
+        error: "Unauthorized"
+      }, 401);
+    }
+    const requestId = c.req.param("requestId");
+    const { attestation } = await c.req.json();
+    if (!attestation || !attestation.trim()) {
+      return c.json({
+        error: "An attestation comment is required to submit for review"
+      }, 400);
+    }
+    const { request, userProfile, settings, response } = await loadAuthorizedRequest(c, user, requestId, "upload");
+    if (response) return response;
+    if (userProfile.role !== "auditee" || request.assigned_to !== user.id) {
+      return c.json({
+        error: "Only the assigned auditee can submit this request"
+      }, 403);
+    }
+    if (!canTransition(request.status, "submitted", userProfile.role)) {
+      return c.json({
+        error: `Cannot submit a request that is ${request.status}`,
+        current_status: request.status,
+        allowed_transitions: getAllowedTransitions(request.status, userProfile.role)
+      }, 409);
+    }
+    // Completeness check: at least one document must be attached
+    const requestDocuments = (await repo.listDocumentsByRequest(requestId)).filter(isCurrentVersion);
+    if (requestDocuments.length === 0) {
+      return c.json({
+        error: "Upload at least one document before submitting for review"
+      }, 422);
     }
-    const allRequests = await kv.getByPrefix("request:");
-    let filteredRequests;
-    if (userProfile.role === "auditor") {
-      // Auditors see all requests, but HR department responses are restricted
-      filteredRequests = allRequests.map((req)=>{
-        if (req.department === "Human Resources") {
-          return {
-            ...req,
-            hr_confidential: true
-          };
+    const missingItems = getMissingRequiredItems(request, requestDocuments);
+    if (missingItems.length > 0) {
+      return c.json({
+        error: `${missingItems.length} required checklist item(s) have no documents`,
+        missing_items: missingItems.map((item)=>({
+            id: item.id,
+            description: item.description
+          }))
+      }, 422);
+    }
+    const submittedAt = new Date().toISOString();
+    const updatedRequest = {
+      ...request,
+      status: "submitted",
+      submitted_at: submittedAt,
+      submitted_by: user.id,
+      submission_attestation: attestation.trim(),
+      // The rework answers the last rejection; its reason stays in the audit trail and timeline
+      rejection: null,
+      updated_at: submittedAt
+    };
+    await repo.saveRequest(updatedRequest);
+    await repo.addAuditLog({
+      action: "request_submitted",
+      user_id: user.id,
+      request_id: requestId,
+      timestamp: submittedAt,
+      details: {
+        old_status: request.status,
+        new_status: "submitted",
+        document_count: requestDocuments.length,
+        attestation: attestation.trim()
+      }
+    });
+    // Notify the auditor who created the request
+    try {
+      const auditor = await repo.getUser(request.created_by);
+      if (auditor) {
+        const result = await triggerSubmissionEmail(updatedRequest, auditor, userProfile, attestation.trim(), requestDocuments.length);
+        if (!result.success) {
+          console.error("Failed to send submission email:", result.error);
         }
-        return req;
-      });
-    } else if (userProfile.role === "manager") {
-      // Managers see all requests with full details
-      filteredRequests = allRequests;
-    } else {
-      // Auditees only see requests assigned to them
-      filteredRequests = allRequests.filter((req)=>req.assigned_to === user.id || req.pending_assignment && req.assigned_to_email === userProfile.email);
+      }
+    } catch (emailError) {
+      console.error("Error sending submission email:", emailError);
     }
     return c.json({
-      requests: filteredRequests
+      request: toRequestForUser(updatedRequest, userProfile, settings),
+      allowed_transitions: getAllowedTransitions(updatedRequest.status, userProfile.role),
+      success: true
     });
   } catch (error) {
-    console.error("Requests fetch error:", error);
+    console.error("Submit for review error:", error);
     return c.json({
-      error: "Internal server error while fetching requests"
+      error: "Internal server error while submitting request"
     }, 500);
   }
 });
-// Upload document for a request
-app.post("/make-server-fcebfd37/upload", async (c)=>{
+// Approve or reject a single checklist item
+app.put("/make-server-fcebfd37/requests/:requestId/items/:itemId/status", async (c:any)=>{
   try {
     const { user, error } = await authenticateUser(c.req.header("Authorization"));
     if (!user?.id || error) {
@@ -714,106 +2313,78 @@ app.post("/make-server-fcebfd37/upload", async (c)=>{
         error: "Unauthorized"
       }, 401);
     }
-    const formData = await c.req.formData();
-    const file = formData.get("file");
-    const requestId = formData.get("request_id");
-    const comments = formData.get("comments") || "";
-    if (!file || !requestId) {
+    const requestId = c.req.param("requestId");
+    const itemId = c.req.param("itemId");
+    const { status, note } = await c.req.json();
+    if (status !== "approved" && status !== "rejected") {
       return c.json({
-        error: "Missing file or request ID"
+        error: "Item status must be approved or rejected"
       }, 400);
     }
-    // Verify request exists and user has access
-    const request = await kv.get(`request:${requestId}`);
-    if (!request) {
+    if (status === "rejected" && !note?.trim()) {
       return c.json({
-        error: "Request not found"
-      }, 404);
+        error: "A note is required when rejecting a checklist item"
+      }, 400);
     }
-    const userProfile = await kv.get(`user:${user.id}`);
-    // Check if user has access to this request
-    const hasAccess = request.assigned_to === user.id || request.pending_assignment && request.assigned_to_email === userProfile?.email || userProfile?.role === "auditor";
-    if (!hasAccess) {
+    const { request, userProfile, response } = await loadAuthorizedRequest(c, user, requestId, "status");
+    if (response) return response;
+    if (userProfile.role !== "auditor" && userProfile.role !== "manager") {
       return c.json({
-        error: "Access denied to this request"
+        error: "Insufficient permissions"
       }, 403);
     }
-    // If this is a pending assignment, resolve it now
-    if (request.pending_assignment && request.assigned_to_email === userProfile?.email) {
-      const updatedRequest = {
-        ...request,
-        assigned_to: user.id,
-        pending_assignment: false,
-        updated_at: new Date().toISOString()
-      };
-      await kv.set(`request:${requestId}`, updatedRequest);
-      await kv.set(`audit_log:${Date.now()}:${user.id}`, {
-        action: "auto_assigned_on_upload",
-        user_id: user.id,
-        request_id: requestId,
-        timestamp: new Date().toISOString(),
-        details: {
-          email: userProfile.email,
-          request_title: request.title
-        }
-      });
+    const item = (request.items || []).find((i)=>i.id === itemId);
+    if (!item) {
+      return c.json({
+        error: "Checklist item not found"
+      }, 404);
     }
-    // Upload file to Supabase Storage
-    const fileName = `${requestId}/${Date.now()}_${file.name}`;
-    const { error: uploadError } = await supabase.storage.from(bucketName).upload(fileName, file);
-    if (uploadError) {
-      console.error("File upload error:", uploadError);
+    if (item.status === "open") {
       return c.json({
-        error: "Failed to upload file"
-      }, 500);
+        error: "Nothing has been provided for this item yet"
+      }, 409);
     }
-    // Create signed URL for the file
-    const { data: signedUrlData } = await supabase.storage.from(bucketName).createSignedUrl(fileName, 3600); // 1 hour expiry
-    // Store document metadata
-    const documentId = `doc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const document = {
-      id: documentId,
-      request_id: requestId,
-      filename: file.name,
-      file_path: fileName,
-      file_url: signedUrlData?.signedUrl,
-      uploaded_by: user.id,
-      uploaded_at: new Date().toISOString(),
-      comments
+    const reviewedAt = new Date().toISOString();
+    const updatedItem = {
+      ...item,
+      status,
+      review_note: note?.trim() || null,
+      reviewed_by: user.id,
+      reviewed_at: reviewedAt
     };
-    await kv.set(`document:${documentId}`, document);
-    // Update request status
     const updatedRequest = {
       ...request,
-      status: "in_progress",
-      updated_at: new Date().toISOString()
+      items: request.items.map((i)=>i.id === itemId ? updatedItem : i),
+      updated_at: reviewedAt
     };
-    await kv.set(`request:${requestId}`, updatedRequest);
-    // Log document upload
-    await kv.set(`audit_log:${Date.now()}:${user.id}`, {
-      action: "document_uploaded",
+    await repo.saveRequest(updatedRequest);
+    await repo.addAuditLog({
+      action: "item_status_updated",
       user_id: user.id,
       request_id: requestId,
-      document_id: documentId,
-      timestamp: new Date().toISOString(),
+      timestamp: reviewedAt,
       details: {
-        filename: file.name,
-        comments
+        item_id: itemId,
+        item_description: item.description,
+        old_status: item.status,
+        new_status: status,
+        note: updatedItem.review_note
       }
     });
     return c.json({
-      document,
+      item: updatedItem,
+      progress: getChecklistProgress(updatedRequest),
       success: true
     });
   } catch (error) {
-    console.error("Upload error:", error);
+    console.error("Checklist item update error:", error);
     return c.json({
-      error: "Internal server error during upload"
+      error: "Internal server error while updating checklist item"
     }, 500);
   }
 });
-// Get documents for a request
-app.get("/make-server-fcebfd37/requests/:requestId/documents", async (c)=>{
+// Change who is CC'd on a request's notifications
+app.put("/make-server-fcebfd37/requests/:requestId/cc", async (c:any)=>{
   try {
     const { user, error } = await authenticateUser(c.req.header("Authorization"));
     if (!user?.id || error) {
@@ -821,42 +2392,107 @@ app.get("/make-server-fcebfd37/requests/:requestId/documents", async (c)=>{
         error: "Unauthorized"
       }, 401);
     }
+    const userProfile = await repo.getUser(user.id);
+    if (!userProfile || userProfile.role !== "auditor" && userProfile.role !== "manager") {
+      return c.json({
+        error: "Insufficient permissions"
+      }, 403);
+    }
     const requestId = c.req.param("requestId");
-    const request = await kv.get(`request:${requestId}`);
-    if (!request) {
+    const { request, settings, response } = await loadAuthorizedRequest(c, user, requestId, "status");
+    if (response) return response;
+    const { cc_emails } = await c.req.json();
+    const { emails, error: ccError } = parseCcEmails(cc_emails, settings);
+    if (ccError) {
       return c.json({
-        error: "Request not found"
-      }, 404);
+        error: ccError
+      }, 400);
     }
-    const userProfile = await kv.get(`user:${user.id}`);
-    // Check if user has access to view documents for this request
-    const hasAccess = request.assigned_to === user.id || request.pending_assignment && request.assigned_to_email === userProfile?.email || userProfile?.role === "auditor" || userProfile?.role === "manager";
-    if (!hasAccess) {
+    const previous = request.cc_emails || [];
+    const updatedRequest = {
+      ...request,
+      cc_emails: emails,
+      updated_at: new Date().toISOString()
+    };
+    await repo.saveRequest(updatedRequest);
+    await repo.addAuditLog({
+      action: "cc_updated",
+      user_id: user.id,
+      request_id: requestId,
+      timestamp: new Date().toISOString(),
+      details: {
+        added: emails.filter((email)=>!previous.includes(email)),
+        removed: previous.filter((email)=>!emails.includes(email))
+      }
+    });
+    return c.json({
+      request: toRequestForUser(updatedRequest, userProfile, settings),
+      success: true
+    });
+  } catch (error) {
+    console.error("CC update error:", error);
+    return c.json({
+      error: "Internal server error while updating CC recipients"
+    }, 500);
+  }
+});
+// Change a request's confidentiality level and access lists (managers)
+app.put("/make-server-fcebfd37/requests/:requestId/access", async (c:any)=>{
+  try {
+    const { user, error } = await authenticateUser(c.req.header("Authorization"));
+    if (!user?.id || error) {
       return c.json({
-        error: "Access denied to this request"
-      }, 403);
+        error: "Unauthorized"
+      }, 401);
     }
-    // Special handling for HR department requests - auditors cannot access documents
-    if (request.department === "Human Resources" && userProfile?.role === "auditor") {
+    const requestId = c.req.param("requestId");
+    const { request, userProfile, settings, response } = await loadAuthorizedRequest(c, user, requestId, "manage_access");
+    if (response) return response;
+    const body = await c.req.json().catch(()=>({}));
+    const { fields, error: accessError } = validateAccessFields(body || {}, settings, request);
+    if (accessError) {
       return c.json({
-        error: "Access denied to confidential HR department documents. Contact your manager for access.",
-        confidential: true
-      }, 403);
+        error: accessError
+      }, 400);
     }
-    const allDocuments = await kv.getByPrefix("document:");
-    const requestDocuments = allDocuments.filter((doc)=>doc.request_id === requestId);
-    // Refresh signed URLs for each document
-    for (const doc of requestDocuments){
-      const { data: signedUrlData } = await supabase.storage.from(bucketName).createSignedUrl(doc.file_path, 3600);
-      doc.file_url = signedUrlData?.signedUrl;
+    const listChanges = Object.fromEntries(ACCESS_LISTS.map((list)=>[
+        list,
+        {
+          added: fields[list].filter((entry)=>!(request[list] || []).includes(entry)),
+          removed: (request[list] || []).filter((entry)=>!fields[list].includes(entry))
+        }
+      ]).filter(([, change])=>change.added.length > 0 || change.removed.length > 0));
+    if (fields.confidentiality === (request.confidentiality || "standard") && Object.keys(listChanges).length === 0) {
+      return c.json({
+        request: toRequestForUser(request, userProfile, settings),
+        success: true
+      });
     }
+    const updatedRequest = {
+      ...request,
+      ...fields,
+      updated_at: new Date().toISOString()
+    };
+    await repo.saveRequest(updatedRequest);
+    await repo.addAuditLog({
+      action: "request_access_updated",
+      user_id: user.id,
+      request_id: requestId,
+      timestamp: updatedRequest.updated_at,
+      details: {
+        old_confidentiality: request.confidentiality || "standard",
+        new_confidentiality: fields.confidentiality,
+        changes: listChanges
+      }
+    });
     return c.json({
-      documents: requestDocuments
+      request: toRequestForUser(updatedRequest, userProfile, settings),
+      success: true
     });
   } catch (error) {
-    console.error("Documents fetch error:", error);
+    console.error("Request access update error:", error);
     return c.json({
-      error: "Internal server error while fetching documents"
+      error: "Internal server error while updating request access"
     }, 500);
   }
 });
@@ -870,39 +2506,88 @@ app.put("/make-server-fcebfd37/requests/:requestId/status", async (c:any)=>{
       }, 401);
     }
     const requestId = c.req.param("requestId");
-    const { status } = await c.req.json();
-    if (!status) {
+    const { status: requestedStatus, rejection: rejectionInput } = await c.req.json();
+    if (!requestedStatus) {
       return c.json({
         error: "Status is required"
       }, 400);
     }
-    const request = await kv.get(`request:${requestId}`);
-    if (!request) {
+    const status = normalizeStatus(requestedStatus);
+    if (!status) {
       return c.json({
-        error: "Request not found"
-      }, 404);
+        error: `Unknown status "${requestedStatus}"`
+      }, 400);
     }
-    const userProfile = await kv.get(`user:${user.id}`);
-    if (!userProfile || userProfile.role !== "auditor" && userProfile.role !== "manager") {
+    // Submission carries a completeness check and attestation, so it has its own endpoint
+    if (status === "submitted") {
       return c.json({
-        error: "Insufficient permissions"
-      }, 403);
+        error: "Use the submit action to submit a request for review"
+      }, 400);
     }
-    // Special handling for HR department requests
-    if (request.department === "Human Resources" && userProfile?.role === "auditor") {
+    // Auditees may only move requests assigned to them; confidential requests only by those allowed
+    const { request, userProfile, settings, access, response } = await loadAuthorizedRequest(c, user, requestId, "status");
+    if (response) return response;
+    // Enforce the request lifecycle
+    if (!canTransition(request.status, status, userProfile.role)) {
       return c.json({
-        error: "Access denied. Only managers can update status for confidential HR department requests."
-      }, 403);
+        error: `Cannot change status from "${request.status}" to "${status}"`,
+        current_status: request.status,
+        allowed_transitions: getAllowedTransitions(request.status, userProfile.role)
+      }, 409);
+    }
+    // Rejections must explain what is wrong, overall and per document
+    let rejection = null;
+    if (status === "rejected") {
+      const reason = typeof rejectionInput?.reason === "string" ? rejectionInput.reason.trim() : "";
+      if (!reason) {
+        return c.json({
+          error: "A rejection reason is required"
+        }, 400);
+      }
+      const requestDocuments = (await repo.listDocumentsByRequest(requestId)).filter(isCurrentVersion);
+      const documentNotes = Array.isArray(rejectionInput.documents) ? rejectionInput.documents.filter((d)=>d?.note && d.note.trim()) : [];
+      const unknownDocument = documentNotes.find((d)=>!requestDocuments.some((doc)=>doc.id === d.document_id));
+      if (unknownDocument) {
+        return c.json({
+          error: `Document ${unknownDocument.document_id} is not a current document on this request`
+        }, 400);
+      }
+      const rejectedAt = new Date().toISOString();
+      rejection = {
+        reason,
+        rejected_by: user.id,
+        rejected_by_name: userProfile.name,
+        rejected_at: rejectedAt,
+        documents: documentNotes.map((d)=>({
+            document_id: d.document_id,
+            filename: requestDocuments.find((doc)=>doc.id === d.document_id).filename,
+            note: d.note.trim()
+          }))
+      };
+      // Record the feedback on each document it concerns
+      for (const feedback of rejection.documents){
+        const document = requestDocuments.find((doc)=>doc.id === feedback.document_id);
+        await repo.saveDocument({
+          ...document,
+          review_status: "rejected",
+          review_note: feedback.note,
+          reviewed_by: user.id,
+          reviewed_at: rejectedAt
+        });
+      }
     }
-    // Update request in KV
+    // Update request
     const updatedRequest = {
       ...request,
       status,
+      ...rejection ? {
+        rejection
+      } : {},
       updated_at: new Date().toISOString()
     };
-    await kv.set(`request:${requestId}`, updatedRequest);
+    await repo.saveRequest(updatedRequest);
     // Log status update
-    await kv.set(`audit_log:${Date.now()}:${user.id}`, {
+    await repo.addAuditLog({
       action: "status_updated",
       user_id: user.id,
       request_id: requestId,
@@ -910,16 +2595,19 @@ app.put("/make-server-fcebfd37/requests/:requestId/status", async (c:any)=>{
       details: {
         old_status: request.status,
         new_status: status,
-        hr_confidential: request.department === "Human Resources"
+        confidentiality: access.confidentiality,
+        ...rejection ? {
+          rejection_reason: rejection.reason,
+          document_feedback: rejection.documents
+        } : {}
       }
     });
     // **NEW**: Upload documents to SharePoint if status is "Approved"
-    if (status.toLowerCase() === "approved") {
+    if (status === "approved") {
       console.log(`Status changed to Approved for request ${requestId}, uploading documents to SharePoint`);
       try {
         // Get all documents for this request
-        const allDocuments = await kv.getByPrefix("document:");
-        const requestDocuments = allDocuments.filter((doc)=>doc.request_id === requestId);
+        const requestDocuments = (await repo.listDocumentsByRequest(requestId)).filter(isCurrentVersion);
         console.log(`Found ${requestDocuments.length} documents for request ${requestId}`);
         // Upload each document to SharePoint via Power Automate
         const sharepointResults = [];
@@ -965,7 +2653,7 @@ app.put("/make-server-fcebfd37/requests/:requestId/status", async (c:any)=>{
                 data: result
               });
               // Log successful SharePoint upload
-              await kv.set(`audit_log:${Date.now()}:${user.id}`, {
+              await repo.addAuditLog({
                 action: "document_uploaded_sharepoint",
                 user_id: user.id,
                 request_id: requestId,
@@ -999,7 +2687,7 @@ app.put("/make-server-fcebfd37/requests/:requestId/status", async (c:any)=>{
         const successCount = sharepointResults.filter((r)=>r.success).length;
         const failCount = sharepointResults.filter((r)=>!r.success).length;
         console.log(`SharePoint upload summary: ${successCount} successful, ${failCount} failed`);
-        await kv.set(`audit_log:${Date.now()}:${user.id}`, {
+        await repo.addAuditLog({
           action: "sharepoint_upload_summary",
           user_id: user.id,
           request_id: requestId,
@@ -1014,7 +2702,7 @@ app.put("/make-server-fcebfd37/requests/:requestId/status", async (c:any)=>{
       } catch (sharepointError) {
         console.error('Error during SharePoint upload process:', sharepointError);
         // Don't fail the status update if SharePoint upload fails
-        await kv.set(`audit_log:${Date.now()}:${user.id}`, {
+        await repo.addAuditLog({
           action: "sharepoint_upload_error",
           user_id: user.id,
           request_id: requestId,
@@ -1034,7 +2722,7 @@ app.put("/make-server-fcebfd37/requests/:requestId/status", async (c:any)=>{
       // Get the actual auditee user data
       let auditeeUser;
       if (updatedRequest.assigned_to) {
-        auditeeUser = await kv.get(`user:${updatedRequest.assigned_to}`);
+        auditeeUser = await repo.getUser(updatedRequest.assigned_to);
       }
       // Fallback if user not found
       if (!auditeeUser) {
@@ -1045,15 +2733,17 @@ app.put("/make-server-fcebfd37/requests/:requestId/status", async (c:any)=>{
           role: "auditee"
         };
       }
-      const result = await triggerStatusChangeEmail(requestWithPreviousStatus, auditeeUser, userProfile, []);
+      const result = await triggerStatusChangeEmail(requestWithPreviousStatus, auditeeUser, userProfile, updatedRequest.cc_emails || []);
       if (!result.success) {
         console.error("Failed to send status change email:", result.error);
       }
+      await recordRequestEmail(updatedRequest, "status_changed", result, userProfile.id);
     } catch (emailError) {
       console.error("Error sending status change email:", emailError);
     }
     return c.json({
-      request: updatedRequest,
+      request: toRequestForUser(updatedRequest, userProfile, settings),
+      allowed_transitions: getAllowedTransitions(updatedRequest.status, userProfile.role),
       success: true
     });
   } catch (error) {
@@ -1063,7 +2753,447 @@ app.put("/make-server-fcebfd37/requests/:requestId/status", async (c:any)=>{
     }, 500);
   }
 });
-// Get audit logs
+// Engagements group the requests raised for one audit or review
+const canManageEngagement = (userProfile, engagement)=>userProfile.role === "manager" || userProfile.id === engagement.created_by || userProfile.id === engagement.lead_auditor_id;
+// progress is the engagement's row from the engagement_progress view, missing when it has no requests
+const withEngagementProgress = (engagement, progress)=>({
+    ...engagement,
+    progress: progress || getEngagementProgress([])
+  });
+const loadEngagementProgress = async (engagement)=>(await repo.getEngagementProgressById(engagement.organisation_id, [
+    engagement.id
+  ])).get(engagement.id);
+// The lead auditor has to be a registered auditor or manager of the same organisation
+const findLeadAuditor = async (email, organisationId)=>{
+  const user = await repo.findUserByEmail(email);
+  return user && user.organisation_id === organisationId && (user.role === "auditor" || user.role === "manager") ? user : null;
+};
+// List engagements with roll-up progress
+app.get("/make-server-fcebfd37/engagements", async (c:any)=>{
+  try {
+    const { user, error } = await authenticateUser(c.req.header("Authorization"));
+    if (!user?.id || error) {
+      return c.json({
+        error: "Unauthorized"
+      }, 401);
+    }
+    const userProfile = await repo.getUser(user.id);
+    if (userProfile?.role !== "auditor" && userProfile?.role !== "manager") {
+      return c.json({
+        error: "Access denied to engagements"
+      }, 403);
+    }
+    const [engagements, progress] = await Promise.all([
+      repo.listEngagements(userProfile.organisation_id),
+      repo.getEngagementProgressById(userProfile.organisation_id)
+    ]);
+    return c.json({
+      engagements: engagements.map((engagement)=>withEngagementProgress(engagement, progress.get(engagement.id)))
+    });
+  } catch (error) {
+    console.error("Engagements fetch error:", error);
+    return c.json({
+      error: "Internal server error while fetching engagements"
+    }, 500);
+  }
+});
+// Get one engagement and its requests
+app.get("/make-server-fcebfd37/engagements/:engagementId", async (c:any)=>{
+  try {
+    const { user, error } = await authenticateUser(c.req.header("Authorization"));
+    if (!user?.id || error) {
+      return c.json({
+        error: "Unauthorized"
+      }, 401);
+    }
+    const userProfile = await repo.getUser(user.id);
+    if (userProfile?.role !== "auditor" && userProfile?.role !== "manager") {
+      return c.json({
+        error: "Access denied to engagements"
+      }, 403);
+    }
+    const engagement = await repo.getEngagement(c.req.param("engagementId"), user.organisation_id);
+    if (!engagement) {
+      return c.json({
+        error: "Engagement not found"
+      }, 404);
+    }
+    const [requests, progress, settings] = await Promise.all([
+      repo.listRequestsByEngagement(engagement.id),
+      loadEngagementProgress(engagement),
+      loadSettings(userProfile.organisation_id)
+    ]);
+    return c.json({
+      engagement: withEngagementProgress(engagement, progress),
+      // Same visibility as the request list
+      requests: requests.filter((req)=>getRequestAccess(userProfile, req, settings).view).map((req)=>toRequestForUser(req, userProfile, settings))
+    });
+  } catch (error) {
+    console.error("Engagement fetch error:", error);
+    return c.json({
+      error: "Internal server error while fetching engagement"
+    }, 500);
+  }
+});
+// Create an engagement
+app.post("/make-server-fcebfd37/engagements", async (c:any)=>{
+  try {
+    const { user, error } = await authenticateUser(c.req.header("Authorization"));
+    if (!user?.id || error) {
+      return c.json({
+        error: "Unauthorized"
+      }, 401);
+    }
+    const userProfile = await repo.getUser(user.id);
+    if (userProfile?.role !== "auditor" && userProfile?.role !== "manager") {
+      return c.json({
+        error: "Insufficient permissions"
+      }, 403);
+    }
+    const body = await c.req.json();
+    const { fields, error: validationError } = validateEngagementFields({
+      lead_auditor_email: userProfile.email,
+      ...body
+    }, await loadSettings(userProfile.organisation_id));
+    if (!fields) {
+      return c.json({
+        error: validationError
+      }, 400);
+    }
+    const leadAuditor = await findLeadAuditor(fields.lead_auditor_email, userProfile.organisation_id);
+    if (!leadAuditor) {
+      return c.json({
+        error: "Lead auditor must be a registered auditor or manager"
+      }, 400);
+    }
+    const engagementId = `eng_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const engagement = {
+      id: engagementId,
+      ...fields,
+      organisation_id: userProfile.organisation_id,
+      lead_auditor_id: leadAuditor.id,
+      created_by: userProfile.id,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    };
+    await repo.saveEngagement(engagement);
+    await repo.addAuditLog({
+      action: "engagement_created",
+      user_id: user.id,
+      engagement_id: engagementId,
+      timestamp: new Date().toISOString(),
+      details: {
+        name: engagement.name,
+        period: engagement.period,
+        lead_auditor_email: engagement.lead_auditor_email
+      }
+    });
+    return c.json({
+      engagement: withEngagementProgress(engagement, null),
+      success: true
+    });
+  } catch (error) {
+    console.error("Engagement creation error:", error);
+    return c.json({
+      error: "Internal server error while creating engagement"
+    }, 500);
+  }
+});
+// Update an engagement (manager, creator or lead auditor)
+app.put("/make-server-fcebfd37/engagements/:engagementId", async (c:any)=>{
+  try {
+    const { user, error } = await authenticateUser(c.req.header("Authorization"));
+    if (!user?.id || error) {
+      return c.json({
+        error: "Unauthorized"
+      }, 401);
+    }
+    const userProfile = await repo.getUser(user.id);
+    const engagement = await repo.getEngagement(c.req.param("engagementId"), user.organisation_id);
+    if (!engagement) {
+      return c.json({
+        error: "Engagement not found"
+      }, 404);
+    }
+    if (!userProfile || !canManageEngagement(userProfile, engagement)) {
+      return c.json({
+        error: "Only a manager or the engagement's lead auditor can edit it"
+      }, 403);
+    }
+    const body = await c.req.json();
+    const { fields, error: validationError } = validateEngagementFields(body, await loadSettings(userProfile.organisation_id), engagement);
+    if (!fields) {
+      return c.json({
+        error: validationError
+      }, 400);
+    }
+    let leadAuditorId = engagement.lead_auditor_id;
+    if (fields.lead_auditor_email !== engagement.lead_auditor_email) {
+      const leadAuditor = await findLeadAuditor(fields.lead_auditor_email, userProfile.organisation_id);
+      if (!leadAuditor) {
+        return c.json({
+          error: "Lead auditor must be a registered auditor or manager"
+        }, 400);
+      }
+      leadAuditorId = leadAuditor.id;
+    }
+    const changes = Object.keys(fields).filter((key)=>JSON.stringify(fields[key]) !== JSON.stringify(engagement[key]));
+    const updatedEngagement = {
+      ...engagement,
+      ...fields,
+      lead_auditor_id: leadAuditorId,
+      updated_at: new Date().toISOString()
+    };
+    await repo.saveEngagement(updatedEngagement);
+    await repo.addAuditLog({
+      action: "engagement_updated",
+      user_id: user.id,
+      engagement_id: engagement.id,
+      timestamp: new Date().toISOString(),
+      details: {
+        name: updatedEngagement.name,
+        changed_fields: changes,
+        old_status: engagement.status,
+        new_status: updatedEngagement.status
+      }
+    });
+    return c.json({
+      engagement: withEngagementProgress(updatedEngagement, await loadEngagementProgress(updatedEngagement)),
+      success: true
+    });
+  } catch (error) {
+    console.error("Engagement update error:", error);
+    return c.json({
+      error: "Internal server error while updating engagement"
+    }, 500);
+  }
+});
+// Delete an engagement that has no requests (managers only)
+app.delete("/make-server-fcebfd37/engagements/:engagementId", async (c:any)=>{
+  try {
+    const { user, error } = await authenticateUser(c.req.header("Authorization"));
+    if (!user?.id || error) {
+      return c.json({
+        error: "Unauthorized"
+      }, 401);
+    }
+    const userProfile = await repo.getUser(user.id);
+    if (userProfile?.role !== "manager") {
+      return c.json({
+        error: "Only managers can delete engagements"
+      }, 403);
+    }
+    const engagement = await repo.getEngagement(c.req.param("engagementId"), user.organisation_id);
+    if (!engagement) {
+      return c.json({
+        error: "Engagement not found"
+      }, 404);
+    }
+    const requests = await repo.listRequestsByEngagement(engagement.id);
+    if (requests.length > 0) {
+      return c.json({
+        error: `Engagement still has ${requests.length} request(s); close it instead`
+      }, 409);
+    }
+    await repo.deleteEngagement(engagement.id);
+    await repo.addAuditLog({
+      action: "engagement_deleted",
+      user_id: user.id,
+      engagement_id: engagement.id,
+      timestamp: new Date().toISOString(),
+      details: {
+        name: engagement.name,
+        period: engagement.period
+      }
+    });
+    return c.json({
+      success: true
+    });
+  } catch (error) {
+    console.error("Engagement delete error:", error);
+    return c.json({
+      error: "Internal server error while deleting engagement"
+    }, 500);
+  }
+});
+// Due-date reminders and overdue escalation. Meant to run once a day, e.g. from pg_cron via pg_net:
+//   select net.http_post(url := '<functions url>/make-server-fcebfd37/jobs/reminders',
+//     headers := '{"Authorization": "Bearer <CRON_SECRET>"}'::jsonb);
+// Every reminder sent is recorded under its reminder: key so repeated runs never email twice.
+// The scheduler covers every organisation; a manager running it by hand covers their own.
+const runReminderJob = async (dryRun = false, organisationId = null)=>{
+  const config = getReminderConfig();
+  const now = new Date();
+  const [allRequests, users] = await Promise.all([
+    repo.listAllRequests(),
+    repo.listAllUsers()
+  ]);
+  const requests = organisationId ? allRequests.filter((request)=>request.organisation_id === organisationId) : allRequests;
+  // Escalations go to the managers of the request's organisation
+  const managerEmailsFor = (request)=>config.escalation_emails.length > 0 ? config.escalation_emails : users.filter((u)=>u.role === "manager" && u.organisation_id === request.organisation_id).map((u)=>u.email);
+  const summary = {
+    checked: requests.length,
+    sent: [],
+    skipped: 0,
+    failed: [],
+    dry_run: dryRun
+  };
+  for (const request of requests){
+    for (const reminder of planReminders(request, config, now)){
+      if (await kv.get(reminder.key)) {
+        summary.skipped++;
+        continue;
+      }
+      // Assignees who have not signed up yet are reminded at the address they were invited at
+      const auditee = users.find((u)=>u.id === request.assigned_to) || (request.pending_assignment && request.assigned_to_email ? {
+        id: null,
+        email: request.assigned_to_email,
+        name: request.assigned_to_email,
+        role: "auditee"
+      } : null);
+      const auditor = users.find((u)=>u.id === request.created_by);
+      const recipients = reminder.kind === "escalation" ? [
+        ...new Set([
+          auditor?.email,
+          ...managerEmailsFor(request)
+        ].filter(Boolean))
+      ] : auditee ? [
+        auditee.email
+      ] : [];
+      if (recipients.length === 0) {
+        summary.failed.push({
+          request_id: request.id,
+          kind: reminder.kind,
+          error: "No recipients"
+        });
+        continue;
+      }
+      if (dryRun) {
+        summary.sent.push({
+          request_id: request.id,
+          kind: reminder.kind,
+          recipients
+        });
+        continue;
+      }
+      try {
+        const result = reminder.kind === "escalation" ? await triggerEscalationEmail({
+          ...request,
+          assigned_to_email: auditee?.email || "Unassigned"
+        }, recipients, -reminder.days_until_due) : await triggerDueDateReminderEmail(request, auditee, reminder.days_until_due);
+        if (!result.success) {
+          summary.failed.push({
+            request_id: request.id,
+            kind: reminder.kind,
+            error: result.error
+          });
+          continue;
+        }
+        const sentAt = new Date().toISOString();
+        await kv.set(reminder.key, {
+          request_id: request.id,
+          kind: reminder.kind,
+          recipients,
+          sent_at: sentAt
+        });
+        await repo.addAuditLog({
+          action: reminder.kind === "escalation" ? "overdue_escalated" : "reminder_sent",
+          user_id: "system",
+          request_id: request.id,
+          timestamp: sentAt,
+          details: {
+            reminder_type: reminder.kind,
+            days_until_due: reminder.days_until_due,
+            due_date: request.due_date,
+            recipients
+          }
+        });
+        summary.sent.push({
+          request_id: request.id,
+          kind: reminder.kind,
+          recipients
+        });
+      } catch (emailError) {
+        console.error(`Error sending ${reminder.kind} reminder for ${request.id}:`, emailError);
+        summary.failed.push({
+          request_id: request.id,
+          kind: reminder.kind,
+          error: emailError.message
+        });
+      }
+    }
+  }
+  return summary;
+};
+// Run the reminder job - called by the scheduler with CRON_SECRET, or manually by a manager
+app.post("/make-server-fcebfd37/jobs/reminders", async (c:any)=>{
+  try {
+    const authHeader = c.req.header("Authorization");
+    const cronSecret = Deno.env.get("CRON_SECRET");
+    const isScheduler = !!cronSecret && authHeader === `Bearer ${cronSecret}`;
+    let organisationId = null;
+    if (!isScheduler) {
+      const { user, error } = await authenticateUser(authHeader);
+      if (!user?.id || error) {
+        return c.json({
+          error: "Unauthorized"
+        }, 401);
+      }
+      const userProfile = await repo.getUser(user.id);
+      if (userProfile?.role !== "manager") {
+        return c.json({
+          error: "Only managers can run the reminder job"
+        }, 403);
+      }
+      organisationId = userProfile.organisation_id;
+    }
+    const body = await c.req.json().catch(()=>({}));
+    const summary = await runReminderJob(body?.dry_run === true, organisationId);
+    console.log("Reminder job finished:", JSON.stringify({
+      sent: summary.sent.length,
+      skipped: summary.skipped,
+      failed: summary.failed.length
+    }));
+    return c.json({
+      ...summary,
+      success: true
+    });
+  } catch (error) {
+    console.error("Reminder job error:", error);
+    return c.json({
+      error: "Internal server error while running reminders"
+    }, 500);
+  }
+});
+// The user filter accepts an email address as well as a user id. An unknown email matches nothing.
+const resolveAuditLogUser = async (query)=>{
+  if (!query.user || !query.user.includes("@")) return {
+    userId: query.user
+  };
+  const filterUser = await repo.findUserByEmail(query.user);
+  return filterUser ? {
+    userId: filterUser.id
+  } : {
+    noMatch: true
+  };
+};
+// Audit entries and emails about a request follow the request's own access rules. Filtering happens
+// after the page is read, so a page can come back short; next_cursor still continues after it.
+const redactForUser = async (userProfile, records, redact)=>{
+  const requestIds = [
+    ...new Set(records.map((record)=>record.request_id).filter(Boolean))
+  ];
+  const [requests, settings] = await Promise.all([
+    repo.getRequestsByIds(requestIds, userProfile.organisation_id),
+    loadSettings(userProfile.organisation_id)
+  ]);
+  const access = new Map(requests.map((request)=>[
+      request.id,
+      getRequestAccess(userProfile, request, settings)
+    ]));
+  return records.map((record)=>redact(record, access.get(record.request_id))).filter(Boolean);
+};
+// Get audit logs (filtered by the query string, optionally one page at a time)
 app.get("/make-server-fcebfd37/audit-logs", async (c : any)=>{
   try {
     const { user, error } = await authenticateUser(c.req.header("Authorization"));
@@ -1072,16 +3202,30 @@ app.get("/make-server-fcebfd37/audit-logs", async (c : any)=>{
         error: "Unauthorized"
       }, 401);
     }
-    const userProfile = await kv.get(`user:${user.id}`);
+    const userProfile = await repo.getUser(user.id);
     if (userProfile?.role !== "auditor" && userProfile?.role !== "manager") {
       return c.json({
         error: "Access denied to audit logs"
       }, 403);
     }
-    const auditLogs = await kv.getByPrefix("audit_log:");
-    const sortedLogs = auditLogs.sort((a, b)=>new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+    const { query, error: queryError } = parseAuditLogQuery(c.req.query());
+    if (queryError) {
+      return c.json({
+        error: queryError
+      }, 400);
+    }
+    const { userId, noMatch } = await resolveAuditLogUser(query);
+    if (noMatch) {
+      return c.json({
+        logs: [],
+        total: 0,
+        next_cursor: null
+      });
+    }
+    const page = await repo.queryAuditLogs(userProfile.organisation_id, query, userId);
     return c.json({
-      logs: sortedLogs
+      ...page,
+      logs: await redactForUser(userProfile, page.logs, redactAuditEntry)
     });
   } catch (error) {
     console.error("Audit logs fetch error:", error);
@@ -1090,6 +3234,126 @@ app.get("/make-server-fcebfd37/audit-logs", async (c : any)=>{
     }, 500);
   }
 });
+// Export the filtered audit trail as CSV or JSON with a signed manifest for external auditors
+app.get("/make-server-fcebfd37/audit-logs/export", async (c:any)=>{
+  try {
+    const { user, error } = await authenticateUser(c.req.header("Authorization"));
+    if (!user?.id || error) {
+      return c.json({
+        error: "Unauthorized"
+      }, 401);
+    }
+    const userProfile = await repo.getUser(user.id);
+    if (userProfile?.role !== "auditor" && userProfile?.role !== "manager") {
+      return c.json({
+        error: "Access denied to audit logs"
+      }, 403);
+    }
+    const format = c.req.query("format") || "csv";
+    if (!AUDIT_EXPORT_FORMATS.includes(format)) {
+      return c.json({
+        error: `format must be one of ${AUDIT_EXPORT_FORMATS.join(", ")}`
+      }, 400);
+    }
+    if (!isAuditExportSigningConfigured()) {
+      return c.json({
+        error: "Audit log export is not available: no signing key is configured"
+      }, 503);
+    }
+    // Exports always contain the whole filtered set, never a single page
+    const { query, error: queryError } = parseAuditLogQuery({
+      ...c.req.query(),
+      limit: undefined,
+      cursor: undefined
+    });
+    if (queryError) {
+      return c.json({
+        error: queryError
+      }, 400);
+    }
+    const { userId, noMatch } = await resolveAuditLogUser(query);
+    const { logs: matched } = noMatch ? {
+      logs: []
+    } : await repo.queryAuditLogs(userProfile.organisation_id, query, userId);
+    // Redacted before rendering, so the file and its signed manifest only hold what the user may see
+    const logs = await redactForUser(userProfile, matched, redactAuditEntry);
+    const chain = await verifyAuditChain(userProfile.organisation_id, await repo.listAuditLogChain(userProfile.organisation_id));
+    const generatedAt = new Date().toISOString();
+    const exportId = `export_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const filename = `audit-log-${generatedAt.slice(0, 10)}-${exportId}.${format}`;
+    const content = renderAuditExport(logs, format);
+    const manifest = await buildSignedManifest({
+      export_id: exportId,
+      generated_at: generatedAt,
+      generated_by: {
+        id: userProfile.id,
+        email: userProfile.email
+      },
+      format,
+      filename,
+      filters: describeAuditLogQuery(query),
+      entries: logs,
+      content,
+      chain: {
+        valid: chain.valid,
+        latest_id: chain.latest_id,
+        latest_hash: chain.latest_hash
+      }
+    });
+    await repo.addAuditLog({
+      action: "audit_log_exported",
+      user_id: user.id,
+      timestamp: generatedAt,
+      details: {
+        export_id: exportId,
+        format,
+        filters: manifest.filters,
+        entry_count: manifest.entry_count,
+        content_sha256: manifest.content_sha256
+      }
+    });
+    return c.json({
+      filename,
+      content,
+      manifest
+    });
+  } catch (error) {
+    console.error("Audit log export error:", error);
+    return c.json({
+      error: "Internal server error while exporting audit logs"
+    }, 500);
+  }
+});
+// Recompute the audit log hash chain and report whether it is intact
+app.get("/make-server-fcebfd37/audit-logs/verify", async (c:any)=>{
+  try {
+    const { user, error } = await authenticateUser(c.req.header("Authorization"));
+    if (!user?.id || error) {
+      return c.json({
+        error: "Unauthorized"
+      }, 401);
+    }
+    const userProfile = await repo.getUser(user.id);
+    if (userProfile?.role !== "auditor" && userProfile?.role !== "manager") {
+      return c.json({
+        error: "Access denied to audit logs"
+      }, 403);
+    }
+    const verification = await verifyAuditChain(userProfile.organisation_id, await repo.listAuditLogChain(userProfile.organisation_id));
+    if (!verification.valid) {
+      console.error("Audit log chain broken:", JSON.stringify(verification.broken_at));
+    }
+    return c.json({
+      ...verification,
+      verified_at: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error("Audit log verification error:", error);
+    return c.json({
+      error: "Internal server error while verifying audit logs"
+    }, 500);
+  }
+});
 // Send departmental analysis report via email
 app.post("/make-server-fcebfd37/send-report", async (c:any)=>{
   try {
@@ -1099,7 +3363,7 @@ app.post("/make-server-fcebfd37/send-report", async (c:any)=>{
         error: "Unauthorized"
       }, 401);
     }
-    const userProfile = await kv.get(`user:${user.id}`);
+    const userProfile = await repo.getUser(user.id);
     if (userProfile?.role !== "auditor" && userProfile?.role !== "manager") {
       return c.json({
         error: "Access denied to send reports"
@@ -1124,7 +3388,7 @@ app.post("/make-server-fcebfd37/send-report", async (c:any)=>{
     try {
       const success = await sendEmailViaSupabase([
         to
-      ], subject, emailBody);
+      ], subject, emailBody, [], userProfile.organisation_id);
       if (!success) {
         console.error("Failed to send report email");
         return c.json({
@@ -1137,20 +3401,21 @@ app.post("/make-server-fcebfd37/send-report", async (c:any)=>{
         error: "Error while sending report email"
       }, 500);
     }
-    // Store metadata in KV (audit trail)
+    // Store metadata in the email log (audit trail)
     const emailId = `email_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    await kv.set(`email:${emailId}`, {
+    await repo.recordEmail({
       id: emailId,
       to,
       subject,
       body: emailBody,
+      organisation_id: userProfile.organisation_id,
       sent_by: user.id,
       sent_at: new Date().toISOString(),
       status: "sent",
       email_type: "departmental_report"
     });
     // Log audit
-    await kv.set(`audit_log:${Date.now()}:${user.id}`, {
+    await repo.addAuditLog({
       action: "report_emailed",
       user_id: user.id,
       timestamp: new Date().toISOString(),
@@ -1180,16 +3445,15 @@ app.get("/make-server-fcebfd37/emails", async (c:any)=>{
         error: "Unauthorized"
       }, 401);
     }
-    const userProfile = await kv.get(`user:${user.id}`);
+    const userProfile = await repo.getUser(user.id);
     if (userProfile?.role !== "auditor" && userProfile?.role !== "manager") {
       return c.json({
         error: "Access denied to email logs"
       }, 403);
     }
-    const emails = await kv.getByPrefix("email:");
-    const sortedEmails = emails.sort((a, b)=>new Date(b.sent_at).getTime() - new Date(a.sent_at).getTime()).slice(0, 50); // limit to 50 most recent
+    const emails = await repo.listRecentEmails(userProfile.organisation_id, 50); // limit to 50 most recent
     return c.json({
-      emails: sortedEmails
+      emails: await redactForUser(userProfile, emails, redactEmailRecord)
     });
   } catch (error) {
     console.error("Email fetch error:", error);
@@ -1199,22 +3463,21 @@ app.get("/make-server-fcebfd37/emails", async (c:any)=>{
   }
 });
 app.get("/make-server-fcebfd37/debug-session/:token", async (c:any)=>{
+  const denied = await requireDebugAccess(c);
+  if (denied) return denied;
   const token = c.req.param("token");
-  console.log(`Debug - Looking for session: ${token}`);
-  const sessionData = await kv.get(token);
-  console.log(`Debug - Found session:`, sessionData);
+  const sessionData = await repo.getSession(token);
   return c.json({
     token,
     sessionData
   });
 });
-// Add this temporary debugging endpoint
 app.get("/make-server-fcebfd37/debug-otp/:email", async (c:any)=>{
+  const denied = await requireDebugAccess(c);
+  if (denied) return denied;
   const email = c.req.param("email");
   const otpKey = `login_otp:${email.toLowerCase()}`;
-  console.log(`Debug - Looking for key: ${otpKey}`);
   const rec = await kv.get(otpKey);
-  console.log(`Debug - Found record:`, rec);
   return c.json({
     key: otpKey,
     record: rec
@@ -0,0 +1,48 @@
+// log-redaction.tsx - Masks session tokens, OTP codes and email addresses in log output.
+// Outside development mode every console method is wrapped, so nothing logged by the handlers,
+// the email helpers or the request logger reaches the platform logs with credentials in it.
+import { isDevelopmentMode } from "./server-mode.tsx";
+
+// Values under these keys are replaced outright, whatever they look like
+const SENSITIVE_KEYS = ["code", "otp", "debug_otp", "token", "session_token", "access_token", "refresh_token", "refresh_token_hash", "authorization"];
+
+const PATTERNS: [RegExp, (match: string, ...groups: string[])=>string][] = [
+  [/Bearer\s+[^\s"',]+/gi, ()=>"Bearer [redacted]"],
+  [/otp_session_[A-Za-z0-9_]+/g, ()=>"otp_session_[redacted]"],
+  [/otp_refresh_[A-Za-z0-9_]+/g, ()=>"otp_refresh_[redacted]"],
+  [/eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g, ()=>"[redacted jwt]"],
+  // Keep the first character and the domain so support can still tell accounts apart
+  [/([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([A-Za-z0-9.-]+\.[A-Za-z]{2,})/g, (_match, first, domain)=>`${first}***@${domain}`],
+  // OTP codes are six digits
+  [/\b\d{6}\b/g, ()=>"[redacted code]"]
+];
+
+export const redactText = (text: string): string =>
+  PATTERNS.reduce((result, [pattern, replace])=>result.replace(pattern, replace as any), text);
+
+export const redactValue = (value: any, seen = new WeakSet()): any => {
+  if (typeof value === "string") return redactText(value);
+  if (value instanceof Error) {
+    const error = new Error(redactText(value.message));
+    error.stack = value.stack ? redactText(value.stack) : undefined;
+    return error;
+  }
+  if (!value || typeof value !== "object") return value;
+  // Dates have no own keys and would otherwise log as {}
+  if (value instanceof Date) return value;
+  if (seen.has(value)) return "[circular]";
+  seen.add(value);
+  if (Array.isArray(value)) return value.map((item)=>redactValue(item, seen));
+  return Object.fromEntries(Object.entries(value).map(([key, entry])=>[
+      key,
+      SENSITIVE_KEYS.includes(key.toLowerCase()) && entry !== null && entry !== undefined ? "[redacted]" : redactValue(entry, seen)
+    ]));
+};
+
+export const installLogRedaction = () => {
+  if (isDevelopmentMode()) return;
+  for (const method of ["log", "info", "warn", "error", "debug"] as const) {
+    const original = console[method].bind(console);
+    console[method] = (...args: any[])=>original(...args.map((arg)=>redactValue(arg)));
+  }
+};
@@ -0,0 +1,215 @@
+// org-settings.tsx - Organisations and their settings, and the checks that read from them: allowed
+// email domains, the department catalogue, confidential departments, session and OTP lifetimes
+// and branding. Every user, request, document, email and audit entry belongs to one organisation;
+// a user's organisation is the one whose allowed domains include their email address.
+// Settings are cached per isolate for a short time so every request does not hit the database;
+// saving through this module refreshes the cache straight away.
+import * as repo from "./repository.tsx";
+
+export interface OrganisationSettings {
+  id?: string;
+  organisation_name: string;
+  product_name: string;
+  logo_url: string | null;
+  allowed_email_domains: string[];
+  departments: string[];
+  confidential_departments: string[];
+  otp_expiry_minutes: number;
+  access_token_minutes: number;
+  refresh_idle_days: number;
+  session_absolute_days: number;
+  idle_timeout_minutes: number;
+  // Who may take the manager role at signup while the organisation has no manager
+  first_manager_email?: string | null;
+  updated_at?: string;
+  updated_by?: string | null;
+}
+
+// The organisation that held all data before there were several
+export const DEFAULT_ORGANISATION_ID = "default";
+
+// Used until the default organisation's row exists; matches the seed in the organisation_settings migration
+export const DEFAULT_SETTINGS: OrganisationSettings = {
+  organisation_name: "Ecobank",
+  product_name: "ADERM",
+  logo_url: null,
+  allowed_email_domains: ["ecobank.com"],
+  departments: ["Finance", "Human Resources", "IT", "Legal", "Operations", "Marketing", "Sales", "Procurement", "Compliance"],
+  confidential_departments: ["Human Resources"],
+  otp_expiry_minutes: 10,
+  access_token_minutes: 15,
+  refresh_idle_days: 7,
+  session_absolute_days: 30,
+  idle_timeout_minutes: 30
+};
+
+// Whole-number settings and the range each may take
+export const NUMERIC_SETTINGS: Record<string, [number, number]> = {
+  otp_expiry_minutes: [1, 60],
+  access_token_minutes: [5, 60],
+  refresh_idle_days: [1, 30],
+  session_absolute_days: [1, 90],
+  idle_timeout_minutes: [2, 480]
+};
+
+// Picked by auditors as a free-text department, so it cannot be part of the catalogue
+const RESERVED_DEPARTMENT = "other";
+
+const CACHE_TTL_MS = 30 * 1000;
+
+const cached = new Map<string, { settings: OrganisationSettings; loaded_at: number }>();
+let cachedList: { organisations: OrganisationSettings[]; loaded_at: number } | null = null;
+
+const isFresh = (entry: { loaded_at: number } | null | undefined) => !!entry && Date.now() - entry.loaded_at < CACHE_TTL_MS;
+
+export const loadSettings = async (organisationId = DEFAULT_ORGANISATION_ID): Promise<OrganisationSettings> => {
+  const entry = cached.get(organisationId);
+  if (entry && isFresh(entry)) return entry.settings;
+  const row = await repo.getOrganisationSettings(organisationId);
+  const settings = { ...DEFAULT_SETTINGS, ...row || {}, id: organisationId };
+  cached.set(organisationId, { settings, loaded_at: Date.now() });
+  return settings;
+};
+
+// Every organisation, by name
+export const listOrganisations = async (): Promise<OrganisationSettings[]> => {
+  if (cachedList && isFresh(cachedList)) return cachedList.organisations;
+  const rows = await repo.listOrganisationSettings();
+  const organisations = rows.length > 0 ? rows.map((row)=>({ ...DEFAULT_SETTINGS, ...row })) : [{ ...DEFAULT_SETTINGS, id: DEFAULT_ORGANISATION_ID }];
+  cachedList = { organisations, loaded_at: Date.now() };
+  return organisations;
+};
+
+const remember = (organisationId: string, saved: any) => {
+  const settings = { ...DEFAULT_SETTINGS, ...saved, id: organisationId };
+  cached.set(organisationId, { settings, loaded_at: Date.now() });
+  cachedList = null;
+  return settings;
+};
+
+export const saveSettings = async (organisationId: string, settings: OrganisationSettings, updatedBy: string) =>
+  remember(organisationId, await repo.saveOrganisationSettings(organisationId, {
+    ...settings,
+    updated_at: new Date().toISOString(),
+    updated_by: updatedBy
+  }));
+
+export const createOrganisation = async (organisationId: string, settings: OrganisationSettings, createdBy: string) =>
+  remember(organisationId, await repo.createOrganisation(organisationId, {
+    ...settings,
+    updated_at: new Date().toISOString(),
+    updated_by: createdBy
+  }));
+
+// Lower-case letters, digits and dashes, e.g. "ecobank-ghana"
+export const isValidOrganisationId = (id: string) => /^[a-z0-9](?:[a-z0-9-]{0,38}[a-z0-9])?$/.test(id);
+
+const uniqueTrimmed = (values: any) =>
+  Array.isArray(values) ? [...new Map(values.map((value)=>String(value ?? "").trim()).filter(Boolean).map((value)=>[value.toLowerCase(), value])).values()] : null;
+
+// Merge a partial update into the current settings, or explain what is wrong with it. Other
+// organisations are passed so that no email domain is allowed by two of them.
+export const validateSettings = (current: OrganisationSettings, input: any, others: OrganisationSettings[] = []): { settings?: OrganisationSettings; error?: string } => {
+  const next: OrganisationSettings = { ...current };
+
+  for (const field of ["organisation_name", "product_name"]) {
+    if (input[field] === undefined) continue;
+    const value = String(input[field] ?? "").trim();
+    if (!value || value.length > 80) return { error: `${field} must be between 1 and 80 characters` };
+    (next as any)[field] = value;
+  }
+
+  if (input.logo_url !== undefined) {
+    const value = String(input.logo_url ?? "").trim();
+    if (value && !/^https:\/\/\S+$/i.test(value)) return { error: "logo_url must be an https:// address" };
+    next.logo_url = value || null;
+  }
+
+  if (input.allowed_email_domains !== undefined) {
+    const domains = uniqueTrimmed(input.allowed_email_domains)?.map((domain)=>domain.toLowerCase().replace(/^@/, ""));
+    if (!domains || domains.length === 0) return { error: "At least one allowed email domain is required" };
+    const invalid = domains.filter((domain)=>!/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain));
+    if (invalid.length > 0) return { error: `Invalid email domains: ${invalid.join(", ")}` };
+    const taken = domains.filter((domain)=>others.some((other)=>other.id !== current.id && other.allowed_email_domains.includes(domain)));
+    if (taken.length > 0) return { error: `Already allowed by another organisation: ${taken.join(", ")}` };
+    next.allowed_email_domains = domains;
+  }
+
+  if (input.departments !== undefined) {
+    const departments = uniqueTrimmed(input.departments);
+    if (!departments || departments.length === 0) return { error: "At least one department is required" };
+    if (departments.some((department)=>department.length > 60)) return { error: "Department names must be at most 60 characters" };
+    if (departments.some((department)=>department.toLowerCase() === RESERVED_DEPARTMENT)) {
+      return { error: `"Other" is always offered for custom departments and cannot be added to the list` };
+    }
+    next.departments = departments;
+  }
+
+  if (input.confidential_departments !== undefined) {
+    const confidential = uniqueTrimmed(input.confidential_departments);
+    if (!confidential) return { error: "confidential_departments must be a list" };
+    next.confidential_departments = confidential;
+  }
+  const unknown = next.confidential_departments.filter((department)=>!next.departments.some((d)=>d.toLowerCase() === department.toLowerCase()));
+  if (unknown.length > 0) return { error: `Confidential departments must be in the department list: ${unknown.join(", ")}` };
+
+  for (const [field, [min, max]] of Object.entries(NUMERIC_SETTINGS)) {
+    if (input[field] === undefined) continue;
+    const value = Number(input[field]);
+    if (!Number.isInteger(value) || value < min || value > max) return { error: `${field} must be a whole number from ${min} to ${max}` };
+    (next as any)[field] = value;
+  }
+  if (next.session_absolute_days < next.refresh_idle_days) {
+    return { error: "session_absolute_days cannot be shorter than refresh_idle_days" };
+  }
+
+  return { settings: next };
+};
+
+const EDITABLE_FIELDS = Object.keys(DEFAULT_SETTINGS) as (keyof OrganisationSettings)[];
+
+// Fields whose value differs, with the old and new value, for the audit trail
+export const diffSettings = (before: OrganisationSettings, after: OrganisationSettings) =>
+  Object.fromEntries(EDITABLE_FIELDS
+    .filter((field)=>JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map((field)=>[field, { from: before[field], to: after[field] }]));
+
+const emailDomain = (email: string) => String(email || "").trim().toLowerCase().split("@").pop() || "";
+
+export const isAllowedEmail = (settings: OrganisationSettings, email: string) =>
+  /^[^\s@]+@[^\s@]+$/.test(String(email || "").trim()) && settings.allowed_email_domains.includes(emailDomain(email));
+
+// "@ecobank.com", or "@a.com or @b.com" when several domains are allowed
+export const allowedDomainsLabel = (settings: OrganisationSettings) =>
+  settings.allowed_email_domains.map((domain)=>`@${domain}`).join(" or ");
+
+// The organisation a new or signing-in user belongs to, from their email domain
+export const findOrganisationForEmail = async (email: string) => {
+  const domain = emailDomain(email);
+  return (await listOrganisations()).find((organisation)=>organisation.allowed_email_domains.includes(domain)) || null;
+};
+
+// Before anyone signs in the organisation is only known from the email address they give, if any:
+// that organisation's settings, otherwise the default organisation's
+export const loadSignInSettings = async (email?: string | null): Promise<OrganisationSettings> =>
+  (email ? await findOrganisationForEmail(email) : null) || await loadSettings();
+
+// Names no domains, so signing in does not reveal which organisations use the platform
+export const emailDomainError = (settings: OrganisationSettings) =>
+  `Please use your work email address; ${settings.product_name} does not recognise this one`;
+
+export const isConfidentialDepartment = (settings: OrganisationSettings, department: string) =>
+  settings.confidential_departments.some((confidential)=>confidential.toLowerCase() === String(department || "").toLowerCase());
+
+// The catalogue spelling of a department, or null for a custom one
+export const findDepartment = (settings: OrganisationSettings, department: string) =>
+  settings.departments.find((known)=>known.toLowerCase() === String(department || "").trim().toLowerCase()) || null;
+
+// What the sign-in pages need before anyone is authenticated: branding and the code expiry, but
+// not the email domains
+export const toPublicSettings = (settings: OrganisationSettings) => ({
+  organisation_name: settings.organisation_name,
+  product_name: settings.product_name,
+  logo_url: settings.logo_url,
+  otp_expiry_minutes: settings.otp_expiry_minutes
+});
@@ -0,0 +1,192 @@
+// otp-guard.tsx - Brute-force and send-rate protection for login and signup codes.
+// Failed guesses are counted per email and per client IP; too many inside the window locks that
+// email or IP out, and every repeat lockout lasts twice as long as the one before. Sending a code
+// has a cooldown that also doubles with each resend, plus an hourly cap per email and per IP.
+import * as kv from "./kv_store.tsx";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+export const OTP_GUARD_LIMITS = {
+  // Wrong codes allowed inside the attempt window before a lockout
+  max_attempts_per_email: 5,
+  max_attempts_per_ip: 20,
+  attempt_window_ms: 15 * MINUTE_MS,
+  base_lockout_ms: 15 * MINUTE_MS,
+  max_lockout_ms: 24 * HOUR_MS,
+  // Lockouts older than this no longer make the next one longer
+  lockout_memory_ms: 24 * HOUR_MS,
+  base_resend_cooldown_ms: MINUTE_MS,
+  max_resend_cooldown_ms: 15 * MINUTE_MS,
+  max_sends_per_email_per_hour: 5,
+  max_sends_per_ip_per_hour: 20
+};
+
+export type OtpGuardScope = "email" | "ip";
+
+export interface AttemptState {
+  count: number;
+  window_started_at: string;
+  locked_until: string | null;
+  lockouts: number;
+  last_lockout_at: string | null;
+}
+
+export interface SendState {
+  sends: string[];
+  next_send_at: string;
+}
+
+export interface OtpBlock {
+  scope: OtpGuardScope;
+  retry_after: number;
+  locked_until: string;
+}
+
+const attemptKey = (scope: OtpGuardScope, value: string) => `otp_guard:attempts:${scope}:${value.toLowerCase()}`;
+const sendKey = (scope: OtpGuardScope, value: string) => `otp_guard:sends:${scope}:${value.toLowerCase()}`;
+
+const secondsUntil = (time: number, now: number) => Math.max(1, Math.ceil((time - now) / 1000));
+
+// Compare two codes in time that depends only on their length, so response timing reveals nothing
+// about how many leading digits were right
+export const timingSafeEqual = (a: string, b: string): boolean => {
+  const left = new TextEncoder().encode(String(a ?? ""));
+  const right = new TextEncoder().encode(String(b ?? ""));
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    diff |= (left[i] ?? 0) ^ (right[i] ?? 0);
+  }
+  return diff === 0;
+};
+
+// The caller's address as the platform saw it. Cloudflare, in front of Supabase, replaces any
+// cf-connecting-ip the client sends. Clients can also send x-forwarded-for, and each proxy appends
+// the address it received from, so only the last entry comes from the gateway rather than the client.
+export const getClientIp = (c: any): string =>
+  c.req.header("cf-connecting-ip")?.trim() ||
+  (c.req.header("x-forwarded-for") || "").split(",").pop()?.trim() ||
+  c.req.header("x-real-ip") ||
+  "unknown";
+
+const lockoutMs = (lockouts: number) =>
+  Math.min(OTP_GUARD_LIMITS.base_lockout_ms * 2 ** Math.max(0, lockouts - 1), OTP_GUARD_LIMITS.max_lockout_ms);
+
+const resendCooldownMs = (recentSends: number) =>
+  Math.min(OTP_GUARD_LIMITS.base_resend_cooldown_ms * 2 ** Math.max(0, recentSends - 1), OTP_GUARD_LIMITS.max_resend_cooldown_ms);
+
+// The active lockout for this email or IP, if any. Checked before a code is compared at all.
+export const getVerifyBlock = async (email: string, ip: string): Promise<OtpBlock | null> => {
+  const now = Date.now();
+  for (const [scope, value] of [["email", email], ["ip", ip]] as [OtpGuardScope, string][]) {
+    const state: AttemptState | undefined = await kv.get(attemptKey(scope, value));
+    if (state?.locked_until && new Date(state.locked_until).getTime() > now) {
+      return { scope, retry_after: secondsUntil(new Date(state.locked_until).getTime(), now), locked_until: state.locked_until };
+    }
+  }
+  return null;
+};
+
+// The failure count after one more wrong code, locking out once it reaches the limit
+export const nextAttemptState = (previous: AttemptState | undefined, limit: number, now: number): AttemptState => {
+  const windowOpen = previous && now - new Date(previous.window_started_at).getTime() < OTP_GUARD_LIMITS.attempt_window_ms;
+  const rememberedLockouts = previous?.last_lockout_at && now - new Date(previous.last_lockout_at).getTime() < OTP_GUARD_LIMITS.lockout_memory_ms
+    ? previous.lockouts
+    : 0;
+  const state: AttemptState = {
+    count: (windowOpen ? previous.count : 0) + 1,
+    window_started_at: windowOpen ? previous.window_started_at : new Date(now).toISOString(),
+    locked_until: null,
+    lockouts: rememberedLockouts,
+    last_lockout_at: previous?.last_lockout_at ?? null
+  };
+  if (state.count >= limit) {
+    state.lockouts += 1;
+    state.last_lockout_at = new Date(now).toISOString();
+    state.locked_until = new Date(now + lockoutMs(state.lockouts)).toISOString();
+    state.count = 0;
+    state.window_started_at = state.last_lockout_at;
+  }
+  return state;
+};
+
+const bumpAttempts = async (scope: OtpGuardScope, value: string, limit: number, now: number) => {
+  const key = attemptKey(scope, value);
+  const state = nextAttemptState(await kv.get(key), limit, now);
+  await kv.set(key, state);
+  return state;
+};
+
+// Count a wrong code. Returns the lockout it triggered, if any, and how many guesses the email has left.
+export const recordVerifyFailure = async (email: string, ip: string): Promise<{ block: OtpBlock | null; lockouts: number; attempts_remaining: number }> => {
+  const now = Date.now();
+  const emailState = await bumpAttempts("email", email, OTP_GUARD_LIMITS.max_attempts_per_email, now);
+  const ipState = await bumpAttempts("ip", ip, OTP_GUARD_LIMITS.max_attempts_per_ip, now);
+  const locked = emailState.locked_until ? { scope: "email" as OtpGuardScope, state: emailState, until: emailState.locked_until }
+    : ipState.locked_until ? { scope: "ip" as OtpGuardScope, state: ipState, until: ipState.locked_until }
+    : null;
+  return {
+    block: locked ? {
+      scope: locked.scope,
+      retry_after: secondsUntil(new Date(locked.until).getTime(), now),
+      locked_until: locked.until
+    } : null,
+    lockouts: locked?.state.lockouts ?? 0,
+    attempts_remaining: emailState.locked_until ? 0 : OTP_GUARD_LIMITS.max_attempts_per_email - emailState.count
+  };
+};
+
+// A correct code clears the email's failures; the IP keeps its count so one valid account can't reset it
+export const clearVerifyFailures = async (email: string) => {
+  const key = attemptKey("email", email);
+  const state: AttemptState | undefined = await kv.get(key);
+  if (state) {
+    await kv.set(key, { ...state, count: 0, locked_until: null });
+  }
+};
+
+const recentSends = (state: SendState | undefined, now: number) =>
+  (state?.sends || []).filter((sentAt)=>now - new Date(sentAt).getTime() < HOUR_MS);
+
+// The cooldown or hourly cap that stops a code being sent, given the email's and the IP's sends
+export const findSendBlock = (emailState: SendState | undefined, ipState: SendState | undefined, now: number): OtpBlock | null => {
+  const block = (scope: OtpGuardScope, until: number): OtpBlock => ({
+    scope,
+    retry_after: secondsUntil(until, now),
+    locked_until: new Date(until).toISOString()
+  });
+
+  if (emailState && new Date(emailState.next_send_at).getTime() > now) {
+    return block("email", new Date(emailState.next_send_at).getTime());
+  }
+  const emailSends = recentSends(emailState, now);
+  if (emailSends.length >= OTP_GUARD_LIMITS.max_sends_per_email_per_hour) {
+    return block("email", new Date(emailSends[0]).getTime() + HOUR_MS);
+  }
+  const ipSends = recentSends(ipState, now);
+  if (ipSends.length >= OTP_GUARD_LIMITS.max_sends_per_ip_per_hour) {
+    return block("ip", new Date(ipSends[0]).getTime() + HOUR_MS);
+  }
+  return null;
+};
+
+// Whether a code may be sent to this email from this IP right now
+export const getSendBlock = async (email: string, ip: string): Promise<OtpBlock | null> =>
+  findSendBlock(await kv.get(sendKey("email", email)), await kv.get(sendKey("ip", ip)), Date.now());
+
+// Record a sent code and return how many seconds until the next one may be requested
+export const recordSend = async (email: string, ip: string): Promise<number> => {
+  const now = Date.now();
+  const sentAt = new Date(now).toISOString();
+  const emailSends = [...recentSends(await kv.get(sendKey("email", email)), now), sentAt];
+  const cooldown = resendCooldownMs(emailSends.length);
+  await kv.set(sendKey("email", email), {
+    sends: emailSends,
+    next_send_at: new Date(now + cooldown).toISOString()
+  });
+  await kv.set(sendKey("ip", ip), {
+    sends: [...recentSends(await kv.get(sendKey("ip", ip)), now), sentAt],
+    next_send_at: sentAt
+  });
+  return Math.ceil(cooldown / 1000);
+};
@@ -0,0 +1,73 @@
+// reminders.tsx - Due-date reminder and overdue escalation planning for the scheduled reminder job
+
+export type ReminderKind = "due_soon" | "due_today" | "overdue" | "escalation";
+
+export interface PlannedReminder {
+  kind: ReminderKind;
+  // Dedup key stored in KV once the reminder has been sent
+  key: string;
+  days_until_due: number;
+}
+
+export interface ReminderConfig {
+  days_before: number[];
+  escalate_after_days: number;
+  escalation_emails: string[];
+}
+
+// Only requests still waiting on the auditee get reminders
+export const REMINDABLE_STATUSES = ["in_progress", "rejected", "reopened"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseNumberList = (value: string | undefined, fallback: number[]): number[] => {
+  if (!value) return fallback;
+  const numbers = value.split(",").map((n)=>parseInt(n.trim(), 10)).filter((n)=>!isNaN(n) && n > 0);
+  return numbers.length > 0 ? numbers : fallback;
+};
+
+// REMINDER_DAYS_BEFORE="7,3,1", REMINDER_ESCALATION_DAYS="3", REMINDER_ESCALATION_EMAILS="a@ecobank.com;b@ecobank.com"
+export const getReminderConfig = (): ReminderConfig => {
+  const escalateAfter = parseInt(Deno.env.get("REMINDER_ESCALATION_DAYS") || "", 10);
+  return {
+    days_before: parseNumberList(Deno.env.get("REMINDER_DAYS_BEFORE"), [3, 1]).sort((a, b)=>a - b),
+    escalate_after_days: isNaN(escalateAfter) || escalateAfter < 1 ? 3 : escalateAfter,
+    escalation_emails: (Deno.env.get("REMINDER_ESCALATION_EMAILS") || "").split(/[;,]/).map((e)=>e.trim()).filter((e)=>e)
+  };
+};
+
+// Whole calendar days from today until the due date (negative once overdue), compared in UTC
+export const getDaysUntilDue = (dueDate: string, now: Date = new Date()): number | null => {
+  const due = new Date(dueDate);
+  if (isNaN(due.getTime())) return null;
+  const dueDay = Date.UTC(due.getUTCFullYear(), due.getUTCMonth(), due.getUTCDate());
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  return Math.round((dueDay - today) / DAY_MS);
+};
+
+// Work out which reminders a request is due for today. Keys include the due date so that
+// extending a deadline re-arms the reminders, while re-running the job on the same day does not.
+export const planReminders = (
+  request: { id: string; due_date: string; status: string },
+  config: ReminderConfig,
+  now: Date = new Date()
+): PlannedReminder[] => {
+  if (!REMINDABLE_STATUSES.includes(request.status)) return [];
+  const days = getDaysUntilDue(request.due_date, now);
+  if (days === null) return [];
+  const keyFor = (suffix: string)=>`reminder:${request.id}:${request.due_date}:${suffix}`;
+
+  if (days > 0) {
+    // Send the tightest window we are inside, so a missed run still produces one reminder
+    const window = config.days_before.find((n)=>days <= n);
+    return window ? [{ kind: "due_soon", key: keyFor(`before_${window}`), days_until_due: days }] : [];
+  }
+  if (days === 0) {
+    return [{ kind: "due_today", key: keyFor("due_today"), days_until_due: days }];
+  }
+  const planned: PlannedReminder[] = [{ kind: "overdue", key: keyFor("overdue"), days_until_due: days }];
+  if (-days >= config.escalate_after_days) {
+    planned.push({ kind: "escalation", key: keyFor("escalation"), days_until_due: days });
+  }
+  return planned;
+};
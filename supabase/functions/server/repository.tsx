@@ -0,0 +1,466 @@
+// repository.tsx - Data access for users, engagements, requests, documents, comments, audit logs,
+// emails, sessions and organisation settings.
+// Records live in the relational tables created by supabase/migrations/20261019090000_relational_schema.sql
+// and 20261019180000_comments_engagements.sql;
+// handlers read and write plain objects with the same shape they had in the KV store, and the
+// column lists below decide which of their fields are persisted. Lookups that take an
+// organisation id only return that organisation's records.
+import { createClient } from "jsr:@supabase/supabase-js@2.49.8";
+import { RequestQuery, encodeCursor } from "./request-query.tsx";
+import { ChainedAuditEntry, hashAuditContent } from "./audit-chain.tsx";
+import { AuditLogQuery } from "./audit-log-query.tsx";
+
+const client = () => createClient(
+  Deno.env.get("SUPABASE_URL"),
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"),
+);
+
+// PostgREST caps each response, so listings are read a page at a time
+const PAGE_SIZE = 1000;
+
+const check = <T,>({ data, error }: { data: T; error: any }): T => {
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data;
+};
+
+const selectAll = async (build: (from: number, to: number)=>any): Promise<any[]> => {
+  const rows: any[] = [];
+  for (let from = 0;; from += PAGE_SIZE) {
+    const page = check(await build(from, from + PAGE_SIZE - 1)) as any[];
+    rows.push(...page);
+    if (page.length < PAGE_SIZE) return rows;
+  }
+};
+
+// Keep only the listed columns, so fields added to a response (progress, allowed_transitions...)
+// never reach an upsert
+const pick = (record: any, columns: string[]) =>
+  Object.fromEntries(columns.filter((column)=>record[column] !== undefined).map((column)=>[column, record[column]]));
+
+// Limit a query to one organisation. A missing id matches nothing rather than every organisation.
+const inOrganisation = (query: any, organisationId: string | null | undefined) =>
+  query.eq("organisation_id", organisationId ?? "");
+
+// Escape LIKE wildcards so an email can be matched case-insensitively with ilike
+const likeLiteral = (value: string) => value.replace(/[\\%_]/g, (char)=>`\\${char}`);
+
+// ---- Users ----
+
+const USER_COLUMNS = [
+  "id", "email", "name", "role", "email_verified", "created_at", "active", "deactivated_at", "deactivated_by",
+  "last_login_at", "requested_role", "role_requested_at", "organisation_id", "group_manager"
+];
+
+export const getUser = async (id: string) =>
+  check(await client().from("users").select("*").eq("id", id).maybeSingle());
+
+export const getUsersByIds = async (ids: string[]): Promise<any[]> =>
+  ids.length === 0 ? [] : check(await client().from("users").select("*").in("id", ids));
+
+export const listUsers = async (organisationId: string): Promise<any[]> =>
+  await selectAll((from, to)=>inOrganisation(client().from("users").select("*"), organisationId).order("created_at").range(from, to));
+
+// Every organisation's users, for scheduled jobs
+export const listAllUsers = async (): Promise<any[]> =>
+  await selectAll((from, to)=>client().from("users").select("*").order("created_at").range(from, to));
+
+export const listActiveManagers = async (organisationId: string): Promise<any[]> =>
+  check(await inOrganisation(client().from("users").select("*"), organisationId).eq("role", "manager").eq("active", true));
+
+// Oldest request first
+export const listRoleRequests = async (organisationId: string): Promise<any[]> =>
+  check(await inOrganisation(client().from("users").select("*"), organisationId).not("requested_role", "is", null).order("role_requested_at"));
+
+export const findUserByEmail = async (email: string) => {
+  if (!email) return null;
+  return check(await client().from("users").select("*").ilike("email", likeLiteral(email.trim())).maybeSingle());
+};
+
+export const saveUser = async (user: any) =>
+  check(await client().from("users").upsert(pick(user, USER_COLUMNS)).select().single());
+
+export const deleteUser = async (id: string) => {
+  check(await client().from("users").delete().eq("id", id));
+};
+
+// ---- Engagements ----
+
+const ENGAGEMENT_COLUMNS = [
+  "id", "organisation_id", "name", "period", "scope", "lead_auditor_email", "lead_auditor_id", "team_emails",
+  "status", "start_date", "end_date", "created_by", "created_at", "updated_at"
+];
+
+export const getEngagement = async (id: string, organisationId: string) =>
+  check(await inOrganisation(client().from("engagements").select("*").eq("id", id), organisationId).maybeSingle());
+
+// Latest start first
+export const listEngagements = async (organisationId: string): Promise<any[]> =>
+  await selectAll((from, to)=>inOrganisation(client().from("engagements").select("*"), organisationId).order("start_date", { ascending: false }).order("id").range(from, to));
+
+export const saveEngagement = async (engagement: any) =>
+  check(await client().from("engagements").upsert(pick(engagement, ENGAGEMENT_COLUMNS)).select().single());
+
+export const deleteEngagement = async (id: string) => {
+  check(await client().from("engagements").delete().eq("id", id));
+};
+
+// Roll-up progress keyed by engagement id, from the engagement_progress view. Engagements without
+// requests have no row.
+export const getEngagementProgressById = async (organisationId: string, engagementIds?: string[]) => {
+  let query = inOrganisation(client().from("engagement_progress").select("*"), organisationId);
+  if (engagementIds) query = query.in("engagement_id", engagementIds);
+  const rows = check(await query) as any[];
+  return new Map(rows.map(({ engagement_id, organisation_id, ...progress })=>[engagement_id, progress]));
+};
+
+// ---- Requests ----
+
+const REQUEST_COLUMNS = [
+  "id", "title", "description", "due_date", "status", "department", "created_by", "assigned_to",
+  "assigned_to_email", "pending_assignment", "confidentiality", "view_access", "document_access",
+  "status_access", "cc_emails", "items", "engagement_id", "rejection", "submitted_at", "submitted_by",
+  "submission_attestation", "created_at", "updated_at", "organisation_id"
+];
+
+const listRequestsWhere = async (filter: (query: any)=>any) =>
+  await selectAll((from, to)=>filter(client().from("requests").select("*")).order("created_at").range(from, to));
+
+export const getRequest = async (id: string, organisationId: string) =>
+  check(await inOrganisation(client().from("requests").select("*").eq("id", id), organisationId).maybeSingle());
+
+// Ids go in the query string, so long lists are looked up in batches
+const ID_BATCH_SIZE = 200;
+
+export const getRequestsByIds = async (ids: string[], organisationId: string): Promise<any[]> => {
+  const requests: any[] = [];
+  for (let from = 0; from < ids.length; from += ID_BATCH_SIZE) {
+    const batch = ids.slice(from, from + ID_BATCH_SIZE);
+    requests.push(...check(await inOrganisation(client().from("requests").select("*").in("id", batch), organisationId)) as any[]);
+  }
+  return requests;
+};
+
+// Every organisation's requests, for scheduled jobs and group reporting
+export const listAllRequests = async (): Promise<any[]> => await listRequestsWhere((query)=>query);
+
+export const listRequestsByAssignee = async (userId: string) =>
+  await listRequestsWhere((query)=>query.eq("assigned_to", userId));
+
+// Requests created for an email address before its owner signed up
+export const listPendingRequestsForEmail = async (email: string) =>
+  await listRequestsWhere((query)=>query.eq("pending_assignment", true).ilike("assigned_to_email", likeLiteral(email.trim())));
+
+
+export const listRequestsByEngagement = async (engagementId: string) =>
+  await listRequestsWhere((query)=>query.eq("engagement_id", engagementId));
+
+// Everything an auditee can see: assigned to them, or waiting for them to sign up
+export const listRequestsForAuditee = async (user: { id: string; email: string }) => {
+  const [assigned, pending] = await Promise.all([
+    listRequestsByAssignee(user.id),
+    listPendingRequestsForEmail(user.email)
+  ]);
+  const byId = new Map([...assigned, ...pending].map((request)=>[request.id, request]));
+  return [...byId.values()];
+};
+
+// Quote a value for use inside a PostgREST or() filter
+const orValue = (value: string) => `"${value.replace(/["\\]/g, (char)=>`\\${char}`)}"`;
+
+const addDays = (date: string, days: number) => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+};
+
+// Conditions matching requests whose access lists name the user or their role
+const listedFor = (user: { email: string; role: string }) => {
+  const principals = orValue(`{${user.email.toLowerCase()},${user.role}}`);
+  return ["view_access", "document_access", "status_access"].map((column)=>`${column}.ov.${principals}`);
+};
+
+// Limit a requests query to what the user can see (the same rules as request-access.tsx; only
+// restricted requests are hidden from auditors) and to the filters in the query
+const filterRequests = (builder: any, user: { id: string; email: string; role: string; organisation_id: string }, query: RequestQuery) => {
+  let q = inOrganisation(builder, user.organisation_id);
+  if (user.role === "auditee") {
+    q = q.or([
+      `assigned_to.eq.${user.id}`,
+      `and(pending_assignment.is.true,assigned_to_email.ilike.${orValue(likeLiteral(user.email))})`,
+      ...listedFor(user)
+    ].join(","));
+  } else if (user.role === "auditor") {
+    q = q.or(["confidentiality.neq.restricted", `created_by.eq.${user.id}`, ...listedFor(user)].join(","));
+  }
+  if (query.statuses.length > 0) q = q.in("status", query.statuses);
+  if (query.department) q = q.eq("department", query.department);
+  if (query.assignee) q = q.ilike("assigned_to_email", likeLiteral(query.assignee));
+  if (query.created_by) q = q.eq("created_by", query.created_by);
+  if (query.engagement_id === "none") q = q.is("engagement_id", null);
+  else if (query.engagement_id) q = q.eq("engagement_id", query.engagement_id);
+  if (query.due_from) q = q.gte("due_date", query.due_from);
+  if (query.due_to) q = q.lte("due_date", query.due_to);
+  if (query.created_from) q = q.gte("created_at", query.created_from);
+  if (query.created_to) q = q.lt("created_at", addDays(query.created_to, 1));
+  if (query.overdue) {
+    q = q.lt("due_date", new Date().toISOString().slice(0, 10)).not("status", "in", "(approved,cancelled)");
+  }
+  if (query.search) {
+    const pattern = orValue(`%${likeLiteral(query.search)}%`);
+    q = q.or(["title", "description", "assigned_to_email", "department"].map((column)=>`${column}.ilike.${pattern}`).join(","));
+  }
+  return q;
+};
+
+// One page of the requests a user can see, with the total number of matches. Pages are keyed on
+// the sort column plus id, so requests created while paging never shift or repeat rows.
+export const queryRequests = async (user: { id: string; email: string; role: string; organisation_id: string }, query: RequestQuery) => {
+  const { sort, ascending, limit, cursor } = query;
+  const ordered = (builder: any) => builder.order(sort, { ascending }).order("id", { ascending });
+  if (limit === null) {
+    const requests = await selectAll((from, to)=>ordered(filterRequests(client().from("requests").select("*"), user, query)).range(from, to));
+    return { requests, total: requests.length, next_cursor: null };
+  }
+  let page = ordered(filterRequests(client().from("requests").select("*"), user, query));
+  if (cursor) {
+    const [value, id] = cursor;
+    const op = ascending ? "gt" : "lt";
+    page = page.or(`${sort}.${op}.${orValue(value)},and(${sort}.eq.${orValue(value)},id.${op}.${orValue(id)})`);
+  }
+  const [rows, count] = await Promise.all([
+    page.limit(limit + 1),
+    filterRequests(client().from("requests").select("id", { count: "exact", head: true }), user, query)
+  ]);
+  const requests = check(rows) as any[];
+  check(count);
+  const hasMore = requests.length > limit;
+  const pageRows = requests.slice(0, limit);
+  return {
+    requests: pageRows,
+    total: count.count ?? 0,
+    next_cursor: hasMore ? encodeCursor(pageRows[pageRows.length - 1], sort) : null
+  };
+};
+
+export const saveRequest = async (request: any) =>
+  check(await client().from("requests").upsert(pick(request, REQUEST_COLUMNS)).select().single());
+
+// ---- Documents ----
+
+const DOCUMENT_COLUMNS = [
+  "id", "request_id", "evidence_id", "item_id", "version", "filename", "file_path", "file_url",
+  "uploaded_by", "uploaded_at", "comments", "superseded_by", "superseded_at", "review_status",
+  "review_note", "reviewed_by", "reviewed_at", "organisation_id"
+];
+
+export const getDocument = async (id: string) =>
+  check(await client().from("documents").select("*").eq("id", id).maybeSingle());
+
+export const listDocumentsByRequest = async (requestId: string) =>
+  await selectAll((from, to)=>client().from("documents").select("*").eq("request_id", requestId).order("uploaded_at").range(from, to));
+
+export const saveDocument = async (document: any) =>
+  check(await client().from("documents").upsert(pick(document, DOCUMENT_COLUMNS)).select().single());
+
+// A newly uploaded document, or null when another upload already took its version number of the
+// same evidence item
+export const insertDocumentVersion = async (document: any) => {
+  const result = await client().from("documents").insert(pick(document, DOCUMENT_COLUMNS)).select().single();
+  if (result.error?.code === "23505") return null;
+  return check(result);
+};
+
+// ---- Comments ----
+
+const COMMENT_COLUMNS = [
+  "id", "request_id", "document_id", "parent_id", "author_id", "author_name", "author_role", "body", "mentions",
+  "created_at", "edited_at"
+];
+
+export const getComment = async (requestId: string, id: string) =>
+  check(await client().from("comments").select("*").eq("request_id", requestId).eq("id", id).maybeSingle());
+
+// Oldest first, optionally only those on one document
+export const listCommentsByRequest = async (requestId: string, documentId?: string | null) =>
+  await selectAll((from, to)=>{
+    let query = client().from("comments").select("*").eq("request_id", requestId);
+    if (documentId) query = query.eq("document_id", documentId);
+    return query.order("created_at").order("id").range(from, to);
+  });
+
+export const saveComment = async (comment: any) =>
+  check(await client().from("comments").upsert(pick(comment, COMMENT_COLUMNS)).select().single());
+
+// ---- Audit logs ----
+
+// The organisation an entry belongs to when the caller does not say: that of the request it
+// concerns, otherwise that of the user who acted. System entries without either go in the default
+// organisation's chain.
+const auditOrganisation = async (entry: { user_id: string; request_id?: string }) => {
+  if (entry.request_id) {
+    const request = check(await client().from("requests").select("organisation_id").eq("id", entry.request_id).maybeSingle());
+    if (request) return request.organisation_id;
+  }
+  if (/^[0-9a-f-]{36}$/i.test(entry.user_id)) {
+    const user = check(await client().from("users").select("organisation_id").eq("id", entry.user_id).maybeSingle());
+    if (user) return user.organisation_id;
+  }
+  return null;
+};
+
+// append_audit_log numbers and links the entry under a lock on its organisation's chain, so writers
+// never conflict. The change being audited is already saved by now: a failed append is logged
+// rather than failing the request.
+export const addAuditLog = async (entry: { action: string; user_id: string; request_id?: string; document_id?: string; engagement_id?: string; organisation_id?: string | null; timestamp?: string; details?: any }) => {
+  try {
+    const organisationId = (entry.organisation_id !== undefined ? entry.organisation_id : await auditOrganisation(entry)) || "default";
+    const row = {
+      action: entry.action,
+      user_id: entry.user_id,
+      request_id: entry.request_id ?? null,
+      document_id: entry.document_id ?? null,
+      engagement_id: entry.engagement_id ?? null,
+      organisation_id: organisationId,
+      timestamp: new Date(entry.timestamp ?? Date.now()).toISOString(),
+      // Round-trip through JSON so the hash covers exactly what jsonb will store
+      details: JSON.parse(JSON.stringify(entry.details ?? {}))
+    };
+    const contentHash = await hashAuditContent({ ...row, id: 0, prev_hash: null, hash: null });
+    return check(await client().rpc("append_audit_log", { entry: row, entry_content_hash: contentHash }));
+  } catch (error) {
+    console.error(`Failed to append audit log entry ${entry.action} for request ${entry.request_id ?? "-"}:`, error);
+    return null;
+  }
+};
+
+// An organisation's entries matching the audit trail filters, newest first. userId is the resolved
+// user filter.
+export const queryAuditLogs = async (organisationId: string, query: AuditLogQuery, userId: string | null) => {
+  const filter = (builder: any) => {
+    let q = inOrganisation(builder, organisationId);
+    if (userId) q = q.eq("user_id", userId);
+    if (query.request_id) q = q.eq("request_id", query.request_id);
+    if (query.department) q = q.eq("department", query.department);
+    if (query.actions.length > 0) q = q.in("action", query.actions);
+    if (query.from) q = q.gte("timestamp", query.from);
+    if (query.to) q = q.lt("timestamp", addDays(query.to, 1));
+    return q;
+  };
+  if (query.limit === null) {
+    const logs = await selectAll((from, to)=>filter(client().from("audit_log_entries").select("*")).order("id", { ascending: false }).range(from, to));
+    return { logs, total: logs.length, next_cursor: null };
+  }
+  let page = filter(client().from("audit_log_entries").select("*")).order("id", { ascending: false });
+  if (query.cursor) page = page.lt("id", query.cursor);
+  const [rows, count] = await Promise.all([
+    page.limit(query.limit + 1),
+    filter(client().from("audit_log_entries").select("id", { count: "exact", head: true }))
+  ]);
+  const logs = check(rows) as any[];
+  check(count);
+  const pageRows = logs.slice(0, query.limit);
+  return {
+    logs: pageRows,
+    total: count.count ?? 0,
+    next_cursor: logs.length > query.limit ? pageRows[pageRows.length - 1].id : null
+  };
+};
+
+// Oldest first, for a request's timeline
+export const listAuditLogsByRequest = async (requestId: string): Promise<any[]> =>
+  await selectAll((from, to)=>client().from("audit_logs").select("*").eq("request_id", requestId).order("id").range(from, to));
+
+// One organisation's entries oldest first, the order its hash chain is verified in
+export const listAuditLogChain = async (organisationId: string): Promise<ChainedAuditEntry[]> =>
+  await selectAll((from, to)=>inOrganisation(client().from("audit_log_entries").select("*"), organisationId).order("id").range(from, to));
+
+// ---- Emails ----
+
+// The email log keeps "to" on its records; the table stores it as the recipients array
+const toEmailRecord = (row: any) => {
+  const { recipients, ...rest } = row;
+  return { ...rest, to: recipients };
+};
+
+export const recordEmail = async (email: any) => {
+  const { to, cc, ...rest } = email;
+  check(await client().from("emails").insert({
+    ...rest,
+    recipients: Array.isArray(to) ? to : [to],
+    cc: cc || []
+  }));
+};
+
+// Most recent first
+export const listRecentEmails = async (organisationId: string, limit: number) =>
+  (check(await inOrganisation(client().from("emails").select("*"), organisationId).order("sent_at", { ascending: false }).limit(limit)) as any[]).map(toEmailRecord);
+
+// Oldest first
+export const listEmailsByRequest = async (requestId: string) =>
+  (check(await client().from("emails").select("*").eq("request_id", requestId).order("sent_at")) as any[]).map(toEmailRecord);
+
+// ---- Sessions ----
+
+export const createSession = async (session: {
+  token: string;
+  user_id: string;
+  email: string;
+  login_method: string;
+  created_at: string;
+  expires_at: string;
+  refresh_token_hash?: string;
+  refresh_expires_at?: string;
+  last_seen_at?: string;
+  ip?: string;
+  user_agent?: string;
+}) => check(await client().from("sessions").insert(session).select().single());
+
+export const getSession = async (token: string) =>
+  check(await client().from("sessions").select("*").eq("token", token).maybeSingle());
+
+export const getSessionByRefreshHash = async (refreshTokenHash: string) =>
+  check(await client().from("sessions").select("*").eq("refresh_token_hash", refreshTokenHash).maybeSingle());
+
+// Most recently used first
+export const listSessionsForUser = async (userId: string) =>
+  check(await client().from("sessions").select("*").eq("user_id", userId).order("last_seen_at", { ascending: false, nullsFirst: false })) as any[];
+
+// Keyed by the stable session id, since refreshing rotates the token
+export const updateSession = async (id: string, fields: Record<string, any>) =>
+  check(await client().from("sessions").update(fields).eq("id", id).select().single());
+
+export const deleteSessionById = async (id: string) => {
+  check(await client().from("sessions").delete().eq("id", id));
+};
+
+export const deleteSession = async (token: string) => {
+  check(await client().from("sessions").delete().eq("token", token));
+};
+
+export const deleteSessionsForUser = async (userId: string) => {
+  check(await client().from("sessions").delete().eq("user_id", userId));
+};
+
+// ---- Organisation settings ----
+
+// One row per organisation, keyed by the organisation id
+const SETTINGS_COLUMNS = [
+  "organisation_name", "product_name", "logo_url", "allowed_email_domains", "departments", "confidential_departments",
+  "otp_expiry_minutes", "access_token_minutes", "refresh_idle_days", "session_absolute_days", "idle_timeout_minutes",
+  "first_manager_email", "updated_at", "updated_by"
+];
+
+export const getOrganisationSettings = async (organisationId: string) =>
+  check(await client().from("organisation_settings").select("*").eq("id", organisationId).maybeSingle());
+
+export const listOrganisationSettings = async (): Promise<any[]> =>
+  check(await client().from("organisation_settings").select("*").order("organisation_name"));
+
+export const saveOrganisationSettings = async (organisationId: string, settings: any) =>
+  check(await client().from("organisation_settings").upsert({ ...pick(settings, SETTINGS_COLUMNS), id: organisationId }).select().single());
+
+// Fails if the organisation already exists
+export const createOrganisation = async (organisationId: string, settings: any) =>
+  check(await client().from("organisation_settings").insert({ ...pick(settings, SETTINGS_COLUMNS), id: organisationId }).select().single());
@@ -0,0 +1,158 @@
+// request-access.tsx - Who may see and act on a request. Every route that reads or changes a
+// request asks getRequestAccess (or authorizeRequest) rather than checking roles itself.
+//
+// Each request has a confidentiality level, at least "confidential" when its department is one of
+// the organisation's confidential departments:
+//   standard      auditors and managers see everything and review it
+//   confidential  auditors see the request but not its documents or discussion, and cannot change it
+//   restricted    auditors other than its creator do not see the request at all
+// Managers and the assignee are never restricted. The access lists widen this for named email
+// addresses or whole roles: view_access shows the request, document_access also its documents and
+// discussion, status_access also lets them review it and change its status.
+import { OrganisationSettings, isAllowedEmail, allowedDomainsLabel, isConfidentialDepartment } from "./org-settings.tsx";
+
+export type Confidentiality = "standard" | "confidential" | "restricted";
+
+export const CONFIDENTIALITY_LEVELS: Confidentiality[] = ["standard", "confidential", "restricted"];
+
+export type AccessList = "view_access" | "document_access" | "status_access";
+
+export const ACCESS_LISTS: AccessList[] = ["view_access", "document_access", "status_access"];
+
+// Roles that can be named on an access list; managers already have full access
+const GRANTABLE_ROLES = ["auditor", "auditee"];
+
+export interface RequestAccess {
+  confidentiality: Confidentiality;
+  // See the request and its details
+  view: boolean;
+  // See its documents, discussion and history
+  documents: boolean;
+  // Attach documents, and for the assignee submit for review
+  upload: boolean;
+  // Review checklist items, change the status and the CC list
+  status: boolean;
+  // Change the confidentiality level and access lists
+  manage_access: boolean;
+}
+
+export type RequestAction = Exclude<keyof RequestAccess, "confidentiality">;
+
+const NO_ACCESS = { view: false, documents: false, upload: false, status: false, manage_access: false };
+
+const rank = (level: Confidentiality) => CONFIDENTIALITY_LEVELS.indexOf(level);
+
+const stricter = (a: Confidentiality, b: Confidentiality) => rank(a) >= rank(b) ? a : b;
+
+export const normalizeConfidentiality = (value: unknown): Confidentiality | null =>
+  CONFIDENTIALITY_LEVELS.includes(value as Confidentiality) ? value as Confidentiality : null;
+
+// The level the rules apply: the request's own, raised to "confidential" for confidential departments
+export const getConfidentiality = (request: any, settings: OrganisationSettings): Confidentiality =>
+  stricter(normalizeConfidentiality(request.confidentiality) || "standard",
+    isConfidentialDepartment(settings, request.department) ? "confidential" : "standard");
+
+const isAssignee = (user: any, request: any) =>
+  request.assigned_to === user.id ||
+  !!request.pending_assignment && String(request.assigned_to_email || "").toLowerCase() === String(user.email || "").toLowerCase();
+
+const isListed = (user: any, list: string[] | null | undefined) =>
+  (list || []).some((entry)=>entry === user.role || entry === String(user.email || "").toLowerCase());
+
+export const getRequestAccess = (user: any, request: any, settings: OrganisationSettings): RequestAccess => {
+  const confidentiality = getConfidentiality(request, settings);
+  if (!user || !request || user.organisation_id !== request.organisation_id) return { confidentiality, ...NO_ACCESS };
+  if (user.role === "manager") {
+    return { confidentiality, view: true, documents: true, upload: false, status: true, manage_access: true };
+  }
+  if (isAssignee(user, request)) {
+    return { confidentiality, view: true, documents: true, upload: true, status: true, manage_access: false };
+  }
+  const auditor = user.role === "auditor";
+  // Only auditors review; an auditee on status_access gets document access
+  const status = auditor && (confidentiality === "standard" || isListed(user, request.status_access));
+  const documents = status || isListed(user, request.document_access) || isListed(user, request.status_access);
+  const view = documents || auditor && (confidentiality !== "restricted" || request.created_by === user.id) ||
+    isListed(user, request.view_access);
+  return { confidentiality, view, documents, upload: auditor && documents, status, manage_access: false };
+};
+
+// Why an action was refused, worded for the level that caused it
+const denial = (access: RequestAccess, action: RequestAction) => {
+  const level = access.confidentiality === "standard" ? "" : `${access.confidentiality} `;
+  const askManager = level ? " Ask a manager to add you to its access list." : "";
+  switch (action) {
+    case "documents":
+      return `Access denied to the documents and discussion of this ${level}request.${askManager}`;
+    case "status":
+      return `You cannot review or change this ${level}request.${askManager}`;
+    case "manage_access":
+      return "Only managers can change who can access a request";
+    default:
+      return "Access denied to this request";
+  }
+};
+
+// Whether the user may take the action, or the error response to send. Requests the user may not
+// even see are reported as not found.
+export const authorizeRequest = (user: any, request: any, settings: OrganisationSettings, action: RequestAction):
+  { access: RequestAccess; error?: undefined } | { access: RequestAccess; error: string; status: number; confidential: boolean } => {
+  const access = getRequestAccess(user, request, settings);
+  if (!access.view) return { access, error: "Request not found", status: 404, confidential: false };
+  if (!access[action]) return { access, error: denial(access, action), status: 403, confidential: access.confidentiality !== "standard" };
+  return { access };
+};
+
+// Validate a confidentiality level and access lists for a new request, or an update merged over the
+// existing one. Entries are addresses on the organisation's domains or the roles auditor and auditee.
+export const validateAccessFields = (input: any, settings: OrganisationSettings, existing?: any):
+  { fields?: { confidentiality: Confidentiality } & Record<AccessList, string[]>; error?: string } => {
+  const confidentiality = normalizeConfidentiality(input.confidentiality ?? existing?.confidentiality ?? "standard");
+  if (!confidentiality) return { error: `Confidentiality must be one of ${CONFIDENTIALITY_LEVELS.join(", ")}` };
+  const fields: any = { confidentiality };
+  for (const list of ACCESS_LISTS) {
+    const value = input[list] ?? existing?.[list] ?? [];
+    if (!Array.isArray(value)) return { error: `${list} must be a list` };
+    const entries = [...new Set(value.map((entry)=>String(entry).trim().toLowerCase()).filter(Boolean))];
+    const invalid = entries.filter((entry)=>!GRANTABLE_ROLES.includes(entry) && !isAllowedEmail(settings, entry));
+    if (invalid.length > 0) {
+      return { error: `Access lists take ${allowedDomainsLabel(settings)} addresses or the roles ${GRANTABLE_ROLES.join(" and ")}: ${invalid.join(", ")}` };
+    }
+    fields[list] = entries;
+  }
+  return { fields };
+};
+
+// Audit actions whose details hold more than the request itself: document names and comments,
+// review notes, rejection reasons, attestations, comment text, or the access lists
+const AUDIT_DETAIL_ACCESS: Record<string, RequestAction> = {
+  document_uploaded: "documents",
+  document_uploaded_sharepoint: "documents",
+  sharepoint_upload_summary: "documents",
+  sharepoint_upload_error: "documents",
+  auto_assigned_on_upload: "documents",
+  comment_added: "documents",
+  comment_edited: "documents",
+  item_status_updated: "documents",
+  request_submitted: "documents",
+  status_updated: "documents",
+  request_access_updated: "manage_access"
+};
+
+// An audit entry about a request as the user may see it: dropped if they cannot view the request,
+// and without its details if those need access they do not have. Redacted entries no longer match
+// their hash, so they are marked.
+export const redactAuditEntry = (entry: any, access: RequestAccess | undefined) => {
+  if (!entry.request_id) return entry;
+  if (!access?.view) return null;
+  const needed = AUDIT_DETAIL_ACCESS[entry.action];
+  return needed && !access[needed] ? { ...entry, details: {}, details_redacted: true } : entry;
+};
+
+// A logged email about a request: dropped without view access, and without its body (which
+// carries rejection reasons and comment text) without document access
+export const redactEmailRecord = (email: any, access: RequestAccess | undefined) => {
+  if (!email.request_id) return email;
+  if (!access?.view) return null;
+  return access.documents ? email : { ...email, body: null, body_redacted: true };
+};
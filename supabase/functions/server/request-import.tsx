@@ -0,0 +1,80 @@
+// request-import.tsx - Validation of rows from bulk request imports (CSV/XLSX)
+import { OrganisationSettings, isAllowedEmail, allowedDomainsLabel, findDepartment } from "./org-settings.tsx";
+
+export const MAX_IMPORT_ROWS = 500;
+
+export interface ImportRow {
+  title?: string;
+  description?: string;
+  due_date?: string;
+  assigned_to_email?: string;
+  department?: string;
+  cc_emails?: string[] | string;
+}
+
+export interface ValidatedImportRow {
+  title: string;
+  description: string;
+  due_date: string;
+  assigned_to_email: string;
+  department: string;
+  cc_emails: string[];
+}
+
+// Trimmed, lower-cased and de-duplicated, as CC lists entered in the app are
+const splitEmails = (value: string[] | string | undefined): string[] => {
+  if (!value) return [];
+  const list = Array.isArray(value) ? value : value.split(/[;,]/);
+  return [...new Set(list.map((email)=>String(email).trim().toLowerCase()).filter((email)=>email))];
+};
+
+// Validate one imported row against the organisation's email domains and department catalogue,
+// returning the cleaned fields or the list of problems found
+export const validateImportRow = (row: ImportRow, settings: OrganisationSettings): { fields?: ValidatedImportRow; errors: string[] } => {
+  const errors: string[] = [];
+  const title = String(row.title ?? "").trim();
+  const description = String(row.description ?? "").trim();
+  const dueDate = String(row.due_date ?? "").trim();
+  const assignedToEmail = String(row.assigned_to_email ?? "").trim();
+  const department = String(row.department ?? "").trim();
+  const ccEmails = splitEmails(row.cc_emails);
+
+  if (!title) errors.push("Title is required");
+  if (!description) errors.push("Description is required");
+
+  const parsedDue = new Date(dueDate);
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  if (!dueDate || isNaN(parsedDue.getTime())) {
+    errors.push(`Invalid due date "${dueDate}"`);
+  } else if (parsedDue <= today) {
+    errors.push("Due date must be in the future");
+  }
+
+  if (!isAllowedEmail(settings, assignedToEmail)) {
+    errors.push(`Assignee email "${assignedToEmail}" is not an ${allowedDomainsLabel(settings)} address`);
+  }
+
+  const knownDepartment = findDepartment(settings, department);
+  if (!knownDepartment) {
+    errors.push(`Unknown department "${department}"`);
+  }
+
+  const invalidCc = ccEmails.filter((email)=>!isAllowedEmail(settings, email));
+  if (invalidCc.length > 0) {
+    errors.push(`CC addresses must be ${allowedDomainsLabel(settings)}: ${invalidCc.join(", ")}`);
+  }
+
+  if (errors.length > 0) return { errors };
+  return {
+    errors,
+    fields: {
+      title,
+      description,
+      due_date: parsedDue.toISOString().split("T")[0],
+      assigned_to_email: assignedToEmail.toLowerCase(),
+      department: knownDepartment as string,
+      cc_emails: ccEmails
+    }
+  };
+};
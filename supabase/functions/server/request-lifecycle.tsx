@@ -0,0 +1,85 @@
+// request-lifecycle.tsx - Request status lifecycle and role-based transitions
+
+export type RequestStatus =
+  | "draft"
+  | "in_progress"
+  | "submitted"
+  | "under_review"
+  | "approved"
+  | "rejected"
+  | "reopened"
+  | "cancelled";
+
+export type UserRole = "auditor" | "auditee" | "manager";
+
+export const REQUEST_STATUSES: RequestStatus[] = [
+  "draft",
+  "in_progress",
+  "submitted",
+  "under_review",
+  "approved",
+  "rejected",
+  "reopened",
+  "cancelled"
+];
+
+const REVIEWERS: UserRole[] = ["auditor", "manager"];
+
+// For each current status, the statuses it may move to and the roles allowed to make that move
+const TRANSITIONS: Record<RequestStatus, Partial<Record<RequestStatus, UserRole[]>>> = {
+  draft: {
+    in_progress: REVIEWERS,
+    cancelled: REVIEWERS
+  },
+  in_progress: {
+    submitted: ["auditee"],
+    cancelled: REVIEWERS
+  },
+  submitted: {
+    under_review: REVIEWERS,
+    in_progress: ["auditee", ...REVIEWERS],
+    cancelled: REVIEWERS
+  },
+  under_review: {
+    approved: REVIEWERS,
+    rejected: REVIEWERS
+  },
+  approved: {
+    reopened: REVIEWERS
+  },
+  rejected: {
+    in_progress: ["auditee", ...REVIEWERS],
+    reopened: REVIEWERS,
+    cancelled: REVIEWERS
+  },
+  reopened: {
+    in_progress: ["auditee", ...REVIEWERS],
+    submitted: ["auditee"],
+    cancelled: REVIEWERS
+  },
+  cancelled: {
+    reopened: ["manager"]
+  }
+};
+
+// Statuses in which the auditee may still attach documents
+export const UPLOADABLE_STATUSES: RequestStatus[] = ["in_progress", "submitted", "rejected", "reopened"];
+
+// Normalise legacy or loosely formatted values ("Approved", "In Progress") to a known status
+export const normalizeStatus = (status: unknown): RequestStatus | null => {
+  if (typeof status !== "string") return null;
+  const normalized = status.trim().toLowerCase().replace(/[\s-]+/g, "_");
+  return REQUEST_STATUSES.includes(normalized as RequestStatus) ? normalized as RequestStatus : null;
+};
+
+export const getAllowedTransitions = (currentStatus: unknown, role: string): RequestStatus[] => {
+  const from = normalizeStatus(currentStatus);
+  if (!from) return [];
+  const targets = TRANSITIONS[from];
+  return (Object.keys(targets) as RequestStatus[]).filter((to)=>targets[to]?.includes(role as UserRole));
+};
+
+export const canTransition = (currentStatus: unknown, nextStatus: unknown, role: string): boolean => {
+  const to = normalizeStatus(nextStatus);
+  return !!to && getAllowedTransitions(currentStatus, role).includes(to);
+};
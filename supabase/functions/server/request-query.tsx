@@ -0,0 +1,105 @@
+// request-query.tsx - Filters, sorting and cursor pagination for GET /requests
+import { REQUEST_STATUSES } from "./request-lifecycle.tsx";
+
+export const REQUEST_SORT_KEYS = ["due_date", "created_at", "updated_at", "title", "status"] as const;
+
+export type RequestSortKey = typeof REQUEST_SORT_KEYS[number];
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 100;
+
+export interface RequestQuery {
+  statuses: string[];
+  department: string | null;
+  // Matched case-insensitively against assigned_to_email
+  assignee: string | null;
+  created_by: string | null;
+  // "none" selects requests that are not part of any engagement
+  engagement_id: string | null;
+  due_from: string | null;
+  due_to: string | null;
+  created_from: string | null;
+  created_to: string | null;
+  overdue: boolean;
+  search: string | null;
+  sort: RequestSortKey;
+  ascending: boolean;
+  // Without a limit every matching request is returned in one page
+  limit: number | null;
+  cursor: RequestCursor | null;
+}
+
+// The sort value and id of the last request on the previous page
+export type RequestCursor = [string, string];
+
+const isoDateRegex = /^\d{4}-\d{2}-\d{2}$/;
+
+export const encodeCursor = (request: any, sort: RequestSortKey): string =>
+  btoa(encodeURIComponent(JSON.stringify([request[sort], request.id])));
+
+const decodeCursor = (value: string): RequestCursor | null => {
+  try {
+    const cursor = JSON.parse(decodeURIComponent(atob(value)));
+    return Array.isArray(cursor) && cursor.length === 2 && cursor.every((part)=>typeof part === "string") ? cursor as RequestCursor : null;
+  } catch {
+    return null;
+  }
+};
+
+const text = (value: string | undefined): string | null => value?.trim() || null;
+
+export const parseRequestQuery = (params: Record<string, string | undefined>): { query?: RequestQuery; error?: string } => {
+  const statuses = (params.status || "").split(",").map((status)=>status.trim()).filter((status)=>status);
+  const unknownStatus = statuses.find((status)=>!REQUEST_STATUSES.includes(status as any));
+  if (unknownStatus) return { error: `Unknown status "${unknownStatus}"` };
+
+  const dates = {
+    due_from: text(params.due_from),
+    due_to: text(params.due_to),
+    created_from: text(params.created_from),
+    created_to: text(params.created_to)
+  };
+  for (const [name, value] of Object.entries(dates)) {
+    if (value && (!isoDateRegex.test(value) || isNaN(new Date(value).getTime()))) {
+      return { error: `${name} must be a date in YYYY-MM-DD format` };
+    }
+  }
+
+  const sortParam = text(params.sort) || "due_date";
+  const ascending = !sortParam.startsWith("-");
+  const sort = sortParam.replace(/^-/, "") as RequestSortKey;
+  if (!REQUEST_SORT_KEYS.includes(sort)) {
+    return { error: `sort must be one of ${REQUEST_SORT_KEYS.join(", ")} (prefix with - for descending)` };
+  }
+
+  let limit: number | null = null;
+  if (params.limit !== undefined || params.cursor !== undefined) {
+    limit = params.limit === undefined ? DEFAULT_PAGE_SIZE : Number(params.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return { error: `limit must be a whole number between 1 and ${MAX_PAGE_SIZE}` };
+    }
+  }
+
+  let cursor: RequestCursor | null = null;
+  if (params.cursor) {
+    cursor = decodeCursor(params.cursor);
+    if (!cursor) return { error: "Invalid cursor" };
+  }
+
+  return {
+    query: {
+      statuses,
+      department: text(params.department),
+      assignee: text(params.assignee),
+      created_by: text(params.created_by),
+      engagement_id: text(params.engagement_id),
+      ...dates,
+      overdue: params.overdue === "true",
+      search: text(params.q),
+      sort,
+      ascending,
+      limit,
+      cursor
+    }
+  };
+};
@@ -0,0 +1,99 @@
+// request-timeline.tsx - Chronological history of a request, built from its audit entries and the emails sent about it
+
+export type TimelineEventKind =
+  | "created"
+  | "assigned"
+  | "upload"
+  | "checklist"
+  | "submission"
+  | "status"
+  | "sharepoint"
+  | "email"
+  | "reminder"
+  | "comment"
+  | "cc"
+  | "other";
+
+export interface TimelineEvent {
+  id: string;
+  kind: TimelineEventKind;
+  action: string;
+  timestamp: string;
+  // null for events raised by the system, such as reminders
+  actor: { id: string; name: string; email: string; role: string } | null;
+  details: Record<string, any>;
+}
+
+const ACTION_KINDS: Record<string, TimelineEventKind> = {
+  request_created: "created",
+  auto_assigned_request: "assigned",
+  auto_assigned_on_upload: "assigned",
+  document_uploaded: "upload",
+  item_status_updated: "checklist",
+  request_submitted: "submission",
+  status_updated: "status",
+  document_uploaded_sharepoint: "sharepoint",
+  sharepoint_upload_summary: "sharepoint",
+  sharepoint_upload_error: "sharepoint",
+  reminder_sent: "reminder",
+  overdue_escalated: "reminder",
+  comment_added: "comment",
+  comment_edited: "comment",
+  cc_updated: "cc"
+};
+
+// SharePoint sync details (paths, error messages) are internal to the audit team
+const AUDITEE_HIDDEN_KINDS: TimelineEventKind[] = ["sharepoint"];
+
+const toActor = (users: Map<string, any>, userId: string | null) => {
+  const user = userId ? users.get(userId) : null;
+  return user ? { id: user.id, name: user.name, email: user.email, role: user.role } : null;
+};
+
+// users maps every referenced user id to its profile; comments maps comment ids to their current version
+export const buildRequestTimeline = (fields: {
+  logs: any[];
+  emails: any[];
+  users: Map<string, any>;
+  comments: Map<string, any>;
+  viewerRole: string;
+}): TimelineEvent[] => {
+  const events: TimelineEvent[] = [
+    ...fields.logs.map((log)=>{
+      const details = { ...log.details };
+      // Show what the comment says now; the audit entry only records its id
+      if (log.action === "comment_added" && fields.comments.has(details.comment_id)) {
+        details.body = fields.comments.get(details.comment_id).body;
+      }
+      return {
+        id: `audit:${log.id}`,
+        kind: ACTION_KINDS[log.action] || "other",
+        action: log.action,
+        timestamp: log.timestamp,
+        actor: toActor(fields.users, log.user_id),
+        details
+      };
+    }),
+    ...fields.emails.map((email)=>({
+      id: `email:${email.id}`,
+      kind: "email" as TimelineEventKind,
+      action: "email_sent",
+      timestamp: email.sent_at,
+      actor: toActor(fields.users, email.sent_by),
+      details: {
+        email_type: email.email_type,
+        subject: email.subject,
+        to: email.to,
+        cc: email.cc
+      }
+    }))
+  ];
+  // Array.prototype.sort is stable, so entries written at the same instant keep their log order
+  return events
+    .filter((event)=>fields.viewerRole !== "auditee" || !AUDITEE_HIDDEN_KINDS.includes(event.kind))
+    .sort((a, b)=>new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+};
+
+// Every user id a timeline needs a name for
+export const timelineUserIds = (logs: any[], emails: any[]): string[] =>
+  [...new Set([...logs.map((log)=>log.user_id), ...emails.map((email)=>email.sent_by)])].filter((id)=>id && id !== "system");
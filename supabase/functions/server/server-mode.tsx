@@ -0,0 +1,15 @@
+// server-mode.tsx - Which environment the edge function runs in.
+// SERVER_MODE is "development", "staging" or "production". Anything else, including an unset
+// variable, is treated as production so a misconfigured deployment never exposes debug features.
+
+export type ServerMode = "development" | "staging" | "production";
+
+const SERVER_MODES: ServerMode[] = ["development", "staging", "production"];
+
+export const getServerMode = (): ServerMode => {
+  const mode = (Deno.env.get("SERVER_MODE") || "").trim().toLowerCase() as ServerMode;
+  return SERVER_MODES.includes(mode) ? mode : "production";
+};
+
+// Debug routes, OTP codes in responses and raw error details are only available in development
+export const isDevelopmentMode = () => getServerMode() === "development";
@@ -0,0 +1,88 @@
+// session-tokens.tsx - Short-lived access tokens with rotating refresh tokens for OTP sign-ins.
+// An access token is accepted for a few minutes; the browser trades its refresh token for a new
+// pair before then. Each refresh pushes the refresh expiry out again, but never past the
+// absolute lifetime of the sign-in. The lifetimes come from the organisation settings.
+import { sha256Hex } from "./audit-chain.tsx";
+import { OrganisationSettings } from "./org-settings.tsx";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// last_seen_at is only written when it is older than this, not on every request
+const LAST_SEEN_RESOLUTION_MS = MINUTE_MS;
+
+// How long the browser waits without keyboard or mouse activity before locking, and how much
+// warning it gives first
+export const getIdlePolicy = (settings: OrganisationSettings) => ({
+  idle_timeout_seconds: settings.idle_timeout_minutes * 60,
+  idle_warning_seconds: Math.min(120, settings.idle_timeout_minutes * 30)
+});
+
+export interface SessionTokens {
+  session_token: string;
+  refresh_token: string;
+  expires_at: string;
+  refresh_expires_at: string;
+}
+
+const randomHex = (bytes: number) =>
+  Array.from(crypto.getRandomValues(new Uint8Array(bytes)), (b)=>b.toString(16).padStart(2, "0")).join("");
+
+export const hashRefreshToken = (refreshToken: string) => sha256Hex(refreshToken);
+
+// A fresh token pair. createdAt is when the sign-in happened, which caps the refresh expiry; a
+// session that goes refresh_idle_days without refreshing is signed out.
+export const issueSessionTokens = async (createdAt: string, settings: OrganisationSettings, now = Date.now()) => {
+  const tokens: SessionTokens = {
+    session_token: `otp_session_${randomHex(32)}`,
+    refresh_token: `otp_refresh_${randomHex(32)}`,
+    expires_at: new Date(now + settings.access_token_minutes * MINUTE_MS).toISOString(),
+    refresh_expires_at: new Date(Math.min(
+      now + settings.refresh_idle_days * DAY_MS,
+      new Date(createdAt).getTime() + settings.session_absolute_days * DAY_MS
+    )).toISOString()
+  };
+  return { tokens, refresh_token_hash: await hashRefreshToken(tokens.refresh_token) };
+};
+
+// Sessions written before refresh tokens existed end when their access token does
+export const sessionEndsAt = (session: any) => new Date(session.refresh_expires_at || session.expires_at).getTime();
+
+export const isSessionExpired = (session: any, now = Date.now()) => sessionEndsAt(session) <= now;
+
+export const isAccessTokenExpired = (session: any, now = Date.now()) => new Date(session.expires_at).getTime() <= now;
+
+export const shouldTouchSession = (session: any, now = Date.now()) =>
+  !session.last_seen_at || now - new Date(session.last_seen_at).getTime() >= LAST_SEEN_RESOLUTION_MS;
+
+// A short label such as "Chrome on Windows" for the sessions list
+export const describeDevice = (userAgent: string | null | undefined) => {
+  const ua = userAgent || "";
+  if (!ua) return "Unknown device";
+  const browser = /Edg\//.test(ua) ? "Edge"
+    : /OPR\/|Opera/.test(ua) ? "Opera"
+    : /Firefox\//.test(ua) ? "Firefox"
+    : /Chrome\//.test(ua) ? "Chrome"
+    : /Safari\//.test(ua) ? "Safari"
+    : "Browser";
+  const os = /iPhone|iPad/.test(ua) ? "iOS"
+    : /Android/.test(ua) ? "Android"
+    : /Windows/.test(ua) ? "Windows"
+    : /Mac OS X|Macintosh/.test(ua) ? "macOS"
+    : /Linux/.test(ua) ? "Linux"
+    : "unknown OS";
+  return `${browser} on ${os}`;
+};
+
+// What the sessions list shows; tokens and hashes never leave the server
+export const toSessionSummary = (session: any, currentToken?: string) => ({
+  id: session.id,
+  login_method: session.login_method,
+  device: describeDevice(session.user_agent),
+  user_agent: session.user_agent ?? null,
+  ip: session.ip ?? null,
+  created_at: session.created_at,
+  last_seen_at: session.last_seen_at ?? session.created_at,
+  expires_at: new Date(sessionEndsAt(session)).toISOString(),
+  current: !!currentToken && session.token === currentToken
+});
@@ -0,0 +1,85 @@
+import { assertEquals } from "@std/assert";
+import { ChainedAuditEntry, GENESIS_HASH, canonicalJson, hashAuditContent, hashAuditLink, verifyAuditChain } from "../audit-chain.tsx";
+
+const ORG = "default";
+
+const entry = (id: number, details: Record<string, unknown> = {}): ChainedAuditEntry => ({
+  id,
+  action: "status_updated",
+  user_id: "u1",
+  request_id: "req-1",
+  document_id: null,
+  engagement_id: null,
+  organisation_id: ORG,
+  timestamp: new Date(Date.UTC(2026, 9, 19, 9, id)).toISOString(),
+  details: { status: "approved", ...details },
+  sequence: null,
+  content_hash: null,
+  prev_hash: null,
+  hash: null
+});
+
+// Link entries the way append_audit_log does
+const chain = async (entries: ChainedAuditEntry[]) => {
+  let previous = GENESIS_HASH;
+  const chained: ChainedAuditEntry[] = [];
+  for (const [index, item] of entries.entries()) {
+    const content_hash = await hashAuditContent(item);
+    const hash = await hashAuditLink(ORG, index + 1, previous, content_hash);
+    chained.push({ ...item, sequence: index + 1, content_hash, prev_hash: previous, hash });
+    previous = hash;
+  }
+  return chained;
+};
+
+Deno.test("canonicalJson sorts keys and drops undefined values", () => {
+  assertEquals(canonicalJson({ b: 1, a: { d: [1, undefined], c: null }, e: undefined }), '{"a":{"c":null,"d":[1,null]},"b":1}');
+});
+
+Deno.test("hashAuditContent ignores key order and the timestamp's format", async () => {
+  const original = entry(1, { reason: "Signed", amount: 10 });
+  const reordered = { ...original, details: { amount: 10, reason: "Signed", status: "approved" }, timestamp: "2026-10-19T09:01:00+00:00" };
+  assertEquals(await hashAuditContent(reordered), await hashAuditContent(original));
+  assertEquals(await hashAuditContent({ ...original, details: { ...original.details, amount: 11 } }) === await hashAuditContent(original), false);
+});
+
+Deno.test("verifyAuditChain accepts an intact chain after legacy entries", async () => {
+  const legacy = [entry(1), entry(2)];
+  const chained = await chain([entry(3), entry(4), entry(5)]);
+  assertEquals(await verifyAuditChain(ORG, [...legacy, ...chained]), {
+    valid: true,
+    checked: 3,
+    legacy_entries: 2,
+    latest_id: 5,
+    latest_hash: chained[2].hash,
+    broken_at: null
+  });
+  assertEquals((await verifyAuditChain(ORG, [])).valid, true);
+});
+
+Deno.test("verifyAuditChain finds edited, removed and reordered entries", async () => {
+  const chained = await chain([entry(1), entry(2), entry(3)]);
+  const brokenAt = async (entries: ChainedAuditEntry[], organisationId = ORG) => (await verifyAuditChain(organisationId, entries)).broken_at;
+
+  assertEquals(await brokenAt([chained[0], { ...chained[1], details: { status: "rejected" } }, chained[2]]),
+    { id: 2, reason: "Entry contents do not match its hash" });
+  assertEquals(await brokenAt([chained[0], chained[2]]),
+    { id: 3, reason: "Entries 2 to 2 of the chain are missing" });
+  assertEquals(await brokenAt([chained[1], chained[0]]),
+    { id: 2, reason: "Entries 1 to 1 of the chain are missing" });
+  assertEquals(await brokenAt([chained[0], chained[1], { ...chained[1], id: 4 }]),
+    { id: 4, reason: "Entry is out of order in the chain" });
+  assertEquals(await brokenAt([chained[0], { ...chained[1], prev_hash: GENESIS_HASH }]),
+    { id: 2, reason: "Entry does not link to the entry before it" });
+  assertEquals(await brokenAt([chained[0], { ...chained[1], hash: chained[2].hash }]),
+    { id: 2, reason: "Entry hash does not match its position in the chain" });
+  assertEquals(await brokenAt([chained[0], entry(9)]),
+    { id: 9, reason: "Entry is not part of the chain" });
+});
+
+Deno.test("verifyAuditChain does not accept one organisation's chain as another's", async () => {
+  const chained = await chain([entry(1)]);
+  const verification = await verifyAuditChain("affiliate", chained);
+  assertEquals([verification.valid, verification.checked], [false, 0]);
+  assertEquals(verification.broken_at, { id: 1, reason: "Entry hash does not match its position in the chain" });
+});
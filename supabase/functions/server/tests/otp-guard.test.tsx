@@ -0,0 +1,86 @@
+import { assertEquals } from "@std/assert";
+import { OTP_GUARD_LIMITS, AttemptState, SendState, timingSafeEqual, getClientIp, nextAttemptState, findSendBlock } from "../otp-guard.tsx";
+
+const MINUTE_MS = 60 * 1000;
+const NOW = Date.parse("2026-10-19T12:00:00.000Z");
+const at = (offsetMs: number) => new Date(NOW + offsetMs).toISOString();
+
+const withHeaders = (headers: Record<string, string>) => ({
+  req: { header: (name: string) => headers[name] }
+});
+
+Deno.test("timingSafeEqual matches only identical codes", () => {
+  assertEquals(timingSafeEqual("123456", "123456"), true);
+  assertEquals(timingSafeEqual("123456", "123457"), false);
+  assertEquals(timingSafeEqual("123456", "12345"), false);
+  assertEquals(timingSafeEqual("123456", ""), false);
+});
+
+Deno.test("getClientIp prefers the address the gateway sets over what the client sends", () => {
+  assertEquals(getClientIp(withHeaders({ "cf-connecting-ip": "203.0.113.7", "x-forwarded-for": "198.51.100.1, 203.0.113.7" })), "203.0.113.7");
+  // The first entry is whatever the client claimed; the last was appended by the gateway
+  assertEquals(getClientIp(withHeaders({ "x-forwarded-for": "198.51.100.1, 10.0.0.2, 203.0.113.7" })), "203.0.113.7");
+  assertEquals(getClientIp(withHeaders({ "x-real-ip": "203.0.113.9" })), "203.0.113.9");
+  assertEquals(getClientIp(withHeaders({})), "unknown");
+});
+
+Deno.test("nextAttemptState counts failures inside the window", () => {
+  const first = nextAttemptState(undefined, 5, NOW);
+  assertEquals(first.count, 1);
+  assertEquals(first.locked_until, null);
+  const second = nextAttemptState(first, 5, NOW + MINUTE_MS);
+  assertEquals(second.count, 2);
+  assertEquals(second.window_started_at, first.window_started_at);
+});
+
+Deno.test("nextAttemptState starts a new window once the old one has passed", () => {
+  const previous: AttemptState = { count: 4, window_started_at: at(-OTP_GUARD_LIMITS.attempt_window_ms), locked_until: null, lockouts: 0, last_lockout_at: null };
+  const state = nextAttemptState(previous, 5, NOW);
+  assertEquals(state.count, 1);
+  assertEquals(state.window_started_at, at(0));
+});
+
+Deno.test("nextAttemptState locks out at the limit and doubles each repeat lockout", () => {
+  const previous: AttemptState = { count: 4, window_started_at: at(-MINUTE_MS), locked_until: null, lockouts: 0, last_lockout_at: null };
+  const locked = nextAttemptState(previous, 5, NOW);
+  assertEquals(locked.lockouts, 1);
+  assertEquals(locked.count, 0);
+  assertEquals(locked.locked_until, at(OTP_GUARD_LIMITS.base_lockout_ms));
+
+  const again = nextAttemptState({ ...locked, count: 4, window_started_at: at(19 * MINUTE_MS) }, 5, NOW + 20 * MINUTE_MS);
+  assertEquals(again.lockouts, 2);
+  assertEquals(again.locked_until, at(20 * MINUTE_MS + 2 * OTP_GUARD_LIMITS.base_lockout_ms));
+});
+
+Deno.test("nextAttemptState caps lockouts and forgets old ones", () => {
+  const repeat: AttemptState = { count: 4, window_started_at: at(-MINUTE_MS), locked_until: null, lockouts: 20, last_lockout_at: at(-MINUTE_MS) };
+  assertEquals(nextAttemptState(repeat, 5, NOW).locked_until, at(OTP_GUARD_LIMITS.max_lockout_ms));
+
+  const forgotten = { ...repeat, last_lockout_at: at(-OTP_GUARD_LIMITS.lockout_memory_ms) };
+  const state = nextAttemptState(forgotten, 5, NOW);
+  assertEquals(state.lockouts, 1);
+  assertEquals(state.locked_until, at(OTP_GUARD_LIMITS.base_lockout_ms));
+});
+
+Deno.test("findSendBlock allows a first send", () => {
+  assertEquals(findSendBlock(undefined, undefined, NOW), null);
+});
+
+Deno.test("findSendBlock holds the email until its cooldown ends", () => {
+  const emailState: SendState = { sends: [at(-30 * 1000)], next_send_at: at(30 * 1000) };
+  assertEquals(findSendBlock(emailState, undefined, NOW), { scope: "email", retry_after: 30, locked_until: at(30 * 1000) });
+  assertEquals(findSendBlock({ ...emailState, next_send_at: at(-1) }, undefined, NOW), null);
+});
+
+Deno.test("findSendBlock caps sends per email and per IP each hour", () => {
+  const sends = (count: number) => Array.from({ length: count }, (_, i) => at(-50 * MINUTE_MS + i * MINUTE_MS));
+  const emailState: SendState = { sends: sends(OTP_GUARD_LIMITS.max_sends_per_email_per_hour), next_send_at: at(-1) };
+  assertEquals(findSendBlock(emailState, undefined, NOW), { scope: "email", retry_after: 10 * 60, locked_until: at(10 * MINUTE_MS) });
+
+  const ipState: SendState = { sends: sends(OTP_GUARD_LIMITS.max_sends_per_ip_per_hour), next_send_at: at(-1) };
+  assertEquals(findSendBlock(undefined, ipState, NOW)?.scope, "ip");
+
+  // Sends older than an hour no longer count
+  const stale: SendState = { sends: emailState.sends.map((sentAt) => new Date(Date.parse(sentAt) - 60 * MINUTE_MS).toISOString()), next_send_at: at(-1) };
+  assertEquals(findSendBlock(stale, undefined, NOW), null);
+});
@@ -0,0 +1,57 @@
+import { assertEquals } from "@std/assert";
+import { ReminderConfig, getDaysUntilDue, getReminderConfig, planReminders } from "../reminders.tsx";
+
+const NOW = new Date("2026-10-19T08:00:00.000Z");
+const config: ReminderConfig = { days_before: [1, 3, 7], escalate_after_days: 3, escalation_emails: ["lead@ecobank.com"] };
+
+const plan = (dueDate: string, status = "in_progress") =>
+  planReminders({ id: "req-1", due_date: dueDate, status }, config, NOW).map((reminder)=>`${reminder.kind}:${reminder.key}`);
+
+Deno.test("getDaysUntilDue counts whole UTC calendar days", () => {
+  assertEquals(getDaysUntilDue("2026-10-19T23:59:00.000Z", NOW), 0);
+  assertEquals(getDaysUntilDue("2026-10-20", NOW), 1);
+  assertEquals(getDaysUntilDue("2026-10-16", NOW), -3);
+  assertEquals(getDaysUntilDue("not a date", NOW), null);
+});
+
+Deno.test("planReminders sends the tightest window the request is inside", () => {
+  assertEquals(plan("2026-10-29"), []);
+  assertEquals(plan("2026-10-26"), ["due_soon:reminder:req-1:2026-10-26:before_7"]);
+  // Four days out is still only the seven-day window; a missed run does not skip to the next one
+  assertEquals(plan("2026-10-23"), ["due_soon:reminder:req-1:2026-10-23:before_7"]);
+  assertEquals(plan("2026-10-22"), ["due_soon:reminder:req-1:2026-10-22:before_3"]);
+  assertEquals(plan("2026-10-20"), ["due_soon:reminder:req-1:2026-10-20:before_1"]);
+});
+
+Deno.test("planReminders reminds on the due date and escalates once overdue long enough", () => {
+  assertEquals(plan("2026-10-19"), ["due_today:reminder:req-1:2026-10-19:due_today"]);
+  assertEquals(plan("2026-10-17"), ["overdue:reminder:req-1:2026-10-17:overdue"]);
+  assertEquals(plan("2026-10-16"), [
+    "overdue:reminder:req-1:2026-10-16:overdue",
+    "escalation:reminder:req-1:2026-10-16:escalation"
+  ]);
+});
+
+Deno.test("planReminders only reminds requests waiting on the auditee", () => {
+  assertEquals(plan("2026-10-19", "rejected").length, 1);
+  assertEquals(plan("2026-10-19", "reopened").length, 1);
+  assertEquals(plan("2026-10-19", "submitted"), []);
+  assertEquals(plan("2026-10-19", "approved"), []);
+  assertEquals(plan("no due date"), []);
+});
+
+Deno.test("getReminderConfig reads its secrets and falls back on bad values", () => {
+  const names = ["REMINDER_DAYS_BEFORE", "REMINDER_ESCALATION_DAYS", "REMINDER_ESCALATION_EMAILS"];
+  const saved = names.map((name)=>Deno.env.get(name));
+  try {
+    names.forEach((name)=>Deno.env.delete(name));
+    assertEquals(getReminderConfig(), { days_before: [1, 3], escalate_after_days: 3, escalation_emails: [] });
+
+    Deno.env.set("REMINDER_DAYS_BEFORE", "7, 2,x,-1");
+    Deno.env.set("REMINDER_ESCALATION_DAYS", "0");
+    Deno.env.set("REMINDER_ESCALATION_EMAILS", "a@ecobank.com; b@ecobank.com,");
+    assertEquals(getReminderConfig(), { days_before: [2, 7], escalate_after_days: 3, escalation_emails: ["a@ecobank.com", "b@ecobank.com"] });
+  } finally {
+    names.forEach((name, i)=>saved[i] === undefined ? Deno.env.delete(name) : Deno.env.set(name, saved[i] as string));
+  }
+});
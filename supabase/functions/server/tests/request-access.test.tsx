@@ -0,0 +1,144 @@
+import { assert, assertEquals } from "@std/assert";
+import { DEFAULT_SETTINGS } from "../org-settings.tsx";
+import { getRequestAccess, authorizeRequest, validateAccessFields, redactAuditEntry, redactEmailRecord } from "../request-access.tsx";
+
+const settings = { ...DEFAULT_SETTINGS, id: "default" };
+
+const user = (id: string, role: string, extra: Record<string, unknown> = {}) =>
+  ({ id, role, email: `${id}@ecobank.com`, organisation_id: "default", ...extra });
+
+const manager = user("mia", "manager");
+const creator = user("carl", "auditor");
+const auditor = user("ada", "auditor");
+const assignee = user("sam", "auditee");
+const auditee = user("eve", "auditee");
+
+const request = (extra: Record<string, unknown> = {}) => ({
+  id: "req-1",
+  organisation_id: "default",
+  department: "Finance",
+  confidentiality: "standard",
+  created_by: creator.id,
+  assigned_to: assignee.id,
+  view_access: [],
+  document_access: [],
+  status_access: [],
+  ...extra
+});
+
+// view, documents, upload, status, manage_access
+const flags = (u: any, r: any) => {
+  const access = getRequestAccess(u, r, settings);
+  return [access.view, access.documents, access.upload, access.status, access.manage_access];
+};
+
+Deno.test("getRequestAccess on a standard request", () => {
+  const r = request();
+  assertEquals(flags(manager, r), [true, true, false, true, true]);
+  assertEquals(flags(assignee, r), [true, true, true, true, false]);
+  assertEquals(flags(auditor, r), [true, true, true, true, false]);
+  assertEquals(flags(auditee, r), [false, false, false, false, false]);
+});
+
+Deno.test("getRequestAccess on a confidential request", () => {
+  const r = request({ confidentiality: "confidential" });
+  assertEquals(flags(manager, r), [true, true, false, true, true]);
+  assertEquals(flags(assignee, r), [true, true, true, true, false]);
+  assertEquals(flags(auditor, r), [true, false, false, false, false]);
+  assertEquals(flags(auditee, r), [false, false, false, false, false]);
+});
+
+Deno.test("getRequestAccess on a restricted request", () => {
+  const r = request({ confidentiality: "restricted" });
+  assertEquals(flags(manager, r), [true, true, false, true, true]);
+  assertEquals(flags(assignee, r), [true, true, true, true, false]);
+  assertEquals(flags(creator, r), [true, false, false, false, false]);
+  assertEquals(flags(auditor, r), [false, false, false, false, false]);
+});
+
+Deno.test("getRequestAccess raises confidential departments to at least confidential", () => {
+  assertEquals(getRequestAccess(auditor, request({ department: "human resources" }), settings).confidentiality, "confidential");
+  assertEquals(getRequestAccess(auditor, request({ department: "Human Resources", confidentiality: "restricted" }), settings).confidentiality, "restricted");
+  assertEquals(getRequestAccess(auditor, request({ confidentiality: "unknown" }), settings).confidentiality, "standard");
+});
+
+Deno.test("getRequestAccess widens access for listed addresses and roles", () => {
+  const restricted = { confidentiality: "restricted" };
+  assertEquals(flags(auditor, request({ ...restricted, view_access: [auditor.email] })), [true, false, false, false, false]);
+  assertEquals(flags(auditor, request({ ...restricted, document_access: ["auditor"] })), [true, true, true, false, false]);
+  assertEquals(flags(auditor, request({ ...restricted, status_access: [auditor.email] })), [true, true, true, true, false]);
+  // Only auditors review: an auditee on status_access gets document access
+  assertEquals(flags(auditee, request({ ...restricted, status_access: ["auditee"] })), [true, true, false, false, false]);
+});
+
+Deno.test("getRequestAccess gives a pending assignee access by their invited address", () => {
+  const r = request({ assigned_to: null, pending_assignment: true, assigned_to_email: "New.Starter@ecobank.com", confidentiality: "restricted" });
+  assertEquals(flags(user("new", "auditee", { email: "new.starter@ecobank.com" }), r), [true, true, true, true, false]);
+  assertEquals(flags(auditee, r), [false, false, false, false, false]);
+});
+
+Deno.test("getRequestAccess refuses everyone outside the request's organisation", () => {
+  const r = request();
+  assertEquals(flags({ ...manager, organisation_id: "affiliate" }, r), [false, false, false, false, false]);
+  assertEquals(flags({ ...assignee, organisation_id: "affiliate" }, r), [false, false, false, false, false]);
+  assertEquals(flags(null, r), [false, false, false, false, false]);
+});
+
+Deno.test("authorizeRequest hides requests the user may not see and refuses the rest", () => {
+  assertEquals(authorizeRequest(auditor, request(), settings, "status").error, undefined);
+
+  const hidden = authorizeRequest(auditor, request({ confidentiality: "restricted" }), settings, "view");
+  assertEquals([hidden.error, hidden.error && hidden.status], ["Request not found", 404]);
+
+  const refused = authorizeRequest(auditor, request({ confidentiality: "confidential" }), settings, "documents");
+  assert(refused.error);
+  assertEquals([refused.status, refused.confidential], [403, true]);
+  assert(refused.error.includes("confidential request"));
+
+  const managing = authorizeRequest(auditor, request(), settings, "manage_access");
+  assertEquals([managing.error, managing.error && managing.confidential], ["Only managers can change who can access a request", false]);
+});
+
+Deno.test("validateAccessFields normalises entries and rejects other domains", () => {
+  assertEquals(validateAccessFields({ confidentiality: "confidential", view_access: [" Ada@Ecobank.com ", "ada@ecobank.com", "AUDITOR", ""] }, settings), {
+    fields: { confidentiality: "confidential", view_access: ["ada@ecobank.com", "auditor"], document_access: [], status_access: [] }
+  });
+  assert(validateAccessFields({ confidentiality: "secret" }, settings).error);
+  assert(validateAccessFields({ status_access: "ada@ecobank.com" }, settings).error);
+  assert(validateAccessFields({ view_access: ["manager"] }, settings).error);
+  assert(validateAccessFields({ view_access: ["ada@example.com"] }, settings).error?.includes("ada@example.com"));
+});
+
+Deno.test("validateAccessFields keeps what an update leaves out", () => {
+  const existing = request({ confidentiality: "restricted", document_access: ["ada@ecobank.com"] });
+  assertEquals(validateAccessFields({ view_access: ["auditee"] }, settings, existing).fields, {
+    confidentiality: "restricted", view_access: ["auditee"], document_access: ["ada@ecobank.com"], status_access: []
+  });
+});
+
+Deno.test("redactAuditEntry drops entries the user cannot see and details they may not read", () => {
+  const confidential = getRequestAccess(auditor, request({ confidentiality: "confidential" }), settings);
+  const full = getRequestAccess(manager, request(), settings);
+  const comment = { id: 1, action: "comment_added", request_id: "req-1", details: { comment: "Salary bands attached" } };
+  const created = { id: 2, action: "request_created", request_id: "req-1", details: { title: "Payroll" } };
+  const login = { id: 3, action: "user_login", request_id: null, details: { email: "ada@ecobank.com" } };
+
+  assertEquals(redactAuditEntry(comment, full), comment);
+  assertEquals(redactAuditEntry(comment, confidential), { ...comment, details: {}, details_redacted: true });
+  assertEquals(redactAuditEntry(created, confidential), created);
+  assertEquals(redactAuditEntry(created, undefined), null);
+  assertEquals(redactAuditEntry(login, undefined), login);
+
+  const accessChange = { id: 4, action: "request_access_updated", request_id: "req-1", details: { view_access: [] } };
+  assertEquals(redactAuditEntry(accessChange, getRequestAccess(auditor, request(), settings))?.details_redacted, true);
+  assertEquals(redactAuditEntry(accessChange, full), accessChange);
+});
+
+Deno.test("redactEmailRecord keeps bodies for document access only", () => {
+  const email = { id: "e1", request_id: "req-1", subject: "Request rejected", body: "<p>Missing signatures</p>" };
+  assertEquals(redactEmailRecord(email, getRequestAccess(manager, request(), settings)), email);
+  assertEquals(redactEmailRecord(email, getRequestAccess(auditor, request({ confidentiality: "confidential" }), settings)),
+    { ...email, body: null, body_redacted: true });
+  assertEquals(redactEmailRecord(email, undefined), null);
+  assertEquals(redactEmailRecord({ ...email, request_id: null }, undefined), { ...email, request_id: null });
+});
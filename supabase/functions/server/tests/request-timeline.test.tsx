@@ -0,0 +1,60 @@
+import { assertEquals } from "@std/assert";
+import { buildRequestTimeline, timelineUserIds } from "../request-timeline.tsx";
+
+const users = new Map([
+  ["u1", { id: "u1", name: "Ada Auditor", email: "ada@ecobank.com", role: "auditor", department: "Finance" }],
+  ["u2", { id: "u2", name: "Sam Auditee", email: "sam@ecobank.com", role: "auditee", department: "Finance" }]
+]);
+
+const logs = [
+  { id: 3, action: "comment_added", user_id: "u2", timestamp: "2026-10-02T09:00:00.000Z", details: { comment_id: "c1" } },
+  { id: 1, action: "request_created", user_id: "u1", timestamp: "2026-10-01T09:00:00.000Z", details: { title: "Bank reconciliations" } },
+  { id: 4, action: "sharepoint_upload_error", user_id: "system", timestamp: "2026-10-02T09:00:00.000Z", details: { error: "Path not found" } },
+  { id: 5, action: "engagement_linked", user_id: "u1", timestamp: "2026-10-03T09:00:00.000Z", details: {} }
+];
+
+const emails = [
+  { id: "e1", email_type: "request_assigned", subject: "New request", to: "sam@ecobank.com", cc: ["lead@ecobank.com"], body: "<p>Hi</p>", sent_by: "u1", sent_at: "2026-10-01T09:00:01.000Z" }
+];
+
+const comments = new Map([["c1", { id: "c1", body: "Edited: statements attached" }]]);
+
+const build = (viewerRole: string) => buildRequestTimeline({ logs, emails, users, comments, viewerRole });
+
+Deno.test("buildRequestTimeline merges audit entries and emails in time order", () => {
+  assertEquals(build("auditor").map((event)=>event.id), ["audit:1", "email:e1", "audit:3", "audit:4", "audit:5"]);
+});
+
+Deno.test("buildRequestTimeline classifies actions and names their actors", () => {
+  const [created, email, comment, sharepoint, other] = build("manager");
+  assertEquals([created.kind, email.kind, comment.kind, sharepoint.kind, other.kind], ["created", "email", "comment", "sharepoint", "other"]);
+  assertEquals(created.actor, { id: "u1", name: "Ada Auditor", email: "ada@ecobank.com", role: "auditor" });
+  assertEquals(sharepoint.actor, null);
+  assertEquals(email.details, { email_type: "request_assigned", subject: "New request", to: "sam@ecobank.com", cc: ["lead@ecobank.com"] });
+});
+
+Deno.test("buildRequestTimeline shows a comment's current text", () => {
+  const comment = build("auditor").find((event)=>event.action === "comment_added");
+  assertEquals(comment?.details, { comment_id: "c1", body: "Edited: statements attached" });
+  // The audit entry itself is left as it was
+  assertEquals(logs[0].details, { comment_id: "c1" });
+  const deleted = buildRequestTimeline({ logs, emails, users, comments: new Map(), viewerRole: "auditor" });
+  assertEquals(deleted.find((event)=>event.action === "comment_added")?.details, { comment_id: "c1" });
+});
+
+Deno.test("buildRequestTimeline hides SharePoint sync events from auditees", () => {
+  assertEquals(build("auditee").map((event)=>event.id), ["audit:1", "email:e1", "audit:3", "audit:5"]);
+});
+
+Deno.test("buildRequestTimeline keeps log order for entries written at the same instant", () => {
+  const sameTime = [
+    { id: 7, action: "item_status_updated", user_id: "u1", timestamp: "2026-10-04T09:00:00.000Z", details: {} },
+    { id: 6, action: "status_updated", user_id: "u1", timestamp: "2026-10-04T09:00:00.000Z", details: {} }
+  ];
+  const events = buildRequestTimeline({ logs: sameTime, emails: [], users, comments, viewerRole: "auditor" });
+  assertEquals(events.map((event)=>event.id), ["audit:7", "audit:6"]);
+});
+
+Deno.test("timelineUserIds lists each user once and leaves out the system", () => {
+  assertEquals(timelineUserIds(logs, [...emails, { ...emails[0], id: "e2", sent_by: null }]), ["u2", "u1"]);
+});
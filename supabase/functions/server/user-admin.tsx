@@ -0,0 +1,74 @@
+// user-admin.tsx - Rules for signup roles and for managers changing roles and deactivating accounts
+
+export const USER_ROLES = ["auditor", "auditee", "manager"];
+
+// Roles a signup can ask for but only a manager can grant
+export const PRIVILEGED_ROLES = ["auditor", "manager"];
+
+// Addresses in the GROUP_MANAGER_EMAILS secret: they may take the manager role in an organisation
+// that has none yet, and become group managers when they sign in as managers
+export const configuredGroupManagerEmails = () =>
+  (Deno.env.get("GROUP_MANAGER_EMAILS") || "").split(/[;,]/).map((email)=>email.trim().toLowerCase()).filter(Boolean);
+
+// Who may take a privileged role without approval while an organisation has no manager: the first
+// manager named when it was added, or an address in GROUP_MANAGER_EMAILS
+export const isFirstManagerEmail = (email: string, organisation: { first_manager_email?: string | null }) => {
+  const address = String(email || "").trim().toLowerCase();
+  return !!address && (address === organisation.first_manager_email || configuredGroupManagerEmails().includes(address));
+};
+
+// The role a new account starts with. Privileged roles wait as auditees for a manager's approval.
+// Before an organisation has a manager only its named first manager skips the wait; anyone else
+// waits for that manager.
+export const resolveSignupRole = (requestedRole: string, hasActiveManager: boolean, isFirstManager: boolean) =>
+  PRIVILEGED_ROLES.includes(requestedRole) && (hasActiveManager || !isFirstManager) ? {
+    role: "auditee",
+    requested_role: requestedRole
+  } : {
+    role: requestedRole,
+    requested_role: null
+  };
+
+// Accounts written before deactivation existed have no active flag and count as active
+export const isActiveUser = (user: any) => !!user && user.active !== false;
+
+// What the Users tab shows about an account
+export const toAdminUser = (user: any) => ({
+  id: user.id,
+  email: user.email,
+  name: user.name,
+  role: user.role,
+  active: isActiveUser(user),
+  group_manager: user.group_manager === true,
+  deactivated_at: user.deactivated_at ?? null,
+  requested_role: user.requested_role ?? null,
+  role_requested_at: user.role_requested_at ?? null,
+  last_login_at: user.last_login_at ?? null,
+  created_at: user.created_at
+});
+
+// Managers cannot change their own account, and the last active manager cannot be demoted or
+// deactivated, so there is always someone left who can administer users
+export const validateUserChange = (fields: {
+  actorId: string;
+  target: any;
+  change: { role?: string; active?: boolean };
+  activeManagerCount: number;
+}): string | null => {
+  const { actorId, target, change } = fields;
+  if (change.role !== undefined && !USER_ROLES.includes(change.role)) {
+    return `Role must be one of ${USER_ROLES.join(", ")}`;
+  }
+  if (change.active !== undefined && typeof change.active !== "boolean") {
+    return "active must be true or false";
+  }
+  if (target.id === actorId) {
+    return "You cannot change your own role or account status";
+  }
+  const removesManager = target.role === "manager" && isActiveUser(target) &&
+    (change.role !== undefined && change.role !== "manager" || change.active === false);
+  if (removesManager && fields.activeManagerCount <= 1) {
+    return "At least one active manager is required";
+  }
+  return null;
+};
@@ -0,0 +1,126 @@
+-- Relational schema for users, requests, documents, audit logs, emails and sessions.
+-- These records previously lived as JSON values in kv_store_fcebfd37; copy existing data across
+-- once with supabase/scripts/migrate_kv_to_tables.sql after applying this migration.
+-- Engagements, comments, OTP codes and reminder markers stay in the KV store for now.
+
+create table public.users (
+  id uuid primary key references auth.users (id) on delete cascade,
+  email text not null,
+  name text not null,
+  role text not null check (role in ('auditor', 'auditee', 'manager')),
+  email_verified boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create unique index users_email_key on public.users (lower(email));
+
+create table public.requests (
+  id text primary key,
+  title text not null,
+  description text not null default '',
+  due_date date not null,
+  status text not null,
+  department text not null,
+  created_by uuid references public.users (id),
+  assigned_to uuid references public.users (id) on delete set null,
+  assigned_to_email text not null,
+  -- True until the assignee signs up and the request is attached to their account
+  pending_assignment boolean not null default false,
+  hr_confidential boolean not null default false,
+  cc_emails text[] not null default '{}',
+  items jsonb not null default '[]',
+  engagement_id text,
+  rejection jsonb,
+  submitted_at timestamptz,
+  submitted_by uuid references public.users (id),
+  submission_attestation text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint requests_assignment_check check (pending_assignment or assigned_to is not null)
+);
+
+create index requests_assigned_to_idx on public.requests (assigned_to);
+create index requests_pending_email_idx on public.requests (lower(assigned_to_email)) where pending_assignment;
+create index requests_department_idx on public.requests (department);
+create index requests_created_by_idx on public.requests (created_by);
+create index requests_engagement_idx on public.requests (engagement_id);
+create index requests_status_due_idx on public.requests (status, due_date);
+
+create table public.documents (
+  id text primary key,
+  request_id text not null references public.requests (id) on delete cascade,
+  -- All versions of one piece of evidence share the id of its first upload
+  evidence_id text not null,
+  item_id text,
+  version integer not null default 1 check (version > 0),
+  filename text not null,
+  file_path text not null,
+  file_url text,
+  uploaded_by uuid references public.users (id),
+  uploaded_at timestamptz not null default now(),
+  comments text not null default '',
+  superseded_by text references public.documents (id) deferrable initially deferred,
+  superseded_at timestamptz,
+  review_status text,
+  review_note text,
+  reviewed_by uuid references public.users (id),
+  reviewed_at timestamptz,
+  unique (evidence_id, version)
+);
+
+create index documents_request_idx on public.documents (request_id);
+
+create table public.audit_logs (
+  id bigint generated always as identity primary key,
+  action text not null,
+  -- A user id, or "system" for scheduled jobs
+  user_id text not null,
+  request_id text,
+  document_id text,
+  engagement_id text,
+  "timestamp" timestamptz not null default now(),
+  details jsonb not null default '{}'
+);
+
+create index audit_logs_timestamp_idx on public.audit_logs ("timestamp" desc);
+create index audit_logs_user_idx on public.audit_logs (user_id);
+create index audit_logs_request_idx on public.audit_logs (request_id);
+create index audit_logs_action_idx on public.audit_logs (action);
+
+create table public.emails (
+  id text primary key,
+  recipients text[] not null,
+  cc text[] not null default '{}',
+  subject text not null,
+  body text,
+  request_id text references public.requests (id) on delete set null,
+  sent_by uuid references public.users (id) on delete set null,
+  sent_at timestamptz not null default now(),
+  status text not null,
+  email_type text not null
+);
+
+create index emails_sent_at_idx on public.emails (sent_at desc);
+create index emails_request_idx on public.emails (request_id);
+
+create table public.sessions (
+  token text primary key,
+  user_id uuid not null references public.users (id) on delete cascade,
+  email text not null,
+  login_method text not null,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  check (expires_at > created_at)
+);
+
+create index sessions_user_idx on public.sessions (user_id);
+create index sessions_expires_idx on public.sessions (expires_at);
+
+-- The edge function uses the service role key, which bypasses RLS. With RLS on and no policies,
+-- the anon and authenticated keys used by the browser cannot read these tables directly.
+alter table public.users enable row level security;
+alter table public.requests enable row level security;
+alter table public.documents enable row level security;
+alter table public.audit_logs enable row level security;
+alter table public.emails enable row level security;
+alter table public.sessions enable row level security;
@@ -0,0 +1,30 @@
+-- Make the audit log append-only and hash-chained.
+-- The edge function now assigns ids itself (previous id + 1) and stores each entry's SHA-256 hash
+-- together with the hash of the entry before it; see functions/server/audit-chain.tsx.
+-- Entries written before this migration keep a null hash and sit before the start of the chain.
+
+alter table public.audit_logs alter column id drop identity;
+
+alter table public.audit_logs
+  add column prev_hash text,
+  add column hash text,
+  add constraint audit_logs_hash_pair_check check ((hash is null) = (prev_hash is null));
+
+create function public.reject_audit_log_changes() returns trigger
+language plpgsql as $$
+begin
+  raise exception 'audit_logs is append-only: % is not allowed', tg_op;
+end;
+$$;
+
+create trigger audit_logs_no_update_or_delete
+  before update or delete on public.audit_logs
+  for each row execute function public.reject_audit_log_changes();
+
+create trigger audit_logs_no_truncate
+  before truncate on public.audit_logs
+  for each statement execute function public.reject_audit_log_changes();
+
+-- The API roles may only read and append. A database owner can still drop the triggers, which is
+-- what the hash chain is there to detect.
+revoke update, delete, truncate on public.audit_logs from anon, authenticated, service_role;
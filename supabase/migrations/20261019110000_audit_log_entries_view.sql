@@ -0,0 +1,6 @@
+-- Audit log entries with the department of the request they concern, so the audit trail can be
+-- filtered by department without copying it onto every entry.
+create view public.audit_log_entries with (security_invoker = true) as
+select l.*, r.department
+from public.audit_logs l
+left join public.requests r on r.id = l.request_id;
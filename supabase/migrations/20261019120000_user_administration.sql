@@ -0,0 +1,11 @@
+-- Account state managed by managers from the Users tab: deactivated users can no longer sign in
+-- or use an existing session, and last_login_at records the most recent successful sign-in.
+
+alter table public.users
+  add column active boolean not null default true,
+  add column deactivated_at timestamptz,
+  add column deactivated_by uuid references public.users (id) on delete set null,
+  add column last_login_at timestamptz;
+
+-- last_login_at is seeded from the sign-ins in the audit trail by scripts/migrate_kv_to_tables.sql,
+-- once it has copied the audit trail across
@@ -0,0 +1,8 @@
+-- Signups asking for auditor or manager access start as auditees; requested_role holds the access
+-- they asked for until a manager approves or denies it.
+
+alter table public.users
+  add column requested_role text check (requested_role in ('auditor', 'manager')),
+  add column role_requested_at timestamptz;
+
+create index users_role_requests_idx on public.users (role_requested_at) where requested_role is not null;
@@ -0,0 +1,15 @@
+-- Sessions become device sign-ins: the access token in `token` lives for minutes and is rotated on
+-- every refresh, while the refresh token (stored only as a SHA-256 hash) keeps the sign-in alive.
+-- `id` stays the same across rotations so a session can be listed and revoked.
+
+alter table public.sessions
+  add column id uuid not null default gen_random_uuid(),
+  add column refresh_token_hash text,
+  add column refresh_expires_at timestamptz,
+  add column last_seen_at timestamptz,
+  add column ip text,
+  add column user_agent text,
+  add constraint sessions_id_key unique (id);
+
+create unique index sessions_refresh_token_hash_key on public.sessions (refresh_token_hash)
+  where refresh_token_hash is not null;
@@ -0,0 +1,33 @@
+-- Organisation-wide settings edited by managers from the Settings tab: which email domains may
+-- sign up, the department catalogue and which departments are confidential, session and OTP
+-- lifetimes, and the names shown in the app and in emails. The edge function keeps a single row
+-- with id 'default'; the seed reproduces the rules that used to be hard-coded.
+
+create table public.organisation_settings (
+  id text primary key,
+  organisation_name text not null,
+  product_name text not null,
+  logo_url text,
+  allowed_email_domains text[] not null check (cardinality(allowed_email_domains) > 0),
+  departments text[] not null check (cardinality(departments) > 0),
+  confidential_departments text[] not null default '{}',
+  otp_expiry_minutes integer not null check (otp_expiry_minutes between 1 and 60),
+  access_token_minutes integer not null check (access_token_minutes between 5 and 60),
+  refresh_idle_days integer not null check (refresh_idle_days between 1 and 30),
+  session_absolute_days integer not null check (session_absolute_days between refresh_idle_days and 90),
+  idle_timeout_minutes integer not null check (idle_timeout_minutes between 2 and 480),
+  updated_at timestamptz not null default now(),
+  updated_by uuid references public.users (id) on delete set null
+);
+
+insert into public.organisation_settings (
+  id, organisation_name, product_name, allowed_email_domains, departments, confidential_departments,
+  otp_expiry_minutes, access_token_minutes, refresh_idle_days, session_absolute_days, idle_timeout_minutes
+) values (
+  'default', 'Ecobank', 'ADERM', '{ecobank.com}',
+  '{Finance,"Human Resources",IT,Legal,Operations,Marketing,Sales,Procurement,Compliance}',
+  '{"Human Resources"}',
+  10, 15, 7, 30, 30
+);
+
+alter table public.organisation_settings enable row level security;
@@ -0,0 +1,45 @@
+-- Organisations (affiliates) that share one deployment but must not see each other's data.
+-- Each row of organisation_settings is an organisation; 'default' is the one that existed before
+-- and keeps every existing user, request, document and email. Users belong to the organisation
+-- whose allowed email domains match their address, so a domain may only be allowed by one
+-- organisation (the edge function enforces this when settings are saved).
+
+alter table public.users
+  add column organisation_id text not null default 'default' references public.organisation_settings (id),
+  -- Managers who can report across every organisation and add new ones. Only a group manager can
+  -- grant this, so the first one comes from the GROUP_MANAGER_EMAILS secret (applied when that
+  -- manager signs in) or from SQL:
+  --   update public.users set group_manager = true where email = '<manager email>' and role = 'manager';
+  add column group_manager boolean not null default false;
+alter table public.users alter column organisation_id drop default;
+create index users_organisation_idx on public.users (organisation_id);
+
+alter table public.requests
+  add column organisation_id text not null default 'default' references public.organisation_settings (id);
+alter table public.requests alter column organisation_id drop default;
+create index requests_organisation_status_due_idx on public.requests (organisation_id, status, due_date);
+
+alter table public.documents
+  add column organisation_id text not null default 'default' references public.organisation_settings (id);
+alter table public.documents alter column organisation_id drop default;
+
+alter table public.emails
+  add column organisation_id text not null default 'default' references public.organisation_settings (id);
+alter table public.emails alter column organisation_id drop default;
+create index emails_organisation_sent_at_idx on public.emails (organisation_id, sent_at desc);
+
+-- Left empty on existing entries: their hashes were computed without an organisation, and
+-- backfilling would break the chain. They belong to the default organisation.
+alter table public.audit_logs
+  add column organisation_id text references public.organisation_settings (id);
+create index audit_logs_organisation_idx on public.audit_logs (organisation_id, id desc);
+
+drop view public.audit_log_entries;
+create view public.audit_log_entries with (security_invoker = true) as
+select
+  l.id, l.action, l.user_id, l.request_id, l.document_id, l.engagement_id, l."timestamp", l.details,
+  l.prev_hash, l.hash,
+  coalesce(l.organisation_id, 'default') as organisation_id,
+  r.department
+from public.audit_logs l
+left join public.requests r on r.id = l.request_id;
@@ -0,0 +1,16 @@
+-- Per-request confidentiality and access lists, replacing the hr_confidential flag that was stored
+-- but never enforced. A request is at least as confidential as its department; the lists name the
+-- email addresses or roles allowed more than the level gives them. The edge function enforces both
+-- (see request-access.tsx).
+
+alter table public.requests
+  add column confidentiality text not null default 'standard'
+    check (confidentiality in ('standard', 'confidential', 'restricted')),
+  -- Who may see the request itself, its documents and discussion, and change its status
+  add column view_access text[] not null default '{}',
+  add column document_access text[] not null default '{}',
+  add column status_access text[] not null default '{}';
+
+update public.requests set confidentiality = 'confidential' where hr_confidential;
+
+alter table public.requests drop column hr_confidential;
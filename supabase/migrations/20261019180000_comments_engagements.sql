@@ -0,0 +1,65 @@
+-- Engagements and request comments, which were still JSON values in kv_store_fcebfd37. Copy
+-- existing ones across with supabase/scripts/migrate_kv_to_tables.sql after applying this migration.
+-- OTP codes and reminder markers stay in the KV store: they are short-lived and keyed by name.
+
+create table public.engagements (
+  id text primary key,
+  organisation_id text not null references public.organisation_settings (id),
+  name text not null,
+  period text not null,
+  scope text not null default '',
+  lead_auditor_email text not null,
+  lead_auditor_id uuid references public.users (id) on delete set null,
+  team_emails text[] not null default '{}',
+  status text not null check (status in ('planning', 'fieldwork', 'reporting', 'closed')),
+  start_date date not null,
+  end_date date not null,
+  created_by uuid references public.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (end_date >= start_date)
+);
+
+create index engagements_organisation_start_idx on public.engagements (organisation_id, start_date desc);
+
+-- Existing requests may point at engagements that are only copied by the script, so the key is
+-- checked for new rows now and validated by the script once the engagements are in place
+alter table public.requests
+  add constraint requests_engagement_id_fkey foreign key (engagement_id) references public.engagements (id) not valid;
+
+create table public.comments (
+  id text primary key,
+  request_id text not null references public.requests (id) on delete cascade,
+  -- Comments on one document; null for the request as a whole
+  document_id text references public.documents (id) on delete set null,
+  -- Replies point at the top of their thread
+  parent_id text references public.comments (id) on delete cascade deferrable initially deferred,
+  author_id uuid references public.users (id) on delete set null,
+  author_name text not null,
+  author_role text not null,
+  body text not null,
+  mentions text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  edited_at timestamptz
+);
+
+create index comments_request_created_idx on public.comments (request_id, created_at);
+
+-- Request status and checklist progress rolled up per engagement, so a list of engagements needs
+-- one query. Matches getEngagementProgress in engagements.tsx; overdue means due before today.
+create view public.engagement_progress with (security_invoker = true) as
+select r.engagement_id,
+       r.organisation_id,
+       count(*)::integer as request_count,
+       (count(*) filter (where r.status = 'approved'))::integer as approved,
+       (count(*) filter (where r.status not in ('approved', 'cancelled')))::integer as open,
+       (count(*) filter (where r.status not in ('approved', 'cancelled') and r.due_date < current_date))::integer as overdue,
+       round(100.0 * count(*) filter (where r.status = 'approved') / count(*))::integer as percent_complete,
+       coalesce(sum(jsonb_array_length(r.items)), 0)::integer as items_total,
+       coalesce(sum((select count(*) from jsonb_array_elements(r.items) i where i->>'status' = 'approved')), 0)::integer as items_approved
+from public.requests r
+where r.engagement_id is not null
+group by r.engagement_id, r.organisation_id;
+
+alter table public.engagements enable row level security;
+alter table public.comments enable row level security;
@@ -0,0 +1,11 @@
+-- A request may only belong to an engagement of its own organisation. The edge function already
+-- checks this when a request is created; the key makes the database refuse it too. Like
+-- requests_engagement_id_fkey it is validated by supabase/scripts/migrate_kv_to_tables.sql once
+-- engagements have been copied out of the KV store.
+
+alter table public.engagements
+  add constraint engagements_id_organisation_key unique (id, organisation_id);
+
+alter table public.requests
+  add constraint requests_engagement_organisation_fkey foreign key (engagement_id, organisation_id)
+    references public.engagements (id, organisation_id) not valid;
@@ -0,0 +1,74 @@
+-- One hash chain per organisation, appended by the database instead of the edge function.
+-- The edge function used to read the newest entry, hash on top of it and retry when another writer
+-- took the id first. Under load that failed after the change being audited was already saved, and
+-- every organisation's writes contended for the same chain.
+--
+-- append_audit_log now takes a per-organisation lock, gives the entry the next sequence number in
+-- its organisation's chain and links it in one transaction. The edge function still hashes the
+-- entry's contents (content_hash, see functions/server/audit-chain.tsx); the database hashes the
+-- link: sha256 of "<organisation_id>:<sequence>:<prev_hash>:<content_hash>".
+--
+-- Entries already chained by the edge function keep their hashes but, like those from before
+-- hashing, sit before the start of the new chains.
+
+create sequence public.audit_logs_id_seq owned by public.audit_logs.id;
+select setval('public.audit_logs_id_seq', greatest((select max(id) from public.audit_logs), 1),
+              (select max(id) from public.audit_logs) is not null);
+alter table public.audit_logs alter column id set default nextval('public.audit_logs_id_seq');
+
+alter table public.audit_logs
+  add column sequence bigint,
+  add column content_hash text,
+  add constraint audit_logs_sequence_check check ((sequence is null) = (content_hash is null));
+
+create unique index audit_logs_organisation_sequence_idx
+  on public.audit_logs (organisation_id, sequence) where sequence is not null;
+
+create function public.append_audit_log(entry jsonb, entry_content_hash text)
+returns public.audit_logs
+language plpgsql
+set search_path = public
+as $$
+declare
+  chain text := coalesce(entry->>'organisation_id', 'default');
+  last_sequence bigint;
+  last_hash text;
+  next_sequence bigint;
+  previous text;
+  appended public.audit_logs;
+begin
+  -- Writers to the same chain queue here until the transaction ends; other chains are not held up
+  perform pg_advisory_xact_lock(hashtext('audit_logs:' || chain));
+  select l.sequence, l.hash into last_sequence, last_hash
+  from public.audit_logs l
+  where l.organisation_id = chain and l.sequence is not null
+  order by l.sequence desc
+  limit 1;
+  next_sequence := coalesce(last_sequence, 0) + 1;
+  previous := coalesce(last_hash, repeat('0', 64));
+  insert into public.audit_logs (
+    organisation_id, sequence, action, user_id, request_id, document_id, engagement_id, "timestamp", details,
+    content_hash, prev_hash, hash
+  ) values (
+    chain, next_sequence, entry->>'action', entry->>'user_id', entry->>'request_id', entry->>'document_id',
+    entry->>'engagement_id', (entry->>'timestamp')::timestamptz, coalesce(entry->'details', '{}'),
+    entry_content_hash, previous,
+    encode(sha256(convert_to(chain || ':' || next_sequence || ':' || previous || ':' || entry_content_hash, 'UTF8')), 'hex')
+  )
+  returning * into appended;
+  return appended;
+end;
+$$;
+
+revoke execute on function public.append_audit_log(jsonb, text) from public, anon, authenticated;
+grant execute on function public.append_audit_log(jsonb, text) to service_role;
+
+drop view public.audit_log_entries;
+create view public.audit_log_entries with (security_invoker = true) as
+select
+  l.id, l.action, l.user_id, l.request_id, l.document_id, l.engagement_id, l."timestamp", l.details,
+  l.sequence, l.content_hash, l.prev_hash, l.hash,
+  coalesce(l.organisation_id, 'default') as organisation_id,
+  r.department
+from public.audit_logs l
+left join public.requests r on r.id = l.request_id;
@@ -0,0 +1,10 @@
+-- The address that may take the manager role at signup while an organisation has no active
+-- manager. Anyone else asking for the auditor or manager role waits as an auditee until a manager
+-- approves them, so the first signup on a new domain can no longer make itself manager.
+-- A group manager names the first manager when adding an organisation. Addresses in the
+-- GROUP_MANAGER_EMAILS secret qualify in every organisation, which covers a fresh installation;
+-- otherwise name one from SQL:
+--   update public.organisation_settings set first_manager_email = '<manager email>' where id = 'default';
+
+alter table public.organisation_settings
+  add column first_manager_email text check (first_manager_email = lower(first_manager_email));
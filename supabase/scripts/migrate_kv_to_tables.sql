@@ -0,0 +1,209 @@
+-- One-shot copy of users, engagements, requests, documents, comments, audit logs, emails and
+-- sessions from kv_store_fcebfd37 into the relational tables created by
+-- migrations/20261019090000_relational_schema.sql and 20261019180000_comments_engagements.sql.
+--
+-- Run it once after applying the migrations and before deploying the edge function that reads the
+-- new tables:
+--   psql "$SUPABASE_DB_URL" -v ON_ERROR_STOP=1 -f supabase/scripts/migrate_kv_to_tables.sql
+--
+-- It runs in a single transaction and skips rows that already exist, so it is safe to re-run.
+-- The KV rows are left in place; delete them once the new tables have been checked.
+
+begin;
+
+-- Everything in the KV store predates organisations and belongs to the default one, apart from
+-- engagements, which recorded their organisation.
+
+-- Users: only profiles that still have an auth account can satisfy the foreign key
+insert into public.users (id, email, name, role, email_verified, created_at, organisation_id)
+select (kv.value->>'id')::uuid,
+       kv.value->>'email',
+       coalesce(nullif(kv.value->>'name', ''), kv.value->>'email'),
+       kv.value->>'role',
+       coalesce((kv.value->>'email_verified')::boolean, false),
+       coalesce((kv.value->>'created_at')::timestamptz, now()),
+       'default'
+from public.kv_store_fcebfd37 kv
+join auth.users au on au.id::text = kv.value->>'id'
+where kv.key like 'user:%'
+on conflict do nothing;
+
+-- References to users that were not copied are cleared rather than failing the copy
+create temporary table kv_user_ids on commit drop as select id::text as id from public.users;
+
+insert into public.engagements (
+  id, organisation_id, name, period, scope, lead_auditor_email, lead_auditor_id, team_emails, status,
+  start_date, end_date, created_by, created_at, updated_at
+)
+select kv.value->>'id',
+       coalesce(kv.value->>'organisation_id', 'default'),
+       kv.value->>'name',
+       kv.value->>'period',
+       coalesce(kv.value->>'scope', ''),
+       kv.value->>'lead_auditor_email',
+       (select id::uuid from kv_user_ids where id = kv.value->>'lead_auditor_id'),
+       coalesce(array(select jsonb_array_elements_text(kv.value->'team_emails')), '{}'),
+       coalesce(kv.value->>'status', 'planning'),
+       (kv.value->>'start_date')::date,
+       (kv.value->>'end_date')::date,
+       (select id::uuid from kv_user_ids where id = kv.value->>'created_by'),
+       coalesce((kv.value->>'created_at')::timestamptz, now()),
+       coalesce((kv.value->>'updated_at')::timestamptz, (kv.value->>'created_at')::timestamptz, now())
+from public.kv_store_fcebfd37 kv
+where kv.key like 'engagement:%'
+on conflict do nothing;
+
+insert into public.requests (
+  id, title, description, due_date, status, department, created_by, assigned_to, assigned_to_email,
+  pending_assignment, confidentiality, cc_emails, items, engagement_id, rejection, submitted_at,
+  submitted_by, submission_attestation, created_at, updated_at, organisation_id
+)
+select kv.value->>'id',
+       kv.value->>'title',
+       coalesce(kv.value->>'description', ''),
+       (kv.value->>'due_date')::date,
+       kv.value->>'status',
+       kv.value->>'department',
+       (select id::uuid from kv_user_ids where id = kv.value->>'created_by'),
+       (select id::uuid from kv_user_ids where id = kv.value->>'assigned_to'),
+       kv.value->>'assigned_to_email',
+       -- A request whose assignee was not copied goes back to waiting for them to sign up
+       coalesce((kv.value->>'pending_assignment')::boolean, false)
+         or not exists (select 1 from kv_user_ids where id = kv.value->>'assigned_to'),
+       case when coalesce((kv.value->>'hr_confidential')::boolean, false) then 'confidential' else 'standard' end,
+       coalesce(array(select jsonb_array_elements_text(kv.value->'cc_emails')), '{}'),
+       coalesce(kv.value->'items', '[]'),
+       (select e.id from public.engagements e where e.id = kv.value->>'engagement_id' and e.organisation_id = 'default'),
+       kv.value->'rejection',
+       (kv.value->>'submitted_at')::timestamptz,
+       (select id::uuid from kv_user_ids where id = kv.value->>'submitted_by'),
+       kv.value->>'submission_attestation',
+       coalesce((kv.value->>'created_at')::timestamptz, now()),
+       coalesce((kv.value->>'updated_at')::timestamptz, (kv.value->>'created_at')::timestamptz, now()),
+       'default'
+from public.kv_store_fcebfd37 kv
+where kv.key like 'request:%'
+on conflict do nothing;
+
+-- superseded_by is deferred, so versions can be copied in any order within the transaction
+insert into public.documents (
+  id, request_id, evidence_id, item_id, version, filename, file_path, file_url, uploaded_by,
+  uploaded_at, comments, superseded_by, superseded_at, review_status, review_note, reviewed_by,
+  reviewed_at, organisation_id
+)
+select kv.value->>'id',
+       kv.value->>'request_id',
+       coalesce(kv.value->>'evidence_id', kv.value->>'id'),
+       kv.value->>'item_id',
+       coalesce((kv.value->>'version')::integer, 1),
+       kv.value->>'filename',
+       kv.value->>'file_path',
+       kv.value->>'file_url',
+       (select id::uuid from kv_user_ids where id = kv.value->>'uploaded_by'),
+       coalesce((kv.value->>'uploaded_at')::timestamptz, now()),
+       coalesce(kv.value->>'comments', ''),
+       kv.value->>'superseded_by',
+       (kv.value->>'superseded_at')::timestamptz,
+       kv.value->>'review_status',
+       kv.value->>'review_note',
+       (select id::uuid from kv_user_ids where id = kv.value->>'reviewed_by'),
+       (kv.value->>'reviewed_at')::timestamptz,
+       'default'
+from public.kv_store_fcebfd37 kv
+where kv.key like 'document:%'
+  and exists (select 1 from public.requests r where r.id = kv.value->>'request_id')
+on conflict do nothing;
+
+-- parent_id is deferred like superseded_by; comments on documents that were not copied are kept
+-- on the request as a whole
+insert into public.comments (
+  id, request_id, document_id, parent_id, author_id, author_name, author_role, body, mentions,
+  created_at, edited_at
+)
+select kv.value->>'id',
+       kv.value->>'request_id',
+       (select d.id from public.documents d where d.id = kv.value->>'document_id'),
+       kv.value->>'parent_id',
+       (select id::uuid from kv_user_ids where id = kv.value->>'author_id'),
+       coalesce(kv.value->>'author_name', ''),
+       coalesce(kv.value->>'author_role', ''),
+       coalesce(kv.value->>'body', ''),
+       coalesce(array(select jsonb_array_elements_text(kv.value->'mentions')), '{}'),
+       coalesce((kv.value->>'created_at')::timestamptz, now()),
+       (kv.value->>'edited_at')::timestamptz
+from public.kv_store_fcebfd37 kv
+where kv.key like 'comment:%'
+  and exists (select 1 from public.requests r where r.id = kv.value->>'request_id')
+on conflict do nothing;
+
+-- Audit logs have no natural key, so they are only copied into an empty table. They are numbered
+-- in time order and left unhashed, ahead of the hash chains that new entries start.
+insert into public.audit_logs (id, action, user_id, request_id, document_id, engagement_id, "timestamp", details)
+select row_number() over (order by kv.value->>'timestamp'),
+       kv.value->>'action',
+       coalesce(kv.value->>'user_id', 'system'),
+       kv.value->>'request_id',
+       kv.value->>'document_id',
+       kv.value->>'engagement_id',
+       coalesce((kv.value->>'timestamp')::timestamptz, now()),
+       coalesce(kv.value->'details', '{}')
+from public.kv_store_fcebfd37 kv
+where kv.key like 'audit_log:%'
+  and not exists (select 1 from public.audit_logs);
+
+-- New entries are numbered after the copied ones
+select setval('public.audit_logs_id_seq', greatest((select max(id) from public.audit_logs), 1),
+              (select max(id) from public.audit_logs) is not null);
+
+-- Seed last_login_at from the sign-ins in the copied audit trail, keeping any later sign-in already recorded
+update public.users u
+set last_login_at = l.last_login
+from (
+  select user_id, max("timestamp") as last_login
+  from public.audit_logs
+  where action = 'user_login_otp'
+  group by user_id
+) l
+where l.user_id = u.id::text
+  and (u.last_login_at is null or u.last_login_at < l.last_login);
+
+-- Older email records store "to" as a single address, newer ones as a list
+insert into public.emails (id, recipients, cc, subject, body, request_id, sent_by, sent_at, status, email_type, organisation_id)
+select kv.value->>'id',
+       case jsonb_typeof(kv.value->'to')
+         when 'array' then array(select jsonb_array_elements_text(kv.value->'to'))
+         else array[kv.value->>'to']
+       end,
+       coalesce(array(select jsonb_array_elements_text(kv.value->'cc')), '{}'),
+       coalesce(kv.value->>'subject', ''),
+       kv.value->>'body',
+       (select r.id from public.requests r where r.id = kv.value->>'request_id'),
+       (select id::uuid from kv_user_ids where id = kv.value->>'sent_by'),
+       coalesce((kv.value->>'sent_at')::timestamptz, now()),
+       coalesce(kv.value->>'status', 'sent'),
+       coalesce(kv.value->>'email_type', 'unknown'),
+       'default'
+from public.kv_store_fcebfd37 kv
+where kv.key like 'email:%'
+on conflict do nothing;
+
+-- Only sessions that have not expired are worth keeping
+insert into public.sessions (token, user_id, email, login_method, created_at, expires_at)
+select kv.key,
+       (kv.value->>'user_id')::uuid,
+       kv.value->>'email',
+       coalesce(kv.value->>'login_method', 'otp'),
+       (kv.value->>'created_at')::timestamptz,
+       (kv.value->>'expires_at')::timestamptz
+from public.kv_store_fcebfd37 kv
+where kv.key like 'otp\_session\_%'
+  and (kv.value->>'expires_at')::timestamptz > now()
+  and exists (select 1 from kv_user_ids where id = kv.value->>'user_id')
+on conflict do nothing;
+
+-- Every request now points at a copied engagement of its organisation, so the keys added as not
+-- valid can be checked
+alter table public.requests validate constraint requests_engagement_id_fkey;
+alter table public.requests validate constraint requests_engagement_organisation_fkey;
+
+commit;